@@ -0,0 +1,26 @@
+import { redirect } from 'next/navigation'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { getAdmin } from '@/lib/admin'
+
+export const dynamic = 'force-dynamic'
+
+// Checked on the server as well as in middleware.ts, whose token is only as
+// fresh as the last session check
+export default async function AdminLayout({
+  children,
+}: {
+  children: React.ReactNode
+}) {
+  const session = await getServerSession(authOptions)
+
+  if (!session?.user?.id) {
+    redirect('/login')
+  }
+
+  if (!(await getAdmin(session.user.id))) {
+    redirect('/')
+  }
+
+  return children
+}
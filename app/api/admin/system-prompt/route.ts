@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getAdmin, parseSystemPrompt, updateSystemPrompt } from '@/lib/admin';
+import { getSystemSettings } from '@/lib/assistant/chat';
+
+export const dynamic = 'force-dynamic';
+
+const toResponse = (settings: { systemPrompt: string; updatedBy: string; updatedAt: Date }) => ({
+  systemPrompt: settings.systemPrompt,
+  updatedBy: settings.updatedBy,
+  updatedAt: settings.updatedAt.toISOString(),
+});
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const admin = await getAdmin(session.user.id);
+
+    if (!admin) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const settings = await getSystemSettings();
+    return NextResponse.json({ settings: toResponse(settings), canModify: admin.canModifySystemPrompt });
+  } catch (error) {
+    console.error('System prompt API error:', error);
+    return NextResponse.json({ error: 'Failed to fetch the system prompt' }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const admin = await getAdmin(session.user.id);
+
+    if (!admin?.canModifySystemPrompt) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const parsed = parseSystemPrompt(body);
+
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const settings = await updateSystemPrompt(admin, parsed.systemPrompt);
+    return NextResponse.json({ settings: toResponse(settings), canModify: true });
+  } catch (error) {
+    console.error('System prompt update error:', error);
+    return NextResponse.json({ error: 'Failed to update the system prompt' }, { status: 500 });
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getAdmin, parseToolUpdate, setToolEnabled } from '@/lib/admin';
+
+export const dynamic = 'force-dynamic';
+
+// Enables or disables an assistant tool for everyone
+export async function PUT(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const admin = await getAdmin(session.user.id);
+
+    if (!admin) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const parsed = parseToolUpdate(body);
+
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const tool = await setToolEnabled(admin, params.id, parsed.enabled);
+
+    if (!tool) {
+      return NextResponse.json({ error: 'Tool not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ tool });
+  } catch (error) {
+    console.error('Tool update error:', error);
+    return NextResponse.json({ error: 'Failed to update tool' }, { status: 500 });
+  }
+}
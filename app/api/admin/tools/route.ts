@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getAdmin, listTools } from '@/lib/admin';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!(await getAdmin(session.user.id))) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const tools = await listTools();
+    return NextResponse.json({ tools });
+  } catch (error) {
+    console.error('Tools API error:', error);
+    return NextResponse.json({ error: 'Failed to fetch tools' }, { status: 500 });
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { AdminError, getAdmin, parsePermissionUpdate, updateUserPermissions } from '@/lib/admin';
+
+export const dynamic = 'force-dynamic';
+
+// Grants or revokes permission flags on another user
+export async function PUT(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const admin = await getAdmin(session.user.id);
+
+    if (!admin) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    // Admins cannot lock themselves out, so there is always one admin left
+    if (params.id === admin.id) {
+      return NextResponse.json({ error: 'You cannot change your own permissions' }, { status: 400 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const parsed = parsePermissionUpdate(body);
+
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const user = await updateUserPermissions(admin, params.id, parsed.permissions);
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ user });
+  } catch (error) {
+    if (error instanceof AdminError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('User permissions update error:', error);
+    return NextResponse.json({ error: 'Failed to update permissions' }, { status: 500 });
+  }
+}
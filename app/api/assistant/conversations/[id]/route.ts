@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+import { getConversation } from '@/lib/assistant/chat';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(_request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const conversation = await getConversation(session.user.id, params.id);
+
+    if (!conversation) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ conversation });
+  } catch (error) {
+    console.error('Conversation API error:', error);
+    return NextResponse.json({ error: 'Failed to fetch conversation' }, { status: 500 });
+  }
+}
+
+// Charts pinned from the conversation stay on the dashboard
+export async function DELETE(_request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { count } = await prisma.conversation.deleteMany({
+      where: { id: params.id, userId: session.user.id },
+    });
+
+    if (count === 0) {
+      return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Conversation delete error:', error);
+    return NextResponse.json({ error: 'Failed to delete conversation' }, { status: 500 });
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { QboClient } from '@/lib/qbo';
+import { resolveRequestDateRange } from '@/lib/qbo/periods';
+import { askAssistant, listConversations, parseQuestion } from '@/lib/assistant/chat';
+import { ModelProviderError, getModelProvider } from '@/lib/assistant/providers';
+import { getEnabledTools } from '@/lib/assistant/tools';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const conversations = await listConversations(session.user.id);
+    return NextResponse.json({ conversations });
+  } catch (error) {
+    console.error('Conversations API error:', error);
+    return NextResponse.json({ error: 'Failed to fetch conversations' }, { status: 500 });
+  }
+}
+
+// Starts a conversation with its first question; takes the same realm and date
+// parameters as /api/dashboard/general, which tools use when no period is asked for
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const parsed = parseQuestion(body);
+
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    // Before any QBO requests, so a misconfigured assistant fails straight away
+    const provider = getModelProvider();
+
+    const { searchParams } = new URL(request.url);
+    const client = await QboClient.forUser(session.user.id, searchParams.get('realmId') || undefined);
+
+    if (!client) {
+      return NextResponse.json({ error: 'No QBO connection found' }, { status: 400 });
+    }
+
+    const range = await resolveRequestDateRange(client, searchParams);
+
+    if (!range) {
+      return NextResponse.json({ error: 'Invalid date range' }, { status: 400 });
+    }
+
+    const result = await askAssistant({
+      userId: session.user.id,
+      conversationId: null,
+      question: parsed.question,
+      client,
+      range,
+      provider,
+      tools: await getEnabledTools(),
+    });
+
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    console.error('Assistant error:', error);
+    if (error instanceof ModelProviderError) {
+      // No status: the provider is not configured, rather than failing upstream
+      return NextResponse.json(
+        { error: `The assistant is unavailable: ${error.message}` },
+        { status: error.status === null ? 503 : 502 }
+      );
+    }
+    return NextResponse.json({ error: 'Failed to answer the question' }, { status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { pinChart } from '@/lib/assistant/chat';
+
+export const dynamic = 'force-dynamic';
+
+// Pins the chart at `index` in an answer to the dashboard as a Widget
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const index = body?.index ?? 0;
+
+    if (!Number.isInteger(index) || index < 0) {
+      return NextResponse.json({ error: 'index must be a chart index' }, { status: 400 });
+    }
+
+    const widget = await pinChart(session.user.id, params.id, index);
+
+    if (!widget) {
+      return NextResponse.json({ error: 'Chart not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ widget }, { status: 201 });
+  } catch (error) {
+    console.error('Pin chart error:', error);
+    return NextResponse.json({ error: 'Failed to pin chart' }, { status: 500 });
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { QboClient } from '@/lib/qbo';
+import { fetchBudgetGrid, parseBudgetCsv, resolveBudgetYear } from '@/lib/qbo/budgets';
+
+export const dynamic = 'force-dynamic';
+
+// Reads a CSV budget into grid lines for the fiscal year, matched to the P&L
+// accounts. Nothing is saved: the editor merges the lines and saves the grid.
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const client = await QboClient.forUser(session.user.id, searchParams.get('realmId') || undefined);
+
+    if (!client) {
+      return NextResponse.json({ error: 'No QBO connection found' }, { status: 400 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const year = await resolveBudgetYear(client, body?.year);
+
+    if (!year) {
+      return NextResponse.json({ error: 'Invalid fiscal year' }, { status: 400 });
+    }
+
+    if (typeof body?.csv !== 'string' || !body.csv.trim()) {
+      return NextResponse.json({ error: 'CSV text is required' }, { status: 400 });
+    }
+
+    const grid = await fetchBudgetGrid(client, year);
+    const imported = parseBudgetCsv(body.csv, grid.months, grid.accounts);
+
+    return NextResponse.json(imported);
+  } catch (error) {
+    console.error('Budget import error:', error);
+    return NextResponse.json({ error: 'Failed to import budget' }, { status: 500 });
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { QboClient } from '@/lib/qbo';
+import { fetchBudgetGrid, parseBudgetGridLines, resolveBudgetYear, saveBudgetGrid } from '@/lib/qbo/budgets';
+import { monthsInRange } from '@/lib/qbo/periods';
+
+export const dynamic = 'force-dynamic';
+
+// The company's in-app budget for one fiscal year (`year` is the calendar year it
+// starts in; defaults to the current fiscal year), with its P&L accounts and
+// last year's actuals and budget for copying forward
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+
+    const client = await QboClient.forUser(session.user.id, searchParams.get('realmId') || undefined, {
+      refreshCache: searchParams.get('refresh') === '1',
+    });
+
+    if (!client) {
+      return NextResponse.json({ error: 'No QBO connection found' }, { status: 400 });
+    }
+
+    const year = await resolveBudgetYear(client, searchParams.get('year'));
+
+    if (!year) {
+      return NextResponse.json({ error: 'Invalid fiscal year' }, { status: 400 });
+    }
+
+    const grid = await fetchBudgetGrid(client, year);
+
+    return NextResponse.json({ ...grid, syncedAt: client.syncedAt });
+  } catch (error) {
+    console.error('Budgets API error:', error);
+    return NextResponse.json({ error: 'Failed to fetch budget' }, { status: 500 });
+  }
+}
+
+// Replaces the fiscal year's budget with the lines sent; accounts left out are
+// no longer budgeted
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const client = await QboClient.forUser(session.user.id, searchParams.get('realmId') || undefined);
+
+    if (!client) {
+      return NextResponse.json({ error: 'No QBO connection found' }, { status: 400 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const year = await resolveBudgetYear(client, body?.year);
+
+    if (!year) {
+      return NextResponse.json({ error: 'Invalid fiscal year' }, { status: 400 });
+    }
+
+    const lines = parseBudgetGridLines(body, monthsInRange(year).length);
+
+    if (!lines) {
+      return NextResponse.json(
+        { error: 'Each line needs an account id, an account name and one amount per month of the fiscal year' },
+        { status: 400 }
+      );
+    }
+
+    await saveBudgetGrid(client.realmId, year, lines);
+
+    return NextResponse.json({ fiscalYear: year, lines });
+  } catch (error) {
+    console.error('Budget save error:', error);
+    return NextResponse.json({ error: 'Failed to save budget' }, { status: 500 });
+  }
+}
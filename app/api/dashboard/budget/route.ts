@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { QboClient } from '@/lib/qbo';
+import { fetchBudgetVsActual } from '@/lib/qbo/budgets';
+import { resolveRequestDateRange } from '@/lib/qbo/periods';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+
+    // Get a QBO client for the selected company (defaults to the most recently used one)
+    const client = await QboClient.forUser(session.user.id, searchParams.get('realmId') || undefined, {
+      refreshCache: searchParams.get('refresh') === '1',
+    });
+
+    if (!client) {
+      return NextResponse.json({ error: 'No QBO connection found' }, { status: 400 });
+    }
+
+    // Same date parameters as /api/dashboard/general
+    const range = await resolveRequestDateRange(client, searchParams);
+
+    if (!range) {
+      return NextResponse.json({ error: 'Invalid date range' }, { status: 400 });
+    }
+
+    // `budgetId` picks one of the company's budgets; by default the one that
+    // covers most of the period is used
+    const budgetVsActual = await fetchBudgetVsActual(client, range, searchParams.get('budgetId'));
+
+    return NextResponse.json({
+      ...budgetVsActual,
+      timeframe: {
+        from: range.from,
+        to: range.to,
+        type: range.type
+      },
+      syncedAt: client.syncedAt
+    });
+
+  } catch (error) {
+    console.error('Budget API error:', error);
+    return NextResponse.json({ error: 'Failed to fetch budget data' }, { status: 500 });
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { QboClient } from '@/lib/qbo';
+import { parseReport, extractCashFlowSummary } from '@/lib/qbo/reports';
+import { buildStatement } from '@/lib/qbo/statements';
+import { generateCashFlowTrend, isTrendInterval } from '@/lib/qbo/trends';
+import { getFiscalYearStartMonth, resolveRequestDateRange, trendRange } from '@/lib/qbo/periods';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const intervalParam = searchParams.get('interval');
+    const interval = isTrendInterval(intervalParam) ? intervalParam : 'Month';
+
+    // Get a QBO client for the selected company (defaults to the most recently used one)
+    const client = await QboClient.forUser(session.user.id, searchParams.get('realmId') || undefined, {
+      refreshCache: searchParams.get('refresh') === '1',
+    });
+
+    if (!client) {
+      return NextResponse.json({ error: 'No QBO connection found' }, { status: 400 });
+    }
+
+    // Same date parameters as /api/dashboard/general
+    const companyInfo = await client.getCompanyInfo();
+    const fiscalYearStartMonth = getFiscalYearStartMonth(companyInfo);
+    const range = await resolveRequestDateRange(client, searchParams, companyInfo);
+
+    if (!range) {
+      return NextResponse.json({ error: 'Invalid date range' }, { status: 400 });
+    }
+
+    const [cashFlowRaw, trendData] = await Promise.all([
+      client.getReport('CashFlow', { start_date: range.from, end_date: range.to }),
+      generateCashFlowTrend(client, trendRange(range, fiscalYearStartMonth), interval),
+    ]);
+
+    const cashFlow = parseReport(cashFlowRaw);
+
+    return NextResponse.json({
+      summary: extractCashFlowSummary(cashFlow),
+      statement: buildStatement(cashFlow),
+      trendData,
+      interval,
+      timeframe: {
+        from: range.from,
+        to: range.to,
+        type: range.type,
+        fiscalYearStartMonth
+      },
+      syncedAt: client.syncedAt
+    });
+
+  } catch (error) {
+    console.error('Cash flow API error:', error);
+    return NextResponse.json({ error: 'Failed to fetch cash flow data' }, { status: 500 });
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { QboClient } from '@/lib/qbo';
+import { fetchCashForecastInputs } from '@/lib/qbo/runway';
+
+export const dynamic = 'force-dynamic';
+
+// The forecast always runs forward from today, so it takes no date parameters
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+
+    // Get a QBO client for the selected company (defaults to the most recently used one)
+    const client = await QboClient.forUser(session.user.id, searchParams.get('realmId') || undefined, {
+      refreshCache: searchParams.get('refresh') === '1',
+    });
+
+    if (!client) {
+      return NextResponse.json({ error: 'No QBO connection found' }, { status: 400 });
+    }
+
+    const forecast = await fetchCashForecastInputs(client);
+
+    return NextResponse.json({
+      ...forecast,
+      syncedAt: client.syncedAt
+    });
+
+  } catch (error) {
+    console.error('Cash forecast API error:', error);
+    return NextResponse.json({ error: 'Failed to fetch cash forecast' }, { status: 500 });
+  }
+}
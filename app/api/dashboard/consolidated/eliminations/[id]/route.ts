@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+import { parseEliminationRule } from '@/lib/qbo/consolidation';
+
+export const dynamic = 'force-dynamic';
+
+export async function PUT(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const rule = parseEliminationRule(body);
+
+    if (!rule) {
+      return NextResponse.json(
+        { error: 'A name and at least one account name are required' },
+        { status: 400 }
+      );
+    }
+
+    // Scope by user so one user can never edit another's rules
+    const { count } = await prisma.eliminationRule.updateMany({
+      where: { id: params.id, userId: session.user.id },
+      data: { name: rule.name, accounts: rule.accounts },
+    });
+
+    if (count === 0) {
+      return NextResponse.json({ error: 'Elimination rule not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ rule: { ...rule, id: params.id } });
+  } catch (error) {
+    console.error('Elimination rule update error:', error);
+    return NextResponse.json({ error: 'Failed to update elimination rule' }, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { count } = await prisma.eliminationRule.deleteMany({
+      where: { id: params.id, userId: session.user.id },
+    });
+
+    if (count === 0) {
+      return NextResponse.json({ error: 'Elimination rule not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Elimination rule delete error:', error);
+    return NextResponse.json({ error: 'Failed to delete elimination rule' }, { status: 500 });
+  }
+}
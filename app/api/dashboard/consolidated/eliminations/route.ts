@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+import { getEliminationRules, parseEliminationRule } from '@/lib/qbo/consolidation';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const rules = await getEliminationRules(session.user.id);
+    return NextResponse.json({ rules });
+  } catch (error) {
+    console.error('Elimination rules API error:', error);
+    return NextResponse.json({ error: 'Failed to fetch elimination rules' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const rule = parseEliminationRule(body);
+
+    if (!rule) {
+      return NextResponse.json(
+        { error: 'A name and at least one account name are required' },
+        { status: 400 }
+      );
+    }
+
+    const created = await prisma.eliminationRule.create({
+      data: {
+        userId: session.user.id,
+        name: rule.name,
+        accounts: rule.accounts,
+      },
+    });
+
+    return NextResponse.json({ rule: { ...rule, id: created.id } }, { status: 201 });
+  } catch (error) {
+    console.error('Elimination rule create error:', error);
+    return NextResponse.json({ error: 'Failed to save elimination rule' }, { status: 500 });
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { fetchTrendReport, isTrendInterval, withPriorYear } from '@/lib/qbo/trends';
+import {
+  consolidateTrend,
+  getConsolidationClients,
+  getEliminationRules,
+  groupSyncedAt,
+} from '@/lib/qbo/consolidation';
+import { DateRange, comparisonRange, resolveTrendRange } from '@/lib/qbo/periods';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const realmIds = (searchParams.get('realmIds') || '').split(',').map(id => id.trim()).filter(Boolean);
+    const applyEliminations = searchParams.get('eliminations') !== 'false';
+    const intervalParam = searchParams.get('interval');
+    const interval = isTrendInterval(intervalParam) ? intervalParam : 'Month';
+
+    const clients = await getConsolidationClients(session.user.id, realmIds, {
+      refreshCache: searchParams.get('refresh') === '1',
+    });
+
+    if (!clients) {
+      return NextResponse.json({ error: 'No QBO connection found' }, { status: 400 });
+    }
+
+    // Trend range follows the fiscal year of the first company in the group
+    const range = await resolveTrendRange(clients[0], searchParams);
+
+    if (!range) {
+      return NextResponse.json({ error: 'Invalid date range' }, { status: 400 });
+    }
+
+    // One summarized P&L request per company
+    const fetchEntities = async (trendRange: DateRange) => {
+      const reports = await Promise.all(clients.map(client => fetchTrendReport(client, trendRange, interval)));
+      return clients.map((client, i) => ({
+        realmId: client.realmId,
+        name: client.realmId,
+        report: reports[i],
+      }));
+    };
+
+    const rules = applyEliminations ? await getEliminationRules(session.user.id) : [];
+
+    let trendData = consolidateTrend(await fetchEntities(range), rules, interval);
+
+    // Year-over-year overlay: the same periods one year earlier
+    const priorRange = searchParams.get('priorYear') === '1' ? comparisonRange(range, 'SAME_PERIOD_LAST_YEAR') : null;
+    if (priorRange) {
+      trendData = withPriorYear(trendData, consolidateTrend(await fetchEntities(priorRange), rules, interval));
+    }
+
+    return NextResponse.json({
+      trendData,
+      interval,
+      year: parseInt(range.to.slice(0, 4)),
+      range: {
+        from: range.from,
+        to: range.to
+      },
+      priorRange: priorRange ? {
+        from: priorRange.from,
+        to: priorRange.to
+      } : null,
+      syncedAt: groupSyncedAt(clients)
+    });
+
+  } catch (error) {
+    console.error('Consolidated monthly API error:', error);
+    return NextResponse.json({ error: 'Failed to fetch consolidated monthly data' }, { status: 500 });
+  }
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import {
+  parseReport,
+  extractBalanceSheetSummary,
+  ProfitLossSummary,
+} from '@/lib/qbo/reports';
+import {
+  consolidateProfitLoss,
+  getConsolidationClients,
+  getEliminationRules,
+  groupSyncedAt,
+} from '@/lib/qbo/consolidation';
+import { resolveRequestDateRange } from '@/lib/qbo/periods';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const realmIds = (searchParams.get('realmIds') || '').split(',').map(id => id.trim()).filter(Boolean);
+    const applyEliminations = searchParams.get('eliminations') !== 'false';
+
+    // One client per company in the group (defaults to every connected company)
+    const clients = await getConsolidationClients(session.user.id, realmIds, {
+      refreshCache: searchParams.get('refresh') === '1',
+    });
+
+    if (!clients) {
+      return NextResponse.json({ error: 'No QBO connection found' }, { status: 400 });
+    }
+
+    // Date presets follow the fiscal year of the first company in the group
+    const range = await resolveRequestDateRange(clients[0], searchParams);
+
+    if (!range) {
+      return NextResponse.json({ error: 'Invalid date range' }, { status: 400 });
+    }
+
+    // Fetch P&L, Balance Sheet, and Company Info for every company in parallel
+    const [entities, rules] = await Promise.all([
+      Promise.all(clients.map(async client => {
+        const [profitLossRaw, balanceSheetRaw, companyInfo] = await Promise.all([
+          client.getReport('ProfitAndLoss', { start_date: range.from, end_date: range.to }),
+          client.getReport('BalanceSheet', { start_date: range.from, end_date: range.to }),
+          client.getCompanyInfo(),
+        ]);
+
+        return {
+          realmId: client.realmId,
+          name: companyInfo.CompanyName || 'Unknown',
+          profitLoss: parseReport(profitLossRaw),
+          cashBalance: extractBalanceSheetSummary(parseReport(balanceSheetRaw)).cashBalance,
+        };
+      })),
+      applyEliminations ? getEliminationRules(session.user.id) : Promise.resolve([]),
+    ]);
+
+    const consolidation = consolidateProfitLoss(entities, rules);
+    const totalCash = entities.reduce((sum, entity) => sum + entity.cashBalance, 0);
+
+    const toKpis = (summary: ProfitLossSummary, cashBalance: number) => ({
+      ...summary,
+      netMargin: summary.revenue > 0 ? (summary.netProfit / summary.revenue) * 100 : 0,
+      cashBalance,
+    });
+
+    return NextResponse.json({
+      entities: consolidation.entities.map((entity, index) => ({
+        realmId: entity.realmId,
+        name: entity.name,
+        kpis: toKpis(entity.summary, entities[index].cashBalance),
+      })),
+      eliminations: {
+        kpis: consolidation.eliminations.summary,
+        entries: consolidation.eliminations.entries,
+      },
+      consolidated: {
+        kpis: toKpis(consolidation.consolidated.summary, totalCash),
+        expenseBreakdown: consolidation.consolidated.expenseBreakdown,
+      },
+      rules,
+      timeframe: {
+        from: range.from,
+        to: range.to,
+        type: range.type
+      },
+      syncedAt: groupSyncedAt(clients)
+    });
+
+  } catch (error) {
+    console.error('Consolidated dashboard API error:', error);
+    return NextResponse.json({ error: 'Failed to fetch consolidated data' }, { status: 500 });
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+import { QboClient } from '@/lib/qbo';
+import { findUnknownAccounts, parseCustomMetric } from '@/lib/qbo/metrics';
+
+export const dynamic = 'force-dynamic';
+
+export async function PUT(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const parsed = parseCustomMetric(body);
+
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const client = await QboClient.forUser(session.user.id, searchParams.get('realmId') || undefined);
+
+    if (!client) {
+      return NextResponse.json({ error: 'No QBO connection found' }, { status: 400 });
+    }
+
+    const unknown = await findUnknownAccounts(client, parsed.expression);
+
+    if (unknown.length > 0) {
+      return NextResponse.json(
+        { error: `No income or expense account matches ${unknown.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // Scope by user so one user can never edit another's metrics
+    const { count } = await prisma.customMetric.updateMany({
+      where: { id: params.id, userId: session.user.id },
+      data: parsed.metric,
+    });
+
+    if (count === 0) {
+      return NextResponse.json({ error: 'Custom metric not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ metric: { ...parsed.metric, id: params.id } });
+  } catch (error) {
+    console.error('Custom metric update error:', error);
+    return NextResponse.json({ error: 'Failed to update custom metric' }, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { count } = await prisma.customMetric.deleteMany({
+      where: { id: params.id, userId: session.user.id },
+    });
+
+    if (count === 0) {
+      return NextResponse.json({ error: 'Custom metric not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Custom metric delete error:', error);
+    return NextResponse.json({ error: 'Failed to delete custom metric' }, { status: 500 });
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+import { QboClient } from '@/lib/qbo';
+import { findUnknownAccounts, getCustomMetrics, parseCustomMetric } from '@/lib/qbo/metrics';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const metrics = await getCustomMetrics(session.user.id);
+    return NextResponse.json({ metrics });
+  } catch (error) {
+    console.error('Custom metrics API error:', error);
+    return NextResponse.json({ error: 'Failed to fetch custom metrics' }, { status: 500 });
+  }
+}
+
+// Formulas are checked for syntax and their accounts against the selected
+// company's chart of accounts before they are saved
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const parsed = parseCustomMetric(body);
+
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const client = await QboClient.forUser(session.user.id, searchParams.get('realmId') || undefined);
+
+    if (!client) {
+      return NextResponse.json({ error: 'No QBO connection found' }, { status: 400 });
+    }
+
+    const unknown = await findUnknownAccounts(client, parsed.expression);
+
+    if (unknown.length > 0) {
+      return NextResponse.json(
+        { error: `No income or expense account matches ${unknown.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const created = await prisma.customMetric.create({
+      data: {
+        userId: session.user.id,
+        ...parsed.metric,
+      },
+    });
+
+    return NextResponse.json({ metric: { ...parsed.metric, id: created.id } }, { status: 201 });
+  } catch (error) {
+    console.error('Custom metric create error:', error);
+    return NextResponse.json({ error: 'Failed to save custom metric' }, { status: 500 });
+  }
+}
@@ -1,7 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
-import { getValidToken, createOAuthClient, getIntuitEnv } from '@/lib/qbo';
+import { QboClient } from '@/lib/qbo';
+import { fetchTrendReport, generateTrendData, isTrendInterval, trendFromReport, withPriorYear } from '@/lib/qbo/trends';
+import { getCustomMetrics, metricKey, withMetrics } from '@/lib/qbo/metrics';
+import { forecastFiscalYear, isForecastMethod, withForecast, FORECAST_HISTORY_MONTHS } from '@/lib/qbo/forecasting';
+import {
+  comparisonRange,
+  getFiscalYearStartMonth,
+  resolveDateRange,
+  resolveTrendRange,
+  trailingMonthsRange,
+} from '@/lib/qbo/periods';
 
 export const dynamic = 'force-dynamic';
 
@@ -14,30 +24,76 @@ export async function GET(request: NextRequest) {
     }
 
     const { searchParams } = new URL(request.url);
-    const year = parseInt(searchParams.get('year') || new Date().getFullYear().toString());
-
-    // Get user's QBO token
-    const token = await getValidToken(session.user.id);
+    const intervalParam = searchParams.get('interval');
+    const interval = isTrendInterval(intervalParam) ? intervalParam : 'Month';
+    const forecastParam = searchParams.get('forecast');
+    const forecastMethod = isForecastMethod(forecastParam) ? forecastParam : null;
+
+    // Get a QBO client for the selected company (defaults to the most recently used one)
+    const client = await QboClient.forUser(session.user.id, searchParams.get('realmId') || undefined, {
+      refreshCache: searchParams.get('refresh') === '1',
+    });
 
-    if (!token?.access_token || !token?.realmId) {
+    if (!client) {
       return NextResponse.json({ error: 'No QBO connection found' }, { status: 400 });
     }
 
-    const { environment } = getIntuitEnv();
-    const base = environment === 'sandbox'
-      ? 'https://sandbox-quickbooks.api.intuit.com'
-      : 'https://quickbooks.api.intuit.com';
+    const range = await resolveTrendRange(client, searchParams);
+
+    if (!range) {
+      return NextResponse.json({ error: 'Invalid date range' }, { status: 400 });
+    }
 
-    const oauthClient = createOAuthClient();
-    oauthClient.setToken(token);
-    const realmId = encodeURIComponent(token.realmId);
+    // One summarized P&L request covers the whole range, custom metrics included
+    const report = await fetchTrendReport(client, range, interval);
+    const metrics = (await getCustomMetrics(session.user.id)).filter(metric => metric.chart);
+    let trendData = withMetrics(trendFromReport(report, interval), report, interval, metrics);
 
-    // Generate monthly trend data
-    const trendData = await generateMonthlyTrendData(oauthClient, realmId, year, base);
+    // Year-over-year overlay: the same periods one year earlier
+    const priorRange = searchParams.get('priorYear') === '1' ? comparisonRange(range, 'SAME_PERIOD_LAST_YEAR') : null;
+    if (priorRange) {
+      trendData = withPriorYear(trendData, await generateTrendData(client, priorRange, interval));
+    }
+
+    // Projection of the rest of the current fiscal year, fitted on complete
+    // months regardless of the range shown; only monthly charts draw it
+    let forecast = null;
+    if (forecastMethod) {
+      const today = new Date();
+      const fiscalYear = resolveDateRange({
+        timeframe: 'YEAR',
+        fiscalYearStartMonth: getFiscalYearStartMonth(await client.getCompanyInfo()),
+        today,
+      });
+      const history = await generateTrendData(client, trailingMonthsRange(FORECAST_HISTORY_MONTHS, today), 'Month');
+      if (fiscalYear) {
+        const projection = forecastFiscalYear(history, fiscalYear, forecastMethod, today);
+        if (interval === 'Month') {
+          trendData = withForecast(trendData, projection, range);
+        }
+        forecast = { method: projection.method, yearEnd: projection.yearEnd };
+      }
+    }
 
     return NextResponse.json({
       trendData,
-      year
+      interval,
+      year: parseInt(range.to.slice(0, 4)),
+      range: {
+        from: range.from,
+        to: range.to
+      },
+      priorRange: priorRange ? {
+        from: priorRange.from,
+        to: priorRange.to
+      } : null,
+      forecast,
+      metrics: metrics.map(metric => ({
+        key: metricKey(metric.id as string),
+        name: metric.name,
+        format: metric.format
+      })),
+      syncedAt: client.syncedAt
     });
 
   } catch (error) {
@@ -45,142 +101,3 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({ error: 'Failed to fetch monthly data' }, { status: 500 });
   }
 }
-
-async function generateMonthlyTrendData(oauthClient: any, realmId: string, year: number, base: string): Promise<Array<{month: string, revenue: number, expenses: number}>> {
-  const trendData = [];
-
-  try {
-    // Process months sequentially with delays to avoid rate limiting
-    for (let month = 1; month <= 12; month++) {
-      const monthStart = new Date(year, month - 1, 1);
-      const monthEnd = new Date(year, month, 0);
-      const fromDate = monthStart.toISOString().split('T')[0];
-      const toDate = monthEnd.toISOString().split('T')[0];
-
-      const profitLossUrl = `${base}/v3/company/${realmId}/reports/ProfitAndLoss?start_date=${fromDate}&end_date=${toDate}`;
-
-      try {
-        const response = await oauthClient.makeApiCall({
-          url: profitLossUrl,
-          method: 'GET',
-          headers: { Accept: 'application/json' },
-        });
-
-        const profitLoss = response.json || JSON.parse(response.body || '{}');
-
-        const { revenue, operatingExpenses, costOfGoodsSold, otherExpenses } = extractProfitLossSummary(profitLoss);
-        const expenses = operatingExpenses + costOfGoodsSold + otherExpenses; // Include both operating expenses and COGS
-
-        trendData.push({
-          month: monthStart.toLocaleDateString('en-US', { month: 'short' }),
-          revenue: Math.abs(revenue),
-          expenses: Math.abs(expenses)
-        });
-      } catch (error: any) {
-        // Handle rate limiting with retry
-        if (error?.response?.status === 429) {
-          console.log(`Rate limited for ${monthStart.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}, waiting before retry...`);
-          const retryAfter = error.response.headers?.['retry-after'] || '1';
-          const waitTime = parseInt(retryAfter) * 1000;
-
-          await new Promise(resolve => setTimeout(resolve, waitTime));
-
-          try {
-            // Retry the request
-            const retryResponse = await oauthClient.makeApiCall({
-              url: profitLossUrl,
-              method: 'GET',
-              headers: { Accept: 'application/json' },
-            });
-
-            const retryProfitLoss = retryResponse.json || JSON.parse(retryResponse.body || '{}');
-
-            const { revenue, operatingExpenses, costOfGoodsSold, otherExpenses } = extractProfitLossSummary(retryProfitLoss);
-            const expenses = operatingExpenses + costOfGoodsSold + otherExpenses;
-
-            trendData.push({
-              month: monthStart.toLocaleDateString('en-US', { month: 'short' }),
-              revenue: Math.abs(revenue),
-              expenses: Math.abs(expenses)
-            });
-          } catch (retryError) {
-            console.error(`Failed retry for ${monthStart.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}:`, retryError);
-            trendData.push({
-              month: monthStart.toLocaleDateString('en-US', { month: 'short' }),
-              revenue: 0,
-              expenses: 0
-            });
-          }
-        } else {
-          console.error(`Error fetching data for ${monthStart.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}:`, error);
-          trendData.push({
-            month: monthStart.toLocaleDateString('en-US', { month: 'short' }),
-            revenue: 0,
-            expenses: 0
-          });
-        }
-      }
-
-      // Add delay between requests to stay under 10 concurrent/second limit
-      if (month < 12) {
-        await new Promise(resolve => setTimeout(resolve, 125)); // ~8 requests per second
-      }
-    }
-  } catch (error) {
-    console.error('Trend data generation error:', error);
-  }
-
-  return trendData;
-}
-
-function extractProfitLossSummary(report: any): {
-  revenue: number;
-  operatingExpenses: number;
-  costOfGoodsSold: number;
-  otherExpenses: number;
-  netProfit: number;
-} {
-  const result = {
-    revenue: 0,
-    operatingExpenses: 0,
-    costOfGoodsSold: 0,
-    otherExpenses: 0,
-    netProfit: 0
-  };
-
-  if (!report?.Rows?.Row) {
-    return result;
-  }
-
-  const rows = Array.isArray(report.Rows.Row) ? report.Rows.Row : [report.Rows.Row];
-
-  for (const row of rows) {
-    if (row.Summary && row.Summary.ColData) {
-      const name = row.Summary.ColData[0]?.value || '';
-      const value = row.Summary.ColData[1]?.value || '0';
-      const numericValue = typeof value === 'string' ? parseFloat(value.replace(/,/g, '')) : value;
-
-      if (!isNaN(numericValue)) {
-        switch (name) {
-          case 'Total Income':
-            result.revenue = numericValue;
-            break;
-          case 'Total Expenses':
-            result.operatingExpenses = numericValue;
-            break;
-          case 'Total Cost of Goods Sold':
-            result.costOfGoodsSold = numericValue;
-            break;
-          case 'Total Other Expenses':
-            result.otherExpenses = numericValue;
-            break;
-          case 'PROFIT':
-            result.netProfit = numericValue;
-            break;
-        }
-      }
-    }
-  }
-
-  return result;
-}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { QboClient } from '@/lib/qbo';
+import { agingDate, fetchVendorBills } from '@/lib/qbo/aging';
+import { resolveRequestDateRange } from '@/lib/qbo/periods';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const vendorId = searchParams.get('vendorId');
+
+    if (!vendorId) {
+      return NextResponse.json({ error: 'vendorId is required' }, { status: 400 });
+    }
+
+    // Get a QBO client for the selected company (defaults to the most recently used one)
+    const client = await QboClient.forUser(session.user.id, searchParams.get('realmId') || undefined, {
+      refreshCache: searchParams.get('refresh') === '1',
+    });
+
+    if (!client) {
+      return NextResponse.json({ error: 'No QBO connection found' }, { status: 400 });
+    }
+
+    // Same date parameters as /api/dashboard/payables, so the bills add up
+    // to the vendor's row in the aging panel
+    const range = await resolveRequestDateRange(client, searchParams);
+
+    if (!range) {
+      return NextResponse.json({ error: 'Invalid date range' }, { status: 400 });
+    }
+
+    const asOf = agingDate(range);
+    const bills = await fetchVendorBills(client, vendorId, asOf);
+
+    return NextResponse.json({
+      vendor: {
+        id: vendorId
+      },
+      bills,
+      total: Math.round(bills.reduce((sum, bill) => sum + bill.openBalance, 0) * 100) / 100,
+      asOf,
+      syncedAt: client.syncedAt
+    });
+
+  } catch (error) {
+    console.error('Vendor bills API error:', error);
+    return NextResponse.json({ error: 'Failed to fetch vendor bills' }, { status: 500 });
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { QboClient } from '@/lib/qbo';
+import { parseReport, extractProfitLossSummary } from '@/lib/qbo/reports';
+import { agingDate, daysBetween, daysPayableOutstanding, fetchPayablesAging, fetchUpcomingBills } from '@/lib/qbo/aging';
+import { resolveRequestDateRange } from '@/lib/qbo/periods';
+
+export const dynamic = 'force-dynamic';
+
+const TOP_VENDORS = 5;
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+
+    // Get a QBO client for the selected company (defaults to the most recently used one)
+    const client = await QboClient.forUser(session.user.id, searchParams.get('realmId') || undefined, {
+      refreshCache: searchParams.get('refresh') === '1',
+    });
+
+    if (!client) {
+      return NextResponse.json({ error: 'No QBO connection found' }, { status: 400 });
+    }
+
+    // Same date parameters as /api/dashboard/general
+    const range = await resolveRequestDateRange(client, searchParams);
+
+    if (!range) {
+      return NextResponse.json({ error: 'Invalid date range' }, { status: 400 });
+    }
+
+    const asOf = agingDate(range);
+
+    // Upcoming bills always look ahead from today, whatever period is selected
+    const [aging, profitLossRaw, upcomingBills] = await Promise.all([
+      fetchPayablesAging(client, asOf),
+      client.getReport('ProfitAndLoss', { start_date: range.from, end_date: asOf }),
+      fetchUpcomingBills(client),
+    ]);
+
+    const { expenses } = extractProfitLossSummary(parseReport(profitLossRaw));
+    const days = daysBetween(range.from, asOf) + 1;
+
+    const topVendors = aging.parties
+      .filter(vendor => vendor.total > 0)
+      .sort((a, b) => b.total - a.total)
+      .slice(0, TOP_VENDORS);
+
+    return NextResponse.json({
+      asOf,
+      buckets: aging.buckets,
+      current: aging.current,
+      overdue: aging.overdue,
+      total: aging.total,
+      vendorCount: aging.parties.filter(vendor => vendor.total !== 0).length,
+      topVendors,
+      dpo: daysPayableOutstanding(aging.total, expenses, days),
+      expenses,
+      days,
+      upcomingBills,
+      timeframe: {
+        from: range.from,
+        to: range.to,
+        type: range.type
+      },
+      syncedAt: client.syncedAt
+    });
+
+  } catch (error) {
+    console.error('Payables API error:', error);
+    return NextResponse.json({ error: 'Failed to fetch payables data' }, { status: 500 });
+  }
+}
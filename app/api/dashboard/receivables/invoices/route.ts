@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { QboClient } from '@/lib/qbo';
+import { agingDate, fetchCustomerInvoices } from '@/lib/qbo/aging';
+import { resolveRequestDateRange } from '@/lib/qbo/periods';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const customerId = searchParams.get('customerId');
+
+    if (!customerId) {
+      return NextResponse.json({ error: 'customerId is required' }, { status: 400 });
+    }
+
+    // Get a QBO client for the selected company (defaults to the most recently used one)
+    const client = await QboClient.forUser(session.user.id, searchParams.get('realmId') || undefined, {
+      refreshCache: searchParams.get('refresh') === '1',
+    });
+
+    if (!client) {
+      return NextResponse.json({ error: 'No QBO connection found' }, { status: 400 });
+    }
+
+    // Same date parameters as /api/dashboard/receivables, so the invoices add up
+    // to the customer's row in the aging panel
+    const range = await resolveRequestDateRange(client, searchParams);
+
+    if (!range) {
+      return NextResponse.json({ error: 'Invalid date range' }, { status: 400 });
+    }
+
+    const asOf = agingDate(range);
+    const invoices = await fetchCustomerInvoices(client, customerId, asOf);
+
+    return NextResponse.json({
+      customer: {
+        id: customerId
+      },
+      invoices,
+      total: Math.round(invoices.reduce((sum, invoice) => sum + invoice.openBalance, 0) * 100) / 100,
+      asOf,
+      syncedAt: client.syncedAt
+    });
+
+  } catch (error) {
+    console.error('Customer invoices API error:', error);
+    return NextResponse.json({ error: 'Failed to fetch customer invoices' }, { status: 500 });
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { QboClient } from '@/lib/qbo';
+import { parseReport, extractProfitLossSummary } from '@/lib/qbo/reports';
+import { agingDate, daysBetween, daysSalesOutstanding, fetchReceivablesAging } from '@/lib/qbo/aging';
+import { resolveRequestDateRange } from '@/lib/qbo/periods';
+
+export const dynamic = 'force-dynamic';
+
+const TOP_OVERDUE_CUSTOMERS = 5;
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+
+    // Get a QBO client for the selected company (defaults to the most recently used one)
+    const client = await QboClient.forUser(session.user.id, searchParams.get('realmId') || undefined, {
+      refreshCache: searchParams.get('refresh') === '1',
+    });
+
+    if (!client) {
+      return NextResponse.json({ error: 'No QBO connection found' }, { status: 400 });
+    }
+
+    // Same date parameters as /api/dashboard/general
+    const range = await resolveRequestDateRange(client, searchParams);
+
+    if (!range) {
+      return NextResponse.json({ error: 'Invalid date range' }, { status: 400 });
+    }
+
+    const asOf = agingDate(range);
+
+    // Revenue for DSO comes from the same P&L extraction as the dashboard KPIs,
+    // over the part of the period up to the aging date
+    const [aging, profitLossRaw] = await Promise.all([
+      fetchReceivablesAging(client, asOf),
+      client.getReport('ProfitAndLoss', { start_date: range.from, end_date: asOf }),
+    ]);
+
+    const { revenue } = extractProfitLossSummary(parseReport(profitLossRaw));
+    const days = daysBetween(range.from, asOf) + 1;
+
+    const topOverdue = aging.parties
+      .filter(customer => customer.overdue > 0)
+      .sort((a, b) => b.overdue - a.overdue)
+      .slice(0, TOP_OVERDUE_CUSTOMERS);
+
+    return NextResponse.json({
+      asOf,
+      buckets: aging.buckets,
+      current: aging.current,
+      overdue: aging.overdue,
+      total: aging.total,
+      customerCount: aging.parties.filter(customer => customer.total !== 0).length,
+      topOverdue,
+      dso: daysSalesOutstanding(aging.total, revenue, days),
+      revenue,
+      days,
+      timeframe: {
+        from: range.from,
+        to: range.to,
+        type: range.type
+      },
+      syncedAt: client.syncedAt
+    });
+
+  } catch (error) {
+    console.error('Receivables API error:', error);
+    return NextResponse.json({ error: 'Failed to fetch receivables data' }, { status: 500 });
+  }
+}
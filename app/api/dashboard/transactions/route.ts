@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { QboClient } from '@/lib/qbo';
+import { parseReport, findAccountById } from '@/lib/qbo/reports';
+import { fetchAccountTransactions, AccountTransaction } from '@/lib/qbo/transactions';
+import { DateRange, comparisonRange, isComparisonBasis, resolveRequestDateRange } from '@/lib/qbo/periods';
+
+export const dynamic = 'force-dynamic';
+
+const sumAmounts = (transactions: AccountTransaction[]) =>
+  Math.round(transactions.reduce((sum, transaction) => sum + transaction.amount, 0) * 100) / 100;
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const accountId = searchParams.get('accountId');
+    const compare = searchParams.get('compare');
+
+    if (!accountId) {
+      return NextResponse.json({ error: 'accountId is required' }, { status: 400 });
+    }
+
+    // Get a QBO client for the selected company (defaults to the most recently used one)
+    const client = await QboClient.forUser(session.user.id, searchParams.get('realmId') || undefined, {
+      refreshCache: searchParams.get('refresh') === '1',
+    });
+
+    if (!client) {
+      return NextResponse.json({ error: 'No QBO connection found' }, { status: 400 });
+    }
+
+    // Same date parameters as /api/dashboard/general
+    const range = await resolveRequestDateRange(client, searchParams);
+
+    if (!range) {
+      return NextResponse.json({ error: 'Invalid date range' }, { status: 400 });
+    }
+
+    // The P&L (usually already cached by the dashboard) names the account and
+    // lists its sub-accounts
+    const loadPeriod = async (period: DateRange) => {
+      const profitLoss = parseReport(
+        await client.getReport('ProfitAndLoss', { start_date: period.from, end_date: period.to })
+      );
+      const transactions = await fetchAccountTransactions(client, accountId, period, profitLoss);
+      return { profitLoss, transactions };
+    };
+
+    const current = await loadPeriod(range);
+    const account = findAccountById(current.profitLoss, accountId);
+
+    // Optionally the same account in the comparison period, to explain a change
+    const previousRange = isComparisonBasis(compare) ? comparisonRange(range, compare) : null;
+    const previous = previousRange ? await loadPeriod(previousRange) : null;
+
+    return NextResponse.json({
+      account: {
+        id: accountId,
+        name: account ? (account.kind === 'account' ? account.name : account.title) : null
+      },
+      transactions: current.transactions,
+      total: sumAmounts(current.transactions),
+      timeframe: {
+        from: range.from,
+        to: range.to,
+        type: range.type
+      },
+      comparison: previousRange && previous ? {
+        basis: compare,
+        from: previousRange.from,
+        to: previousRange.to,
+        transactions: previous.transactions,
+        total: sumAmounts(previous.transactions)
+      } : null,
+      syncedAt: client.syncedAt
+    });
+
+  } catch (error) {
+    console.error('Transactions API error:', error);
+    return NextResponse.json({ error: 'Failed to fetch transactions' }, { status: 500 });
+  }
+}
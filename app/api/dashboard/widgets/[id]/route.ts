@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+import { parseWidget, updateWidget } from '@/lib/widgets';
+
+export const dynamic = 'force-dynamic';
+
+export async function PUT(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const parsed = parseWidget(body);
+
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    // Scope by user so one user can never edit another's widgets
+    if (!(await updateWidget(session.user.id, params.id, parsed.widget))) {
+      return NextResponse.json({ error: 'Widget not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ widget: { ...parsed.widget, id: params.id } });
+  } catch (error) {
+    console.error('Widget update error:', error);
+    return NextResponse.json({ error: 'Failed to update widget' }, { status: 500 });
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { count } = await prisma.widget.deleteMany({
+      where: { id: params.id, userId: session.user.id },
+    });
+
+    if (count === 0) {
+      return NextResponse.json({ error: 'Widget not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Widget delete error:', error);
+    return NextResponse.json({ error: 'Failed to delete widget' }, { status: 500 });
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+import {
+  DEFAULT_WIDGETS,
+  createWidget,
+  getWidgets,
+  parseWidget,
+  parseWidgetLayout,
+  saveWidgetLayout,
+} from '@/lib/widgets';
+
+export const dynamic = 'force-dynamic';
+
+// The saved layout, or the default one while the user has not changed it
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const widgets = await getWidgets(session.user.id);
+    return NextResponse.json({
+      widgets: widgets.length > 0 ? widgets : DEFAULT_WIDGETS,
+      customized: widgets.length > 0,
+    });
+  } catch (error) {
+    console.error('Widgets API error:', error);
+    return NextResponse.json({ error: 'Failed to fetch widgets' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const parsed = parseWidget(body);
+
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const widget = await createWidget(session.user.id, parsed.widget);
+    return NextResponse.json({ widget }, { status: 201 });
+  } catch (error) {
+    console.error('Widget create error:', error);
+    return NextResponse.json({ error: 'Failed to create widget' }, { status: 500 });
+  }
+}
+
+// Saves the whole grid at once, since moving one widget can push others down
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const parsed = parseWidgetLayout(body);
+
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const widgets = await saveWidgetLayout(session.user.id, parsed.widgets);
+    return NextResponse.json({ widgets, customized: true });
+  } catch (error) {
+    console.error('Widget layout save error:', error);
+    return NextResponse.json({ error: 'Failed to save layout' }, { status: 500 });
+  }
+}
+
+// Back to the default layout
+export async function DELETE() {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await prisma.widget.deleteMany({ where: { userId: session.user.id } });
+    return NextResponse.json({ widgets: DEFAULT_WIDGETS, customized: false });
+  } catch (error) {
+    console.error('Widget layout reset error:', error);
+    return NextResponse.json({ error: 'Failed to reset layout' }, { status: 500 });
+  }
+}
@@ -54,7 +54,7 @@ export async function GET(req: NextRequest) {
     await saveTokenToDatabase(tokenWithRealm, state);
 
     // Redirect to dashboard with success message
-    return NextResponse.redirect(new URL('/?success=qbo_connected', req.url));
+    return NextResponse.redirect(new URL(`/?success=qbo_connected&realmId=${encodeURIComponent(realmId)}`, req.url));
   } catch (err) {
     console.error('QBO token exchange error:', err);
     return NextResponse.redirect(new URL('/?error=token_exchange_failed', req.url));
@@ -5,15 +5,23 @@ import { revokeToken } from '@/lib/qbo';
 
 export const dynamic = 'force-dynamic';
 
-export async function POST(_req: NextRequest) {
+export async function POST(req: NextRequest) {
   const session = await getServerSession(authOptions);
   
   if (!session?.user?.id) {
     return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
   }
 
+  // Disconnect a single company; realmId is required so we never revoke "whichever was last used"
+  const body = await req.json().catch(() => ({}));
+  const realmId = typeof body?.realmId === 'string' ? body.realmId : null;
+
+  if (!realmId) {
+    return NextResponse.json({ error: 'realmId is required' }, { status: 400 });
+  }
+
   try {
-    await revokeToken(session.user.id);
+    await revokeToken(session.user.id, realmId);
     return NextResponse.json({ success: true });
   } catch (error) {
     console.error('QBO revoke error:', error);
@@ -23,4 +31,3 @@ export async function POST(_req: NextRequest) {
     );
   }
 }
-
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
-import { getTokenFromDatabase, createOAuthClient, getIntuitEnv } from '@/lib/qbo';
+import { getTokenFromDatabase, listConnectedRealms, QboClient } from '@/lib/qbo';
 
 export const dynamic = 'force-dynamic';
 
@@ -12,49 +12,47 @@ export async function GET(_req: NextRequest) {
     return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
   }
 
+  const userId = session.user.id;
+
   try {
-    const token = await getTokenFromDatabase(session.user.id);
+    const token = await getTokenFromDatabase(userId);
     
     if (!token) {
-      return NextResponse.json({ connected: false });
+      return NextResponse.json({ connected: false, companies: [] });
     }
 
-    // Try to get company info to verify connection
-    const { environment } = getIntuitEnv();
-    const base = environment === 'sandbox'
-      ? 'https://sandbox-quickbooks.api.intuit.com'
-      : 'https://quickbooks.api.intuit.com';
-
-    const oauthClient = createOAuthClient();
-    oauthClient.setToken(token);
-
-    try {
-      const companyInfoUrl = `${base}/v3/company/${encodeURIComponent(token.realmId!)}/companyinfo/${encodeURIComponent(token.realmId!)}`;
-      const response = await oauthClient.makeApiCall({
-        url: companyInfoUrl,
-        method: 'GET',
-        headers: { Accept: 'application/json' },
-      });
-
-      const companyInfo = response.json || JSON.parse(response.body || '{}');
-      const companyName = companyInfo?.CompanyInfo?.CompanyName || 'Unknown Company';
-
-      return NextResponse.json({
-        connected: true,
-        realmId: token.realmId,
-        companyName,
-      });
-    } catch (apiError) {
-      console.error('Failed to fetch company info:', apiError);
-      return NextResponse.json({
-        connected: true,
-        realmId: token.realmId,
-        companyName: 'Unknown Company',
-      });
-    }
+    // Try to get company info for every connected realm to verify each connection
+    const realms = await listConnectedRealms(userId);
+    const companies = await Promise.all(realms.map(async (realm) => {
+      try {
+        const realmToken = await getTokenFromDatabase(userId, realm.realmId);
+        const companyInfo = await new QboClient(userId, realmToken!).getCompanyInfo();
+        return {
+          realmId: realm.realmId,
+          companyName: companyInfo.CompanyName || 'Unknown Company',
+          connectedAt: realm.connectedAt,
+        };
+      } catch (apiError) {
+        console.error(`Failed to fetch company info for realm ${realm.realmId}:`, apiError);
+        return {
+          realmId: realm.realmId,
+          companyName: 'Unknown Company',
+          connectedAt: realm.connectedAt,
+        };
+      }
+    }));
+
+    // realmId/companyName describe the default company used when no realmId is given
+    const defaultCompany = companies.find(company => company.realmId === token.realmId);
+
+    return NextResponse.json({
+      connected: true,
+      realmId: token.realmId,
+      companyName: defaultCompany?.companyName || 'Unknown Company',
+      companies,
+    });
   } catch (error) {
     console.error('QBO status check error:', error);
-    return NextResponse.json({ connected: false });
+    return NextResponse.json({ connected: false, companies: [] });
   }
 }
-
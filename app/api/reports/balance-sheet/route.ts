@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { QboClient } from '@/lib/qbo';
+import { parseReport, checkBalanceSheet } from '@/lib/qbo/reports';
+import { buildStatement, combineStatements } from '@/lib/qbo/statements';
+import {
+  balanceSheetComparisonDates,
+  formatDate,
+  getFiscalYearStartMonth,
+  parseDate,
+} from '@/lib/qbo/periods';
+
+export const dynamic = 'force-dynamic';
+
+const formatColumnDate = (date: string) =>
+  (parseDate(date) as Date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+
+    // Get a QBO client for the selected company (defaults to the most recently used one)
+    const client = await QboClient.forUser(session.user.id, searchParams.get('realmId') || undefined, {
+      refreshCache: searchParams.get('refresh') === '1',
+    });
+
+    if (!client) {
+      return NextResponse.json({ error: 'No QBO connection found' }, { status: 400 });
+    }
+
+    // Balance sheet as of the given date (defaults to today)
+    const asOfParam = searchParams.get('asOf');
+    const asOf = asOfParam ? parseDate(asOfParam) : new Date();
+
+    if (!asOf) {
+      return NextResponse.json({ error: 'Invalid as-of date' }, { status: 400 });
+    }
+
+    const companyInfo = await client.getCompanyInfo();
+    const fiscalYearStartMonth = getFiscalYearStartMonth(companyInfo);
+    const { priorMonthEnd, priorYearEnd } = balanceSheetComparisonDates(asOf, fiscalYearStartMonth);
+
+    const dates = [
+      { key: 'asOf', label: 'As of', date: formatDate(asOf) },
+      { key: 'priorMonthEnd', label: 'Prior month end', date: priorMonthEnd },
+      { key: 'priorYearEnd', label: 'Prior year end', date: priorYearEnd },
+    ];
+
+    const reports = await Promise.all(dates.map(async ({ date }) =>
+      parseReport(await client.getReport('BalanceSheet', { start_date: date, end_date: date }))
+    ));
+
+    const statement = combineStatements(
+      reports.map(report => buildStatement(report)),
+      dates.map(({ key, date }) => ({ title: formatColumnDate(date), type: 'Money', key, endDate: date }))
+    );
+
+    return NextResponse.json({
+      organisation: {
+        name: companyInfo.CompanyName || 'Unknown',
+        realmId: client.realmId
+      },
+      statement,
+      checks: dates.map(({ key, label, date }, i) => ({
+        key,
+        label,
+        date,
+        ...checkBalanceSheet(reports[i]),
+      })),
+      basis: reports[0].basis || null,
+      currency: reports[0].currency || null,
+      asOf: formatDate(asOf),
+      fiscalYearStartMonth,
+      syncedAt: client.syncedAt
+    });
+
+  } catch (error) {
+    console.error('Balance sheet report API error:', error);
+    return NextResponse.json({ error: 'Failed to fetch balance sheet' }, { status: 500 });
+  }
+}
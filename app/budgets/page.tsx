@@ -0,0 +1,499 @@
+'use client'
+
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import { useState, useEffect, useRef } from 'react'
+import { RefreshCw, Upload, Save, Copy } from 'lucide-react'
+import ThemeToggle from '../components/ThemeToggle'
+
+const REALM_STORAGE_KEY = 'qbo-realm'
+
+type AccountKind = 'income' | 'expense'
+
+interface BudgetGridAccount {
+  id: string
+  name: string
+  kind: AccountKind
+}
+
+interface BudgetGridLine {
+  accountId: string
+  accountName: string
+  amounts: number[]
+}
+
+interface BudgetGrid {
+  fiscalYear: {
+    startYear: number
+    from: string
+    to: string
+  }
+  months: Array<{
+    label: string
+    startDate: string
+    endDate: string
+  }>
+  accounts: BudgetGridAccount[]
+  lines: BudgetGridLine[]
+  lastYear: {
+    actuals: BudgetGridLine[]
+    budget: BudgetGridLine[]
+  }
+  syncedAt: string | null
+}
+
+interface BudgetCsvImport {
+  lines: BudgetGridLine[]
+  unmatched: string[]
+  errors: string[]
+}
+
+// A row of the grid, keyed by account id; accounts budgeted earlier but missing
+// from the P&L keep their amounts but have no kind
+interface GridRow {
+  key: string
+  name: string
+  kind: AccountKind | null
+}
+
+type Amounts = Record<string, number[]>
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0)
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount)
+}
+
+// "FY 2026", or "FY 2025–26" for fiscal years that do not start in January
+const fiscalYearLabel = (startYear: number, startsInJanuary: boolean) =>
+  startsInJanuary ? `FY ${startYear}` : `FY ${startYear}–${String(startYear + 1).slice(2)}`
+
+function gridRows(grid: BudgetGrid): GridRow[] {
+  const rows: GridRow[] = grid.accounts.map(account => ({ key: account.id, name: account.name, kind: account.kind }))
+  const known = new Set(rows.map(row => row.key))
+  for (const line of grid.lines) {
+    if (!known.has(line.accountId)) {
+      rows.push({ key: line.accountId, name: line.accountName, kind: null })
+    }
+  }
+  return rows
+}
+
+// Lines keyed by grid row, matched by account id
+function amountsFor(rows: GridRow[], lines: BudgetGridLine[]): Amounts {
+  const amounts: Amounts = {}
+  for (const line of lines) {
+    const row = rows.find(candidate => candidate.key === line.accountId)
+    if (row) amounts[row.key] = line.amounts.map(round)
+  }
+  return amounts
+}
+
+export default function BudgetsPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const fileInput = useRef<HTMLInputElement>(null)
+  const [year, setYear] = useState<number | null>(null)
+  const [grid, setGrid] = useState<BudgetGrid | null>(null)
+  const [amounts, setAmounts] = useState<Amounts>({})
+  const [growth, setGrowth] = useState('5')
+  const [dirty, setDirty] = useState(false)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (status === 'authenticated') {
+      fetchGrid()
+    }
+  }, [status])
+
+  const realmQuery = () => {
+    const realmId = window.localStorage.getItem(REALM_STORAGE_KEY)
+    return realmId ? `realmId=${encodeURIComponent(realmId)}` : ''
+  }
+
+  const fetchGrid = async (refresh = false, selectedYear = year) => {
+    try {
+      setLoading(true)
+      setError(null)
+      setNotice(null)
+
+      const params = [realmQuery(), selectedYear !== null ? `year=${selectedYear}` : '', refresh ? 'refresh=1' : ''].filter(Boolean).join('&')
+      const response = await fetch(`/api/budgets?${params}`)
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to fetch budget')
+      }
+
+      const data: BudgetGrid = await response.json()
+      setGrid(data)
+      setAmounts(amountsFor(gridRows(data), data.lines))
+      setDirty(false)
+      setYear(data.fiscalYear.startYear)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const saveGrid = async () => {
+    if (!grid) return
+    try {
+      setSaving(true)
+      setError(null)
+      setNotice(null)
+
+      const rows = gridRows(grid)
+      const lines = rows
+        .filter(row => (amounts[row.key] || []).some(amount => amount !== 0))
+        .map(row => ({ accountId: row.key, accountName: row.name, amounts: amounts[row.key] }))
+
+      const response = await fetch(`/api/budgets?${realmQuery()}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ year: grid.fiscalYear.startYear, lines }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to save budget')
+      }
+
+      setDirty(false)
+      setNotice('Budget saved')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const importCsv = async (file: File) => {
+    if (!grid) return
+    try {
+      setError(null)
+      setNotice(null)
+
+      const response = await fetch(`/api/budgets/import?${realmQuery()}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ year: grid.fiscalYear.startYear, csv: await file.text() }),
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to import budget')
+      }
+
+      const imported: BudgetCsvImport = await response.json()
+      replaceAmounts(imported.lines)
+
+      const problems = [
+        ...imported.errors,
+        ...(imported.unmatched.length > 0 ? [`Not in the P&L: ${imported.unmatched.join(', ')}`] : []),
+      ]
+      setNotice(`Imported ${imported.lines.length} accounts from ${file.name}; review and save${problems.length > 0 ? `. ${problems.join('. ')}` : ''}`)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      if (fileInput.current) fileInput.current.value = ''
+    }
+  }
+
+  // Overwrites the rows the lines cover and leaves the others as they are
+  const replaceAmounts = (lines: BudgetGridLine[]) => {
+    if (!grid) return
+    setAmounts(current => ({ ...current, ...amountsFor(gridRows(grid), lines) }))
+    setDirty(true)
+  }
+
+  const growBy = () => {
+    const percent = parseFloat(growth)
+    if (!Number.isFinite(percent)) return
+    setAmounts(current => Object.fromEntries(
+      Object.entries(current).map(([key, values]) => [key, values.map(value => round(value * (1 + percent / 100)))])
+    ))
+    setDirty(true)
+  }
+
+  const setAmount = (key: string, index: number, value: string) => {
+    if (!grid) return
+    const amount = value === '' ? 0 : parseFloat(value)
+    if (!Number.isFinite(amount)) return
+    setAmounts(current => {
+      const values = current[key] ? [...current[key]] : grid.months.map(() => 0)
+      values[index] = amount
+      return { ...current, [key]: values }
+    })
+    setDirty(true)
+  }
+
+  if (status === 'loading') {
+    return (
+      <div className="mobile-viewport-height overflow-hidden bg-white text-black dark:bg-black dark:text-white flex items-center justify-center zoom-container">
+        <div className="text-sm text-gray-600 dark:text-gray-400">Loading…</div>
+      </div>
+    )
+  }
+
+  if (!session) {
+    return (
+      <div className="mobile-viewport-height overflow-hidden bg-white text-black dark:bg-black dark:text-white flex items-center justify-center zoom-container">
+        <div className="text-center space-y-4">
+          <div className="text-sm text-gray-600 dark:text-gray-400">You are not signed in.</div>
+          <button
+            onClick={() => router.push('/login')}
+            className="inline-block h-9 px-4 rounded-md bg-black text-white dark:bg-white dark:text-black hover:opacity-90 transition-opacity"
+          >
+            Go to login
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  const rows = grid ? gridRows(grid) : []
+  const valuesOf = (row: GridRow) => amounts[row.key] || grid?.months.map(() => 0) || []
+  const monthTotals = (kind: AccountKind) => (grid?.months || []).map((_, index) =>
+    sum(rows.filter(row => row.kind === kind).map(row => valuesOf(row)[index] || 0))
+  )
+  const incomeByMonth = monthTotals('income')
+  const expensesByMonth = monthTotals('expense')
+  const netByMonth = incomeByMonth.map((income, index) => income - expensesByMonth[index])
+
+  const buttonClass = 'inline-flex items-center gap-1.5 h-7 px-3 text-xs rounded-md bg-gray-100 text-gray-700 dark:bg-[#1E2023] dark:text-gray-300 hover:opacity-90 transition-opacity disabled:opacity-50'
+
+  const totalRow = (label: string, byMonth: number[]) => (
+    <tr className="border-b border-gray-200 dark:border-gray-700 font-semibold">
+      <td className="py-2 px-4 text-sm whitespace-nowrap">{label}</td>
+      {byMonth.map((amount, index) => (
+        <td key={grid?.months[index].startDate || index} className="py-2 px-2 text-right text-xs tabular-nums">{formatCurrency(amount)}</td>
+      ))}
+      <td className="py-2 px-4 text-right text-sm tabular-nums">{formatCurrency(sum(byMonth))}</td>
+    </tr>
+  )
+
+  const lineRows = (kind: AccountKind | null) => rows.filter(row => row.kind === kind).map(row => {
+    const values = valuesOf(row)
+    return (
+      <tr key={row.key} className="border-b border-gray-100 dark:border-gray-800">
+        <td className="py-1 px-4 text-sm font-medium text-gray-900 dark:text-gray-100 whitespace-nowrap">{row.name}</td>
+        {values.map((amount, index) => (
+          <td key={grid?.months[index].startDate || index} className="py-1 px-1">
+            <input
+              type="number"
+              step="any"
+              value={amount === 0 ? '' : amount}
+              onChange={(e) => setAmount(row.key, index, e.target.value)}
+              placeholder="0"
+              aria-label={`${row.name} ${grid?.months[index].label}`}
+              className="w-24 h-7 px-2 text-right text-xs tabular-nums rounded-md bg-white dark:bg-[#1E2023] text-black dark:text-white border border-gray-200 dark:border-gray-700 focus:outline-none focus:border-gray-400"
+            />
+          </td>
+        ))}
+        <td className="py-1 px-4 text-right text-sm tabular-nums">{formatCurrency(sum(values))}</td>
+      </tr>
+    )
+  })
+
+  const currentYear = grid?.fiscalYear.startYear ?? year
+  const yearOptions = currentYear !== null ? [-2, -1, 0, 1, 2].map(offset => currentYear + offset) : []
+  const startsInJanuary = !grid || grid.fiscalYear.from.slice(5, 7) === '01'
+
+  return (
+    <div className="mobile-viewport-height overflow-hidden bg-white text-black dark:bg-black dark:text-white flex flex-col zoom-container">
+      {/* Header */}
+      <header className="sticky top-0 z-10 border-b border-gray-200 dark:border-gray-800 bg-white/70 dark:bg-black/60 backdrop-blur">
+        <div className="max-w-7xl mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <button
+                onClick={() => router.push('/')}
+                className="text-sm text-black dark:text-white opacity-70 hover:opacity-100 transition-opacity"
+              >
+                ← Back
+              </button>
+              <h1 className="text-[20px] leading-none font-semibold tracking-tight">| Budgets</h1>
+            </div>
+
+            <div className="flex items-center gap-3">
+              <button
+                onClick={() => fetchGrid(true)}
+                disabled={loading}
+                className="p-2 rounded-md hover:bg-gray-100 dark:hover:bg-white/10 transition-colors disabled:opacity-50"
+                aria-label="Refresh data"
+              >
+                <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+              </button>
+
+              <ThemeToggle />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="flex-1 overflow-y-auto min-h-0 main-content">
+        <div className="max-w-7xl mx-auto px-4 py-6 space-y-6">
+        {error && (
+          <div className="p-4 rounded-md bg-red-50 dark:bg-[#2A2D31] border border-red-200 dark:border-red-800">
+            <div className="text-sm text-red-800 dark:text-red-200">
+              <p>{error}</p>
+            </div>
+          </div>
+        )}
+
+        {notice && (
+          <div className="p-4 rounded-md bg-green-50 dark:bg-[#2A2D31] border border-green-200 dark:border-green-800 text-sm text-green-800 dark:text-green-200">
+            {notice}
+          </div>
+        )}
+
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-medium">In-app budget</h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Monthly amounts per P&amp;L account, used for budget vs actual when QuickBooks has no budget for the period
+              {grid?.syncedAt && (
+                <span className="text-xs text-gray-400 dark:text-gray-500"> · Last synced {new Date(grid.syncedAt).toLocaleString()}</span>
+              )}
+            </p>
+          </div>
+
+          <label className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
+            Fiscal year
+            <select
+              value={currentYear ?? ''}
+              onChange={(e) => {
+                if (!dirty || window.confirm('Discard unsaved budget changes?')) fetchGrid(false, parseInt(e.target.value))
+              }}
+              disabled={loading || yearOptions.length === 0}
+              className="h-7 px-2 text-xs rounded-md bg-white dark:bg-[#2A2D31] text-black dark:text-white border border-gray-200 dark:border-gray-700 focus:outline-none disabled:opacity-50"
+            >
+              {yearOptions.map(option => (
+                <option key={option} value={option} className="text-black">
+                  {fiscalYearLabel(option, startsInJanuary)}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="text-sm text-gray-600 dark:text-gray-400">Loading budget…</div>
+          </div>
+        ) : grid ? (
+          <div className="bg-white dark:bg-[#2A2D31] border border-gray-200 dark:border-gray-800 rounded-lg p-6 space-y-4">
+            <div className="flex flex-wrap items-center gap-2">
+              <button
+                onClick={() => replaceAmounts(grid.lastYear.actuals)}
+                disabled={grid.lastYear.actuals.length === 0}
+                className={buttonClass}
+              >
+                <Copy className="w-3.5 h-3.5" />
+                Copy last year&apos;s actuals
+              </button>
+              <button
+                onClick={() => replaceAmounts(grid.lastYear.budget)}
+                disabled={grid.lastYear.budget.length === 0}
+                className={buttonClass}
+              >
+                <Copy className="w-3.5 h-3.5" />
+                Copy last year&apos;s budget
+              </button>
+
+              <div className="flex items-center gap-1">
+                <input
+                  type="number"
+                  step="any"
+                  value={growth}
+                  onChange={(e) => setGrowth(e.target.value)}
+                  aria-label="Growth percentage"
+                  className="w-16 h-7 px-2 text-right text-xs rounded-md bg-white dark:bg-[#1E2023] text-black dark:text-white border border-gray-200 dark:border-gray-700 focus:outline-none"
+                />
+                <button onClick={growBy} disabled={!Number.isFinite(parseFloat(growth))} className={buttonClass}>
+                  Grow by {growth || 0}%
+                </button>
+              </div>
+
+              <input
+                ref={fileInput}
+                type="file"
+                accept=".csv,text/csv"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0]
+                  if (file) importCsv(file)
+                }}
+              />
+              <button onClick={() => fileInput.current?.click()} className={buttonClass}>
+                <Upload className="w-3.5 h-3.5" />
+                Import CSV
+              </button>
+
+              <button
+                onClick={saveGrid}
+                disabled={saving || !dirty}
+                className="ml-auto inline-flex items-center gap-1.5 h-7 px-3 text-xs rounded-md bg-black text-white dark:bg-white dark:text-black hover:opacity-90 transition-opacity disabled:opacity-50"
+              >
+                <Save className="w-3.5 h-3.5" />
+                {saving ? 'Saving…' : dirty ? 'Save' : 'Saved'}
+              </button>
+            </div>
+
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              CSV files need an Account column (and optionally Account ID) with one column per month, such as &quot;Jan 2026&quot; or &quot;2026-01&quot;, or Month and Amount columns with one row per account and month.
+            </p>
+
+            {rows.length === 0 ? (
+              <div className="text-sm text-gray-600 dark:text-gray-400">No income or expense accounts found in the profit and loss.</div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b border-gray-200 dark:border-gray-700 text-sm font-medium text-gray-600 dark:text-gray-400">
+                      <th className="text-left py-3 px-4 font-medium">Account</th>
+                      {grid.months.map(month => (
+                        <th key={month.startDate} className="text-right py-3 px-2 font-medium whitespace-nowrap">{month.label}</th>
+                      ))}
+                      <th className="text-right py-3 px-4 font-medium">Total</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {lineRows('income')}
+                    {totalRow('Total Income', incomeByMonth)}
+                    {lineRows('expense')}
+                    {totalRow('Total Expenses', expensesByMonth)}
+                    {totalRow('Net Profit', netByMonth)}
+                    {rows.some(row => row.kind === null) && (
+                      <>
+                        <tr>
+                          <td colSpan={grid.months.length + 2} className="pt-4 pb-2 px-4 text-xs text-gray-500 dark:text-gray-400">
+                            Budgeted accounts no longer in the profit and loss
+                          </td>
+                        </tr>
+                        {lineRows(null)}
+                      </>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        ) : null}
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,102 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+
+type AuditValue = Record<string, unknown> | null;
+
+interface AuditEntry {
+  id: string;
+  actorEmail: string;
+  action: string;
+  targetType: string;
+  targetId: string;
+  before: AuditValue;
+  after: AuditValue;
+  createdAt: string;
+}
+
+const ACTION_LABELS: Record<string, string> = {
+  'systemPrompt.update': 'edited the system prompt',
+  'tool.update': 'changed tool',
+  'user.permissions': 'changed permissions of',
+};
+
+// The changed fields as "field: before → after"; fields kept for reference (the
+// tool's name, the user's email) are unchanged and so left out. Long values such
+// as the prompt are cut short.
+const describeChanges = (before: AuditValue, after: AuditValue) => {
+  const show = (value: unknown) => {
+    const text = typeof value === 'string' ? value : JSON.stringify(value);
+    return text && text.length > 80 ? `${text.slice(0, 80)}…` : text;
+  };
+
+  return Object.keys(after || {})
+    .filter(key => before?.[key] !== after?.[key])
+    .map(key => `${key}: ${show(before?.[key])} → ${show(after?.[key])}`);
+};
+
+// What the change was made to, e.g. the tool's name or the user's email
+const describeTarget = (entry: AuditEntry) => {
+  const name = entry.after?.name || entry.after?.email;
+  return typeof name === 'string' ? name : entry.targetType;
+};
+
+export default function AdminAuditLogTab() {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchEntries();
+  }, []);
+
+  const fetchEntries = async () => {
+    try {
+      const response = await fetch('/api/admin/audit');
+      if (response.ok) {
+        const data = await response.json();
+        setEntries(data.entries);
+      }
+    } catch (error) {
+      console.error('Error fetching audit log:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-[#1E2023] rounded-lg p-4 sm:p-6 shadow-sm border border-gray-200 dark:border-[#2A2D31]">
+      <div className="mb-4 sm:mb-6">
+        <h2 className="text-base sm:text-lg font-semibold text-black dark:text-white">Audit Log</h2>
+        <p className="text-sm text-black dark:text-gray-400">
+          Every change made in the admin console, most recent first.
+        </p>
+      </div>
+
+      {loading ? (
+        <div className="text-sm text-gray-500 dark:text-gray-400">Loading audit log...</div>
+      ) : entries.length === 0 ? (
+        <div className="text-sm text-gray-500 dark:text-gray-400">No changes yet</div>
+      ) : (
+        <ul className="space-y-3">
+          {entries.map((entry) => (
+            <li key={entry.id} className="p-3 rounded-md border border-gray-100 dark:border-[#2A2D31]">
+              <div className="flex flex-wrap items-baseline justify-between gap-2">
+                <p className="text-sm text-black dark:text-white">
+                  <span className="font-medium">{entry.actorEmail}</span>{' '}
+                  {ACTION_LABELS[entry.action] || entry.action}
+                  {entry.targetType !== 'SystemSettings' && <> {describeTarget(entry)}</>}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">{new Date(entry.createdAt).toLocaleString()}</p>
+              </div>
+              <ul className="mt-1 space-y-0.5">
+                {describeChanges(entry.before, entry.after).map(change => (
+                  <li key={change} className="text-xs font-mono text-gray-500 dark:text-gray-400 break-all">{change}</li>
+                ))}
+              </ul>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
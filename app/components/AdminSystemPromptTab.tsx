@@ -0,0 +1,129 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+
+interface SystemSettings {
+  systemPrompt: string;
+  updatedBy: string;
+  updatedAt: string;
+}
+
+const inputClassName = 'w-full px-3 py-2 rounded-md bg-white dark:bg-[#2A2D31] text-black dark:text-white focus:outline-none focus:ring-2 focus:ring-black dark:focus:ring-white shadow-sm border border-gray-200 dark:border-[#3A3D41]';
+
+export default function AdminSystemPromptTab() {
+  const [settings, setSettings] = useState<SystemSettings | null>(null);
+  const [draft, setDraft] = useState('');
+  const [canModify, setCanModify] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    fetchSettings();
+  }, []);
+
+  const fetchSettings = async () => {
+    try {
+      const response = await fetch('/api/admin/system-prompt');
+      if (response.ok) {
+        const data = await response.json();
+        setSettings(data.settings);
+        setDraft(data.settings.systemPrompt);
+        setCanModify(data.canModify);
+      }
+    } catch (error) {
+      console.error('Error fetching system prompt:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const savePrompt = async () => {
+    setSaving(true);
+    setMessage('');
+
+    try {
+      const response = await fetch('/api/admin/system-prompt', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ systemPrompt: draft }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setSettings(data.settings);
+        setDraft(data.settings.systemPrompt);
+        setMessage('System prompt saved');
+      } else {
+        setMessage(data.error || 'Failed to save system prompt');
+      }
+    } catch (error) {
+      console.error('Error saving system prompt:', error);
+      setMessage('Error saving system prompt');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-[#1E2023] rounded-lg p-4 sm:p-6 shadow-sm border border-gray-200 dark:border-[#2A2D31]">
+      <div className="mb-4 sm:mb-6">
+        <h2 className="text-base sm:text-lg font-semibold text-black dark:text-white">System Prompt</h2>
+        <p className="text-sm text-black dark:text-gray-400">
+          Instructions the financial assistant receives with every question, for all users. The company, today&apos;s date and the dashboard period are added to it.
+        </p>
+      </div>
+
+      {loading ? (
+        <div className="text-sm text-gray-500 dark:text-gray-400">Loading system prompt...</div>
+      ) : settings && (
+        <div className="space-y-4">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            rows={10}
+            readOnly={!canModify}
+            aria-label="System prompt"
+            className={`${inputClassName} text-sm ${canModify ? '' : 'opacity-70'}`}
+          />
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Last changed by {settings.updatedBy} on {new Date(settings.updatedAt).toLocaleString()}
+          </p>
+
+          {!canModify && (
+            <p className="text-sm text-black dark:text-gray-400">
+              Editing the system prompt needs the &ldquo;Modify system prompt&rdquo; permission, which another admin can grant under Users.
+            </p>
+          )}
+
+          {message && (
+            <p className={`text-sm ${message === 'System prompt saved' ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+              {message}
+            </p>
+          )}
+
+          {canModify && (
+            <div className="flex items-center justify-end gap-2">
+              <button
+                onClick={() => { setDraft(settings.systemPrompt); setMessage(''); }}
+                disabled={saving || draft === settings.systemPrompt}
+                className="px-4 py-2 text-sm text-gray-600 dark:text-gray-400 hover:text-black dark:hover:text-white disabled:opacity-50 transition-colors"
+              >
+                Discard
+              </button>
+              <button
+                onClick={savePrompt}
+                disabled={saving || !draft.trim() || draft === settings.systemPrompt}
+                className="px-4 py-2 bg-black text-white dark:bg-[#2A2D31] dark:text-white rounded-md hover:opacity-80 disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium transition-opacity shadow-sm"
+              >
+                {saving ? 'Saving...' : 'Save Prompt'}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
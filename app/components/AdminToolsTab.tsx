@@ -0,0 +1,109 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+
+interface Tool {
+  id: string;
+  name: string;
+  description: string;
+  enabled: boolean;
+  updatedBy: string;
+  updatedAt: string;
+}
+
+export default function AdminToolsTab() {
+  const [tools, setTools] = useState<Tool[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState<string | null>(null);
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    fetchTools();
+  }, []);
+
+  const fetchTools = async () => {
+    try {
+      const response = await fetch('/api/admin/tools');
+      if (response.ok) {
+        const data = await response.json();
+        setTools(data.tools);
+      }
+    } catch (error) {
+      console.error('Error fetching tools:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleTool = async (tool: Tool) => {
+    setSaving(tool.id);
+    setMessage('');
+
+    try {
+      const response = await fetch(`/api/admin/tools/${encodeURIComponent(tool.id)}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ enabled: !tool.enabled }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setTools(tools.map(item => (item.id === tool.id ? data.tool : item)));
+      } else {
+        setMessage(data.error || 'Failed to update tool');
+      }
+    } catch (error) {
+      console.error('Error updating tool:', error);
+      setMessage('Error updating tool');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-[#1E2023] rounded-lg p-4 sm:p-6 shadow-sm border border-gray-200 dark:border-[#2A2D31]">
+      <div className="mb-4 sm:mb-6">
+        <h2 className="text-base sm:text-lg font-semibold text-black dark:text-white">Assistant Tools</h2>
+        <p className="text-sm text-black dark:text-gray-400">
+          The QuickBooks lookups the financial assistant may use. A disabled tool is not offered to the model.
+        </p>
+      </div>
+
+      {loading ? (
+        <div className="text-sm text-gray-500 dark:text-gray-400">Loading tools...</div>
+      ) : (
+        <ul className="space-y-3">
+          {tools.map((tool) => (
+            <li
+              key={tool.id}
+              className="flex items-start justify-between gap-4 p-3 rounded-md border border-gray-100 dark:border-[#2A2D31]"
+            >
+              <div className="min-w-0">
+                <p className="text-sm font-medium font-mono text-black dark:text-white">{tool.name}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{tool.description}</p>
+                <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">
+                  Changed by {tool.updatedBy} on {new Date(tool.updatedAt).toLocaleString()}
+                </p>
+              </div>
+              <label className="flex items-center gap-2 text-sm text-black dark:text-white whitespace-nowrap">
+                <input
+                  type="checkbox"
+                  checked={tool.enabled}
+                  onChange={() => toggleTool(tool)}
+                  disabled={saving === tool.id}
+                />
+                Enabled
+              </label>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {message && (
+        <p className="mt-4 text-sm text-red-600 dark:text-red-400">{message}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { useSession } from 'next-auth/react';
+
+type Permission = 'isAdmin' | 'canModifySystemPrompt' | 'canCreateUsers';
+
+interface AdminUser {
+  id: string;
+  email: string;
+  name: string | null;
+  createdAt: string;
+  isAdmin: boolean;
+  canModifySystemPrompt: boolean;
+  canCreateUsers: boolean;
+}
+
+const PERMISSION_LABELS: Array<{ key: Permission; label: string }> = [
+  { key: 'isAdmin', label: 'Admin' },
+  { key: 'canModifySystemPrompt', label: 'Modify system prompt' },
+  { key: 'canCreateUsers', label: 'Create users' },
+];
+
+export default function AdminUsersTab() {
+  const { data: session } = useSession();
+  const [users, setUsers] = useState<AdminUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState<string | null>(null);
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    fetchUsers();
+  }, []);
+
+  const fetchUsers = async () => {
+    try {
+      const response = await fetch('/api/admin/users');
+      if (response.ok) {
+        const data = await response.json();
+        setUsers(data.users);
+      }
+    } catch (error) {
+      console.error('Error fetching users:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const setPermission = async (user: AdminUser, permission: Permission, value: boolean) => {
+    setSaving(user.id);
+    setMessage('');
+
+    try {
+      const response = await fetch(`/api/admin/users/${encodeURIComponent(user.id)}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ [permission]: value }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setUsers(users.map(item => (item.id === user.id ? data.user : item)));
+      } else {
+        setMessage(data.error || 'Failed to update permissions');
+      }
+    } catch (error) {
+      console.error('Error updating permissions:', error);
+      setMessage('Error updating permissions');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-[#1E2023] rounded-lg p-4 sm:p-6 shadow-sm border border-gray-200 dark:border-[#2A2D31]">
+      <div className="mb-4 sm:mb-6">
+        <h2 className="text-base sm:text-lg font-semibold text-black dark:text-white">Users</h2>
+        <p className="text-sm text-black dark:text-gray-400">
+          Grant or revoke permissions. Your own permissions can only be changed by another admin, and the last admin cannot be demoted.
+        </p>
+      </div>
+
+      {loading ? (
+        <div className="text-sm text-gray-500 dark:text-gray-400">Loading users...</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200 dark:border-[#2A2D31] text-left text-gray-500 dark:text-gray-400">
+                <th className="py-2 pr-4 font-medium">User</th>
+                {PERMISSION_LABELS.map(({ key, label }) => (
+                  <th key={key} className="py-2 px-2 font-medium text-center whitespace-nowrap">{label}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {users.map((user) => {
+                const isSelf = user.id === session?.user?.id;
+                return (
+                  <tr key={user.id} className="border-b border-gray-100 dark:border-[#2A2D31]">
+                    <td className="py-2 pr-4">
+                      <p className="text-black dark:text-white">{user.name || user.email}</p>
+                      {user.name && <p className="text-xs text-gray-500 dark:text-gray-400">{user.email}</p>}
+                    </td>
+                    {PERMISSION_LABELS.map(({ key, label }) => (
+                      <td key={key} className="py-2 px-2 text-center">
+                        <input
+                          type="checkbox"
+                          checked={user[key]}
+                          onChange={(e) => setPermission(user, key, e.target.checked)}
+                          disabled={isSelf || saving === user.id}
+                          aria-label={`${label} for ${user.email}`}
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {message && (
+        <p className="mt-4 text-sm text-red-600 dark:text-red-400">{message}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+'use client'
+
+export const AGING_BUCKETS = ['0-30', '31-60', '61-90', '90+'] as const
+
+export type AgingBucket = typeof AGING_BUCKETS[number]
+
+export interface AgingParty {
+  id?: string
+  name: string
+  current: number
+  overdue: number
+  total: number
+}
+
+export interface AgingData {
+  asOf: string
+  buckets: Record<AgingBucket, number>
+  current: number
+  overdue: number
+  total: number
+}
+
+interface AgingPanelProps {
+  title: string
+  partyLabel: string
+  data: AgingData | null
+  // e.g. the most overdue customers or the vendors owed the most
+  topParties: AgingParty[]
+  topTitle: string
+  loading?: boolean
+  // Days outstanding metric, e.g. DSO for receivables
+  daysMetric?: {
+    label: string
+    value: number | null
+    hint: string
+  }
+  onSelectParty?: (party: AgingParty) => void
+}
+
+const BUCKET_COLORS: Record<AgingBucket, string> = {
+  '0-30': '#10b981',
+  '31-60': '#f59e0b',
+  '61-90': '#f97316',
+  '90+': '#ef4444',
+}
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount)
+}
+
+export default function AgingPanel({ title, partyLabel, data, topParties, topTitle, loading = false, daysMetric, onSelectParty }: AgingPanelProps) {
+  if (loading || !data) {
+    return (
+      <div className="bg-white dark:bg-[#2A2D31] border border-gray-200 dark:border-gray-800 rounded-lg p-6">
+        <div className="flex items-center justify-center h-48">
+          <div className="text-sm text-gray-600 dark:text-gray-400">
+            {loading ? 'Loading aging data...' : `No ${title.toLowerCase()} data available`}
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  const share = (amount: number) => (data.total > 0 ? (amount / data.total) * 100 : 0)
+
+  return (
+    <div className="bg-white dark:bg-[#2A2D31] border border-gray-200 dark:border-gray-800 rounded-lg p-6">
+      <div className="flex flex-wrap items-start justify-between gap-4 mb-4">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">{title}</h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400">Open balances as of {data.asOf}</p>
+        </div>
+        <div className="flex gap-6 text-right">
+          <div>
+            <p className="text-xs text-gray-600 dark:text-gray-400">Total</p>
+            <p className="text-lg font-semibold">{formatCurrency(data.total)}</p>
+          </div>
+          <div>
+            <p className="text-xs text-gray-600 dark:text-gray-400">Overdue</p>
+            <p className={`text-lg font-semibold ${data.overdue > 0 ? 'text-red-600' : ''}`}>{formatCurrency(data.overdue)}</p>
+          </div>
+          {daysMetric && (
+            <div title={daysMetric.hint}>
+              <p className="text-xs text-gray-600 dark:text-gray-400">{daysMetric.label}</p>
+              <p className="text-lg font-semibold">
+                {daysMetric.value === null ? '—' : `${daysMetric.value.toFixed(0)} days`}
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Share of the open balance in each bucket */}
+      <div className="flex h-3 w-full overflow-hidden rounded-full bg-gray-100 dark:bg-[#1E2023] mb-4">
+        {AGING_BUCKETS.map(bucket => (
+          <div
+            key={bucket}
+            style={{ width: `${share(data.buckets[bucket])}%`, backgroundColor: BUCKET_COLORS[bucket] }}
+            title={`${bucket} days: ${formatCurrency(data.buckets[bucket])}`}
+          />
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        {AGING_BUCKETS.map(bucket => (
+          <div key={bucket} className="border-l-4 pl-3" style={{ borderColor: BUCKET_COLORS[bucket] }}>
+            <p className="text-xs text-gray-600 dark:text-gray-400">{bucket} days</p>
+            <p className="text-base font-semibold">{formatCurrency(data.buckets[bucket])}</p>
+            <p className="text-xs text-gray-600 dark:text-gray-400">{share(data.buckets[bucket]).toFixed(1)}%</p>
+          </div>
+        ))}
+      </div>
+
+      <h4 className="text-sm font-medium text-gray-900 dark:text-gray-100 mb-2">{topTitle}</h4>
+      {topParties.length === 0 ? (
+        <p className="text-sm text-gray-600 dark:text-gray-400">No open balances</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-400">
+              <th className="text-left py-2 pr-3 font-medium">{partyLabel}</th>
+              <th className="text-right py-2 pr-3 font-medium">Overdue</th>
+              <th className="text-right py-2 font-medium">Total open</th>
+            </tr>
+          </thead>
+          <tbody>
+            {topParties.map((party, index) => (
+              <tr
+                key={party.id || `${party.name}-${index}`}
+                className={`border-b border-gray-100 dark:border-gray-800 ${onSelectParty && party.id ? 'cursor-pointer hover:bg-gray-50 dark:hover:bg-[#1E2023]' : ''}`}
+                onClick={() => onSelectParty && party.id && onSelectParty(party)}
+              >
+                <td className="py-2 pr-3">{party.name}</td>
+                <td className="py-2 pr-3 text-right tabular-nums text-red-600">{formatCurrency(party.overdue)}</td>
+                <td className="py-2 text-right tabular-nums">{formatCurrency(party.total)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
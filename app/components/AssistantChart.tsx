@@ -0,0 +1,115 @@
+'use client'
+
+import { ReactNode } from 'react'
+import { LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts'
+
+// A chart from an assistant answer, as stored with the message and in pinned widgets
+export interface ChartSpec {
+  kind: 'line' | 'bar'
+  title: string
+  subtitle?: string
+  series: { key: string; name: string }[]
+  data: Record<string, string | number>[]
+}
+
+interface AssistantChartProps {
+  chart: ChartSpec
+  compact?: boolean
+  action?: ReactNode
+}
+
+const COLORS = ['#10b981', '#ef4444', '#3b82f6', '#f59e0b', '#8b5cf6']
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(value)
+}
+
+export default function AssistantChart({ chart, compact = false, action }: AssistantChartProps) {
+  const CustomTooltip = ({ active, payload, label }: any) => {
+    if (active && payload && payload.length) {
+      return (
+        <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-3 shadow-lg">
+          <p className="text-sm font-medium text-gray-900 dark:text-gray-100 mb-1">{label}</p>
+          {payload.map((item: any) => (
+            <p key={item.dataKey} className="text-sm text-gray-600 dark:text-gray-300">
+              {item.name}: {formatCurrency(item.value)}
+            </p>
+          ))}
+        </div>
+      )
+    }
+    return null
+  }
+
+  const axes = (
+    <>
+      <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" className="dark:stroke-gray-700" />
+      <XAxis dataKey="label" stroke="#6b7280" className="dark:stroke-gray-400" fontSize={12} />
+      <YAxis
+        stroke="#6b7280"
+        className="dark:stroke-gray-400"
+        fontSize={12}
+        tickFormatter={(value) => `$${(value / 1000).toFixed(0)}k`}
+      />
+      <Tooltip content={<CustomTooltip />} />
+      {chart.series.length > 1 && <Legend />}
+    </>
+  )
+
+  return (
+    <div className={`bg-white dark:bg-[#2A2D31] border border-gray-200 dark:border-gray-800 rounded-lg ${compact ? 'p-4' : 'p-6'}`}>
+      <div className="flex items-start justify-between gap-2 mb-4">
+        <div>
+          <h3 className={`${compact ? 'text-sm' : 'text-lg'} font-medium text-gray-900 dark:text-gray-100`}>{chart.title}</h3>
+          {chart.subtitle && <p className="text-sm text-gray-600 dark:text-gray-400">{chart.subtitle}</p>}
+        </div>
+        {action}
+      </div>
+
+      {chart.data.length === 0 ? (
+        <div className={`flex items-center justify-center ${compact ? 'h-48' : 'h-64'}`}>
+          <div className="text-sm text-gray-600 dark:text-gray-400">No data to chart</div>
+        </div>
+      ) : (
+        <div className={compact ? 'h-48' : 'h-64'}>
+          <ResponsiveContainer width="100%" height="100%">
+            {chart.kind === 'line' ? (
+              <LineChart data={chart.data} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+                {axes}
+                {chart.series.map((series, index) => (
+                  <Line
+                    key={series.key}
+                    type="monotone"
+                    dataKey={series.key}
+                    name={series.name}
+                    stroke={COLORS[index % COLORS.length]}
+                    strokeWidth={2}
+                    dot={{ r: 3 }}
+                  />
+                ))}
+              </LineChart>
+            ) : (
+              <BarChart data={chart.data} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+                {axes}
+                {chart.series.map((series, index) => (
+                  <Bar
+                    key={series.key}
+                    dataKey={series.key}
+                    name={series.name}
+                    fill={COLORS[index % COLORS.length]}
+                    radius={[4, 4, 0, 0]}
+                  />
+                ))}
+              </BarChart>
+            )}
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  )
+}
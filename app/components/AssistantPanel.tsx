@@ -0,0 +1,386 @@
+'use client'
+
+import { useState, useEffect, useRef, FormEvent } from 'react'
+import { X, Plus, Trash2, Send, Pin, Wrench } from 'lucide-react'
+import AssistantChart, { ChartSpec } from './AssistantChart'
+
+interface ChatMessage {
+  id: string
+  role: 'user' | 'assistant'
+  content: string
+  toolCalls: string[]
+  charts: ChartSpec[]
+  createdAt: string
+}
+
+interface ConversationSummary {
+  id: string
+  title: string
+  updatedAt: string
+}
+
+interface AssistantPanelProps {
+  periodQuery: string
+  realmId?: string | null
+  onClose: () => void
+  onPinned?: () => void
+}
+
+const TOOL_LABELS: Record<string, string> = {
+  get_profit_and_loss: 'Profit and loss',
+  get_balance_sheet: 'Balance sheet',
+  get_account_transactions: 'Account transactions',
+}
+
+const EXAMPLE_QUESTIONS = [
+  'How did revenue and net profit trend by month?',
+  'What is our cash position?',
+  'What did we spend on "Advertising"?',
+]
+
+export default function AssistantPanel({ periodQuery, realmId, onClose, onPinned }: AssistantPanelProps) {
+  const [conversations, setConversations] = useState<ConversationSummary[]>([])
+  const [conversationId, setConversationId] = useState<string | null>(null)
+  const [messages, setMessages] = useState<ChatMessage[]>([])
+  const [question, setQuestion] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [asking, setAsking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [pinned, setPinned] = useState<string[]>([])
+  const bottomRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    fetchConversations()
+  }, [])
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose()
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [onClose])
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' })
+  }, [messages, asking])
+
+  const fetchConversations = async () => {
+    try {
+      const response = await fetch('/api/assistant/conversations')
+      if (response.ok) {
+        const data = await response.json()
+        setConversations(data.conversations)
+      }
+    } catch (err) {
+      console.error('Error fetching conversations:', err)
+    }
+  }
+
+  const openConversation = async (id: string) => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await fetch(`/api/assistant/conversations/${id}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch conversation')
+      }
+
+      setConversationId(id)
+      setMessages(data.conversation.messages)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const startConversation = () => {
+    setConversationId(null)
+    setMessages([])
+    setError(null)
+  }
+
+  const deleteConversation = async (id: string) => {
+    if (!window.confirm('Delete this conversation? Charts pinned from it stay on the dashboard.')) return
+
+    try {
+      const response = await fetch(`/api/assistant/conversations/${id}`, { method: 'DELETE' })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to delete conversation')
+      }
+
+      setConversations(conversations.filter(conversation => conversation.id !== id))
+      if (conversationId === id) startConversation()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    }
+  }
+
+  const ask = async (e?: FormEvent) => {
+    e?.preventDefault()
+    const text = question.trim()
+    if (!text || asking) return
+
+    // The question shows straight away; the stored turn replaces it once answered
+    const pending: ChatMessage = {
+      id: 'pending',
+      role: 'user',
+      content: text,
+      toolCalls: [],
+      charts: [],
+      createdAt: new Date().toISOString(),
+    }
+    const previous = messages
+    setMessages([...previous, pending])
+    setQuestion('')
+    setAsking(true)
+    setError(null)
+
+    try {
+      const params = new URLSearchParams(periodQuery)
+      if (realmId) params.set('realmId', realmId)
+
+      const url = conversationId
+        ? `/api/assistant/conversations/${conversationId}/messages`
+        : '/api/assistant/conversations'
+      const response = await fetch(`${url}?${params.toString()}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ question: text }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to answer the question')
+      }
+
+      setConversationId(data.conversation.id)
+      setMessages([...previous, ...data.messages])
+      setConversations([
+        data.conversation,
+        ...conversations.filter(conversation => conversation.id !== data.conversation.id),
+      ])
+    } catch (err) {
+      setMessages(previous)
+      setQuestion(text)
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setAsking(false)
+    }
+  }
+
+  const pinChart = async (messageId: string, index: number) => {
+    try {
+      setError(null)
+
+      const response = await fetch(`/api/assistant/messages/${messageId}/pin`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ index }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to pin chart')
+      }
+
+      setPinned([...pinned, `${messageId}:${index}`])
+      onPinned?.()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    }
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex justify-end bg-black/40"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-label="Financial assistant"
+    >
+      <div
+        className="w-full max-w-3xl h-full flex bg-white dark:bg-[#2A2D31] border-l border-gray-200 dark:border-gray-800 shadow-lg"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Conversation list */}
+        <div className="hidden sm:flex w-56 flex-col border-r border-gray-200 dark:border-gray-800">
+          <div className="p-4 border-b border-gray-200 dark:border-gray-800">
+            <button
+              onClick={startConversation}
+              className="w-full flex items-center justify-center gap-1 px-3 py-2 text-sm rounded-md bg-black text-white dark:bg-white dark:text-black hover:opacity-90 transition-opacity"
+            >
+              <Plus className="w-4 h-4" />
+              New conversation
+            </button>
+          </div>
+          <div className="flex-1 overflow-y-auto p-2 space-y-1">
+            {conversations.length === 0 ? (
+              <p className="p-2 text-xs text-gray-500 dark:text-gray-400">No conversations yet</p>
+            ) : conversations.map(conversation => (
+              <div
+                key={conversation.id}
+                className={`group flex items-center gap-1 rounded-md ${
+                  conversation.id === conversationId ? 'bg-gray-100 dark:bg-[#1E2023]' : 'hover:bg-gray-50 dark:hover:bg-white/5'
+                }`}
+              >
+                <button
+                  onClick={() => openConversation(conversation.id)}
+                  className="flex-1 min-w-0 px-2 py-2 text-left"
+                >
+                  <p className="text-sm text-gray-900 dark:text-gray-100 truncate">{conversation.title}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">{new Date(conversation.updatedAt).toLocaleDateString()}</p>
+                </button>
+                <button
+                  onClick={() => deleteConversation(conversation.id)}
+                  className="p-1 mr-1 rounded text-gray-400 hover:text-red-600 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                  aria-label={`Delete ${conversation.title}`}
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Chat */}
+        <div className="flex-1 min-w-0 flex flex-col">
+          <div className="flex items-start justify-between p-6 border-b border-gray-200 dark:border-gray-800">
+            <div>
+              <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">Financial Assistant</h3>
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                Answers from your QuickBooks reports for the selected period
+              </p>
+            </div>
+            <div className="flex items-center gap-1">
+              <button
+                onClick={startConversation}
+                className="sm:hidden p-2 rounded-md hover:bg-gray-100 dark:hover:bg-white/10 transition-colors"
+                aria-label="New conversation"
+              >
+                <Plus className="w-4 h-4" />
+              </button>
+              <button
+                onClick={onClose}
+                className="p-2 rounded-md hover:bg-gray-100 dark:hover:bg-white/10 transition-colors"
+                aria-label="Close"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-6 space-y-4">
+            {loading ? (
+              <div className="text-sm text-gray-600 dark:text-gray-400">Loading conversation...</div>
+            ) : messages.length === 0 ? (
+              <div className="space-y-2">
+                <p className="text-sm text-gray-600 dark:text-gray-400">Ask about revenue, expenses, cash or a particular account. For example:</p>
+                {EXAMPLE_QUESTIONS.map(example => (
+                  <button
+                    key={example}
+                    onClick={() => setQuestion(example)}
+                    className="block px-3 py-2 text-sm text-left rounded-md bg-gray-100 text-gray-700 dark:bg-[#1E2023] dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-white/10 transition-colors"
+                  >
+                    {example}
+                  </button>
+                ))}
+              </div>
+            ) : messages.map(message => (
+              <div key={message.id} className={message.role === 'user' ? 'flex justify-end' : 'space-y-2'}>
+                {message.role === 'user' ? (
+                  <div className="max-w-[80%] px-3 py-2 text-sm rounded-lg bg-black text-white dark:bg-white dark:text-black whitespace-pre-wrap">
+                    {message.content}
+                  </div>
+                ) : (
+                  <>
+                    {message.toolCalls.length > 0 && (
+                      <div className="flex flex-wrap gap-1">
+                        {message.toolCalls.map((name, index) => (
+                          <span
+                            key={index}
+                            className="inline-flex items-center gap-1 px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-600 dark:bg-[#1E2023] dark:text-gray-400"
+                          >
+                            <Wrench className="w-3 h-3" />
+                            {TOOL_LABELS[name] || name}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                    {message.content && (
+                      <div className="text-sm text-gray-900 dark:text-gray-100 whitespace-pre-wrap">{message.content}</div>
+                    )}
+                    {message.charts.map((chart, index) => {
+                      const isPinned = pinned.includes(`${message.id}:${index}`)
+                      return (
+                        <AssistantChart
+                          key={index}
+                          chart={chart}
+                          compact
+                          action={
+                            <button
+                              onClick={() => pinChart(message.id, index)}
+                              disabled={isPinned}
+                              className="flex items-center gap-1 px-2 py-1 text-xs rounded-md bg-gray-100 text-gray-700 dark:bg-[#1E2023] dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-white/10 disabled:opacity-50 transition-colors"
+                            >
+                              <Pin className="w-3 h-3" />
+                              {isPinned ? 'Pinned' : 'Pin to dashboard'}
+                            </button>
+                          }
+                        />
+                      )
+                    })}
+                  </>
+                )}
+              </div>
+            ))}
+            {asking && <div className="text-sm text-gray-600 dark:text-gray-400">Looking that up...</div>}
+            <div ref={bottomRef} />
+          </div>
+
+          {error && (
+            <div className="mx-6 mb-2 px-3 py-2 text-sm rounded-md bg-red-50 text-red-700 dark:bg-red-900/20 dark:text-red-400">
+              {error}
+            </div>
+          )}
+
+          <form onSubmit={ask} className="flex items-end gap-2 p-4 border-t border-gray-200 dark:border-gray-800">
+            <textarea
+              value={question}
+              onChange={(e) => setQuestion(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey) {
+                  e.preventDefault()
+                  ask()
+                }
+              }}
+              rows={2}
+              maxLength={4000}
+              placeholder="Ask a question about your finances..."
+              aria-label="Question"
+              className="flex-1 resize-none px-3 py-2 text-sm rounded-md border border-gray-200 dark:border-gray-700 bg-white dark:bg-[#1E2023] text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-1 focus:ring-gray-400"
+            />
+            <button
+              type="submit"
+              disabled={asking || !question.trim()}
+              className="p-2 rounded-md bg-black text-white dark:bg-white dark:text-black hover:opacity-90 disabled:opacity-50 transition-opacity"
+              aria-label="Ask"
+            >
+              <Send className="w-4 h-4" />
+            </button>
+          </form>
+        </div>
+      </div>
+    </div>
+  )
+}
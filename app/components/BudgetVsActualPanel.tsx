@@ -0,0 +1,257 @@
+'use client'
+
+import { useState } from 'react'
+import ChangeIndicator from './ChangeIndicator'
+
+interface BudgetAmounts {
+  actual: number
+  budget: number
+  variance: number
+  variancePercent: number | null
+  favorable: boolean | null
+}
+
+interface BudgetLine {
+  accountId?: string
+  account: string
+  kind: 'income' | 'expense'
+  months: BudgetAmounts[]
+  total: BudgetAmounts
+}
+
+interface BudgetInfo {
+  id: string
+  name: string
+  startDate: string
+  endDate: string
+}
+
+export interface BudgetVsActualData {
+  budget: BudgetInfo | null
+  budgets: BudgetInfo[]
+  months: Array<{
+    label: string
+    startDate: string
+    endDate: string
+  }>
+  income: BudgetLine[]
+  expenses: BudgetLine[]
+  totals: {
+    income: BudgetAmounts
+    expenses: BudgetAmounts
+    netProfit: BudgetAmounts
+  }
+}
+
+interface BudgetVsActualPanelProps {
+  data: BudgetVsActualData | null
+  loading?: boolean
+  onSelectBudget?: (budgetId: string) => void
+}
+
+type BudgetView = 'TOTAL' | 'MONTH'
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount)
+}
+
+const varianceClass = (amounts: BudgetAmounts) =>
+  amounts.favorable === false ? 'text-red-600' : amounts.favorable ? 'text-green-600' : 'text-gray-600 dark:text-gray-400'
+
+// Same rounding and sign conventions as the API
+const toAmounts = (actual: number, budget: number, kind: BudgetLine['kind']): BudgetAmounts => {
+  const variance = Math.round((actual - budget) * 100) / 100
+  return {
+    actual,
+    budget,
+    variance,
+    variancePercent: budget !== 0 ? (variance / Math.abs(budget)) * 100 : null,
+    favorable: variance === 0 ? null : kind === 'income' ? variance > 0 : variance < 0,
+  }
+}
+
+// Expenses above budget and income below it
+const offBudgetLabel = (line: BudgetLine) => {
+  if (line.total.favorable !== false) return null
+  return line.kind === 'expense' ? 'Over budget' : 'Under budget'
+}
+
+export default function BudgetVsActualPanel({ data, loading = false, onSelectBudget }: BudgetVsActualPanelProps) {
+  const [view, setView] = useState<BudgetView>('TOTAL')
+
+  if (loading || !data) {
+    return (
+      <div className="bg-white dark:bg-[#2A2D31] border border-gray-200 dark:border-gray-800 rounded-lg p-6">
+        <div className="flex items-center justify-center h-48">
+          <div className="text-sm text-gray-600 dark:text-gray-400">
+            {loading ? 'Loading budget data...' : 'No budget data available'}
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  const variancePercent = (amounts: BudgetAmounts, kind: BudgetLine['kind']) =>
+    amounts.variancePercent === null
+      ? <span className="text-sm text-gray-500 dark:text-gray-400">No budget</span>
+      : <ChangeIndicator change={amounts.variancePercent} increaseIsGood={kind === 'income'} />
+
+  // Per-month totals of a set of lines, for the monthly view
+  const monthTotals = (lines: BudgetLine[], kind: BudgetLine['kind']) => data.months.map((_, index) => toAmounts(
+    lines.reduce((sum, line) => sum + (line.months[index]?.actual || 0), 0),
+    lines.reduce((sum, line) => sum + (line.months[index]?.budget || 0), 0),
+    kind
+  ))
+  const incomeByMonth = monthTotals(data.income, 'income')
+  const expensesByMonth = monthTotals(data.expenses, 'expense')
+  const netProfitByMonth = incomeByMonth.map((income, index) => toAmounts(
+    income.actual - expensesByMonth[index].actual,
+    income.budget - expensesByMonth[index].budget,
+    'income'
+  ))
+
+  const totalRow = (label: string, amounts: BudgetAmounts, kind: BudgetLine['kind'], byMonth: BudgetAmounts[]) => (
+    <tr className="border-b border-gray-200 dark:border-gray-700 font-semibold">
+      <td className="py-2 px-4 text-sm">{label}</td>
+      {view === 'TOTAL' ? (
+        <>
+          <td className="py-2 px-4 text-right text-sm tabular-nums">{formatCurrency(amounts.actual)}</td>
+          <td className="py-2 px-4 text-right text-sm tabular-nums">{formatCurrency(amounts.budget)}</td>
+          <td className={`py-2 px-4 text-right text-sm tabular-nums ${varianceClass(amounts)}`}>{formatCurrency(amounts.variance)}</td>
+          <td className="py-2 px-4 text-right">{variancePercent(amounts, kind)}</td>
+        </>
+      ) : (
+        <>
+          {byMonth.map((monthAmounts, index) => (
+            <td key={data.months[index].startDate} className={`py-2 px-2 text-right text-xs tabular-nums ${varianceClass(monthAmounts)}`}>
+              {formatCurrency(monthAmounts.variance)}
+            </td>
+          ))}
+          <td className={`py-2 px-4 text-right text-sm tabular-nums ${varianceClass(amounts)}`}>{formatCurrency(amounts.variance)}</td>
+        </>
+      )}
+    </tr>
+  )
+
+  const lineRows = (lines: BudgetLine[]) => lines.map(line => {
+    const flag = offBudgetLabel(line)
+    return (
+      <tr
+        key={line.accountId || line.account}
+        className={`border-b border-gray-100 dark:border-gray-800 ${flag ? 'bg-red-50 dark:bg-red-900/10' : ''}`}
+      >
+        <td className="py-2 px-4 text-sm">
+          <span className="font-medium text-gray-900 dark:text-gray-100">{line.account}</span>
+          {flag && <span className="ml-2 text-xs text-red-600">{flag}</span>}
+        </td>
+        {view === 'TOTAL' ? (
+          <>
+            <td className="py-2 px-4 text-right text-sm tabular-nums">{formatCurrency(line.total.actual)}</td>
+            <td className="py-2 px-4 text-right text-sm tabular-nums text-gray-600 dark:text-gray-400">{formatCurrency(line.total.budget)}</td>
+            <td className={`py-2 px-4 text-right text-sm tabular-nums ${varianceClass(line.total)}`}>{formatCurrency(line.total.variance)}</td>
+            <td className="py-2 px-4 text-right">{variancePercent(line.total, line.kind)}</td>
+          </>
+        ) : (
+          <>
+            {line.months.map((amounts, index) => (
+              <td
+                key={data.months[index]?.startDate || index}
+                className={`py-2 px-2 text-right text-xs tabular-nums ${varianceClass(amounts)}`}
+                title={`Actual ${formatCurrency(amounts.actual)} · Budget ${formatCurrency(amounts.budget)}${amounts.variancePercent === null ? '' : ` · ${amounts.variancePercent > 0 ? '+' : ''}${amounts.variancePercent.toFixed(1)}%`}`}
+              >
+                {formatCurrency(amounts.variance)}
+              </td>
+            ))}
+            <td className={`py-2 px-4 text-right text-sm font-medium tabular-nums ${varianceClass(line.total)}`}>{formatCurrency(line.total.variance)}</td>
+          </>
+        )}
+      </tr>
+    )
+  })
+
+  const offBudgetCount = [...data.income, ...data.expenses].filter(line => offBudgetLabel(line)).length
+
+  return (
+    <div className="bg-white dark:bg-[#2A2D31] border border-gray-200 dark:border-gray-800 rounded-lg p-6">
+      <div className="flex flex-wrap items-start justify-between gap-4 mb-4">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">Budget vs Actual</h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {data.budget
+              ? <>Variance against {data.budget.name}{offBudgetCount > 0 && <span className="text-red-600"> · {offBudgetCount} lines off budget</span>}</>
+              : <>No budget covers this period. Add one in QuickBooks or under <a href="/budgets" className="underline">Budgets</a>.</>}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {data.budgets.length > 1 && onSelectBudget && (
+            <select
+              value={data.budget?.id || ''}
+              onChange={(e) => onSelectBudget(e.target.value)}
+              className="h-7 px-2 text-xs rounded-md bg-white dark:bg-[#2A2D31] text-black dark:text-white border border-gray-200 dark:border-gray-700 focus:outline-none"
+              aria-label="Budget"
+            >
+              {data.budgets.map(budget => (
+                <option key={budget.id} value={budget.id} className="text-black">
+                  {budget.name}
+                </option>
+              ))}
+            </select>
+          )}
+          {(['TOTAL', 'MONTH'] as BudgetView[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setView(option)}
+              aria-pressed={view === option}
+              className={`px-3 py-1 text-xs rounded-md transition-colors ${
+                view === option
+                  ? 'bg-black text-white dark:bg-white dark:text-black'
+                  : 'bg-gray-100 text-gray-700 dark:bg-[#1E2023] dark:text-gray-300'
+              }`}
+            >
+              {option === 'TOTAL' ? 'Period total' : 'By month'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {data.budget && (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-gray-200 dark:border-gray-700 text-sm font-medium text-gray-600 dark:text-gray-400">
+                <th className="text-left py-3 px-4 font-medium">Account</th>
+                {view === 'TOTAL' ? (
+                  <>
+                    <th className="text-right py-3 px-4 font-medium">Actual</th>
+                    <th className="text-right py-3 px-4 font-medium">Budget</th>
+                    <th className="text-right py-3 px-4 font-medium">Variance</th>
+                    <th className="text-right py-3 px-4 font-medium">Variance %</th>
+                  </>
+                ) : (
+                  <>
+                    {data.months.map(month => (
+                      <th key={month.startDate} className="text-right py-3 px-2 font-medium whitespace-nowrap">{month.label}</th>
+                    ))}
+                    <th className="text-right py-3 px-4 font-medium">Total</th>
+                  </>
+                )}
+              </tr>
+            </thead>
+            <tbody>
+              {lineRows(data.income)}
+              {totalRow('Total Income', data.totals.income, 'income', incomeByMonth)}
+              {lineRows(data.expenses)}
+              {totalRow('Total Expenses', data.totals.expenses, 'expense', expensesByMonth)}
+              {totalRow('Net Profit', data.totals.netProfit, 'income', netProfitByMonth)}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,124 @@
+'use client'
+
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from 'recharts'
+import { TrendInterval, TREND_INTERVAL_LABELS } from './TrendIntervalSelect'
+
+interface CashFlowData {
+  month: string
+  operating: number
+  investing: number
+  financing: number
+  netChange: number
+}
+
+interface CashFlowChartProps {
+  data: CashFlowData[]
+  loading?: boolean
+  interval?: TrendInterval
+}
+
+const SERIES_LABELS: Record<string, string> = {
+  operating: 'Operating',
+  investing: 'Investing',
+  financing: 'Financing',
+  netChange: 'Net change in cash',
+}
+
+export default function CashFlowChart({ data, loading = false, interval = 'Month' }: CashFlowChartProps) {
+  if (loading) {
+    return (
+      <div className="bg-white dark:bg-[#2A2D31] border border-gray-200 dark:border-gray-800 rounded-lg p-6">
+        <div className="flex items-center justify-center h-64">
+          <div className="text-sm text-gray-600 dark:text-gray-400">Loading chart data...</div>
+        </div>
+      </div>
+    )
+  }
+
+  if (!data || data.length === 0) {
+    return (
+      <div className="bg-white dark:bg-[#2A2D31] border border-gray-200 dark:border-gray-800 rounded-lg p-6">
+        <div className="flex items-center justify-center h-64">
+          <div className="text-sm text-gray-600 dark:text-gray-400">No cash flow data available</div>
+        </div>
+      </div>
+    )
+  }
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(value)
+  }
+
+  const CustomTooltip = ({ active, payload, label }: any) => {
+    if (active && payload && payload.length) {
+      return (
+        <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-3 shadow-lg">
+          <p className="text-sm font-medium text-gray-900 dark:text-gray-100 mb-2">{label}</p>
+          {payload.map((entry: any, index: number) => (
+            <div key={index} className="flex items-center space-x-2">
+              <div
+                className="w-3 h-3 rounded-full"
+                style={{ backgroundColor: entry.color }}
+              />
+              <span className="text-sm text-gray-600 dark:text-gray-300">
+                {SERIES_LABELS[entry.dataKey] || entry.name}: {formatCurrency(entry.value)}
+              </span>
+            </div>
+          ))}
+        </div>
+      )
+    }
+    return null
+  }
+
+  return (
+    <div className="bg-white dark:bg-[#2A2D31] border border-gray-200 dark:border-gray-800 rounded-lg p-6">
+      <div className="mb-4">
+        <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">Cash Flow</h3>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {TREND_INTERVAL_LABELS[interval]} operating, investing and financing cash flows
+        </p>
+      </div>
+
+      <div className="h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={data} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" className="dark:stroke-gray-700" />
+            <XAxis
+              dataKey="month"
+              stroke="#6b7280"
+              className="dark:stroke-gray-400"
+              fontSize={12}
+            />
+            <YAxis
+              stroke="#6b7280"
+              className="dark:stroke-gray-400"
+              fontSize={12}
+              tickFormatter={(value) => `$${(value / 1000).toFixed(0)}k`}
+            />
+            <Tooltip content={<CustomTooltip />} />
+            <Legend />
+            <ReferenceLine y={0} stroke="#9ca3af" />
+            <Bar dataKey="operating" fill="#10b981" name={SERIES_LABELS.operating} />
+            <Bar dataKey="investing" fill="#f59e0b" name={SERIES_LABELS.investing} />
+            <Bar dataKey="financing" fill="#8b5cf6" name={SERIES_LABELS.financing} />
+            <Line
+              type="monotone"
+              dataKey="netChange"
+              stroke="#3b82f6"
+              strokeWidth={2}
+              dot={{ fill: '#3b82f6', strokeWidth: 2, r: 4 }}
+              activeDot={{ r: 6, stroke: '#3b82f6', strokeWidth: 2 }}
+              name={SERIES_LABELS.netChange}
+            />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,307 @@
+'use client'
+
+import { useState } from 'react'
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from 'recharts'
+
+interface ForecastItem {
+  id: string
+  party: string
+  docNumber: string
+  dueDate: string
+  amount: number
+  overdue: boolean
+}
+
+export interface CashForecastData {
+  startDate: string
+  endDate: string
+  weeks: number
+  openingBalance: number
+  receipts: ForecastItem[]
+  disbursements: ForecastItem[]
+  recurringExpenses: {
+    monthly: number
+    weekly: number
+    nonCash: number
+    period: {
+      from: string
+      to: string
+    }
+  }
+}
+
+interface CashForecastChartProps {
+  data: CashForecastData | null
+  loading?: boolean
+}
+
+export interface CollectionScenario {
+  invoiceDelayDays: number // extra days customers take on invoices not yet due
+  overdueDelayDays: number // days until overdue invoices are collected
+}
+
+export interface ForecastWeek {
+  week: string
+  startDate: string
+  receipts: number
+  disbursements: number
+  outflow: number // disbursements as a negative amount, for the chart
+  net: number
+  balance: number
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+const MAX_DELAY_DAYS = 90
+const WEEKS_PER_MONTH = 52 / 12
+
+const SERIES_LABELS: Record<string, string> = {
+  receipts: 'Receipts',
+  outflow: 'Disbursements',
+  balance: 'Closing balance',
+}
+
+const parseDay = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number)
+  return new Date(year, month - 1, day)
+}
+
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days)
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+// Rolls the opening balance forward week by week. Items due before the forecast
+// starts fall in the first week; receipts are pushed back by the scenario's delays
+// and those that slip past the last week are left out. Open bills are paid out of
+// the recurring expenses rather than on top of them: by the end of each week the
+// outflow so far is the larger of the run-rate to date and the bills due to date.
+export function projectCashForecast(data: CashForecastData, scenario: CollectionScenario) {
+  const start = parseDay(data.startDate)
+  const weekIndex = (date: Date) => Math.floor((date.getTime() - start.getTime()) / DAY_MS / 7)
+
+  const weeks = Array.from({ length: data.weeks }, (_, i) => {
+    const weekStart = addDays(start, i * 7)
+    return {
+      week: `${MONTHS[weekStart.getMonth()]} ${weekStart.getDate()}`,
+      startDate: weekStart,
+      receipts: 0,
+      disbursements: 0,
+    }
+  })
+
+  let deferredReceipts = 0
+  for (const receipt of data.receipts) {
+    const due = parseDay(receipt.dueDate)
+    const delay = receipt.overdue ? scenario.overdueDelayDays : scenario.invoiceDelayDays
+    const index = Math.max(0, weekIndex(addDays(due < start ? start : due, delay)))
+    if (index < weeks.length) weeks[index].receipts += receipt.amount
+    else deferredReceipts += receipt.amount
+  }
+
+  const billsDue = weeks.map(() => 0)
+  for (const disbursement of data.disbursements) {
+    const due = parseDay(disbursement.dueDate)
+    const index = Math.max(0, weekIndex(due < start ? start : due))
+    if (index < weeks.length) billsDue[index] += disbursement.amount
+  }
+
+  let billsToDate = 0
+  let paid = 0
+  weeks.forEach((week, i) => {
+    billsToDate += billsDue[i]
+    const outflow = Math.max(data.recurringExpenses.weekly * (i + 1), billsToDate)
+    week.disbursements = outflow - paid
+    paid = outflow
+  })
+
+  let balance = data.openingBalance
+  const points: ForecastWeek[] = weeks.map(week => {
+    const net = week.receipts - week.disbursements
+    balance += net
+    return {
+      week: week.week,
+      startDate: `${week.startDate.getFullYear()}-${String(week.startDate.getMonth() + 1).padStart(2, '0')}-${String(week.startDate.getDate()).padStart(2, '0')}`,
+      receipts: round(week.receipts),
+      disbursements: round(week.disbursements),
+      outflow: -round(week.disbursements),
+      net: round(net),
+      balance: round(balance),
+    }
+  })
+
+  const endingBalance = points.length > 0 ? points[points.length - 1].balance : data.openingBalance
+
+  // Burn is the average net outflow over the forecast; runway is how many months
+  // the opening balance lasts at that rate (none left when already overdrawn)
+  const monthlyBurn = points.length > 0 ? ((data.openingBalance - endingBalance) / points.length) * WEEKS_PER_MONTH : 0
+  const runwayMonths = monthlyBurn <= 0 ? null : Math.max(0, data.openingBalance / monthlyBurn)
+
+  const lowest = points.reduce<ForecastWeek | null>((min, point) => (!min || point.balance < min.balance ? point : min), null)
+
+  return {
+    points,
+    lowest,
+    endingBalance,
+    monthlyBurn: round(monthlyBurn),
+    runwayMonths: runwayMonths === null ? null : Math.round(runwayMonths * 10) / 10,
+    firstShortfall: points.find(point => point.balance < 0) || null,
+    deferredReceipts: round(deferredReceipts),
+  }
+}
+
+const formatCurrency = (value: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(value)
+}
+
+export default function CashForecastChart({ data, loading = false }: CashForecastChartProps) {
+  const [scenario, setScenario] = useState<CollectionScenario>({ invoiceDelayDays: 0, overdueDelayDays: 0 })
+
+  if (loading) {
+    return (
+      <div className="bg-white dark:bg-[#2A2D31] border border-gray-200 dark:border-gray-800 rounded-lg p-6">
+        <div className="flex items-center justify-center h-64">
+          <div className="text-sm text-gray-600 dark:text-gray-400">Loading cash forecast...</div>
+        </div>
+      </div>
+    )
+  }
+
+  if (!data) {
+    return (
+      <div className="bg-white dark:bg-[#2A2D31] border border-gray-200 dark:border-gray-800 rounded-lg p-6">
+        <div className="flex items-center justify-center h-64">
+          <div className="text-sm text-gray-600 dark:text-gray-400">No cash forecast available</div>
+        </div>
+      </div>
+    )
+  }
+
+  const forecast = projectCashForecast(data, scenario)
+
+  const CustomTooltip = ({ active, payload, label }: any) => {
+    if (active && payload && payload.length) {
+      const point: ForecastWeek = payload[0].payload
+      return (
+        <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-3 shadow-lg">
+          <p className="text-sm font-medium text-gray-900 dark:text-gray-100 mb-2">Week of {label}</p>
+          <p className="text-sm text-gray-600 dark:text-gray-300">Receipts: {formatCurrency(point.receipts)}</p>
+          <p className="text-sm text-gray-600 dark:text-gray-300">Disbursements: {formatCurrency(point.disbursements)}</p>
+          <p className="text-sm text-gray-600 dark:text-gray-300">Net: {formatCurrency(point.net)}</p>
+          <p className={`text-sm font-medium ${point.balance < 0 ? 'text-red-600' : 'text-gray-900 dark:text-gray-100'}`}>
+            Closing balance: {formatCurrency(point.balance)}
+          </p>
+        </div>
+      )
+    }
+    return null
+  }
+
+  const slider = (key: keyof CollectionScenario, label: string) => (
+    <label className="flex-1 min-w-[12rem] text-sm text-gray-600 dark:text-gray-400">
+      <span className="flex justify-between mb-1">
+        <span>{label}</span>
+        <span className="font-medium text-gray-900 dark:text-gray-100">+{scenario[key]} days</span>
+      </span>
+      <input
+        type="range"
+        min={0}
+        max={MAX_DELAY_DAYS}
+        step={5}
+        value={scenario[key]}
+        onChange={(e) => setScenario(prev => ({ ...prev, [key]: Number(e.target.value) }))}
+        className="w-full"
+      />
+    </label>
+  )
+
+  return (
+    <div className="bg-white dark:bg-[#2A2D31] border border-gray-200 dark:border-gray-800 rounded-lg p-6">
+      <div className="flex flex-wrap items-start justify-between gap-4 mb-4">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">{data.weeks}-Week Cash Forecast</h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            From {formatCurrency(data.openingBalance)} today: open invoices and bills by due date, with {formatCurrency(data.recurringExpenses.weekly)} a week of recurring cash expenses covering bills as they fall due
+          </p>
+        </div>
+        <div className="flex gap-6 text-right">
+          <div title={`Recurring expenses averaged over ${data.recurringExpenses.period.from} to ${data.recurringExpenses.period.to}, less ${formatCurrency(data.recurringExpenses.nonCash)}/mo of depreciation and amortization`}>
+            <p className="text-xs text-gray-600 dark:text-gray-400">Runway</p>
+            <p className={`text-lg font-semibold ${forecast.runwayMonths !== null && forecast.runwayMonths < 3 ? 'text-red-600' : ''}`}>
+              {forecast.runwayMonths === null ? 'Not burning cash' : `${forecast.runwayMonths.toFixed(1)} months`}
+            </p>
+            {forecast.monthlyBurn > 0 && (
+              <p className="text-xs text-gray-600 dark:text-gray-400">Burn {formatCurrency(forecast.monthlyBurn)}/mo</p>
+            )}
+          </div>
+          {forecast.lowest && (
+            <div>
+              <p className="text-xs text-gray-600 dark:text-gray-400">Lowest balance</p>
+              <p className={`text-lg font-semibold ${forecast.lowest.balance < 0 ? 'text-red-600' : ''}`}>
+                {formatCurrency(forecast.lowest.balance)}
+              </p>
+              <p className="text-xs text-gray-600 dark:text-gray-400">Week of {forecast.lowest.week}</p>
+            </div>
+          )}
+          <div>
+            <p className="text-xs text-gray-600 dark:text-gray-400">Week {data.weeks}</p>
+            <p className={`text-lg font-semibold ${forecast.endingBalance < 0 ? 'text-red-600' : ''}`}>
+              {formatCurrency(forecast.endingBalance)}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={forecast.points} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" className="dark:stroke-gray-700" />
+            <XAxis
+              dataKey="week"
+              stroke="#6b7280"
+              className="dark:stroke-gray-400"
+              fontSize={12}
+            />
+            <YAxis
+              stroke="#6b7280"
+              className="dark:stroke-gray-400"
+              fontSize={12}
+              tickFormatter={(value) => `$${(value / 1000).toFixed(0)}k`}
+            />
+            <Tooltip content={<CustomTooltip />} />
+            <Legend formatter={(value: string) => SERIES_LABELS[value] || value} />
+            <ReferenceLine y={0} stroke="#9ca3af" />
+            <Bar dataKey="receipts" fill="#10b981" />
+            <Bar dataKey="outflow" fill="#ef4444" />
+            <Line
+              type="monotone"
+              dataKey="balance"
+              stroke="#3b82f6"
+              strokeWidth={2}
+              dot={{ fill: '#3b82f6', strokeWidth: 2, r: 3 }}
+              activeDot={{ r: 5, stroke: '#3b82f6', strokeWidth: 2 }}
+            />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      {/* Collection-delay scenarios */}
+      <div className="flex flex-wrap gap-6 mt-4">
+        {slider('invoiceDelayDays', 'Customers pay invoices late by')}
+        {slider('overdueDelayDays', 'Overdue invoices collected in')}
+      </div>
+      {(forecast.firstShortfall || forecast.deferredReceipts > 0) && (
+        <p className="text-xs mt-2 text-gray-600 dark:text-gray-400">
+          {forecast.firstShortfall && (
+            <span className="text-red-600">Cash runs out in the week of {forecast.firstShortfall.week}. </span>
+          )}
+          {forecast.deferredReceipts > 0 && `${formatCurrency(forecast.deferredReceipts)} of receipts slip past week ${data.weeks}.`}
+        </p>
+      )}
+    </div>
+  )
+}
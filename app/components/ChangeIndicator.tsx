@@ -0,0 +1,34 @@
+'use client'
+
+import { ArrowUp, ArrowDown } from 'lucide-react'
+
+interface ChangeIndicatorProps {
+  change: number // percent
+  // For expenses an increase is bad (red) and a decrease good (green); income is the other way round
+  increaseIsGood?: boolean
+  label?: string
+  unit?: string // '%' for a relative change, ' pts' for a change in a percentage
+}
+
+export default function ChangeIndicator({ change, increaseIsGood = false, label, unit = '%' }: ChangeIndicatorProps) {
+  const isPositive = change > 0
+  const isNegative = change < 0
+  const isGood = increaseIsGood ? isPositive : isNegative
+  const isBad = increaseIsGood ? isNegative : isPositive
+  const colorClass = isBad ? 'text-red-600' : isGood ? 'text-green-600' : 'text-gray-600'
+
+  return (
+    <div className="flex items-center justify-end space-x-1">
+      {isPositive && <ArrowUp className={`w-3 h-3 ${colorClass}`} />}
+      {isNegative && <ArrowDown className={`w-3 h-3 ${colorClass}`} />}
+      <span className={`text-sm font-medium ${colorClass}`}>
+        {isPositive ? '+' : ''}{change.toFixed(1)}{unit}
+      </span>
+      {label && (
+        <span className="text-xs text-gray-500 dark:text-gray-400">
+          {label}
+        </span>
+      )}
+    </div>
+  )
+}
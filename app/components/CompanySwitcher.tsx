@@ -0,0 +1,41 @@
+'use client'
+
+import { Building2 } from 'lucide-react'
+
+export interface ConnectedCompany {
+  realmId: string
+  companyName: string
+}
+
+interface CompanySwitcherProps {
+  companies: ConnectedCompany[]
+  value: string | null
+  onChange: (realmId: string) => void
+  disabled?: boolean
+}
+
+export default function CompanySwitcher({ companies, value, onChange, disabled = false }: CompanySwitcherProps) {
+  // Nothing to switch between with a single connection
+  if (companies.length < 2) {
+    return null
+  }
+
+  return (
+    <label className="flex items-center gap-2 h-8 px-2 rounded-md border border-gray-300 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-900 transition">
+      <Building2 className="w-4 h-4 text-gray-700 dark:text-gray-200" aria-hidden="true" />
+      <span className="sr-only">Company</span>
+      <select
+        value={value || ''}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={disabled}
+        className="bg-transparent text-sm text-gray-900 dark:text-gray-100 focus:outline-none max-w-[12rem] truncate disabled:opacity-50"
+      >
+        {companies.map((company) => (
+          <option key={company.realmId} value={company.realmId} className="text-black">
+            {company.companyName}
+          </option>
+        ))}
+      </select>
+    </label>
+  )
+}
@@ -0,0 +1,112 @@
+'use client'
+
+export interface ConsolidationKpis {
+  revenue: number
+  costOfGoodsSold: number
+  grossProfit: number
+  operatingExpenses: number
+  netOperatingIncome: number
+  otherIncome: number
+  otherExpenses: number
+  expenses: number
+  netProfit: number
+  netMargin?: number
+  cashBalance?: number
+}
+
+interface ConsolidationColumn {
+  key: string
+  title: string
+  kpis: ConsolidationKpis
+}
+
+interface ConsolidationTableProps {
+  entities: ConsolidationColumn[]
+  eliminations: ConsolidationKpis | null
+  consolidated: ConsolidationKpis
+}
+
+const LINES: Array<{ key: keyof ConsolidationKpis; label: string; subtotal?: boolean }> = [
+  { key: 'revenue', label: 'Income' },
+  { key: 'costOfGoodsSold', label: 'Cost of Goods Sold' },
+  { key: 'grossProfit', label: 'Gross Profit', subtotal: true },
+  { key: 'operatingExpenses', label: 'Expenses' },
+  { key: 'netOperatingIncome', label: 'Net Operating Income', subtotal: true },
+  { key: 'otherIncome', label: 'Other Income' },
+  { key: 'otherExpenses', label: 'Other Expenses' },
+  { key: 'netProfit', label: 'Net Income', subtotal: true },
+]
+
+export default function ConsolidationTable({ entities, eliminations, consolidated }: ConsolidationTableProps) {
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(amount)
+  }
+
+  return (
+    <div className="bg-white dark:bg-[#2A2D31] border border-gray-200 dark:border-gray-800 rounded-lg p-6">
+      <h3 className="text-lg font-medium mb-4">Consolidation Worksheet</h3>
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead>
+            <tr className="border-b border-gray-200 dark:border-gray-700">
+              <th className="text-left py-3 px-4">
+                <span className="text-sm font-medium text-gray-600 dark:text-gray-400">Account</span>
+              </th>
+              {entities.map((entity) => (
+                <th key={entity.key} className="text-right py-3 px-4">
+                  <span className="text-sm font-medium text-gray-600 dark:text-gray-400">{entity.title}</span>
+                </th>
+              ))}
+              {eliminations && (
+                <th className="text-right py-3 px-4">
+                  <span className="text-sm font-medium text-gray-600 dark:text-gray-400">Eliminations</span>
+                </th>
+              )}
+              <th className="text-right py-3 px-4">
+                <span className="text-sm font-medium text-gray-900 dark:text-gray-100">Consolidated</span>
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {LINES.map((line) => (
+              <tr
+                key={line.key}
+                className={`border-b border-gray-100 dark:border-gray-800 ${line.subtotal ? 'bg-gray-50 dark:bg-black/20' : ''}`}
+              >
+                <td className="py-3 px-4">
+                  <span className={`text-sm text-gray-900 dark:text-gray-100 ${line.subtotal ? 'font-semibold' : 'font-medium'}`}>
+                    {line.label}
+                  </span>
+                </td>
+                {entities.map((entity) => (
+                  <td key={entity.key} className="py-3 px-4 text-right">
+                    <span className="text-sm text-gray-700 dark:text-gray-300">
+                      {formatCurrency(entity.kpis[line.key] ?? 0)}
+                    </span>
+                  </td>
+                ))}
+                {eliminations && (
+                  <td className="py-3 px-4 text-right">
+                    <span className="text-sm text-gray-500 dark:text-gray-400">
+                      {eliminations[line.key] ? formatCurrency(eliminations[line.key] ?? 0) : '—'}
+                    </span>
+                  </td>
+                )}
+                <td className="py-3 px-4 text-right">
+                  <span className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+                    {formatCurrency(consolidated[line.key] ?? 0)}
+                  </span>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
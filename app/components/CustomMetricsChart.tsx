@@ -0,0 +1,157 @@
+'use client'
+
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts'
+import { TrendInterval, TREND_INTERVAL_LABELS } from './TrendIntervalSelect'
+
+type MetricFormat = 'currency' | 'percent' | 'ratio' | 'number'
+
+interface MetricSeries {
+  key: string
+  name: string
+  format: MetricFormat
+}
+
+interface TrendData {
+  month: string
+  projected?: boolean
+  metrics?: Record<string, number | null>
+}
+
+interface CustomMetricsChartProps {
+  data: TrendData[]
+  metrics: MetricSeries[]
+  loading?: boolean
+  interval?: TrendInterval
+}
+
+const COLORS = ['#8b5cf6', '#f59e0b', '#14b8a6', '#ec4899', '#6366f1', '#84cc16']
+
+const formatValue = (value: number, format: MetricFormat) => {
+  switch (format) {
+    case 'currency':
+      return new Intl.NumberFormat('en-US', {
+        style: 'currency',
+        currency: 'USD',
+        minimumFractionDigits: 0,
+        maximumFractionDigits: 0,
+      }).format(value)
+    case 'percent':
+      return `${value.toFixed(1)}%`
+    case 'ratio':
+      return `${value.toFixed(2)}×`
+    default:
+      return value.toLocaleString('en-US', { maximumFractionDigits: 2 })
+  }
+}
+
+// Currency metrics on the left axis, percentages, ratios and plain numbers on the right
+const axisFor = (format: MetricFormat) => (format === 'currency' ? 'left' : 'right')
+
+export default function CustomMetricsChart({ data, metrics, loading = false, interval = 'Month' }: CustomMetricsChartProps) {
+  if (loading) {
+    return (
+      <div className="bg-white dark:bg-[#2A2D31] border border-gray-200 dark:border-gray-800 rounded-lg p-6">
+        <div className="flex items-center justify-center h-64">
+          <div className="text-sm text-gray-600 dark:text-gray-400">Loading chart data...</div>
+        </div>
+      </div>
+    )
+  }
+
+  // Projected months have no actuals to evaluate the formulas on
+  const chartData = data
+    .filter(item => !item.projected)
+    .map(item => ({ month: item.month, ...item.metrics }))
+
+  if (chartData.length === 0 || metrics.length === 0) {
+    return (
+      <div className="bg-white dark:bg-[#2A2D31] border border-gray-200 dark:border-gray-800 rounded-lg p-6">
+        <div className="flex items-center justify-center h-64">
+          <div className="text-sm text-gray-600 dark:text-gray-400">No custom metric data available</div>
+        </div>
+      </div>
+    )
+  }
+
+  const hasLeft = metrics.some(metric => axisFor(metric.format) === 'left')
+  const hasRight = metrics.some(metric => axisFor(metric.format) === 'right')
+  const rightFormat = metrics.find(metric => axisFor(metric.format) === 'right')?.format || 'number'
+
+  const CustomTooltip = ({ active, payload, label }: any) => {
+    if (active && payload && payload.length) {
+      return (
+        <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-3 shadow-lg">
+          <p className="text-sm font-medium text-gray-900 dark:text-gray-100 mb-1">{label}</p>
+          {metrics.map(metric => {
+            const value = payload[0].payload[metric.key]
+            return (
+              <p key={metric.key} className="text-sm text-gray-600 dark:text-gray-300">
+                {metric.name}: {value === null || value === undefined ? '—' : formatValue(value, metric.format)}
+              </p>
+            )
+          })}
+        </div>
+      )
+    }
+    return null
+  }
+
+  return (
+    <div className="bg-white dark:bg-[#2A2D31] border border-gray-200 dark:border-gray-800 rounded-lg p-6">
+      <div className="mb-4">
+        <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">Custom Metrics</h3>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {TREND_INTERVAL_LABELS[interval]} values of your metrics over the selected range
+        </p>
+      </div>
+
+      <div className="h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={chartData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" className="dark:stroke-gray-700" />
+            <XAxis
+              dataKey="month"
+              stroke="#6b7280"
+              className="dark:stroke-gray-400"
+              fontSize={12}
+            />
+            {hasLeft && (
+              <YAxis
+                yAxisId="left"
+                stroke="#6b7280"
+                className="dark:stroke-gray-400"
+                fontSize={12}
+                tickFormatter={(value) => `$${(value / 1000).toFixed(0)}k`}
+              />
+            )}
+            {hasRight && (
+              <YAxis
+                yAxisId="right"
+                orientation={hasLeft ? 'right' : 'left'}
+                stroke="#6b7280"
+                className="dark:stroke-gray-400"
+                fontSize={12}
+                tickFormatter={(value) => formatValue(value, rightFormat)}
+              />
+            )}
+            <Tooltip content={<CustomTooltip />} />
+            <Legend />
+            {metrics.map((metric, index) => (
+              <Line
+                key={metric.key}
+                yAxisId={axisFor(metric.format)}
+                type="monotone"
+                dataKey={metric.key}
+                name={metric.name}
+                stroke={COLORS[index % COLORS.length]}
+                strokeWidth={2}
+                dot={{ r: 3 }}
+                connectNulls={false}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,259 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Pencil, Trash2 } from 'lucide-react';
+
+const REALM_STORAGE_KEY = 'qbo-realm';
+
+type MetricFormat = 'currency' | 'percent' | 'ratio' | 'number';
+
+interface CustomMetric {
+  id?: string;
+  name: string;
+  formula: string;
+  format: MetricFormat;
+  chart: boolean;
+}
+
+const FORMAT_OPTIONS: Array<{ value: MetricFormat; label: string }> = [
+  { value: 'currency', label: 'Currency' },
+  { value: 'percent', label: 'Percentage (formula gives a fraction)' },
+  { value: 'ratio', label: 'Ratio' },
+  { value: 'number', label: 'Number' },
+];
+
+const SECTION_TOTALS = [
+  'TotalIncome',
+  'TotalCOGS',
+  'GrossProfit',
+  'TotalExpenses',
+  'NetOperatingIncome',
+  'TotalOtherIncome',
+  'TotalOtherExpenses',
+  'NetOtherIncome',
+  'NetIncome',
+];
+
+const emptyMetric = (): CustomMetric => ({ name: '', formula: '', format: 'currency', chart: false });
+
+const inputClassName = 'w-full px-3 py-2 rounded-md bg-white dark:bg-[#2A2D31] text-black dark:text-white focus:outline-none focus:ring-2 focus:ring-black dark:focus:ring-white shadow-sm border border-gray-200 dark:border-[#3A3D41]';
+
+export default function CustomMetricsTab() {
+  const [metrics, setMetrics] = useState<CustomMetric[]>([]);
+  const [draft, setDraft] = useState<CustomMetric>(emptyMetric());
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    fetchMetrics();
+  }, []);
+
+  const fetchMetrics = async () => {
+    try {
+      const response = await fetch('/api/dashboard/metrics');
+      if (response.ok) {
+        const data = await response.json();
+        setMetrics(data.metrics);
+      }
+    } catch (error) {
+      console.error('Error fetching custom metrics:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Account references are checked against the company selected on the dashboard
+  const realmQuery = () => {
+    const realmId = window.localStorage.getItem(REALM_STORAGE_KEY);
+    return realmId ? `?realmId=${encodeURIComponent(realmId)}` : '';
+  };
+
+  const saveMetric = async () => {
+    setSaving(true);
+    setMessage('');
+
+    try {
+      const url = draft.id
+        ? `/api/dashboard/metrics/${encodeURIComponent(draft.id)}${realmQuery()}`
+        : `/api/dashboard/metrics${realmQuery()}`;
+      const response = await fetch(url, {
+        method: draft.id ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(draft),
+      });
+
+      if (response.ok) {
+        setDraft(emptyMetric());
+        fetchMetrics();
+      } else {
+        const error = await response.json();
+        setMessage(error.error || 'Failed to save metric');
+      }
+    } catch (error) {
+      console.error('Error saving custom metric:', error);
+      setMessage('Error saving metric');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteMetric = async (id: string) => {
+    try {
+      const response = await fetch(`/api/dashboard/metrics/${encodeURIComponent(id)}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        setMessage(error.error || 'Failed to delete metric');
+        return;
+      }
+
+      if (draft.id === id) setDraft(emptyMetric());
+      fetchMetrics();
+    } catch (error) {
+      console.error('Error deleting custom metric:', error);
+      setMessage('Error deleting metric');
+    }
+  };
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      <div className="bg-white dark:bg-[#1E2023] rounded-lg p-4 sm:p-6 shadow-sm border border-gray-200 dark:border-[#2A2D31]">
+        <div className="mb-4 sm:mb-6">
+          <h2 className="text-base sm:text-lg font-semibold text-black dark:text-white">Custom Metrics</h2>
+          <p className="text-sm text-black dark:text-gray-400">
+            Define your own KPIs as formulas over the profit and loss. They can be chosen as KPI cards on the dashboard and drawn on the trend chart.
+          </p>
+        </div>
+
+        {loading ? (
+          <div className="text-sm text-gray-500 dark:text-gray-400">Loading metrics...</div>
+        ) : metrics.length > 0 && (
+          <ul className="space-y-3 mb-6">
+            {metrics.map((metric) => (
+              <li
+                key={metric.id}
+                className="flex items-start justify-between gap-4 p-3 rounded-md border border-gray-100 dark:border-[#2A2D31]"
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-black dark:text-white">
+                    {metric.name}
+                    <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">
+                      {FORMAT_OPTIONS.find(option => option.value === metric.format)?.label.split(' (')[0]}
+                      {metric.chart ? ' · on trend chart' : ''}
+                    </span>
+                  </p>
+                  <p className="text-xs font-mono text-gray-500 dark:text-gray-400 mt-1 break-all">{metric.formula}</p>
+                </div>
+                {metric.id && (
+                  <div className="flex items-center">
+                    <button
+                      onClick={() => setDraft(metric)}
+                      className="p-2 rounded-md hover:bg-gray-100 dark:hover:bg-white/10 transition-colors"
+                      aria-label={`Edit ${metric.name}`}
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => deleteMetric(metric.id as string)}
+                      className="p-2 rounded-md hover:bg-gray-100 dark:hover:bg-white/10 transition-colors"
+                      aria-label={`Delete ${metric.name}`}
+                    >
+                      <Trash2 className="w-4 h-4 text-red-600" />
+                    </button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="metricName" className="block text-sm font-medium text-black dark:text-white mb-2">
+                Name
+              </label>
+              <input
+                type="text"
+                id="metricName"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                className={inputClassName}
+                placeholder="e.g. Marketing % of revenue"
+              />
+            </div>
+            <div>
+              <label htmlFor="metricFormat" className="block text-sm font-medium text-black dark:text-white mb-2">
+                Format
+              </label>
+              <select
+                id="metricFormat"
+                value={draft.format}
+                onChange={(e) => setDraft({ ...draft, format: e.target.value as MetricFormat })}
+                className={inputClassName}
+              >
+                {FORMAT_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="metricFormula" className="block text-sm font-medium text-black dark:text-white mb-2">
+              Formula
+            </label>
+            <textarea
+              id="metricFormula"
+              value={draft.formula}
+              onChange={(e) => setDraft({ ...draft, formula: e.target.value })}
+              rows={2}
+              className={`${inputClassName} font-mono text-sm`}
+              placeholder="([Advertising] + [Marketing]) / TotalIncome"
+            />
+            <p className="mt-2 text-xs text-black dark:text-gray-400">
+              Use account names in brackets such as <code>[Advertising]</code>, account IDs as <code>[id:81]</code>, numbers and
+              + − × ÷ (<code>+ - * /</code>) with parentheses. Section totals: {SECTION_TOTALS.join(', ')}.
+            </p>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-black dark:text-white">
+            <input
+              type="checkbox"
+              checked={draft.chart}
+              onChange={(e) => setDraft({ ...draft, chart: e.target.checked })}
+            />
+            Show on the trend chart
+          </label>
+
+          {message && (
+            <p className="text-sm text-red-600 dark:text-red-400">{message}</p>
+          )}
+
+          <div className="flex items-center justify-end gap-2">
+            {draft.id && (
+              <button
+                onClick={() => { setDraft(emptyMetric()); setMessage(''); }}
+                className="px-4 py-2 text-sm text-gray-600 dark:text-gray-400 hover:text-black dark:hover:text-white transition-colors"
+              >
+                Cancel
+              </button>
+            )}
+            <button
+              onClick={saveMetric}
+              disabled={saving || !draft.name.trim() || !draft.formula.trim()}
+              className="px-4 py-2 bg-black text-white dark:bg-[#2A2D31] dark:text-white rounded-md hover:opacity-80 disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium transition-opacity shadow-sm"
+            >
+              {saving ? 'Saving...' : draft.id ? 'Update Metric' : 'Save Metric'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
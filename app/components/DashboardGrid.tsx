@@ -0,0 +1,344 @@
+'use client'
+
+import { useState, useEffect, useRef, ReactNode, CSSProperties, PointerEvent as ReactPointerEvent } from 'react'
+import { GripVertical, X, Plus, LayoutGrid, RotateCcw } from 'lucide-react'
+
+export type WidgetType = 'kpis' | 'revenueExpenses' | 'netProfitTrend' | 'expenseBreakdown' | 'expenseTable' | 'chart'
+
+export interface DashboardWidget {
+  id?: string
+  type: WidgetType
+  title: string
+  data: Record<string, unknown> | null
+  x: number
+  y: number
+  w: number
+  h: number
+}
+
+interface DashboardGridProps {
+  renderWidget: (widget: DashboardWidget) => ReactNode
+  toolbar?: ReactNode
+}
+
+interface DragState {
+  key: string
+  mode: 'move' | 'resize'
+  startX: number
+  startY: number
+  layout: DashboardWidget[]
+}
+
+const COLUMNS = 12
+const ROW_HEIGHT = 40
+const GAP = 16
+const MAX_HEIGHT = 24
+
+// Size of a newly added widget and the smallest it can be resized to
+const WIDGET_CATALOG: Record<WidgetType, { title: string; w: number; h: number; minW: number; minH: number }> = {
+  kpis: { title: 'KPI Cards', w: 12, h: 6, minW: 3, minH: 3 },
+  revenueExpenses: { title: 'Revenue vs Expenses', w: 6, h: 8, minW: 3, minH: 6 },
+  netProfitTrend: { title: 'Net Profit Trend', w: 6, h: 8, minW: 3, minH: 6 },
+  expenseBreakdown: { title: 'Expense Breakdown', w: 5, h: 9, minW: 3, minH: 7 },
+  expenseTable: { title: 'Category Highlights', w: 7, h: 9, minW: 4, minH: 4 },
+  chart: { title: 'Chart', w: 6, h: 8, minW: 3, minH: 6 },
+}
+
+const widgetKey = (widget: DashboardWidget) => widget.id || widget.type
+
+const overlaps = (a: DashboardWidget, b: DashboardWidget) =>
+  a.x < b.x + b.w && b.x < a.x + a.w && a.y < b.y + b.h && b.y < a.y + a.h
+
+// Moves a widget up as far as it goes without overlapping the widgets already placed
+const settle = (widget: DashboardWidget, placed: DashboardWidget[]) => {
+  let y = 0
+  for (;;) {
+    const hit = placed.find(other => overlaps({ ...widget, y }, other))
+    if (!hit) return { ...widget, y }
+    y = hit.y + hit.h
+  }
+}
+
+// Resolves overlaps after a widget moved or was resized: the changed widget keeps
+// its cell, the others make room below it, then everything floats up to close
+// gaps. Widgets keep their order in the array, which the API saves as is.
+function arrange(layout: DashboardWidget[], changedKey?: string): DashboardWidget[] {
+  const byPosition = (list: DashboardWidget[]) => [...list].sort((a, b) => a.y - b.y || a.x - b.x)
+  const changed = layout.find(widget => widgetKey(widget) === changedKey)
+
+  const pushed: DashboardWidget[] = changed ? [changed] : []
+  for (const widget of byPosition(layout)) {
+    if (widget === changed) continue
+    pushed.push(changed ? settle(widget, pushed) : widget)
+  }
+
+  const compacted: DashboardWidget[] = []
+  for (const widget of byPosition(pushed)) {
+    compacted.push(settle(widget, compacted))
+  }
+
+  return layout.map(widget => compacted.find(item => widgetKey(item) === widgetKey(widget)) as DashboardWidget)
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max)
+
+export default function DashboardGrid({ renderWidget, toolbar }: DashboardGridProps) {
+  const [widgets, setWidgets] = useState<DashboardWidget[]>([])
+  const [customized, setCustomized] = useState(false)
+  const [editing, setEditing] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [drag, setDrag] = useState<DragState | null>(null)
+  const gridRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    fetchLayout()
+  }, [])
+
+  const fetchLayout = async () => {
+    try {
+      const response = await fetch('/api/dashboard/widgets')
+      if (response.ok) {
+        const data = await response.json()
+        setWidgets(data.widgets)
+        setCustomized(data.customized)
+      }
+    } catch (err) {
+      console.error('Error fetching dashboard layout:', err)
+    }
+  }
+
+  // Every change saves the whole grid; the response carries the ids of new widgets
+  const saveLayout = async (layout: DashboardWidget[]) => {
+    setWidgets(layout)
+    setSaving(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/dashboard/widgets', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ widgets: layout }),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save layout')
+      }
+
+      setWidgets(data.widgets)
+      setCustomized(true)
+    } catch (err) {
+      console.error('Error saving dashboard layout:', err)
+      setError(err instanceof Error ? err.message : 'Failed to save layout')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const resetLayout = async () => {
+    if (!window.confirm('Reset the dashboard to the default layout?')) return
+
+    setSaving(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/dashboard/widgets', { method: 'DELETE' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to reset layout')
+      }
+
+      setWidgets(data.widgets)
+      setCustomized(false)
+    } catch (err) {
+      console.error('Error resetting dashboard layout:', err)
+      setError(err instanceof Error ? err.message : 'Failed to reset layout')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const addWidget = (type: WidgetType) => {
+    const { title, w, h } = WIDGET_CATALOG[type]
+    const bottom = widgets.reduce((max, widget) => Math.max(max, widget.y + widget.h), 0)
+    saveLayout([...widgets, { type, title, data: null, x: 0, y: bottom, w, h }])
+  }
+
+  const removeWidget = (key: string) => {
+    saveLayout(arrange(widgets.filter(widget => widgetKey(widget) !== key)))
+  }
+
+  const startDrag = (event: ReactPointerEvent, widget: DashboardWidget, mode: DragState['mode']) => {
+    // Below the lg breakpoint the grid is a single column with nothing to arrange
+    if (saving || !window.matchMedia('(min-width: 1024px)').matches) return
+    event.preventDefault()
+    event.currentTarget.setPointerCapture(event.pointerId)
+    setDrag({ key: widgetKey(widget), mode, startX: event.clientX, startY: event.clientY, layout: widgets })
+  }
+
+  // Pointer movement in whole grid cells, applied to the layout from when the drag began
+  const moveDrag = (event: ReactPointerEvent) => {
+    if (!drag || !gridRef.current) return
+
+    const columnWidth = (gridRef.current.clientWidth - GAP * (COLUMNS - 1)) / COLUMNS
+    const columns = Math.round((event.clientX - drag.startX) / (columnWidth + GAP))
+    const rows = Math.round((event.clientY - drag.startY) / (ROW_HEIGHT + GAP))
+
+    const layout = drag.layout.map(widget => {
+      if (widgetKey(widget) !== drag.key) return widget
+      if (drag.mode === 'move') {
+        return { ...widget, x: clamp(widget.x + columns, 0, COLUMNS - widget.w), y: Math.max(widget.y + rows, 0) }
+      }
+      const { minW, minH } = WIDGET_CATALOG[widget.type]
+      return { ...widget, w: clamp(widget.w + columns, minW, COLUMNS - widget.x), h: clamp(widget.h + rows, minH, MAX_HEIGHT) }
+    })
+
+    setWidgets(arrange(layout, drag.key))
+  }
+
+  const endDrag = () => {
+    if (!drag) return
+    setDrag(null)
+
+    const moved = widgets.some((widget, index) => {
+      const before = drag.layout[index]
+      return widget.x !== before.x || widget.y !== before.y || widget.w !== before.w || widget.h !== before.h
+    })
+    if (moved) saveLayout(widgets)
+  }
+
+  // Charts come from the assistant's answers, so they are pinned rather than added here
+  const available = (Object.keys(WIDGET_CATALOG) as WidgetType[])
+    .filter(type => type !== 'chart' && !widgets.some(widget => widget.type === type))
+
+  // On narrow screens the grid is a single column in reading order
+  const order = [...widgets]
+    .sort((a, b) => a.y - b.y || a.x - b.x)
+    .map(widgetKey)
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-end gap-2">
+        {toolbar && <div className="mr-auto">{toolbar}</div>}
+        {error && <span className="text-xs text-red-600 dark:text-red-400">{error}</span>}
+        {saving && <span className="text-xs text-gray-500 dark:text-gray-400">Saving layout...</span>}
+        {editing && available.length > 0 && (
+          <select
+            value=""
+            onChange={(e) => addWidget(e.target.value as WidgetType)}
+            disabled={saving}
+            aria-label="Add widget"
+            className="px-2 py-1 text-xs rounded-md bg-gray-100 text-gray-700 dark:bg-[#1E2023] dark:text-gray-300 border-0"
+          >
+            <option value="" disabled>+ Add widget</option>
+            {available.map(type => (
+              <option key={type} value={type}>{WIDGET_CATALOG[type].title}</option>
+            ))}
+          </select>
+        )}
+        {editing && customized && (
+          <button
+            onClick={resetLayout}
+            disabled={saving}
+            className="inline-flex items-center gap-1.5 px-3 py-1 text-xs text-gray-600 dark:text-gray-400 hover:text-black dark:hover:text-white transition-colors"
+          >
+            <RotateCcw className="w-3.5 h-3.5" />
+            Reset layout
+          </button>
+        )}
+        <button
+          onClick={() => setEditing(!editing)}
+          aria-pressed={editing}
+          className="inline-flex items-center gap-1.5 px-3 py-1 text-xs rounded-md bg-gray-100 text-gray-700 dark:bg-[#1E2023] dark:text-gray-300 hover:opacity-90 transition-opacity"
+        >
+          <LayoutGrid className="w-3.5 h-3.5" />
+          {editing ? 'Done' : 'Customize layout'}
+        </button>
+      </div>
+
+      {widgets.length === 0 ? (
+        <div className="p-6 text-center text-sm text-gray-600 dark:text-gray-400 border border-dashed border-gray-300 dark:border-gray-700 rounded-lg">
+          {editing ? 'Add a widget to start building your dashboard' : 'No widgets on the dashboard'}
+          {!editing && (
+            <button
+              onClick={() => setEditing(true)}
+              className="ml-2 inline-flex items-center gap-1 underline hover:text-black dark:hover:text-white"
+            >
+              <Plus className="w-3.5 h-3.5" />
+              Add widgets
+            </button>
+          )}
+        </div>
+      ) : (
+        <div
+          ref={gridRef}
+          className={`grid grid-cols-1 gap-4 lg:grid-cols-12 lg:auto-rows-[40px] ${drag ? 'select-none' : ''}`}
+        >
+          {widgets.map(widget => {
+            const key = widgetKey(widget)
+            const style = {
+              order: order.indexOf(key),
+              '--grid-column': `${widget.x + 1} / span ${widget.w}`,
+              '--grid-row': `${widget.y + 1} / span ${widget.h}`,
+            } as CSSProperties
+
+            return (
+              <div
+                key={key}
+                style={style}
+                className={`relative min-w-0 lg:[grid-column:var(--grid-column)] lg:[grid-row:var(--grid-row)] ${
+                  editing ? 'rounded-lg outline-dashed outline-2 outline-offset-2 outline-blue-400/60' : ''
+                } ${drag?.key === key ? 'z-20 opacity-80' : ''}`}
+              >
+                <div className="lg:h-full lg:overflow-auto">
+                  {editing && (
+                    <div className="flex items-center gap-2 mb-2 px-2 py-1 rounded-md bg-gray-100 dark:bg-[#1E2023] text-sm text-gray-700 dark:text-gray-300">
+                      <div
+                        onPointerDown={(e) => startDrag(e, widget, 'move')}
+                        onPointerMove={moveDrag}
+                        onPointerUp={endDrag}
+                        onPointerCancel={endDrag}
+                        className="flex flex-1 items-center gap-1 min-w-0 lg:cursor-move lg:touch-none"
+                        title="Drag to move"
+                      >
+                        <GripVertical className="hidden lg:block w-4 h-4 flex-shrink-0" />
+                        <span className="truncate">{widget.title}</span>
+                      </div>
+                      <button
+                        onClick={() => removeWidget(key)}
+                        disabled={saving}
+                        className="p-1 hover:text-red-600 disabled:opacity-50"
+                        aria-label={`Remove ${widget.title}`}
+                        title="Remove from dashboard"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                  )}
+
+                  {renderWidget(widget)}
+                </div>
+
+                {editing && (
+                  <div
+                    onPointerDown={(e) => startDrag(e, widget, 'resize')}
+                    onPointerMove={moveDrag}
+                    onPointerUp={endDrag}
+                    onPointerCancel={endDrag}
+                    className="hidden lg:block absolute bottom-0 right-0 z-10 w-4 h-4 cursor-se-resize touch-none border-r-4 border-b-4 border-blue-400 rounded-br-lg"
+                    aria-label={`Resize ${widget.title}`}
+                    title="Drag to resize"
+                  />
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,144 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Calendar } from 'lucide-react'
+
+export interface DateRangeValue {
+  timeframe: string
+  fromDate?: string
+  toDate?: string
+}
+
+interface DateRangePickerProps {
+  value: DateRangeValue
+  onChange: (value: DateRangeValue) => void
+  disabled?: boolean
+}
+
+// Presets are resolved on the server against the company's fiscal year
+const MORE_PRESETS = [
+  { value: 'LAST_MONTH', label: 'Last month' },
+  { value: 'LAST_QUARTER', label: 'Last quarter' },
+  { value: 'TRAILING_12_MONTHS', label: 'Trailing 12 months' },
+  { value: 'PRIOR_FISCAL_YEAR', label: 'Prior fiscal year' },
+  { value: 'CUSTOM', label: 'Custom range…' },
+]
+
+// Query string fragment (without a leading separator) for the dashboard routes
+export function dateRangeQuery(value: DateRangeValue): string {
+  const params = new URLSearchParams({ timeframe: value.timeframe })
+  if (value.timeframe === 'CUSTOM' && value.fromDate && value.toDate) {
+    params.set('fromDate', value.fromDate)
+    params.set('toDate', value.toDate)
+  }
+  return params.toString()
+}
+
+export default function DateRangePicker({ value, onChange, disabled = false }: DateRangePickerProps) {
+  const [showCustom, setShowCustom] = useState(value.timeframe === 'CUSTOM')
+  const [fromDate, setFromDate] = useState(value.fromDate || '')
+  const [toDate, setToDate] = useState(value.toDate || '')
+
+  useEffect(() => {
+    setShowCustom(value.timeframe === 'CUSTOM')
+    setFromDate(value.fromDate || '')
+    setToDate(value.toDate || '')
+  }, [value])
+
+  const selectPreset = (timeframe: string) => {
+    if (timeframe === 'CUSTOM') {
+      setShowCustom(true)
+      return
+    }
+    setShowCustom(false)
+    onChange({ timeframe })
+  }
+
+  const applyCustom = () => {
+    if (!fromDate || !toDate || fromDate > toDate) return
+    onChange({ timeframe: 'CUSTOM', fromDate, toDate })
+  }
+
+  const buttonClassName = (active: boolean) => `px-3 py-1 text-xs rounded-md transition-colors ${
+    active
+      ? 'bg-black text-white dark:bg-white dark:text-black'
+      : 'bg-gray-100 text-gray-700 dark:bg-[#2A2D31] dark:text-gray-300'
+  }`
+
+  const inputClassName = 'h-7 px-2 text-xs rounded-md bg-white dark:bg-[#2A2D31] text-black dark:text-white border border-gray-200 dark:border-gray-700 focus:outline-none disabled:opacity-50'
+
+  const morePreset = showCustom ? 'CUSTOM' : MORE_PRESETS.some(preset => preset.value === value.timeframe) ? value.timeframe : ''
+
+  return (
+    <div className="flex flex-wrap items-center justify-end gap-2">
+      <button
+        onClick={() => selectPreset('MONTH')}
+        disabled={disabled}
+        className={buttonClassName(!showCustom && value.timeframe === 'MONTH')}
+      >
+        MTD
+      </button>
+      <button
+        onClick={() => selectPreset('QUARTER')}
+        disabled={disabled}
+        className={buttonClassName(!showCustom && value.timeframe === 'QUARTER')}
+      >
+        QTD
+      </button>
+      <button
+        onClick={() => selectPreset('YEAR')}
+        disabled={disabled}
+        className={buttonClassName(!showCustom && value.timeframe === 'YEAR')}
+      >
+        YTD
+      </button>
+      <label className="flex items-center gap-1">
+        <Calendar className="w-4 h-4 text-gray-500 dark:text-gray-400" aria-hidden="true" />
+        <span className="sr-only">Date range</span>
+        <select
+          value={morePreset}
+          onChange={(e) => selectPreset(e.target.value)}
+          disabled={disabled}
+          className={inputClassName}
+        >
+          <option value="" disabled>More ranges</option>
+          {MORE_PRESETS.map((preset) => (
+            <option key={preset.value} value={preset.value} className="text-black">
+              {preset.label}
+            </option>
+          ))}
+        </select>
+      </label>
+      {showCustom && (
+        <div className="flex items-center gap-1">
+          <input
+            type="date"
+            value={fromDate}
+            max={toDate || undefined}
+            onChange={(e) => setFromDate(e.target.value)}
+            disabled={disabled}
+            className={inputClassName}
+            aria-label="From date"
+          />
+          <span className="text-xs text-gray-500 dark:text-gray-400">to</span>
+          <input
+            type="date"
+            value={toDate}
+            min={fromDate || undefined}
+            onChange={(e) => setToDate(e.target.value)}
+            disabled={disabled}
+            className={inputClassName}
+            aria-label="To date"
+          />
+          <button
+            onClick={applyCustom}
+            disabled={disabled || !fromDate || !toDate || fromDate > toDate}
+            className={`${buttonClassName(true)} disabled:opacity-50`}
+          >
+            Apply
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
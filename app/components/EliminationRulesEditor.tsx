@@ -0,0 +1,180 @@
+'use client'
+
+import { useState } from 'react'
+import { Plus, Trash2 } from 'lucide-react'
+import { ConnectedCompany } from './CompanySwitcher'
+
+export interface EliminationRule {
+  id?: string
+  name: string
+  accounts: Array<{
+    realmId?: string
+    accountName: string
+  }>
+}
+
+interface EliminationRulesEditorProps {
+  rules: EliminationRule[]
+  companies: ConnectedCompany[]
+  onChange: () => void
+}
+
+const emptyRule = (): EliminationRule => ({
+  name: '',
+  accounts: [{ realmId: '', accountName: '' }, { realmId: '', accountName: '' }],
+})
+
+const inputClassName = 'w-full px-3 py-2 rounded-md bg-white dark:bg-[#1E2023] text-sm text-black dark:text-white focus:outline-none focus:ring-2 focus:ring-black dark:focus:ring-white border border-gray-200 dark:border-[#3A3D41]'
+
+export default function EliminationRulesEditor({ rules, companies, onChange }: EliminationRulesEditorProps) {
+  const [draft, setDraft] = useState<EliminationRule>(emptyRule())
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState('')
+
+  const companyName = (realmId?: string) => {
+    if (!realmId) return 'All companies'
+    return companies.find(company => company.realmId === realmId)?.companyName || realmId
+  }
+
+  const updateAccount = (index: number, field: 'realmId' | 'accountName', value: string) => {
+    setDraft(prev => ({
+      ...prev,
+      accounts: prev.accounts.map((account, i) => (i === index ? { ...account, [field]: value } : account)),
+    }))
+  }
+
+  const saveRule = async () => {
+    setSaving(true)
+    setMessage('')
+
+    try {
+      const response = await fetch('/api/dashboard/consolidated/eliminations', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(draft),
+      })
+
+      if (response.ok) {
+        setDraft(emptyRule())
+        onChange()
+      } else {
+        const error = await response.json()
+        setMessage(error.error || 'Failed to save elimination rule')
+      }
+    } catch (error) {
+      console.error('Error saving elimination rule:', error)
+      setMessage('Error saving elimination rule')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const deleteRule = async (id: string) => {
+    try {
+      const response = await fetch(`/api/dashboard/consolidated/eliminations/${encodeURIComponent(id)}`, {
+        method: 'DELETE',
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        setMessage(error.error || 'Failed to delete elimination rule')
+        return
+      }
+
+      onChange()
+    } catch (error) {
+      console.error('Error deleting elimination rule:', error)
+      setMessage('Error deleting elimination rule')
+    }
+  }
+
+  return (
+    <div className="bg-white dark:bg-[#2A2D31] border border-gray-200 dark:border-gray-800 rounded-lg p-6">
+      <h3 className="text-lg font-medium mb-1">Intercompany Eliminations</h3>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        Map the accounts that record transactions between your companies, e.g. a management fee income account in one company and the matching expense account in another. Mapped amounts are removed from the consolidated totals.
+      </p>
+
+      {rules.length > 0 && (
+        <ul className="space-y-3 mb-6">
+          {rules.map((rule) => (
+            <li
+              key={rule.id}
+              className="flex items-start justify-between gap-4 p-3 rounded-md border border-gray-100 dark:border-gray-800"
+            >
+              <div>
+                <p className="text-sm font-medium text-gray-900 dark:text-gray-100">{rule.name}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  {rule.accounts.map(account => `${account.accountName} (${companyName(account.realmId)})`).join(' ↔ ')}
+                </p>
+              </div>
+              {rule.id && (
+                <button
+                  onClick={() => deleteRule(rule.id as string)}
+                  className="p-2 rounded-md hover:bg-gray-100 dark:hover:bg-white/10 transition-colors"
+                  aria-label={`Delete ${rule.name}`}
+                >
+                  <Trash2 className="w-4 h-4 text-red-600" />
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="space-y-3">
+        <input
+          type="text"
+          value={draft.name}
+          onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          className={inputClassName}
+          placeholder="Rule name, e.g. Management fees"
+        />
+        {draft.accounts.map((account, index) => (
+          <div key={index} className="flex flex-col sm:flex-row gap-2">
+            <select
+              value={account.realmId || ''}
+              onChange={(e) => updateAccount(index, 'realmId', e.target.value)}
+              className={`${inputClassName} sm:w-56`}
+            >
+              <option value="">All companies</option>
+              {companies.map((company) => (
+                <option key={company.realmId} value={company.realmId}>
+                  {company.companyName}
+                </option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={account.accountName}
+              onChange={(e) => updateAccount(index, 'accountName', e.target.value)}
+              className={inputClassName}
+              placeholder="Account name as it appears in QuickBooks"
+            />
+          </div>
+        ))}
+        <div className="flex items-center justify-between">
+          <button
+            onClick={() => setDraft({ ...draft, accounts: [...draft.accounts, { realmId: '', accountName: '' }] })}
+            className="flex items-center space-x-1 text-sm text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 px-2 py-1 rounded hover:bg-gray-100 dark:hover:bg-gray-800"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Add account</span>
+          </button>
+          <button
+            onClick={saveRule}
+            disabled={saving || !draft.name.trim() || !draft.accounts.some(account => account.accountName.trim())}
+            className="px-4 py-2 bg-black text-white dark:bg-white dark:text-black rounded-md hover:opacity-80 disabled:opacity-50 disabled:cursor-not-allowed text-sm font-medium transition-opacity shadow-sm"
+          >
+            {saving ? 'Saving...' : 'Save Rule'}
+          </button>
+        </div>
+        {message && (
+          <p className="text-sm text-red-600 dark:text-red-400">{message}</p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -4,6 +4,7 @@ import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip, Legend } from 'recha
 
 interface ExpenseData {
   name: string
+  id?: string
   value: number
   percentage: number
 }
@@ -11,6 +12,7 @@ interface ExpenseData {
 interface ExpenseBreakdownChartProps {
   data: ExpenseData[]
   loading?: boolean
+  onSelect?: (item: ExpenseData) => void
 }
 
 // Color palette for the pie chart segments
@@ -27,7 +29,7 @@ const COLORS = [
   '#6366f1', // indigo
 ]
 
-export default function ExpenseBreakdownChart({ data, loading = false }: ExpenseBreakdownChartProps) {
+export default function ExpenseBreakdownChart({ data, loading = false, onSelect }: ExpenseBreakdownChartProps) {
   if (loading) {
     return (
       <div className="bg-white dark:bg-[#2A2D31] border border-gray-200 dark:border-gray-800 rounded-lg p-6">
@@ -99,7 +101,9 @@ export default function ExpenseBreakdownChart({ data, loading = false }: Expense
     <div className="bg-white dark:bg-[#2A2D31] border border-gray-200 dark:border-gray-800 rounded-lg p-6">
       <div className="mb-4">
         <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">Expense Breakdown</h3>
-        <p className="text-sm text-gray-600 dark:text-gray-400">Distribution of operating expenses by category</p>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Distribution of operating expenses by category{onSelect ? '; click a slice to see its transactions' : ''}
+        </p>
       </div>
       
       <div className="h-64">
@@ -113,9 +117,14 @@ export default function ExpenseBreakdownChart({ data, loading = false }: Expense
               outerRadius={100}
               paddingAngle={2}
               dataKey="value"
+              onClick={onSelect ? (_, index) => onSelect(data[index]) : undefined}
             >
               {data.map((entry, index) => (
-                <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                <Cell
+                  key={`cell-${index}`}
+                  fill={COLORS[index % COLORS.length]}
+                  className={onSelect && entry.id ? 'cursor-pointer' : undefined}
+                />
               ))}
             </Pie>
             <Tooltip content={<CustomTooltip />} />
@@ -0,0 +1,180 @@
+'use client'
+
+import { useState } from 'react'
+import { DollarSign, TrendingUp, TrendingDown, Wallet, BarChart3, SlidersHorizontal, LucideIcon } from 'lucide-react'
+import ChangeIndicator from './ChangeIndicator'
+
+type KpiFormat = 'currency' | 'percent' | 'ratio' | 'days' | 'number'
+
+export interface KpiValue {
+  key: string
+  label: string
+  format: KpiFormat
+  definition: string
+  increaseIsGood: boolean | null
+  value: number | null
+}
+
+interface KpiCardsProps {
+  kpis: KpiValue[]
+  previous: Record<string, number | null> | null
+  selected: string[]
+  onChange: (selected: string[]) => void
+  comparisonLabel: string
+}
+
+export const DEFAULT_KPI_CARDS = ['revenue', 'expenses', 'netProfit', 'cashBalance', 'netMargin']
+
+// The headline KPIs keep the icons they had before cards became selectable
+const KPI_ICONS: Record<string, { icon: LucideIcon; className: string }> = {
+  revenue: { icon: DollarSign, className: 'text-green-600' },
+  expenses: { icon: TrendingDown, className: 'text-red-600' },
+  netProfit: { icon: TrendingUp, className: 'text-blue-600' },
+  cashBalance: { icon: Wallet, className: 'text-purple-600' },
+  netMargin: { icon: BarChart3, className: 'text-indigo-600' },
+}
+
+// Restores the cards saved in localStorage; unknown keys are dropped when shown
+export function parseKpiSelection(stored: string | null): string[] {
+  try {
+    const value = JSON.parse(stored || 'null')
+    return Array.isArray(value) && value.every(key => typeof key === 'string') ? value : DEFAULT_KPI_CARDS
+  } catch {
+    return DEFAULT_KPI_CARDS
+  }
+}
+
+export const formatKpi = (value: number | null, format: KpiFormat) => {
+  if (value === null) return '—'
+  switch (format) {
+    case 'currency':
+      return new Intl.NumberFormat('en-US', {
+        style: 'currency',
+        currency: 'USD',
+        minimumFractionDigits: 0,
+        maximumFractionDigits: 0,
+      }).format(value)
+    case 'percent':
+      return `${value.toFixed(1)}%`
+    case 'ratio':
+      return `${value.toFixed(2)}×`
+    case 'days':
+      return `${value.toFixed(1)} days`
+    case 'number':
+      return value.toLocaleString('en-US', { maximumFractionDigits: 2 })
+  }
+}
+
+// Percentages change in points; everything else relative to the prior value
+const kpiChange = (kpi: KpiValue, previous: number | null) => {
+  if (kpi.value === null || previous === null) return null
+  if (kpi.format === 'percent') return { change: kpi.value - previous, unit: ' pts' }
+  if (previous === 0) return null
+  return { change: ((kpi.value - previous) / Math.abs(previous)) * 100, unit: '%' }
+}
+
+export default function KpiCards({ kpis, previous, selected, onChange, comparisonLabel }: KpiCardsProps) {
+  const [choosing, setChoosing] = useState(false)
+  const shown = selected
+    .map(key => kpis.find(kpi => kpi.key === key))
+    .filter((kpi): kpi is KpiValue => !!kpi)
+
+  const toggle = (key: string) => {
+    onChange(selected.includes(key) ? selected.filter(item => item !== key) : [...selected, key])
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-end gap-2">
+        {choosing && (
+          <button
+            onClick={() => onChange(DEFAULT_KPI_CARDS)}
+            className="text-xs text-gray-600 dark:text-gray-400 hover:text-black dark:hover:text-white transition-colors"
+          >
+            Reset
+          </button>
+        )}
+        <button
+          onClick={() => setChoosing(!choosing)}
+          aria-pressed={choosing}
+          className="inline-flex items-center gap-1.5 px-3 py-1 text-xs rounded-md bg-gray-100 text-gray-700 dark:bg-[#1E2023] dark:text-gray-300 hover:opacity-90 transition-opacity"
+        >
+          <SlidersHorizontal className="w-3.5 h-3.5" />
+          {choosing ? 'Done' : 'Choose KPIs'}
+        </button>
+      </div>
+
+      {choosing && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2 p-4 rounded-lg border border-gray-200 dark:border-gray-800 bg-white dark:bg-[#2A2D31]">
+          {kpis.map(kpi => (
+            <label key={kpi.key} className="flex items-start gap-2 text-sm cursor-pointer" title={kpi.definition}>
+              <input
+                type="checkbox"
+                checked={selected.includes(kpi.key)}
+                onChange={() => toggle(kpi.key)}
+                className="mt-1"
+              />
+              <span>
+                <span className="font-medium text-gray-900 dark:text-gray-100">{kpi.label}</span>
+                <span className="block text-xs text-gray-500 dark:text-gray-400">{kpi.definition}</span>
+              </span>
+            </label>
+          ))}
+          <p className="sm:col-span-2 lg:col-span-3 text-xs text-gray-500 dark:text-gray-400">
+            Define your own metrics under Profile Settings → Custom Metrics.
+          </p>
+        </div>
+      )}
+
+      {shown.length > 0 ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+          {shown.map(kpi => {
+            const icon = KPI_ICONS[kpi.key]
+            const Icon = icon?.icon
+            const prior = previous ? previous[kpi.key] ?? null : null
+            const change = kpiChange(kpi, prior)
+            const negative = kpi.value !== null && kpi.value < 0
+
+            return (
+              <div
+                key={kpi.key}
+                className="bg-white dark:bg-[#2A2D31] border border-gray-200 dark:border-gray-800 rounded-lg p-4"
+                title={kpi.definition}
+              >
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">{kpi.label}</p>
+                    <p className={`text-2xl font-semibold ${negative && kpi.key === 'cashBalance' ? 'text-red-600' : ''}`}>
+                      {formatKpi(kpi.value, kpi.format)}
+                    </p>
+                    {negative && kpi.key === 'cashBalance' && (
+                      <p className="text-xs text-red-600">Overdrawn</p>
+                    )}
+                  </div>
+                  {Icon && <Icon className={`w-8 h-8 ${icon.className}`} />}
+                </div>
+                {previous && (
+                  <div className="mt-2 flex items-center justify-between gap-2 text-xs text-gray-500 dark:text-gray-400">
+                    <span>Prior {formatKpi(prior, kpi.format)}</span>
+                    {change && (kpi.increaseIsGood === null ? (
+                      <span>{change.change > 0 ? '+' : ''}{change.change.toFixed(1)}{change.unit} {comparisonLabel}</span>
+                    ) : (
+                      <ChangeIndicator
+                        change={change.change}
+                        increaseIsGood={kpi.increaseIsGood}
+                        label={comparisonLabel}
+                        unit={change.unit}
+                      />
+                    ))}
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      ) : (
+        <div className="text-sm text-gray-600 dark:text-gray-400">No KPIs selected</div>
+      )}
+    </div>
+  )
+}
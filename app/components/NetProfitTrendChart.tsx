@@ -1,19 +1,28 @@
 'use client'
 
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts'
+import { TrendInterval, TREND_INTERVAL_LABELS } from './TrendIntervalSelect'
 
 interface TrendData {
   month: string
   revenue: number
   expenses: number
+  priorLabel?: string
+  priorRevenue?: number
+  priorExpenses?: number
+  projected?: boolean
+  forecastRevenue?: number
+  forecastExpenses?: number
 }
 
 interface NetProfitTrendChartProps {
   data: TrendData[]
   loading?: boolean
+  interval?: TrendInterval
+  showPriorYear?: boolean
 }
 
-export default function NetProfitTrendChart({ data, loading = false }: NetProfitTrendChartProps) {
+export default function NetProfitTrendChart({ data, loading = false, interval = 'Month', showPriorYear = false }: NetProfitTrendChartProps) {
   if (loading) {
     return (
       <div className="bg-white dark:bg-[#2A2D31] border border-gray-200 dark:border-gray-800 rounded-lg p-6">
@@ -34,12 +43,25 @@ export default function NetProfitTrendChart({ data, loading = false }: NetProfit
     )
   }
 
-  // Calculate net profit for each month
-  const chartData = data.map(item => ({
+  // Calculate net profit for each month; projected months get the forecast
+  // instead, joined to the last actual month
+  const forecastNet = (item?: TrendData) =>
+    item && item.forecastRevenue !== undefined && item.forecastExpenses !== undefined
+      ? item.forecastRevenue - item.forecastExpenses
+      : undefined
+  const chartData = data.map((item, index) => ({
     month: item.month,
-    revenue: item.revenue,
-    expenses: item.expenses,
-    netProfit: item.revenue - item.expenses
+    revenue: item.projected ? item.forecastRevenue : item.revenue,
+    expenses: item.projected ? item.forecastExpenses : item.expenses,
+    netProfit: item.projected ? undefined : item.revenue - item.expenses,
+    forecastNetProfit: item.projected
+      ? forecastNet(item)
+      : data[index + 1]?.projected ? item.revenue - item.expenses : undefined,
+    projected: item.projected,
+    priorLabel: item.priorLabel,
+    priorNetProfit: item.priorRevenue !== undefined && item.priorExpenses !== undefined
+      ? item.priorRevenue - item.priorExpenses
+      : undefined
   }))
 
   const formatCurrency = (value: number) => {
@@ -58,11 +80,16 @@ export default function NetProfitTrendChart({ data, loading = false }: NetProfit
         <div className="bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-3 shadow-lg">
           <p className="text-sm font-medium text-gray-900 dark:text-gray-100 mb-1">{label}</p>
           <p className="text-sm text-gray-600 dark:text-gray-300">
-            Net Profit: {formatCurrency(data.netProfit)}
+            {data.projected ? 'Forecast net profit' : 'Net Profit'}: {formatCurrency(data.projected ? data.forecastNetProfit : data.netProfit)}
           </p>
           <p className="text-xs text-gray-500 dark:text-gray-400">
             Revenue: {formatCurrency(data.revenue || 0)} | Expenses: {formatCurrency(data.expenses || 0)}
           </p>
+          {data.priorNetProfit !== undefined && (
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              {data.priorLabel || 'Prior year'}: {formatCurrency(data.priorNetProfit)}
+            </p>
+          )}
         </div>
       )
     }
@@ -73,7 +100,9 @@ export default function NetProfitTrendChart({ data, loading = false }: NetProfit
     <div className="bg-white dark:bg-[#2A2D31] border border-gray-200 dark:border-gray-800 rounded-lg p-6">
       <div className="mb-4">
         <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">Net Profit Trend</h3>
-        <p className="text-sm text-gray-600 dark:text-gray-400">Monthly net profit over the past 12 months</p>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {TREND_INTERVAL_LABELS[interval]} net profit over the selected range{showPriorYear ? ', against the prior year' : ''}
+        </p>
       </div>
       
       <div className="h-64">
@@ -101,6 +130,24 @@ export default function NetProfitTrendChart({ data, loading = false }: NetProfit
               dot={{ fill: '#3b82f6', strokeWidth: 2, r: 5 }}
               activeDot={{ r: 7, stroke: '#3b82f6', strokeWidth: 2 }}
             />
+            <Line
+              type="monotone"
+              dataKey="forecastNetProfit"
+              stroke="#3b82f6"
+              strokeWidth={3}
+              strokeDasharray="2 4"
+              dot={false}
+            />
+            {showPriorYear && (
+              <Line
+                type="monotone"
+                dataKey="priorNetProfit"
+                stroke="#93c5fd"
+                strokeWidth={2}
+                strokeDasharray="5 5"
+                dot={false}
+              />
+            )}
           </LineChart>
         </ResponsiveContainer>
       </div>
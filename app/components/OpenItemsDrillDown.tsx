@@ -0,0 +1,169 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { X } from 'lucide-react'
+import { AgingBucket } from './AgingPanel'
+
+export interface DrillDownParty {
+  id: string
+  name: string
+}
+
+export type OpenItemsKind = 'receivables' | 'payables'
+
+interface OpenItem {
+  id?: string
+  date: string
+  type: string
+  docNumber: string
+  dueDate: string
+  amount: number
+  openBalance: number
+  daysOverdue: number
+  bucket: AgingBucket
+}
+
+interface OpenItemsData {
+  invoices?: OpenItem[]
+  bills?: OpenItem[]
+  total: number
+  asOf: string
+}
+
+// Open invoices for a customer, or open bills for a vendor
+const KINDS: Record<OpenItemsKind, { endpoint: string; idParam: string; noun: string }> = {
+  receivables: { endpoint: '/api/dashboard/receivables/invoices', idParam: 'customerId', noun: 'invoices' },
+  payables: { endpoint: '/api/dashboard/payables/bills', idParam: 'vendorId', noun: 'bills' },
+}
+
+interface OpenItemsDrillDownProps {
+  kind: OpenItemsKind
+  party: DrillDownParty
+  periodQuery: string
+  realmId?: string | null
+  onClose: () => void
+}
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(amount)
+}
+
+export default function OpenItemsDrillDown({ kind, party, periodQuery, realmId, onClose }: OpenItemsDrillDownProps) {
+  const { endpoint, idParam, noun } = KINDS[kind]
+  const [data, setData] = useState<OpenItemsData | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchItems()
+  }, [kind, party.id, periodQuery, realmId])
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose()
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [onClose])
+
+  const fetchItems = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const params = new URLSearchParams(periodQuery)
+      params.set(idParam, party.id)
+      if (realmId) params.set('realmId', realmId)
+
+      const response = await fetch(`${endpoint}?${params.toString()}`)
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || `Failed to fetch ${noun}`)
+      }
+
+      setData(await response.json())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const items = (kind === 'receivables' ? data?.invoices : data?.bills) || []
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-label={`Open ${noun} for ${party.name}`}
+    >
+      <div
+        className="w-full max-w-4xl max-h-[85vh] flex flex-col bg-white dark:bg-[#2A2D31] border border-gray-200 dark:border-gray-800 rounded-lg shadow-lg"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start justify-between p-6 border-b border-gray-200 dark:border-gray-800">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">{party.name}</h3>
+            {data && (
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                Open {noun} as of {data.asOf} · {items.length} {noun} · {formatCurrency(data.total)}
+              </p>
+            )}
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-md hover:bg-gray-100 dark:hover:bg-white/10 transition-colors"
+            aria-label="Close"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6">
+          {loading ? (
+            <div className="text-sm text-gray-600 dark:text-gray-400">Loading {noun}…</div>
+          ) : error ? (
+            <div className="text-sm text-red-600 dark:text-red-400">{error}</div>
+          ) : items.length === 0 ? (
+            <div className="text-sm text-gray-600 dark:text-gray-400">No open {noun}</div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-400">
+                  <th className="text-left py-2 pr-3 font-medium">Date</th>
+                  <th className="text-left py-2 pr-3 font-medium">Num</th>
+                  <th className="text-left py-2 pr-3 font-medium">Due</th>
+                  <th className="text-right py-2 pr-3 font-medium">Days overdue</th>
+                  <th className="text-right py-2 pr-3 font-medium">Amount</th>
+                  <th className="text-right py-2 font-medium">Open balance</th>
+                </tr>
+              </thead>
+              <tbody>
+                {items.map((item, index) => (
+                  <tr key={`${item.id || 'row'}-${index}`} className="border-b border-gray-100 dark:border-gray-800">
+                    <td className="py-2 pr-3 whitespace-nowrap">{item.date}</td>
+                    <td className="py-2 pr-3">{item.docNumber || item.type}</td>
+                    <td className="py-2 pr-3 whitespace-nowrap">{item.dueDate}</td>
+                    <td className={`py-2 pr-3 text-right tabular-nums ${item.daysOverdue > 0 ? 'text-red-600' : ''}`}>
+                      {item.daysOverdue > 0 ? item.daysOverdue : 'Not due'}
+                    </td>
+                    <td className="py-2 pr-3 text-right tabular-nums whitespace-nowrap">{formatCurrency(item.amount)}</td>
+                    <td className="py-2 text-right tabular-nums whitespace-nowrap">{formatCurrency(item.openBalance)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -2,10 +2,17 @@
 
 import { useState, useEffect } from 'react';
 
+interface QBOCompany {
+  realmId: string;
+  companyName: string;
+  connectedAt: string;
+}
+
 interface QBOStatus {
   connected: boolean;
   realmId?: string;
   companyName?: string;
+  companies: QBOCompany[];
 }
 
 export default function QBOIntegrationTab() {
@@ -47,21 +54,23 @@ export default function QBOIntegrationTab() {
     }
   };
 
-  const handleRevoke = async () => {
-    if (!confirm('Are you sure you want to disconnect from QuickBooks Online? This will revoke all access tokens.')) {
+  const handleRevoke = async (company: QBOCompany) => {
+    if (!confirm(`Are you sure you want to disconnect ${company.companyName} from QuickBooks Online? This will revoke its access tokens.`)) {
       return;
     }
 
     try {
-      setActionLoading('revoke');
+      setActionLoading(`revoke:${company.realmId}`);
       const response = await fetch('/api/qbo/revoke', {
         method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ realmId: company.realmId }),
       });
       
       const data = await response.json();
       
       if (response.ok) {
-        setMessage({ type: 'success', text: 'QBO connection revoked successfully' });
+        setMessage({ type: 'success', text: `${company.companyName} disconnected successfully` });
         await fetchStatus(); // Refresh the status
       } else {
         setMessage({ type: 'error', text: data.error || 'Failed to revoke connection' });
@@ -145,41 +154,53 @@ export default function QBOIntegrationTab() {
             <div className="flex items-center justify-between">
               <div>
                 <h3 className="text-lg font-medium text-black dark:text-white">
-                  Connected Company
+                  Connected Companies
                 </h3>
                 <p className="text-sm text-black dark:text-gray-400">
-                  {status.companyName || 'Unknown Company'}
+                  {status.companies.length} {status.companies.length === 1 ? 'company' : 'companies'} connected
                 </p>
               </div>
+              <button
+                onClick={handleConnect}
+                disabled={actionLoading === 'connect'}
+                className="px-3 py-1 bg-black text-white dark:bg-[#2A2D31] dark:text-white rounded text-xs font-medium hover:opacity-80 disabled:opacity-50 transition-opacity"
+              >
+                {actionLoading === 'connect' ? 'Connecting...' : 'Connect another company'}
+              </button>
             </div>
 
-            <div className="border border-gray-200 dark:border-[#2A2D31] rounded-lg p-4">
-              <div className="flex items-center justify-between">
-                <div className="flex-1">
-                  <div className="flex items-center space-x-3">
-                    <div className="w-2 h-2 rounded-full bg-black dark:bg-white"></div>
-                    <div>
-                      <div className="font-medium text-black dark:text-white text-sm">
-                        Company ID: {status.realmId?.substring(0, 8)}...
+            {status.companies.map((company) => (
+              <div key={company.realmId} className="border border-gray-200 dark:border-[#2A2D31] rounded-lg p-4">
+                <div className="flex items-center justify-between">
+                  <div className="flex-1">
+                    <div className="flex items-center space-x-3">
+                      <div className="w-2 h-2 rounded-full bg-black dark:bg-white"></div>
+                      <div>
+                        <div className="font-medium text-black dark:text-white text-sm">
+                          {company.companyName}
+                        </div>
+                        <div className="text-xs text-black dark:text-gray-400">
+                          Company ID: {company.realmId.substring(0, 8)}...
+                        </div>
                       </div>
                     </div>
+                    <div className="mt-2 text-xs text-black dark:text-gray-400">
+                      <div>Status: Connected since {new Date(company.connectedAt).toLocaleDateString()}</div>
+                    </div>
                   </div>
-                  <div className="mt-2 text-xs text-black dark:text-gray-400">
-                    <div>Status: Connected</div>
+                  
+                  <div className="flex items-center ml-4">
+                    <button
+                      onClick={() => handleRevoke(company)}
+                      disabled={actionLoading === `revoke:${company.realmId}`}
+                      className="px-3 py-1 bg-black text-white dark:bg-[#3A3D41] dark:text-white rounded text-xs font-medium hover:opacity-80 disabled:opacity-50 transition-opacity"
+                    >
+                      {actionLoading === `revoke:${company.realmId}` ? 'Disconnecting...' : 'Disconnect'}
+                    </button>
                   </div>
                 </div>
-                
-                <div className="flex items-center ml-4">
-                  <button
-                    onClick={handleRevoke}
-                    disabled={actionLoading === 'revoke'}
-                    className="px-3 py-1 bg-black text-white dark:bg-[#3A3D41] dark:text-white rounded text-xs font-medium hover:opacity-80 disabled:opacity-50 transition-opacity"
-                  >
-                    {actionLoading === 'revoke' ? 'Disconnecting...' : 'Disconnect'}
-                  </button>
-                </div>
               </div>
-            </div>
+            ))}
           </div>
         )}
       </div>
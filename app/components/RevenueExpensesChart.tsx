@@ -1,19 +1,32 @@
 'use client'
 
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts'
+import { ComposedChart, Line, Area, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts'
+import { TrendInterval, TREND_INTERVAL_LABELS } from './TrendIntervalSelect'
 
 interface TrendData {
   month: string
   revenue: number
   expenses: number
+  priorLabel?: string
+  priorRevenue?: number
+  priorExpenses?: number
+  // Projected months carry a forecast and its [low, high] band; their actuals, if
+  // any, are only the month to date
+  projected?: boolean
+  forecastRevenue?: number
+  forecastExpenses?: number
+  revenueBand?: [number, number]
+  expensesBand?: [number, number]
 }
 
 interface RevenueExpensesChartProps {
   data: TrendData[]
   loading?: boolean
+  interval?: TrendInterval
+  showPriorYear?: boolean
 }
 
-export default function RevenueExpensesChart({ data, loading = false }: RevenueExpensesChartProps) {
+export default function RevenueExpensesChart({ data, loading = false, interval = 'Month', showPriorYear = false }: RevenueExpensesChartProps) {
   if (loading) {
     return (
       <div className="bg-white dark:bg-[#2A2D31] border border-gray-200 dark:border-gray-800 rounded-lg p-6">
@@ -55,26 +68,51 @@ export default function RevenueExpensesChart({ data, loading = false }: RevenueE
                 style={{ backgroundColor: entry.color }}
               />
               <span className="text-sm text-gray-600 dark:text-gray-300">
-                {entry.dataKey === 'revenue' ? 'Revenue' : 'Expenses'}: {formatCurrency(entry.value)}
+                {entry.name}: {Array.isArray(entry.value)
+                  ? `${formatCurrency(entry.value[0])} – ${formatCurrency(entry.value[1])}`
+                  : formatCurrency(entry.value)}
+                {String(entry.dataKey).startsWith('prior') && entry.payload.priorLabel ? ` (${entry.payload.priorLabel})` : ''}
               </span>
             </div>
           ))}
+          {payload[0].payload.projected && (payload[0].payload.revenueToDate || payload[0].payload.expensesToDate) ? (
+            <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">
+              To date: {formatCurrency(payload[0].payload.revenueToDate)} revenue, {formatCurrency(payload[0].payload.expensesToDate)} expenses
+            </p>
+          ) : null}
         </div>
       )
     }
     return null
   }
 
+  // Actual lines stop where the projection starts; the last actual month also
+  // starts the forecast lines so they join up
+  const firstProjected = data.findIndex(point => point.projected)
+  const hasForecast = firstProjected >= 0
+  const chartData = data.map((point, index) => {
+    if (point.projected) {
+      return { ...point, revenue: undefined, expenses: undefined, revenueToDate: point.revenue, expensesToDate: point.expenses }
+    }
+    if (hasForecast && index === firstProjected - 1) {
+      return { ...point, forecastRevenue: point.revenue, forecastExpenses: point.expenses }
+    }
+    return point
+  })
+
   return (
     <div className="bg-white dark:bg-[#2A2D31] border border-gray-200 dark:border-gray-800 rounded-lg p-6">
       <div className="mb-4">
         <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">Revenue vs Expenses Trend</h3>
-        <p className="text-sm text-gray-600 dark:text-gray-400">Monthly comparison over time</p>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {TREND_INTERVAL_LABELS[interval]} comparison over the selected range{showPriorYear ? ', against the prior year' : ''}
+          {hasForecast ? ', projected to fiscal year end with an 80% band' : ''}
+        </p>
       </div>
       
       <div className="h-64">
         <ResponsiveContainer width="100%" height="100%">
-          <LineChart data={data} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+          <ComposedChart data={chartData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
             <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" className="dark:stroke-gray-700" />
             <XAxis 
               dataKey="month" 
@@ -108,7 +146,73 @@ export default function RevenueExpensesChart({ data, loading = false }: RevenueE
               activeDot={{ r: 6, stroke: '#ef4444', strokeWidth: 2 }}
               name="Expenses"
             />
-          </LineChart>
+            {showPriorYear && (
+              <Line
+                type="monotone"
+                dataKey="priorRevenue"
+                stroke="#6ee7b7"
+                strokeWidth={2}
+                strokeDasharray="5 5"
+                dot={false}
+                name="Revenue (prior year)"
+              />
+            )}
+            {showPriorYear && (
+              <Line
+                type="monotone"
+                dataKey="priorExpenses"
+                stroke="#fca5a5"
+                strokeWidth={2}
+                strokeDasharray="5 5"
+                dot={false}
+                name="Expenses (prior year)"
+              />
+            )}
+            {hasForecast && (
+              <Area
+                type="monotone"
+                dataKey="revenueBand"
+                stroke="none"
+                fill="#10b981"
+                fillOpacity={0.12}
+                legendType="none"
+                name="Revenue range"
+              />
+            )}
+            {hasForecast && (
+              <Area
+                type="monotone"
+                dataKey="expensesBand"
+                stroke="none"
+                fill="#ef4444"
+                fillOpacity={0.12}
+                legendType="none"
+                name="Expenses range"
+              />
+            )}
+            {hasForecast && (
+              <Line
+                type="monotone"
+                dataKey="forecastRevenue"
+                stroke="#10b981"
+                strokeWidth={2}
+                strokeDasharray="2 4"
+                dot={false}
+                name="Revenue (forecast)"
+              />
+            )}
+            {hasForecast && (
+              <Line
+                type="monotone"
+                dataKey="forecastExpenses"
+                stroke="#ef4444"
+                strokeWidth={2}
+                strokeDasharray="2 4"
+                dot={false}
+                name="Expenses (forecast)"
+              />
+            )}
+          </ComposedChart>
         </ResponsiveContainer>
       </div>
     </div>
@@ -0,0 +1,151 @@
+'use client'
+
+import { useState, Fragment } from 'react'
+import { ChevronDown, ChevronRight } from 'lucide-react'
+
+export interface StatementLine {
+  key: string
+  label: string
+  kind: 'section' | 'account' | 'subtotal'
+  accountId?: string
+  group?: string
+  values: number[]
+  totalLabel?: string
+  children: StatementLine[]
+}
+
+export interface StatementColumn {
+  title: string
+}
+
+interface StatementTableProps {
+  columns: StatementColumn[]
+  lines: StatementLine[]
+  onAccountClick?: (line: StatementLine) => void
+}
+
+const formatAmount = (amount: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(amount)
+}
+
+const sectionKeys = (lines: StatementLine[]): string[] =>
+  lines.flatMap(line => (line.kind === 'section' ? [line.key, ...sectionKeys(line.children)] : []))
+
+export default function StatementTable({ columns, lines, onAccountClick }: StatementTableProps) {
+  // Sections are expanded by default; only the collapsed ones are tracked
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set())
+
+  const toggle = (key: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev)
+      if (next.has(key)) next.delete(key)
+      else next.add(key)
+      return next
+    })
+  }
+
+  const valueCells = (values: number[], className = '') =>
+    columns.map((column, i) => (
+      <td key={i} className={`py-2 px-3 text-right tabular-nums whitespace-nowrap ${className}`}>
+        {values[i] === undefined ? '' : formatAmount(values[i])}
+      </td>
+    ))
+
+  const renderLines = (items: StatementLine[], depth: number): JSX.Element[] =>
+    items.map((line) => {
+      const indent = { paddingLeft: `${depth * 1.25 + 0.75}rem` }
+
+      if (line.kind === 'subtotal') {
+        return (
+          <tr key={line.key} className="border-t border-gray-200 dark:border-gray-700 font-semibold">
+            <td className="py-2 px-3" style={indent}>{line.label}</td>
+            {valueCells(line.values)}
+          </tr>
+        )
+      }
+
+      if (line.kind === 'account') {
+        return (
+          <tr key={line.key} className="border-t border-gray-100 dark:border-gray-800 hover:bg-gray-50 dark:hover:bg-[#1E2023]">
+            <td className="py-2 px-3" style={indent}>
+              {onAccountClick && line.accountId ? (
+                <button
+                  onClick={() => onAccountClick(line)}
+                  className="text-left hover:underline"
+                >
+                  {line.label}
+                </button>
+              ) : line.label}
+            </td>
+            {valueCells(line.values, 'text-gray-700 dark:text-gray-300')}
+          </tr>
+        )
+      }
+
+      const isCollapsed = collapsed.has(line.key)
+      return (
+        <Fragment key={line.key}>
+          <tr className="border-t border-gray-100 dark:border-gray-800">
+            <td className="py-2 px-3 font-medium" style={indent}>
+              <button
+                onClick={() => toggle(line.key)}
+                className="flex items-center gap-1 text-left"
+                aria-expanded={!isCollapsed}
+              >
+                {isCollapsed ? <ChevronRight className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                <span>{line.label}</span>
+              </button>
+            </td>
+            {/* A collapsed section shows its total on the header line */}
+            {isCollapsed ? valueCells(line.values, 'font-medium') : columns.map((column, i) => <td key={i} />)}
+          </tr>
+          {!isCollapsed && renderLines(line.children, depth + 1)}
+          {!isCollapsed && (
+            <tr className="border-t border-gray-200 dark:border-gray-700 font-medium">
+              <td className="py-2 px-3" style={indent}>{line.totalLabel}</td>
+              {valueCells(line.values)}
+            </tr>
+          )}
+        </Fragment>
+      )
+    })
+
+  return (
+    <div className="bg-white dark:bg-[#2A2D31] border border-gray-200 dark:border-gray-800 rounded-lg p-6">
+      <div className="flex justify-end gap-2 mb-3">
+        <button
+          onClick={() => setCollapsed(new Set())}
+          className="px-3 py-1 text-xs rounded-md bg-gray-100 text-gray-700 dark:bg-[#1E2023] dark:text-gray-300"
+        >
+          Expand all
+        </button>
+        <button
+          onClick={() => setCollapsed(new Set(sectionKeys(lines)))}
+          className="px-3 py-1 text-xs rounded-md bg-gray-100 text-gray-700 dark:bg-[#1E2023] dark:text-gray-300"
+        >
+          Collapse all
+        </button>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-200 dark:border-gray-700">
+              <th className="text-left py-2 px-3 font-medium text-gray-600 dark:text-gray-400">Account</th>
+              {columns.map((column, i) => (
+                <th key={i} className="text-right py-2 px-3 font-medium text-gray-600 dark:text-gray-400 whitespace-nowrap">
+                  {column.title}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>{renderLines(lines, 0)}</tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,193 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { X } from 'lucide-react'
+
+export interface DrillDownAccount {
+  id: string
+  name: string
+}
+
+interface Transaction {
+  id?: string
+  date: string
+  type: string
+  docNumber: string
+  payee: string
+  memo: string
+  amount: number
+}
+
+interface TransactionsData {
+  account: {
+    id: string
+    name: string | null
+  }
+  transactions: Transaction[]
+  total: number
+  timeframe: {
+    from: string
+    to: string
+  }
+  comparison: {
+    from: string
+    to: string
+    transactions: Transaction[]
+    total: number
+  } | null
+}
+
+interface TransactionDrillDownProps {
+  account: DrillDownAccount
+  periodQuery: string
+  realmId?: string | null
+  comparisonBasis?: string
+  onClose: () => void
+}
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(amount)
+}
+
+export default function TransactionDrillDown({ account, periodQuery, realmId, comparisonBasis, onClose }: TransactionDrillDownProps) {
+  const [data, setData] = useState<TransactionsData | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [showComparison, setShowComparison] = useState(false)
+
+  useEffect(() => {
+    fetchTransactions()
+  }, [account.id, periodQuery, realmId, comparisonBasis])
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose()
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [onClose])
+
+  const fetchTransactions = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      setShowComparison(false)
+
+      const params = new URLSearchParams(periodQuery)
+      params.set('accountId', account.id)
+      if (realmId) params.set('realmId', realmId)
+      if (comparisonBasis) params.set('compare', comparisonBasis)
+
+      const response = await fetch(`/api/dashboard/transactions?${params.toString()}`)
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to fetch transactions')
+      }
+
+      setData(await response.json())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const transactions = showComparison ? data?.comparison?.transactions || [] : data?.transactions || []
+  const change = data?.comparison ? data.total - data.comparison.total : null
+
+  const tabClassName = (active: boolean) => `px-3 py-1 text-xs rounded-md transition-colors ${
+    active
+      ? 'bg-black text-white dark:bg-white dark:text-black'
+      : 'bg-gray-100 text-gray-700 dark:bg-[#1E2023] dark:text-gray-300'
+  }`
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-label={`Transactions for ${account.name}`}
+    >
+      <div
+        className="w-full max-w-4xl max-h-[85vh] flex flex-col bg-white dark:bg-[#2A2D31] border border-gray-200 dark:border-gray-800 rounded-lg shadow-lg"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start justify-between p-6 border-b border-gray-200 dark:border-gray-800">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">{data?.account.name || account.name}</h3>
+            {data && (
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                {data.timeframe.from} to {data.timeframe.to} · {data.transactions.length} transactions · {formatCurrency(data.total)}
+                {change !== null && data.comparison && (
+                  <span className={change > 0 ? 'text-red-600' : 'text-green-600'}>
+                    {' '}({change >= 0 ? '+' : ''}{formatCurrency(change)} vs {data.comparison.from} to {data.comparison.to})
+                  </span>
+                )}
+              </p>
+            )}
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 rounded-md hover:bg-gray-100 dark:hover:bg-white/10 transition-colors"
+            aria-label="Close"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        {data?.comparison && (
+          <div className="flex gap-2 px-6 pt-4">
+            <button onClick={() => setShowComparison(false)} className={tabClassName(!showComparison)}>
+              This period
+            </button>
+            <button onClick={() => setShowComparison(true)} className={tabClassName(showComparison)}>
+              Comparison period ({formatCurrency(data.comparison.total)})
+            </button>
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto p-6">
+          {loading ? (
+            <div className="text-sm text-gray-600 dark:text-gray-400">Loading transactions…</div>
+          ) : error ? (
+            <div className="text-sm text-red-600 dark:text-red-400">{error}</div>
+          ) : transactions.length === 0 ? (
+            <div className="text-sm text-gray-600 dark:text-gray-400">No transactions in this period</div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-400">
+                  <th className="text-left py-2 pr-3 font-medium">Date</th>
+                  <th className="text-left py-2 pr-3 font-medium">Type</th>
+                  <th className="text-left py-2 pr-3 font-medium">Num</th>
+                  <th className="text-left py-2 pr-3 font-medium">Payee</th>
+                  <th className="text-left py-2 pr-3 font-medium">Memo</th>
+                  <th className="text-right py-2 font-medium">Amount</th>
+                </tr>
+              </thead>
+              <tbody>
+                {transactions.map((transaction, index) => (
+                  <tr key={`${transaction.id || 'row'}-${index}`} className="border-b border-gray-100 dark:border-gray-800">
+                    <td className="py-2 pr-3 whitespace-nowrap">{transaction.date}</td>
+                    <td className="py-2 pr-3 whitespace-nowrap">{transaction.type}</td>
+                    <td className="py-2 pr-3">{transaction.docNumber}</td>
+                    <td className="py-2 pr-3">{transaction.payee}</td>
+                    <td className="py-2 pr-3 text-gray-600 dark:text-gray-400">{transaction.memo}</td>
+                    <td className="py-2 text-right tabular-nums whitespace-nowrap">{formatCurrency(transaction.amount)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
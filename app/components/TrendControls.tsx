@@ -0,0 +1,142 @@
+'use client'
+
+import TrendIntervalSelect, { TrendInterval, isTrendInterval } from './TrendIntervalSelect'
+
+// `range` is 'PERIOD' (follow the dashboard's date range), 'TRAILING_24',
+// 'TRAILING_36' or a calendar year such as '2025'
+export interface TrendView {
+  interval: TrendInterval
+  range: string
+  priorYear: boolean
+  forecast: TrendForecast
+}
+
+// Projection method for the rest of the fiscal year, as accepted by the monthly route
+export type TrendForecast = 'NONE' | 'linear' | 'average' | 'seasonal'
+
+interface TrendControlsProps {
+  value: TrendView
+  onChange: (value: TrendView) => void
+  disabled?: boolean
+  showForecast?: boolean
+}
+
+export const DEFAULT_TREND_VIEW: TrendView = { interval: 'Month', range: 'PERIOD', priorYear: false, forecast: 'linear' }
+
+const FORECAST_OPTIONS: Array<{ value: TrendForecast; label: string }> = [
+  { value: 'NONE', label: 'No forecast' },
+  { value: 'linear', label: 'Forecast: linear trend' },
+  { value: 'average', label: 'Forecast: trailing average' },
+  { value: 'seasonal', label: 'Forecast: seasonal (prior year)' },
+]
+
+const YEAR_OPTIONS = 5
+
+const TRAILING_RANGES = [
+  { value: 'TRAILING_24', label: 'Trailing 24 months' },
+  { value: 'TRAILING_36', label: 'Trailing 36 months' },
+]
+
+const isYear = (range: string) => /^\d{4}$/.test(range)
+
+// Restores a view saved in localStorage, falling back to the defaults field by field
+export function parseTrendView(stored: string | null): TrendView {
+  try {
+    const value = JSON.parse(stored || '{}')
+    const range = typeof value.range === 'string' && (value.range === 'PERIOD' || isYear(value.range) || TRAILING_RANGES.some(option => option.value === value.range))
+      ? value.range
+      : DEFAULT_TREND_VIEW.range
+    return {
+      interval: isTrendInterval(value.interval) ? value.interval : DEFAULT_TREND_VIEW.interval,
+      range,
+      priorYear: value.priorYear === true,
+      forecast: FORECAST_OPTIONS.some(option => option.value === value.forecast) ? value.forecast : DEFAULT_TREND_VIEW.forecast,
+    }
+  } catch {
+    return DEFAULT_TREND_VIEW
+  }
+}
+
+// Query string fragment (without a leading separator) for the trend routes
+export function trendViewQuery(view: TrendView, periodQuery: string): string {
+  const params = new URLSearchParams({ interval: view.interval })
+  if (view.range.startsWith('TRAILING_')) {
+    params.set('trailing', view.range.replace('TRAILING_', ''))
+  } else if (isYear(view.range)) {
+    params.set('year', view.range)
+  }
+  if (view.priorYear) {
+    params.set('priorYear', '1')
+  }
+  if (view.forecast !== 'NONE') {
+    params.set('forecast', view.forecast)
+  }
+
+  const query = params.toString()
+  return view.range === 'PERIOD' ? `${periodQuery}&${query}` : query
+}
+
+export default function TrendControls({ value, onChange, disabled = false, showForecast = false }: TrendControlsProps) {
+  const currentYear = new Date().getFullYear()
+  const years = Array.from({ length: YEAR_OPTIONS }, (_, i) => String(currentYear - i))
+
+  const selectClassName = 'h-7 px-2 text-xs rounded-md bg-white dark:bg-[#2A2D31] text-black dark:text-white border border-gray-200 dark:border-gray-700 focus:outline-none disabled:opacity-50'
+
+  return (
+    <div className="flex flex-wrap items-center justify-end gap-2">
+      <select
+        value={value.range}
+        onChange={(e) => onChange({ ...value, range: e.target.value })}
+        disabled={disabled}
+        className={selectClassName}
+        aria-label="Trend range"
+      >
+        <option value="PERIOD" className="text-black">Selected period</option>
+        {TRAILING_RANGES.map((option) => (
+          <option key={option.value} value={option.value} className="text-black">
+            {option.label}
+          </option>
+        ))}
+        <optgroup label="Calendar year" className="text-black">
+          {years.map((year) => (
+            <option key={year} value={year} className="text-black">
+              {year}
+            </option>
+          ))}
+        </optgroup>
+      </select>
+      <TrendIntervalSelect
+        value={value.interval}
+        onChange={(interval) => onChange({ ...value, interval })}
+        disabled={disabled}
+      />
+      <button
+        onClick={() => onChange({ ...value, priorYear: !value.priorYear })}
+        disabled={disabled}
+        aria-pressed={value.priorYear}
+        className={`px-3 py-1 text-xs rounded-md transition-colors disabled:opacity-50 ${
+          value.priorYear
+            ? 'bg-black text-white dark:bg-white dark:text-black'
+            : 'bg-gray-100 text-gray-700 dark:bg-[#2A2D31] dark:text-gray-300'
+        }`}
+      >
+        vs prior year
+      </button>
+      {showForecast && (
+        <select
+          value={value.forecast}
+          onChange={(e) => onChange({ ...value, forecast: e.target.value as TrendForecast })}
+          disabled={disabled}
+          className={selectClassName}
+          aria-label="Forecast method"
+        >
+          {FORECAST_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value} className="text-black">
+              {option.label}
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  )
+}
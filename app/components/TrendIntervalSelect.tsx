@@ -0,0 +1,37 @@
+'use client'
+
+export type TrendInterval = 'Month' | 'Quarter' | 'Week'
+
+interface TrendIntervalSelectProps {
+  value: TrendInterval
+  onChange: (interval: TrendInterval) => void
+  disabled?: boolean
+}
+
+export const TREND_INTERVAL_LABELS: Record<TrendInterval, string> = {
+  Month: 'Monthly',
+  Quarter: 'Quarterly',
+  Week: 'Weekly',
+}
+
+export function isTrendInterval(value: string | null | undefined): value is TrendInterval {
+  return value === 'Month' || value === 'Quarter' || value === 'Week'
+}
+
+export default function TrendIntervalSelect({ value, onChange, disabled = false }: TrendIntervalSelectProps) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value as TrendInterval)}
+      disabled={disabled}
+      className="h-7 px-2 text-xs rounded-md bg-white dark:bg-[#2A2D31] text-black dark:text-white border border-gray-200 dark:border-gray-700 focus:outline-none disabled:opacity-50"
+      aria-label="Trend interval"
+    >
+      {(Object.keys(TREND_INTERVAL_LABELS) as TrendInterval[]).map((interval) => (
+        <option key={interval} value={interval} className="text-black">
+          {TREND_INTERVAL_LABELS[interval]}
+        </option>
+      ))}
+    </select>
+  )
+}
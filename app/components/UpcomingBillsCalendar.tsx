@@ -0,0 +1,145 @@
+'use client'
+
+import { CalendarDays } from 'lucide-react'
+
+interface UpcomingBill {
+  id: string
+  vendor: string
+  docNumber: string
+  dueDate: string
+  balance: number
+}
+
+export interface UpcomingBillsData {
+  from: string
+  to: string
+  bills: UpcomingBill[]
+  total: number
+  overdue: {
+    count: number
+    total: number
+  }
+}
+
+interface UpcomingBillsCalendarProps {
+  data: UpcomingBillsData | null
+  cashBalance: number | null
+  loading?: boolean
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+
+const formatCurrency = (amount: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount)
+}
+
+// YYYY-MM-DD in local time, matching the dates the API returns
+const toDateString = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+
+const fromDateString = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number)
+  return new Date(year, month - 1, day)
+}
+
+export default function UpcomingBillsCalendar({ data, cashBalance, loading = false }: UpcomingBillsCalendarProps) {
+  if (loading || !data) {
+    return (
+      <div className="bg-white dark:bg-[#2A2D31] border border-gray-200 dark:border-gray-800 rounded-lg p-6">
+        <div className="flex items-center justify-center h-48">
+          <div className="text-sm text-gray-600 dark:text-gray-400">
+            {loading ? 'Loading upcoming bills...' : 'No bill data available'}
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  const dueByDay = new Map<string, number>()
+  for (const bill of data.bills) {
+    dueByDay.set(bill.dueDate, (dueByDay.get(bill.dueDate) || 0) + bill.balance)
+  }
+
+  // Whole weeks from the Sunday on or before today; days outside the window are blank
+  const start = fromDateString(data.from)
+  const end = fromDateString(data.to)
+  const days: Array<Date | null> = Array.from({ length: start.getDay() }, () => null)
+  for (let day = new Date(start); day <= end; day = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1)) {
+    days.push(day)
+  }
+
+  // Bills due in the window plus those already overdue, against today's cash
+  const due = data.total + data.overdue.total
+  const shortfall = cashBalance === null ? null : due - cashBalance
+
+  return (
+    <div className="bg-white dark:bg-[#2A2D31] border border-gray-200 dark:border-gray-800 rounded-lg p-6">
+      <div className="flex items-start justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">Bills Due Next 30 Days</h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {data.bills.length} bills · {formatCurrency(data.total)}
+            {data.overdue.count > 0 && (
+              <span className="text-red-600"> · {data.overdue.count} overdue ({formatCurrency(data.overdue.total)})</span>
+            )}
+          </p>
+        </div>
+        <CalendarDays className="w-6 h-6 text-gray-500" />
+      </div>
+
+      {shortfall !== null && (
+        <p className={`text-sm mb-4 ${shortfall > 0 ? 'text-red-600' : 'text-green-600'}`}>
+          {shortfall > 0
+            ? `Cash balance is ${formatCurrency(shortfall)} short of bills due and overdue`
+            : `Cash balance covers bills due and overdue with ${formatCurrency(-shortfall)} to spare`}
+        </p>
+      )}
+
+      <div className="grid grid-cols-7 gap-1 text-center text-xs">
+        {WEEKDAYS.map(weekday => (
+          <div key={weekday} className="py-1 text-gray-600 dark:text-gray-400">{weekday}</div>
+        ))}
+        {days.map((day, index) => {
+          if (!day) return <div key={`blank-${index}`} />
+          const amount = dueByDay.get(toDateString(day))
+          return (
+            <div
+              key={toDateString(day)}
+              className={`rounded-md p-1 min-h-[3rem] ${
+                amount
+                  ? 'bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800'
+                  : 'bg-gray-50 dark:bg-[#1E2023]'
+              }`}
+              title={amount ? `${formatCurrency(amount)} due` : undefined}
+            >
+              <div className="text-gray-600 dark:text-gray-400">
+                {day.getDate() === 1 || index === start.getDay() ? `${MONTHS[day.getMonth()]} ` : ''}{day.getDate()}
+              </div>
+              {amount ? <div className="font-medium text-amber-700 dark:text-amber-400">{formatCurrency(amount)}</div> : null}
+            </div>
+          )
+        })}
+      </div>
+
+      {data.bills.length > 0 && (
+        <table className="w-full text-sm mt-4">
+          <tbody>
+            {data.bills.map(bill => (
+              <tr key={bill.id} className="border-b border-gray-100 dark:border-gray-800">
+                <td className="py-2 pr-3 whitespace-nowrap text-gray-600 dark:text-gray-400">{bill.dueDate}</td>
+                <td className="py-2 pr-3">{bill.vendor}{bill.docNumber ? ` · ${bill.docNumber}` : ''}</td>
+                <td className="py-2 text-right tabular-nums">{formatCurrency(bill.balance)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,527 @@
+'use client'
+
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import { useState, useEffect } from 'react'
+import {
+  DollarSign,
+  TrendingUp,
+  TrendingDown,
+  Wallet,
+  RefreshCw
+} from 'lucide-react'
+import ThemeToggle from '../components/ThemeToggle'
+import RevenueExpensesChart from '../components/RevenueExpensesChart'
+import ExpenseBreakdownChart from '../components/ExpenseBreakdownChart'
+import NetProfitTrendChart from '../components/NetProfitTrendChart'
+import ConsolidationTable, { ConsolidationKpis } from '../components/ConsolidationTable'
+import EliminationRulesEditor, { EliminationRule } from '../components/EliminationRulesEditor'
+import { ConnectedCompany } from '../components/CompanySwitcher'
+import DateRangePicker, { DateRangeValue, dateRangeQuery } from '../components/DateRangePicker'
+import TrendControls, { TrendView, parseTrendView, trendViewQuery } from '../components/TrendControls'
+
+const GROUP_STORAGE_KEY = 'qbo-consolidation-realms'
+const TREND_VIEW_STORAGE_KEY = 'qbo-trend-view'
+
+interface ConsolidatedData {
+  entities: Array<{
+    realmId: string
+    name: string
+    kpis: ConsolidationKpis
+  }>
+  eliminations: {
+    kpis: ConsolidationKpis
+    entries: Array<{
+      rule: string
+      realmId: string
+      accountName: string
+      group: string
+      amount: number
+    }>
+  }
+  consolidated: {
+    kpis: ConsolidationKpis & { netMargin: number; cashBalance: number }
+    expenseBreakdown: Array<{
+      name: string
+      value: number
+      percentage: number
+      entities: Record<string, number>
+      eliminated: number
+    }>
+  }
+  rules: EliminationRule[]
+  timeframe: {
+    from: string
+    to: string
+    type: string
+  }
+  syncedAt: string | null
+}
+
+interface MonthlyData {
+  trendData: Array<{
+    month: string
+    revenue: number
+    expenses: number
+  }>
+  year: number
+}
+
+export default function ConsolidatedDashboard() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [companies, setCompanies] = useState<ConnectedCompany[]>([])
+  const [selected, setSelected] = useState<string[]>([])
+  const [companiesLoaded, setCompaniesLoaded] = useState(false)
+  const [period, setPeriod] = useState<DateRangeValue>({ timeframe: 'YEAR' })
+  const [applyEliminations, setApplyEliminations] = useState(true)
+  const [data, setData] = useState<ConsolidatedData | null>(null)
+  const [monthlyData, setMonthlyData] = useState<MonthlyData | null>(null)
+  const [rules, setRules] = useState<EliminationRule[]>([])
+  const [loading, setLoading] = useState(true)
+  const [loadingMonthly, setLoadingMonthly] = useState(false)
+  const [trendView, setTrendView] = useState<TrendView>(() => {
+    if (typeof window === 'undefined') return parseTrendView(null)
+    return parseTrendView(window.localStorage.getItem(TREND_VIEW_STORAGE_KEY))
+  })
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (status === 'authenticated') {
+      fetchCompanies()
+      fetchRules()
+    }
+  }, [status])
+
+  useEffect(() => {
+    if (status === 'authenticated' && companiesLoaded && selected.length > 0) {
+      fetchAllData()
+    }
+  }, [status, companiesLoaded, selected, period, applyEliminations])
+
+  const fetchCompanies = async () => {
+    try {
+      const response = await fetch('/api/qbo/status')
+      const result = await response.json()
+      const connected: ConnectedCompany[] = result.companies || []
+      setCompanies(connected)
+
+      // Restore the last chosen group, dropping companies that were disconnected since
+      const stored: string[] = JSON.parse(window.localStorage.getItem(GROUP_STORAGE_KEY) || '[]')
+      const restored = stored.filter(realmId => connected.some(company => company.realmId === realmId))
+      setSelected(restored.length > 0 ? restored : connected.map(company => company.realmId))
+
+      if (connected.length === 0) {
+        setError('No QBO connection found')
+        setLoading(false)
+      }
+    } catch (err) {
+      console.error('Company list error:', err)
+    } finally {
+      setCompaniesLoaded(true)
+    }
+  }
+
+  const fetchRules = async () => {
+    try {
+      const response = await fetch('/api/dashboard/consolidated/eliminations')
+      if (!response.ok) return
+      const result = await response.json()
+      setRules(result.rules || [])
+    } catch (err) {
+      console.error('Elimination rules error:', err)
+    }
+  }
+
+  const toggleCompany = (realmId: string) => {
+    const next = selected.includes(realmId)
+      ? selected.filter(id => id !== realmId)
+      : [...selected, realmId]
+
+    // Keep at least one company in the group
+    if (next.length === 0) return
+
+    window.localStorage.setItem(GROUP_STORAGE_KEY, JSON.stringify(next))
+    setSelected(next)
+  }
+
+  const groupQuery = `realmIds=${selected.map(encodeURIComponent).join(',')}&eliminations=${applyEliminations}`
+  const periodQuery = dateRangeQuery(period)
+
+  const fetchAllData = async (refresh = false) => {
+    setData(null)
+    setMonthlyData(null)
+    setError(null)
+
+    await Promise.allSettled([
+      fetchConsolidatedData(refresh),
+      fetchMonthlyData(trendView, refresh)
+    ])
+  }
+
+  const fetchConsolidatedData = async (refresh = false) => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await fetch(`/api/dashboard/consolidated?${periodQuery}&${groupQuery}${refresh ? '&refresh=1' : ''}`)
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to fetch consolidated data')
+      }
+
+      const result = await response.json()
+      setData(result)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchMonthlyData = async (view: TrendView = trendView, refresh = false) => {
+    try {
+      setLoadingMonthly(true)
+
+      const response = await fetch(`/api/dashboard/consolidated/monthly?${trendViewQuery(view, periodQuery)}&${groupQuery}${refresh ? '&refresh=1' : ''}`)
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        console.error('Consolidated monthly data fetch failed:', errorData.error)
+        return // Don't throw, just skip monthly data
+      }
+
+      const result = await response.json()
+      setMonthlyData(result)
+    } catch (err) {
+      console.error('Consolidated monthly data error:', err)
+    } finally {
+      setLoadingMonthly(false)
+    }
+  }
+
+  const handleTrendViewChange = (view: TrendView) => {
+    window.localStorage.setItem(TREND_VIEW_STORAGE_KEY, JSON.stringify(view))
+    setTrendView(view)
+    fetchMonthlyData(view)
+  }
+
+  const handleRulesChange = async () => {
+    await fetchRules()
+    if (applyEliminations) {
+      await fetchAllData()
+    }
+  }
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(amount)
+  }
+
+  const formatPercentage = (value: number) => {
+    return `${value.toFixed(1)}%`
+  }
+
+  if (status === 'loading') {
+    return (
+      <div className="mobile-viewport-height overflow-hidden bg-white text-black dark:bg-black dark:text-white flex items-center justify-center zoom-container">
+        <div className="text-sm text-gray-600 dark:text-gray-400">Loading…</div>
+      </div>
+    )
+  }
+
+  if (!session) {
+    return (
+      <div className="mobile-viewport-height overflow-hidden bg-white text-black dark:bg-black dark:text-white flex items-center justify-center zoom-container">
+        <div className="text-center space-y-4">
+          <div className="text-sm text-gray-600 dark:text-gray-400">You are not signed in.</div>
+          <button
+            onClick={() => router.push('/login')}
+            className="inline-block h-9 px-4 rounded-md bg-black text-white dark:bg-white dark:text-black hover:opacity-90 transition-opacity"
+          >
+            Go to login
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  const hasEliminations = !!data && applyEliminations && data.eliminations.entries.length > 0
+
+  return (
+    <div className="mobile-viewport-height overflow-hidden bg-white text-black dark:bg-black dark:text-white flex flex-col zoom-container">
+      {/* Header */}
+      <header className="sticky top-0 z-10 border-b border-gray-200 dark:border-gray-800 bg-white/70 dark:bg-black/60 backdrop-blur">
+        <div className="max-w-7xl mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <button
+                onClick={() => router.push('/')}
+                className="text-sm text-black dark:text-white opacity-70 hover:opacity-100 transition-opacity"
+              >
+                ← Back
+              </button>
+              <h1 className="text-[20px] leading-none font-semibold tracking-tight">| Consolidated Dashboard</h1>
+            </div>
+
+            <div className="flex items-center gap-3">
+              <button
+                onClick={() => fetchAllData(true)}
+                disabled={loading}
+                className="p-2 rounded-md hover:bg-gray-100 dark:hover:bg-white/10 transition-colors disabled:opacity-50"
+                aria-label="Refresh data"
+              >
+                <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+              </button>
+
+              <ThemeToggle />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="flex-1 overflow-y-auto min-h-0 main-content">
+        <div className="max-w-7xl mx-auto px-4 py-6 space-y-6">
+        {error && (
+          <div className="p-4 rounded-md bg-red-50 dark:bg-[#2A2D31] border border-red-200 dark:border-red-800">
+            <div className="text-sm text-red-800 dark:text-red-200">
+              <p>{error}</p>
+            </div>
+          </div>
+        )}
+
+        {/* Company group and period */}
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div className="flex flex-wrap items-center gap-2">
+            {companies.map((company) => (
+              <label
+                key={company.realmId}
+                className="flex items-center gap-2 h-8 px-3 rounded-md border border-gray-300 dark:border-gray-700 text-sm cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-900 transition"
+              >
+                <input
+                  type="checkbox"
+                  checked={selected.includes(company.realmId)}
+                  onChange={() => toggleCompany(company.realmId)}
+                  disabled={loading}
+                />
+                <span>{company.companyName}</span>
+              </label>
+            ))}
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <label className="flex items-center gap-2 mr-2 text-xs text-gray-600 dark:text-gray-400">
+              <input
+                type="checkbox"
+                checked={applyEliminations}
+                onChange={(e) => setApplyEliminations(e.target.checked)}
+              />
+              Apply eliminations
+            </label>
+            <DateRangePicker value={period} onChange={setPeriod} disabled={loading} />
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="text-sm text-gray-600 dark:text-gray-400">Loading consolidated data…</div>
+          </div>
+        ) : data ? (
+          <>
+            <div className="flex items-center space-x-2">
+              <h2 className="text-lg font-medium">
+                {data.entities.length} {data.entities.length === 1 ? 'company' : 'companies'}
+              </h2>
+              <span className="text-sm text-gray-500 dark:text-gray-400">
+                {data.timeframe.from} to {data.timeframe.to}
+              </span>
+              {data.syncedAt && (
+                <span className="text-xs text-gray-400 dark:text-gray-500">
+                  · Last synced {new Date(data.syncedAt).toLocaleString()}
+                </span>
+              )}
+            </div>
+
+            {/* KPI Cards */}
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+              <div className="bg-white dark:bg-[#2A2D31] border border-gray-200 dark:border-gray-800 rounded-lg p-4">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">Revenue</p>
+                    <p className="text-2xl font-semibold">{formatCurrency(Math.abs(data.consolidated.kpis.revenue))}</p>
+                  </div>
+                  <DollarSign className="w-8 h-8 text-green-600" />
+                </div>
+              </div>
+
+              <div className="bg-white dark:bg-[#2A2D31] border border-gray-200 dark:border-gray-800 rounded-lg p-4">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">Expenses</p>
+                    <p className="text-2xl font-semibold">{formatCurrency(Math.abs(data.consolidated.kpis.expenses))}</p>
+                  </div>
+                  <TrendingDown className="w-8 h-8 text-red-600" />
+                </div>
+              </div>
+
+              <div className="bg-white dark:bg-[#2A2D31] border border-gray-200 dark:border-gray-800 rounded-lg p-4">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">Net Profit</p>
+                    <p className="text-2xl font-semibold">{formatCurrency(data.consolidated.kpis.netProfit)}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {formatPercentage(data.consolidated.kpis.netMargin)} margin
+                    </p>
+                  </div>
+                  <TrendingUp className="w-8 h-8 text-blue-600" />
+                </div>
+              </div>
+
+              <div className="bg-white dark:bg-[#2A2D31] border border-gray-200 dark:border-gray-800 rounded-lg p-4">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">Cash Balance</p>
+                    <p className={`text-2xl font-semibold ${data.consolidated.kpis.cashBalance < 0 ? 'text-red-600' : ''}`}>
+                      {formatCurrency(data.consolidated.kpis.cashBalance)}
+                    </p>
+                    {data.consolidated.kpis.cashBalance < 0 && (
+                      <p className="text-xs text-red-600">Overdrawn</p>
+                    )}
+                  </div>
+                  <Wallet className="w-8 h-8 text-purple-600" />
+                </div>
+              </div>
+            </div>
+
+            {/* Per-entity columns */}
+            <ConsolidationTable
+              entities={data.entities.map(entity => ({ key: entity.realmId, title: entity.name, kpis: entity.kpis }))}
+              eliminations={hasEliminations ? data.eliminations.kpis : null}
+              consolidated={data.consolidated.kpis}
+            />
+
+            {/* Trend range, interval and prior-year overlay */}
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <h3 className="text-lg font-medium">Trends</h3>
+              <TrendControls value={trendView} onChange={handleTrendViewChange} disabled={loadingMonthly} />
+            </div>
+
+            {/* Revenue vs Expenses Trend Chart */}
+            <RevenueExpensesChart
+              data={monthlyData?.trendData || []}
+              loading={loadingMonthly}
+              interval={trendView.interval}
+              showPriorYear={trendView.priorYear}
+            />
+
+            {/* Net Profit Trend Chart */}
+            <NetProfitTrendChart
+              data={monthlyData?.trendData || []}
+              loading={loadingMonthly}
+              interval={trendView.interval}
+              showPriorYear={trendView.priorYear}
+            />
+
+            {/* Expense Breakdown Chart */}
+            <ExpenseBreakdownChart data={data.consolidated.expenseBreakdown} loading={loading} />
+
+            {/* Consolidated expense categories by company */}
+            <div className="bg-white dark:bg-[#2A2D31] border border-gray-200 dark:border-gray-800 rounded-lg p-6">
+              <h3 className="text-lg font-medium mb-4">Category Highlights</h3>
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b border-gray-200 dark:border-gray-700">
+                      <th className="text-left py-3 px-4">
+                        <span className="text-sm font-medium text-gray-600 dark:text-gray-400">Category</span>
+                      </th>
+                      {data.entities.map((entity) => (
+                        <th key={entity.realmId} className="text-right py-3 px-4">
+                          <span className="text-sm font-medium text-gray-600 dark:text-gray-400">{entity.name}</span>
+                        </th>
+                      ))}
+                      {hasEliminations && (
+                        <th className="text-right py-3 px-4">
+                          <span className="text-sm font-medium text-gray-600 dark:text-gray-400">Eliminations</span>
+                        </th>
+                      )}
+                      <th className="text-right py-3 px-4">
+                        <span className="text-sm font-medium text-gray-600 dark:text-gray-400">Consolidated</span>
+                      </th>
+                      <th className="text-right py-3 px-4">
+                        <span className="text-sm font-medium text-gray-600 dark:text-gray-400">% of Total</span>
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data.consolidated.expenseBreakdown.map((expense) => (
+                      <tr key={expense.name} className="border-b border-gray-100 dark:border-gray-800 hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors">
+                        <td className="py-3 px-4">
+                          <span className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                            {expense.name}
+                          </span>
+                        </td>
+                        {data.entities.map((entity) => (
+                          <td key={entity.realmId} className="py-3 px-4 text-right">
+                            <span className="text-sm text-gray-700 dark:text-gray-300">
+                              {expense.entities[entity.realmId] ? formatCurrency(expense.entities[entity.realmId]) : '—'}
+                            </span>
+                          </td>
+                        ))}
+                        {hasEliminations && (
+                          <td className="py-3 px-4 text-right">
+                            <span className="text-sm text-gray-500 dark:text-gray-400">
+                              {expense.eliminated ? formatCurrency(-expense.eliminated) : '—'}
+                            </span>
+                          </td>
+                        )}
+                        <td className="py-3 px-4 text-right">
+                          <span className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+                            {formatCurrency(expense.value)}
+                          </span>
+                        </td>
+                        <td className="py-3 px-4 text-right">
+                          <span className="text-sm text-gray-600 dark:text-gray-400">
+                            {formatPercentage(expense.percentage)}
+                          </span>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            {/* Eliminations booked this period */}
+            {hasEliminations && (
+              <div className="bg-white dark:bg-[#2A2D31] border border-gray-200 dark:border-gray-800 rounded-lg p-6">
+                <h3 className="text-lg font-medium mb-4">Eliminated Balances</h3>
+                <ul className="space-y-2">
+                  {data.eliminations.entries.map((entry, index) => (
+                    <li key={index} className="flex items-center justify-between text-sm">
+                      <span className="text-gray-700 dark:text-gray-300">
+                        {entry.rule}: {entry.accountName}
+                        <span className="text-gray-500 dark:text-gray-400">
+                          {' '}({data.entities.find(entity => entity.realmId === entry.realmId)?.name || entry.realmId})
+                        </span>
+                      </span>
+                      <span className="font-medium">{formatCurrency(entry.amount)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </>
+        ) : null}
+
+        <EliminationRulesEditor rules={rules} companies={companies} onChange={handleRulesChange} />
+        </div>
+      </main>
+    </div>
+  )
+}
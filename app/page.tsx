@@ -5,18 +5,18 @@ import { useRouter } from 'next/navigation'
 import Image from 'next/image'
 import { useState, useEffect } from 'react'
 import { 
-  DollarSign, 
-  TrendingUp, 
-  TrendingDown, 
-  Wallet, 
-  BarChart3, 
   Download,
   Settings,
   LogOut,
   RefreshCw,
   ArrowUpDown,
-  ArrowUp,
-  ArrowDown
+  Layers,
+  FileText,
+  ArrowRightLeft,
+  Target,
+  PiggyBank,
+  MessageSquare,
+  Shield
 } from 'lucide-react'
 import logoWhite from '/public/logo_long_white.png'
 import logoBlack from '/public/logo_long_black.png'
@@ -24,11 +24,35 @@ import ThemeToggle from './components/ThemeToggle'
 import RevenueExpensesChart from './components/RevenueExpensesChart'
 import ExpenseBreakdownChart from './components/ExpenseBreakdownChart'
 import NetProfitTrendChart from './components/NetProfitTrendChart'
+import CustomMetricsChart from './components/CustomMetricsChart'
+import DashboardGrid, { DashboardWidget } from './components/DashboardGrid'
+import CashFlowChart from './components/CashFlowChart'
+import CompanySwitcher, { ConnectedCompany } from './components/CompanySwitcher'
+import DateRangePicker, { DateRangeValue, dateRangeQuery } from './components/DateRangePicker'
+import TrendControls, { TrendView, parseTrendView, trendViewQuery } from './components/TrendControls'
+import TransactionDrillDown, { DrillDownAccount } from './components/TransactionDrillDown'
+import AgingPanel, { AgingData, AgingParty } from './components/AgingPanel'
+import OpenItemsDrillDown, { DrillDownParty, OpenItemsKind } from './components/OpenItemsDrillDown'
+import UpcomingBillsCalendar, { UpcomingBillsData } from './components/UpcomingBillsCalendar'
+import CashForecastChart, { CashForecastData } from './components/CashForecastChart'
+import ChangeIndicator from './components/ChangeIndicator'
+import BudgetVsActualPanel, { BudgetVsActualData } from './components/BudgetVsActualPanel'
+import KpiCards, { KpiValue, parseKpiSelection } from './components/KpiCards'
+import AssistantPanel from './components/AssistantPanel'
+import AssistantChart, { ChartSpec } from './components/AssistantChart'
+
+const REALM_STORAGE_KEY = 'qbo-realm'
+const COMPARISON_STORAGE_KEY = 'qbo-comparison-basis'
+const TREND_VIEW_STORAGE_KEY = 'qbo-trend-view'
+const KPI_CARDS_STORAGE_KEY = 'qbo-kpi-cards'
+
+type ComparisonBasis = 'PREVIOUS_PERIOD' | 'SAME_PERIOD_LAST_YEAR'
 
 interface GeneralData {
   organisation: {
     name: string
     shortCode: string
+    realmId: string
   }
   kpis: {
     revenue: number
@@ -37,8 +61,10 @@ interface GeneralData {
     netMargin: number
     cashBalance: number
   }
+  kpiLibrary: KpiValue[]
   expenseBreakdown: Array<{
     name: string
+    id?: string
     value: number
     percentage: number
   }>
@@ -46,7 +72,9 @@ interface GeneralData {
     from: string
     to: string
     type: string
+    fiscalYearStartMonth: number
   }
+  syncedAt: string | null
 }
 
 interface MonthlyData {
@@ -54,8 +82,68 @@ interface MonthlyData {
     month: string
     revenue: number
     expenses: number
+    projected?: boolean
+    forecastRevenue?: number
+    forecastExpenses?: number
+    revenueBand?: [number, number]
+    expensesBand?: [number, number]
+    metrics?: Record<string, number | null>
   }>
   year: number
+  metrics: Array<{
+    key: string
+    name: string
+    format: 'currency' | 'percent' | 'ratio' | 'number'
+  }>
+  forecast: {
+    method: 'linear' | 'average' | 'seasonal'
+    yearEnd: {
+      fiscalYear: {
+        from: string
+        to: string
+      }
+      actualThrough: string | null
+      revenue: number
+      expenses: number
+      netProfit: number
+      netProfitBand: [number, number]
+    }
+  } | null
+  syncedAt: string | null
+}
+
+interface CashFlowData {
+  summary: {
+    operating: number
+    investing: number
+    financing: number
+    netChange: number
+    beginningCash: number
+    endingCash: number
+  }
+  trendData: Array<{
+    month: string
+    operating: number
+    investing: number
+    financing: number
+    netChange: number
+  }>
+  syncedAt: string | null
+}
+
+interface ReceivablesData extends AgingData {
+  topOverdue: AgingParty[]
+  dso: number | null
+  days: number
+  syncedAt: string | null
+}
+
+interface PayablesData extends AgingData {
+  topVendors: AgingParty[]
+  dpo: number | null
+  days: number
+  upcomingBills: UpcomingBillsData
+  syncedAt: string | null
 }
 
 interface PreviousData {
@@ -63,6 +151,12 @@ interface PreviousData {
     name: string
     value: number
   }>
+  previousKpis: Record<string, number | null> | null
+  comparison: {
+    basis: ComparisonBasis
+    from: string | null
+    to: string | null
+  }
   timeframe: {
     from: string | null
     to: string | null
@@ -76,27 +170,69 @@ export default function Dashboard() {
   const [generalData, setGeneralData] = useState<GeneralData | null>(null)
   const [monthlyData, setMonthlyData] = useState<MonthlyData | null>(null)
   const [previousData, setPreviousData] = useState<PreviousData | null>(null)
+  const [cashFlowData, setCashFlowData] = useState<CashFlowData | null>(null)
+  const [receivablesData, setReceivablesData] = useState<ReceivablesData | null>(null)
+  const [payablesData, setPayablesData] = useState<PayablesData | null>(null)
+  const [cashForecastData, setCashForecastData] = useState<CashForecastData | null>(null)
+  const [budgetData, setBudgetData] = useState<BudgetVsActualData | null>(null)
   const [loadingGeneral, setLoadingGeneral] = useState(true)
   const [loadingMonthly, setLoadingMonthly] = useState(false)
   const [loadingPrevious, setLoadingPrevious] = useState(false)
+  const [loadingCashFlow, setLoadingCashFlow] = useState(false)
+  const [loadingReceivables, setLoadingReceivables] = useState(false)
+  const [loadingPayables, setLoadingPayables] = useState(false)
+  const [loadingCashForecast, setLoadingCashForecast] = useState(false)
+  const [loadingBudget, setLoadingBudget] = useState(false)
   const [error, setError] = useState<string | null>(null)
-  const [timeframe, setTimeframe] = useState<'YEAR' | 'MONTH'>('YEAR')
+  const [period, setPeriod] = useState<DateRangeValue>({ timeframe: 'YEAR' })
   const [refreshing, setRefreshing] = useState(false)
   const [successMessage, setSuccessMessage] = useState<string | null>(null)
   const [sortField, setSortField] = useState<'name' | 'value' | 'percentage'>('value')
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc')
+  const [companies, setCompanies] = useState<ConnectedCompany[]>([])
+  const [realmId, setRealmId] = useState<string | null>(null)
+  const [companiesLoaded, setCompaniesLoaded] = useState(false)
+  const [comparisonBasis, setComparisonBasis] = useState<ComparisonBasis>(() => {
+    if (typeof window === 'undefined') return 'PREVIOUS_PERIOD'
+    return window.localStorage.getItem(COMPARISON_STORAGE_KEY) === 'SAME_PERIOD_LAST_YEAR' ? 'SAME_PERIOD_LAST_YEAR' : 'PREVIOUS_PERIOD'
+  })
+  const [drillDown, setDrillDown] = useState<DrillDownAccount | null>(null)
+  const [openItems, setOpenItems] = useState<{ kind: OpenItemsKind; party: DrillDownParty } | null>(null)
+  const [assistantOpen, setAssistantOpen] = useState(false)
+  // Bumped when the assistant pins a chart, so the grid reloads its layout
+  const [layoutVersion, setLayoutVersion] = useState(0)
+  const [trendView, setTrendView] = useState<TrendView>(() => {
+    if (typeof window === 'undefined') return parseTrendView(null)
+    return parseTrendView(window.localStorage.getItem(TREND_VIEW_STORAGE_KEY))
+  })
+  const [kpiCards, setKpiCards] = useState<string[]>(() => {
+    if (typeof window === 'undefined') return parseKpiSelection(null)
+    return parseKpiSelection(window.localStorage.getItem(KPI_CARDS_STORAGE_KEY))
+  })
 
   useEffect(() => {
     if (status === 'authenticated') {
+      fetchCompanies()
+    }
+  }, [status])
+
+  useEffect(() => {
+    if (status === 'authenticated' && companiesLoaded) {
       fetchAllData()
     }
-  }, [status, timeframe])
+  }, [status, period, realmId, companiesLoaded])
 
   // Handle URL parameters for success/error messages
   useEffect(() => {
     const urlParams = new URLSearchParams(window.location.search)
     const success = urlParams.get('success')
     const error = urlParams.get('error')
+    const connectedRealmId = urlParams.get('realmId')
+
+    // Show the company that was just connected
+    if (connectedRealmId) {
+      window.localStorage.setItem(REALM_STORAGE_KEY, connectedRealmId)
+    }
     
     if (success === 'qbo_connected') {
       setSuccessMessage('QuickBooks Online connected successfully!')
@@ -111,27 +247,65 @@ export default function Dashboard() {
     }
   }, [])
 
-  const fetchAllData = async () => {
+  const fetchCompanies = async () => {
+    try {
+      const response = await fetch('/api/qbo/status')
+      const result = await response.json()
+      const connected: ConnectedCompany[] = result.companies || []
+      setCompanies(connected)
+
+      const stored = window.localStorage.getItem(REALM_STORAGE_KEY)
+      if (stored && connected.some(company => company.realmId === stored)) {
+        setRealmId(stored)
+      } else {
+        setRealmId(result.realmId || null)
+      }
+    } catch (err) {
+      console.error('Company list error:', err)
+    } finally {
+      setCompaniesLoaded(true)
+    }
+  }
+
+  const handleCompanyChange = (nextRealmId: string) => {
+    window.localStorage.setItem(REALM_STORAGE_KEY, nextRealmId)
+    setRealmId(nextRealmId)
+  }
+
+  const realmQuery = realmId ? `&realmId=${encodeURIComponent(realmId)}` : ''
+  const periodQuery = dateRangeQuery(period)
+
+  const fetchAllData = async (refresh = false) => {
     // Reset all data and loading states
     setGeneralData(null)
     setMonthlyData(null)
     setPreviousData(null)
+    setCashFlowData(null)
+    setReceivablesData(null)
+    setPayablesData(null)
+    setCashForecastData(null)
+    setBudgetData(null)
     setError(null)
 
     // Make all API calls in parallel for maximum speed
     await Promise.allSettled([
-      fetchGeneralData(),
-      fetchMonthlyData(),
-      fetchPreviousData()
+      fetchGeneralData(refresh),
+      fetchMonthlyData(trendView, refresh),
+      fetchPreviousData(comparisonBasis, refresh),
+      fetchCashFlowData(trendView, refresh),
+      fetchReceivablesData(refresh),
+      fetchPayablesData(refresh),
+      fetchCashForecastData(refresh),
+      fetchBudgetData(null, refresh)
     ])
   }
 
-  const fetchGeneralData = async () => {
+  const fetchGeneralData = async (refresh = false) => {
     try {
       setLoadingGeneral(true)
       setError(null)
 
-      const response = await fetch(`/api/dashboard/general?timeframe=${timeframe}`)
+      const response = await fetch(`/api/dashboard/general?${periodQuery}${realmQuery}${refresh ? '&refresh=1' : ''}`)
 
       if (!response.ok) {
         const errorData = await response.json()
@@ -147,12 +321,11 @@ export default function Dashboard() {
     }
   }
 
-  const fetchMonthlyData = async () => {
+  const fetchMonthlyData = async (view: TrendView = trendView, refresh = false) => {
     try {
       setLoadingMonthly(true)
 
-      const currentYear = new Date().getFullYear()
-      const response = await fetch(`/api/dashboard/monthly?year=${currentYear}`)
+      const response = await fetch(`/api/dashboard/monthly?${trendViewQuery(view, periodQuery)}${realmQuery}${refresh ? '&refresh=1' : ''}`)
 
       if (!response.ok) {
         const errorData = await response.json()
@@ -170,11 +343,11 @@ export default function Dashboard() {
     }
   }
 
-  const fetchPreviousData = async () => {
+  const fetchPreviousData = async (basis: ComparisonBasis = comparisonBasis, refresh = false) => {
     try {
       setLoadingPrevious(true)
 
-      const response = await fetch(`/api/dashboard/previous?timeframe=${timeframe}`)
+      const response = await fetch(`/api/dashboard/previous?${periodQuery}&compare=${basis}${realmQuery}${refresh ? '&refresh=1' : ''}`)
 
       if (!response.ok) {
         const errorData = await response.json()
@@ -192,9 +365,177 @@ export default function Dashboard() {
     }
   }
 
+  const fetchCashFlowData = async (view: TrendView = trendView, refresh = false) => {
+    try {
+      setLoadingCashFlow(true)
+
+      const response = await fetch(`/api/dashboard/cash-flow?${periodQuery}&interval=${view.interval}${realmQuery}${refresh ? '&refresh=1' : ''}`)
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        console.error('Cash flow fetch failed:', errorData.error)
+        return // Don't throw, just skip cash flow data
+      }
+
+      const result = await response.json()
+      setCashFlowData(result)
+    } catch (err) {
+      console.error('Cash flow data error:', err)
+      // Don't set main error for cash flow failures
+    } finally {
+      setLoadingCashFlow(false)
+    }
+  }
+
+  const fetchReceivablesData = async (refresh = false) => {
+    try {
+      setLoadingReceivables(true)
+
+      const response = await fetch(`/api/dashboard/receivables?${periodQuery}${realmQuery}${refresh ? '&refresh=1' : ''}`)
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        console.error('Receivables fetch failed:', errorData.error)
+        return // Don't throw, just skip receivables data
+      }
+
+      const result = await response.json()
+      setReceivablesData(result)
+    } catch (err) {
+      console.error('Receivables data error:', err)
+      // Don't set main error for receivables failures
+    } finally {
+      setLoadingReceivables(false)
+    }
+  }
+
+  const fetchPayablesData = async (refresh = false) => {
+    try {
+      setLoadingPayables(true)
+
+      const response = await fetch(`/api/dashboard/payables?${periodQuery}${realmQuery}${refresh ? '&refresh=1' : ''}`)
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        console.error('Payables fetch failed:', errorData.error)
+        return // Don't throw, just skip payables data
+      }
+
+      const result = await response.json()
+      setPayablesData(result)
+    } catch (err) {
+      console.error('Payables data error:', err)
+      // Don't set main error for payables failures
+    } finally {
+      setLoadingPayables(false)
+    }
+  }
+
+  // Without a budget id the API picks the budget that covers most of the period
+  const fetchBudgetData = async (budgetId: string | null = null, refresh = false) => {
+    try {
+      setLoadingBudget(true)
+
+      const budgetQuery = budgetId ? `&budgetId=${encodeURIComponent(budgetId)}` : ''
+      const response = await fetch(`/api/dashboard/budget?${periodQuery}${budgetQuery}${realmQuery}${refresh ? '&refresh=1' : ''}`)
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        console.error('Budget fetch failed:', errorData.error)
+        return // Don't throw, just skip budget data
+      }
+
+      const result = await response.json()
+      setBudgetData(result)
+    } catch (err) {
+      console.error('Budget data error:', err)
+      // Don't set main error for budget failures
+    } finally {
+      setLoadingBudget(false)
+    }
+  }
+
+  const fetchCashForecastData = async (refresh = false) => {
+    try {
+      setLoadingCashForecast(true)
+
+      const response = await fetch(`/api/dashboard/cash-forecast?${realmQuery.slice(1)}${refresh ? '&refresh=1' : ''}`)
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        console.error('Cash forecast fetch failed:', errorData.error)
+        return // Don't throw, just skip the forecast
+      }
+
+      const result = await response.json()
+      setCashForecastData(result)
+    } catch (err) {
+      console.error('Cash forecast error:', err)
+      // Don't set main error for forecast failures
+    } finally {
+      setLoadingCashForecast(false)
+    }
+  }
+
+  const openPartyItems = (kind: OpenItemsKind) => (party: AgingParty) => {
+    if (party.id) {
+      setOpenItems({ kind, party: { id: party.id, name: party.name } })
+    }
+  }
+
+  // Expense categories without a QBO account id (e.g. uncategorized rows) cannot be drilled into
+  const openDrillDown = (expense: { name: string; id?: string }) => {
+    if (expense.id) {
+      setDrillDown({ id: expense.id, name: expense.name })
+    }
+  }
+
+  const handleTrendViewChange = (view: TrendView) => {
+    window.localStorage.setItem(TREND_VIEW_STORAGE_KEY, JSON.stringify(view))
+    setTrendView(view)
+    fetchMonthlyData(view)
+    if (view.interval !== trendView.interval) {
+      fetchCashFlowData(view)
+    }
+  }
+
+  const handleKpiCardsChange = (cards: string[]) => {
+    window.localStorage.setItem(KPI_CARDS_STORAGE_KEY, JSON.stringify(cards))
+    setKpiCards(cards)
+  }
+
+  const handleComparisonChange = (basis: ComparisonBasis) => {
+    window.localStorage.setItem(COMPARISON_STORAGE_KEY, basis)
+    setComparisonBasis(basis)
+    setPreviousData(null)
+    fetchPreviousData(basis)
+  }
+
+  // Describes what the change column is measured against, e.g. "vs previous quarter"
+  const getComparisonLabel = () => {
+    if (comparisonBasis === 'SAME_PERIOD_LAST_YEAR') return 'vs same period last year'
+
+    switch (generalData?.timeframe.type) {
+      case 'MONTH':
+      case 'LAST_MONTH':
+        return 'vs previous month'
+      case 'QUARTER':
+      case 'LAST_QUARTER':
+        return 'vs previous quarter'
+      case 'YEAR':
+      case 'PRIOR_FISCAL_YEAR':
+        return 'vs previous year'
+      case 'TRAILING_12_MONTHS':
+        return 'vs previous 12 months'
+      default:
+        return 'vs previous period'
+    }
+  }
+
   const handleRefresh = async () => {
     setRefreshing(true)
-    await fetchAllData()
+    // Re-fetch every report from QBO, bypassing the cache for closed periods too
+    await fetchAllData(true)
     setRefreshing(false)
   }
 
@@ -208,9 +549,8 @@ export default function Dashboard() {
 
   const handleExport = async (format: 'csv' | 'json') => {
     try {
-      // For export, we still use the original combined endpoint if it exists,
-      // otherwise we could implement export in the general API
-      const response = await fetch(`/api/dashboard/export?format=${format}&timeframe=${timeframe}`)
+      // Export the same period the dashboard is showing
+      const response = await fetch(`/api/dashboard/export?format=${format}&${periodQuery}${realmQuery}`)
 
       if (!response.ok) {
         throw new Error('Export failed')
@@ -220,7 +560,9 @@ export default function Dashboard() {
       const url = window.URL.createObjectURL(blob)
       const a = document.createElement('a')
       a.href = url
-      a.download = `financial-report-${timeframe.toLowerCase()}.${format}`
+      a.download = generalData
+        ? `financial-report-${generalData.timeframe.from}-to-${generalData.timeframe.to}.${format}`
+        : `financial-report.${format}`
       document.body.appendChild(a)
       a.click()
       window.URL.revokeObjectURL(url)
@@ -243,6 +585,22 @@ export default function Dashboard() {
     return `${value.toFixed(1)}%`
   }
 
+  // Oldest sync among the loaded sections, as that is how current the page is
+  const getLastSynced = () => {
+    const times = [generalData?.syncedAt, monthlyData?.syncedAt]
+      .filter((value): value is string => !!value)
+      .map(value => new Date(value).getTime())
+    return times.length > 0 ? new Date(Math.min(...times)) : null
+  }
+
+  const formatSyncedAt = (date: Date) => {
+    const minutes = Math.floor((Date.now() - date.getTime()) / 60000)
+    if (minutes < 1) return 'just now'
+    if (minutes < 60) return `${minutes} min ago`
+    if (minutes < 24 * 60) return `${Math.floor(minutes / 60)} h ago`
+    return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })
+  }
+
   const handleSort = (field: 'name' | 'value' | 'percentage') => {
     if (sortField === field) {
       setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc')
@@ -310,6 +668,170 @@ export default function Dashboard() {
     return { change, hasData: true }
   }
 
+  // Widgets on the customizable grid; the rest of the dashboard keeps a fixed layout
+  const renderWidget = (widget: DashboardWidget) => {
+    if (!generalData) return null
+
+    switch (widget.type) {
+      case 'kpis':
+        return (
+          <KpiCards
+            kpis={generalData.kpiLibrary}
+            previous={previousData?.previousKpis || null}
+            selected={kpiCards}
+            onChange={handleKpiCardsChange}
+            comparisonLabel={getComparisonLabel()}
+          />
+        )
+      case 'revenueExpenses':
+        return (
+          <RevenueExpensesChart
+            data={monthlyData?.trendData || []}
+            loading={loadingMonthly}
+            interval={trendView.interval}
+            showPriorYear={trendView.priorYear}
+          />
+        )
+      case 'netProfitTrend':
+        return (
+          <NetProfitTrendChart
+            data={monthlyData?.trendData || []}
+            loading={loadingMonthly}
+            interval={trendView.interval}
+            showPriorYear={trendView.priorYear}
+          />
+        )
+      case 'expenseBreakdown':
+        return (
+          <ExpenseBreakdownChart
+            data={generalData.expenseBreakdown || []}
+            loading={loadingGeneral}
+            onSelect={openDrillDown}
+          />
+        )
+      case 'chart': {
+        const chart = widget.data?.chart as ChartSpec | undefined
+        return chart ? <AssistantChart chart={chart} /> : null
+      }
+      case 'expenseTable':
+        return (
+          <div className="bg-white dark:bg-[#2A2D31] border border-gray-200 dark:border-gray-800 rounded-lg p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-medium">Category Highlights</h3>
+              <div className="flex items-center space-x-2">
+                <button 
+                  onClick={() => handleExport('csv')}
+                  className="flex items-center space-x-1 text-sm text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 px-2 py-1 rounded hover:bg-gray-100 dark:hover:bg-gray-800"
+                >
+                  <Download className="w-4 h-4" />
+                  <span>CSV</span>
+                </button>
+                <button 
+                  onClick={() => handleExport('json')}
+                  className="flex items-center space-x-1 text-sm text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 px-2 py-1 rounded hover:bg-gray-100 dark:hover:bg-gray-800"
+                >
+                  <Download className="w-4 h-4" />
+                  <span>JSON</span>
+                </button>
+              </div>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-gray-200 dark:border-gray-700">
+                    <th 
+                      className="text-left py-3 px-4 cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
+                      onClick={() => handleSort('name')}
+                    >
+                      <div className="flex items-center space-x-1">
+                        <span className="text-sm font-medium text-gray-600 dark:text-gray-400">Category</span>
+                        <ArrowUpDown className="w-3 h-3" />
+                      </div>
+                    </th>
+                    <th 
+                      className="text-right py-3 px-4 cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
+                      onClick={() => handleSort('value')}
+                    >
+                      <div className="flex items-center justify-end space-x-1">
+                        <span className="text-sm font-medium text-gray-600 dark:text-gray-400">Amount</span>
+                        <ArrowUpDown className="w-3 h-3" />
+                      </div>
+                    </th>
+                    <th 
+                      className="text-right py-3 px-4 cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
+                      onClick={() => handleSort('percentage')}
+                    >
+                      <div className="flex items-center justify-end space-x-1">
+                        <span className="text-sm font-medium text-gray-600 dark:text-gray-400">% of Total</span>
+                        <ArrowUpDown className="w-3 h-3" />
+                      </div>
+                    </th>
+                    <th className="text-right py-3 px-4">
+                      <div className="flex items-center justify-end space-x-1">
+                        <span className="text-sm font-medium text-gray-600 dark:text-gray-400">Change vs</span>
+                        <select
+                          value={comparisonBasis}
+                          onChange={(e) => handleComparisonChange(e.target.value as ComparisonBasis)}
+                          disabled={loadingPrevious}
+                          className="bg-transparent text-sm font-medium text-gray-600 dark:text-gray-400 focus:outline-none disabled:opacity-50"
+                          aria-label="Comparison basis"
+                          title={previousData?.comparison?.from ? `${previousData.comparison.from} to ${previousData.comparison.to}` : undefined}
+                        >
+                          <option value="PREVIOUS_PERIOD" className="text-black">Previous Period</option>
+                          <option value="SAME_PERIOD_LAST_YEAR" className="text-black">Same Period Last Year</option>
+                        </select>
+                      </div>
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {getSortedExpenses().map((expense, index) => (
+                    <tr
+                      key={index}
+                      onClick={() => openDrillDown(expense)}
+                      className={`border-b border-gray-100 dark:border-gray-800 hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors ${expense.id ? 'cursor-pointer' : ''}`}
+                    >
+                      <td className="py-3 px-4">
+                        <span className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                          {expense.name}
+                        </span>
+                      </td>
+                      <td className="py-3 px-4 text-right">
+                        <span className="text-sm font-semibold text-gray-900 dark:text-gray-100">
+                          {formatCurrency(expense.value)}
+                        </span>
+                      </td>
+                      <td className="py-3 px-4 text-right">
+                        <span className="text-sm text-gray-600 dark:text-gray-400">
+                          {formatPercentage(expense.percentage)}
+                        </span>
+                      </td>
+                      <td className="py-3 px-4 text-right">
+                        {(() => {
+                          const { change, hasData } = getExpenseChange(expense.name)
+                          if (!hasData) {
+                            return (
+                              <div className="flex items-center justify-end space-x-1">
+                                <span className="text-sm text-gray-500 dark:text-gray-400">No data</span>
+                              </div>
+                            )
+                          }
+
+                          // For expenses: positive change (spending more) is bad (red), negative change (spending less) is good (green)
+                          return <ChangeIndicator change={change} label={getComparisonLabel()} />
+                        })()}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )
+    }
+  }
+
   if (status === 'loading') {
     return (
       <div className="mobile-viewport-height overflow-hidden bg-white text-black dark:bg-black dark:text-white flex items-center justify-center zoom-container">
@@ -363,6 +885,47 @@ export default function Dashboard() {
             </div>
             
             <div className="flex items-center gap-3">
+              <CompanySwitcher
+                companies={companies}
+                value={realmId}
+                onChange={handleCompanyChange}
+                disabled={loadingGeneral}
+              />
+
+              {companies.length > 1 && (
+                <button
+                  onClick={() => router.push('/consolidated')}
+                  className="p-2 rounded-md hover:bg-gray-100 dark:hover:bg-white/10 transition-colors"
+                  aria-label="Consolidated view"
+                >
+                  <Layers className="w-4 h-4" />
+                </button>
+              )}
+
+              <button
+                onClick={() => router.push(`/reports/profit-and-loss?${periodQuery}`)}
+                className="p-2 rounded-md hover:bg-gray-100 dark:hover:bg-white/10 transition-colors"
+                aria-label="Profit and loss statement"
+              >
+                <FileText className="w-4 h-4" />
+              </button>
+
+              <button
+                onClick={() => router.push('/budgets')}
+                className="p-2 rounded-md hover:bg-gray-100 dark:hover:bg-white/10 transition-colors"
+                aria-label="Budgets"
+              >
+                <PiggyBank className="w-4 h-4" />
+              </button>
+
+              <button
+                onClick={() => setAssistantOpen(true)}
+                className="p-2 rounded-md hover:bg-gray-100 dark:hover:bg-white/10 transition-colors"
+                aria-label="Financial assistant"
+              >
+                <MessageSquare className="w-4 h-4" />
+              </button>
+
               <button
                 onClick={handleRefresh}
                 disabled={refreshing}
@@ -373,6 +936,16 @@ export default function Dashboard() {
               </button>
               
               <ThemeToggle />
+
+              {session?.user?.isAdmin && (
+                <button
+                  onClick={() => router.push('/admin')}
+                  className="p-2 rounded-md hover:bg-gray-100 dark:hover:bg-white/10 transition-colors"
+                  aria-label="Admin"
+                >
+                  <Shield className="w-4 h-4" />
+                </button>
+              )}
               
               <button
                 onClick={() => router.push('/profile')}
@@ -442,7 +1015,7 @@ export default function Dashboard() {
           </div>
         ) : generalData ? (
           <div className="space-y-6">
-            {/* Timeframe Toggle */}
+            {/* Date Range */}
             <div className="flex items-center justify-between">
               <div className="flex items-center space-x-2">
                 <h2 className="text-lg font-medium">
@@ -451,212 +1024,168 @@ export default function Dashboard() {
                 <span className="text-sm text-gray-500 dark:text-gray-400">
                   {generalData.timeframe.from} to {generalData.timeframe.to}
                 </span>
+                {getLastSynced() && (
+                  <span
+                    className="text-xs text-gray-400 dark:text-gray-500"
+                    title={getLastSynced()?.toLocaleString()}
+                  >
+                    · Last synced {formatSyncedAt(getLastSynced() as Date)}
+                  </span>
+                )}
               </div>
               
-              <div className="flex items-center space-x-2">
-                <button
-                  onClick={() => setTimeframe('MONTH')}
-                  className={`px-3 py-1 text-xs rounded-md transition-colors ${
-                    timeframe === 'MONTH'
-                      ? 'bg-black text-white dark:bg-white dark:text-black'
-                      : 'bg-gray-100 text-gray-700 dark:bg-[#2A2D31] dark:text-gray-300'
-                  }`}
-                >
-                  MTD
-                </button>
-                <button
-                  onClick={() => setTimeframe('YEAR')}
-                  className={`px-3 py-1 text-xs rounded-md transition-colors ${
-                    timeframe === 'YEAR'
-                      ? 'bg-black text-white dark:bg-white dark:text-black'
-                      : 'bg-gray-100 text-gray-700 dark:bg-[#2A2D31] dark:text-gray-300'
-                  }`}
-                >
-                  YTD
-                </button>
-              </div>
+              <DateRangePicker value={period} onChange={setPeriod} disabled={loadingGeneral} />
             </div>
 
-            {/* KPI Cards */}
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-              <div className="bg-white dark:bg-[#2A2D31] border border-gray-200 dark:border-gray-800 rounded-lg p-4">
-                <div className="flex items-center justify-between">
-                  <div>
-                    <p className="text-sm text-gray-600 dark:text-gray-400">Revenue</p>
-                    <p className="text-2xl font-semibold">{formatCurrency(generalData.kpis.revenue)}</p>
-                  </div>
-                  <DollarSign className="w-8 h-8 text-green-600" />
-                </div>
-              </div>
+            {/* Customizable grid: KPI cards, trend charts, expense breakdown, table and pinned assistant charts */}
+            <DashboardGrid
+              key={layoutVersion}
+              renderWidget={renderWidget}
+              toolbar={
+                <TrendControls value={trendView} onChange={handleTrendViewChange} disabled={loadingMonthly} showForecast />
+              }
+            />
 
-              <div className="bg-white dark:bg-[#2A2D31] border border-gray-200 dark:border-gray-800 rounded-lg p-4">
-                <div className="flex items-center justify-between">
-                  <div>
-                    <p className="text-sm text-gray-600 dark:text-gray-400">Expenses</p>
-                    <p className="text-2xl font-semibold">{formatCurrency(generalData.kpis.expenses)}</p>
-                  </div>
-                  <TrendingDown className="w-8 h-8 text-red-600" />
-                </div>
-              </div>
+            {/* Payables next to the cash balance: is what falls due covered? */}
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              <UpcomingBillsCalendar
+                data={payablesData?.upcomingBills || null}
+                cashBalance={generalData.kpis.cashBalance}
+                loading={loadingPayables}
+              />
+              <AgingPanel
+                title="Accounts Payable"
+                partyLabel="Vendor"
+                data={payablesData}
+                topParties={payablesData?.topVendors || []}
+                topTitle="Top vendors owed"
+                loading={loadingPayables}
+                daysMetric={{
+                  label: 'DPO',
+                  value: payablesData?.dpo ?? null,
+                  hint: `Days payable outstanding: payables over expenses for the ${payablesData?.days ?? 0} days to ${payablesData?.asOf ?? ''}`,
+                }}
+                onSelectParty={openPartyItems('payables')}
+              />
+            </div>
 
-              <div className="bg-white dark:bg-[#2A2D31] border border-gray-200 dark:border-gray-800 rounded-lg p-4">
-                <div className="flex items-center justify-between">
-                  <div>
-                    <p className="text-sm text-gray-600 dark:text-gray-400">Net Profit</p>
-                    <p className="text-2xl font-semibold">{formatCurrency(generalData.kpis.netProfit)}</p>
-                  </div>
-                  <TrendingUp className="w-8 h-8 text-blue-600" />
-                </div>
-              </div>
+            {/* 13-week cash forecast and runway */}
+            <CashForecastChart data={cashForecastData} loading={loadingCashForecast} />
 
+            {/* Projected Year-End Net Profit */}
+            {monthlyData?.forecast && (
               <div className="bg-white dark:bg-[#2A2D31] border border-gray-200 dark:border-gray-800 rounded-lg p-4">
                 <div className="flex items-center justify-between">
                   <div>
-                    <p className="text-sm text-gray-600 dark:text-gray-400">Cash Balance</p>
-                    <p className="text-2xl font-semibold">{formatCurrency(generalData.kpis.cashBalance)}</p>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">Projected Year-End Net Profit</p>
+                    <p className={`text-2xl font-semibold ${monthlyData.forecast.yearEnd.netProfit < 0 ? 'text-red-600' : ''}`}>
+                      {formatCurrency(monthlyData.forecast.yearEnd.netProfit)}
+                    </p>
+                    <p className="text-xs text-gray-600 dark:text-gray-400">
+                      Fiscal year to {monthlyData.forecast.yearEnd.fiscalYear.to} · 80% range {formatCurrency(monthlyData.forecast.yearEnd.netProfitBand[0])} to {formatCurrency(monthlyData.forecast.yearEnd.netProfitBand[1])}
+                    </p>
                   </div>
-                  <Wallet className="w-8 h-8 text-purple-600" />
+                  <Target className="w-8 h-8 text-violet-600" />
                 </div>
               </div>
-            </div>
+            )}
 
-            {/* Net Margin */}
+            {/* Net Change in Cash */}
             <div className="bg-white dark:bg-[#2A2D31] border border-gray-200 dark:border-gray-800 rounded-lg p-4">
               <div className="flex items-center justify-between">
                 <div>
-                  <p className="text-sm text-gray-600 dark:text-gray-400">Net Margin</p>
-                  <p className="text-2xl font-semibold">{formatPercentage(generalData.kpis.netMargin)}</p>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">Net Change in Cash</p>
+                  {cashFlowData ? (
+                    <>
+                      <p className={`text-2xl font-semibold ${cashFlowData.summary.netChange < 0 ? 'text-red-600' : ''}`}>
+                        {formatCurrency(cashFlowData.summary.netChange)}
+                      </p>
+                      <p className="text-xs text-gray-600 dark:text-gray-400">
+                        Operating {formatCurrency(cashFlowData.summary.operating)} · Investing {formatCurrency(cashFlowData.summary.investing)} · Financing {formatCurrency(cashFlowData.summary.financing)}
+                      </p>
+                    </>
+                  ) : (
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      {loadingCashFlow ? 'Loading cash flow…' : 'Cash flow unavailable'}
+                    </p>
+                  )}
                 </div>
-                <BarChart3 className="w-8 h-8 text-indigo-600" />
+                <ArrowRightLeft className="w-8 h-8 text-teal-600" />
               </div>
             </div>
 
-            {/* Revenue vs Expenses Trend Chart */}
-            <RevenueExpensesChart data={monthlyData?.trendData || []} loading={loadingMonthly} />
+            {/* Custom metrics marked for the trend chart */}
+            {monthlyData?.metrics?.length ? (
+              <CustomMetricsChart
+                data={monthlyData.trendData}
+                metrics={monthlyData.metrics}
+                loading={loadingMonthly}
+                interval={trendView.interval}
+              />
+            ) : null}
 
-            {/* Net Profit Trend Chart */}
-            <NetProfitTrendChart data={monthlyData?.trendData || []} loading={loadingMonthly} />
+            {/* Cash Flow Chart */}
+            <CashFlowChart
+              data={cashFlowData?.trendData || []}
+              loading={loadingCashFlow}
+              interval={trendView.interval}
+            />
 
-            {/* Expense Breakdown Chart */}
-            <ExpenseBreakdownChart data={generalData?.expenseBreakdown || []} loading={loadingGeneral} />
+            {/* Accounts Receivable Aging */}
+            <AgingPanel
+              title="Accounts Receivable"
+              partyLabel="Customer"
+              data={receivablesData}
+              topParties={receivablesData?.topOverdue || []}
+              topTitle="Top overdue customers"
+              loading={loadingReceivables}
+              daysMetric={{
+                label: 'DSO',
+                value: receivablesData?.dso ?? null,
+                hint: `Days sales outstanding: receivables over revenue for the ${receivablesData?.days ?? 0} days to ${receivablesData?.asOf ?? ''}`,
+              }}
+              onSelectParty={openPartyItems('receivables')}
+            />
 
-            {/* Category Highlights Table */}
-            <div className="bg-white dark:bg-[#2A2D31] border border-gray-200 dark:border-gray-800 rounded-lg p-6">
-              <div className="flex items-center justify-between mb-4">
-                <h3 className="text-lg font-medium">Category Highlights</h3>
-                <div className="flex items-center space-x-2">
-                  <button 
-                    onClick={() => handleExport('csv')}
-                    className="flex items-center space-x-1 text-sm text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 px-2 py-1 rounded hover:bg-gray-100 dark:hover:bg-gray-800"
-                  >
-                    <Download className="w-4 h-4" />
-                    <span>CSV</span>
-                  </button>
-                  <button 
-                    onClick={() => handleExport('json')}
-                    className="flex items-center space-x-1 text-sm text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 px-2 py-1 rounded hover:bg-gray-100 dark:hover:bg-gray-800"
-                  >
-                    <Download className="w-4 h-4" />
-                    <span>JSON</span>
-                  </button>
-                </div>
-              </div>
-              
-              <div className="overflow-x-auto">
-                <table className="w-full">
-                  <thead>
-                    <tr className="border-b border-gray-200 dark:border-gray-700">
-                      <th 
-                        className="text-left py-3 px-4 cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
-                        onClick={() => handleSort('name')}
-                      >
-                        <div className="flex items-center space-x-1">
-                          <span className="text-sm font-medium text-gray-600 dark:text-gray-400">Category</span>
-                          <ArrowUpDown className="w-3 h-3" />
-                        </div>
-                      </th>
-                      <th 
-                        className="text-right py-3 px-4 cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
-                        onClick={() => handleSort('value')}
-                      >
-                        <div className="flex items-center justify-end space-x-1">
-                          <span className="text-sm font-medium text-gray-600 dark:text-gray-400">Amount</span>
-                          <ArrowUpDown className="w-3 h-3" />
-                        </div>
-                      </th>
-                      <th 
-                        className="text-right py-3 px-4 cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
-                        onClick={() => handleSort('percentage')}
-                      >
-                        <div className="flex items-center justify-end space-x-1">
-                          <span className="text-sm font-medium text-gray-600 dark:text-gray-400">% of Total</span>
-                          <ArrowUpDown className="w-3 h-3" />
-                        </div>
-                      </th>
-                      <th className="text-right py-3 px-4">
-                        <span className="text-sm font-medium text-gray-600 dark:text-gray-400">Change vs Last Period</span>
-                      </th>
-                    </tr>
-                  </thead>
-                  <tbody>
-                    {getSortedExpenses().map((expense, index) => (
-                      <tr key={index} className="border-b border-gray-100 dark:border-gray-800 hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors">
-                        <td className="py-3 px-4">
-                          <span className="text-sm font-medium text-gray-900 dark:text-gray-100">
-                            {expense.name}
-                          </span>
-                        </td>
-                        <td className="py-3 px-4 text-right">
-                          <span className="text-sm font-semibold text-gray-900 dark:text-gray-100">
-                            {formatCurrency(expense.value)}
-                          </span>
-                        </td>
-                        <td className="py-3 px-4 text-right">
-                          <span className="text-sm text-gray-600 dark:text-gray-400">
-                            {formatPercentage(expense.percentage)}
-                          </span>
-                        </td>
-                        <td className="py-3 px-4 text-right">
-                          {(() => {
-                            const { change, hasData } = getExpenseChange(expense.name)
-                            if (!hasData) {
-                              return (
-                                <div className="flex items-center justify-end space-x-1">
-                                  <span className="text-sm text-gray-500 dark:text-gray-400">No data</span>
-                                </div>
-                              )
-                            }
-                            
-                            const isPositive = change > 0
-                            const isNegative = change < 0
-                            // For expenses: positive change (spending more) is bad (red), negative change (spending less) is good (green)
-                            const colorClass = isPositive ? 'text-red-600' : isNegative ? 'text-green-600' : 'text-gray-600'
-                            
-                            return (
-                              <div className="flex items-center justify-end space-x-1">
-                                {isPositive && <ArrowUp className={`w-3 h-3 ${colorClass}`} />}
-                                {isNegative && <ArrowDown className={`w-3 h-3 ${colorClass}`} />}
-                                <span className={`text-sm font-medium ${colorClass}`}>
-                                  {isPositive ? '+' : ''}{change.toFixed(1)}%
-                                </span>
-                                <span className="text-xs text-gray-500 dark:text-gray-400">
-                                  vs last {generalData.timeframe.type === 'YEAR' ? 'year' : 'month'}
-                                </span>
-                              </div>
-                            )
-                          })()}
-                        </td>
-                      </tr>
-                    ))}
-                  </tbody>
-                </table>
-              </div>
-            </div>
+            {/* Budget vs Actual */}
+            <BudgetVsActualPanel
+              data={budgetData}
+              loading={loadingBudget}
+              onSelectBudget={(budgetId) => fetchBudgetData(budgetId)}
+            />
           </div>
         ) : null}
         </div>
       </main>
+
+      {drillDown && (
+        <TransactionDrillDown
+          account={drillDown}
+          periodQuery={periodQuery}
+          realmId={realmId}
+          comparisonBasis={comparisonBasis}
+          onClose={() => setDrillDown(null)}
+        />
+      )}
+
+      {openItems && (
+        <OpenItemsDrillDown
+          kind={openItems.kind}
+          party={openItems.party}
+          periodQuery={periodQuery}
+          realmId={realmId}
+          onClose={() => setOpenItems(null)}
+        />
+      )}
+
+      {assistantOpen && (
+        <AssistantPanel
+          periodQuery={periodQuery}
+          realmId={realmId}
+          onClose={() => setAssistantOpen(false)}
+          onPinned={() => setLayoutVersion(version => version + 1)}
+        />
+      )}
     </div>
   )
 }
-
@@ -5,6 +5,7 @@ import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import ProfileTab from '../components/ProfileTab';
 import QBOIntegrationTab from '../components/QBOIntegrationTab';
+import CustomMetricsTab from '../components/CustomMetricsTab';
 
 export default function ProfilePage() {
   const { data: session, status } = useSession();
@@ -33,6 +34,7 @@ export default function ProfilePage() {
   const tabs = [
     { id: 'profile', label: 'Profile' },
     { id: 'qbo', label: 'QBO Integration' },
+    { id: 'metrics', label: 'Custom Metrics' },
   ];
 
   const renderTabContent = () => {
@@ -41,6 +43,8 @@ export default function ProfilePage() {
         return <ProfileTab />;
       case 'qbo':
         return <QBOIntegrationTab />;
+      case 'metrics':
+        return <CustomMetricsTab />;
       default:
         return <ProfileTab />;
     }
@@ -59,7 +63,7 @@ export default function ProfilePage() {
           </button>
           <h1 className="text-xl sm:text-2xl font-bold text-black dark:text-white">Profile Settings</h1>
           <p className="text-sm sm:text-base text-black dark:text-white opacity-70 mt-2">
-            Manage your profile and QuickBooks Online integration settings
+            Manage your profile, QuickBooks Online integration and custom metrics
           </p>
         </div>
 
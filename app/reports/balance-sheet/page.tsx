@@ -0,0 +1,226 @@
+'use client'
+
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import { useState, useEffect } from 'react'
+import { RefreshCw, CheckCircle2, AlertTriangle } from 'lucide-react'
+import ThemeToggle from '../../components/ThemeToggle'
+import StatementTable, { StatementLine, StatementColumn } from '../../components/StatementTable'
+
+const REALM_STORAGE_KEY = 'qbo-realm'
+
+interface BalanceCheck {
+  key: string
+  label: string
+  date: string
+  totalAssets: number
+  totalLiabilitiesAndEquity: number
+  difference: number
+  balanced: boolean
+}
+
+interface BalanceSheetReport {
+  organisation: {
+    name: string
+    realmId: string
+  }
+  statement: {
+    columns: StatementColumn[]
+    lines: StatementLine[]
+  }
+  checks: BalanceCheck[]
+  basis: string | null
+  asOf: string
+  syncedAt: string | null
+}
+
+// Today in local time, as expected by the date input
+const today = () => {
+  const now = new Date()
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`
+}
+
+export default function BalanceSheetReportPage() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [asOf, setAsOf] = useState(today)
+  const [report, setReport] = useState<BalanceSheetReport | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (status === 'authenticated' && asOf) {
+      fetchReport()
+    }
+  }, [status, asOf])
+
+  const fetchReport = async (refresh = false) => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const realmId = window.localStorage.getItem(REALM_STORAGE_KEY)
+      const realmQuery = realmId ? `&realmId=${encodeURIComponent(realmId)}` : ''
+      const response = await fetch(`/api/reports/balance-sheet?asOf=${asOf}${realmQuery}${refresh ? '&refresh=1' : ''}`)
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to fetch balance sheet')
+      }
+
+      setReport(await response.json())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    }).format(amount)
+  }
+
+  if (status === 'loading') {
+    return (
+      <div className="mobile-viewport-height overflow-hidden bg-white text-black dark:bg-black dark:text-white flex items-center justify-center zoom-container">
+        <div className="text-sm text-gray-600 dark:text-gray-400">Loading…</div>
+      </div>
+    )
+  }
+
+  if (!session) {
+    return (
+      <div className="mobile-viewport-height overflow-hidden bg-white text-black dark:bg-black dark:text-white flex items-center justify-center zoom-container">
+        <div className="text-center space-y-4">
+          <div className="text-sm text-gray-600 dark:text-gray-400">You are not signed in.</div>
+          <button
+            onClick={() => router.push('/login')}
+            className="inline-block h-9 px-4 rounded-md bg-black text-white dark:bg-white dark:text-black hover:opacity-90 transition-opacity"
+          >
+            Go to login
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  const unbalanced = report?.checks.filter(check => !check.balanced) || []
+
+  return (
+    <div className="mobile-viewport-height overflow-hidden bg-white text-black dark:bg-black dark:text-white flex flex-col zoom-container">
+      {/* Header */}
+      <header className="sticky top-0 z-10 border-b border-gray-200 dark:border-gray-800 bg-white/70 dark:bg-black/60 backdrop-blur">
+        <div className="max-w-7xl mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <button
+                onClick={() => router.push('/')}
+                className="text-sm text-black dark:text-white opacity-70 hover:opacity-100 transition-opacity"
+              >
+                ← Back
+              </button>
+              <h1 className="text-[20px] leading-none font-semibold tracking-tight">| Balance Sheet</h1>
+            </div>
+
+            <div className="flex items-center gap-3">
+              <button
+                onClick={() => router.push('/reports/profit-and-loss')}
+                className="text-sm text-black dark:text-white opacity-70 hover:opacity-100 transition-opacity"
+              >
+                Profit &amp; Loss
+              </button>
+
+              <button
+                onClick={() => fetchReport(true)}
+                disabled={loading}
+                className="p-2 rounded-md hover:bg-gray-100 dark:hover:bg-white/10 transition-colors disabled:opacity-50"
+                aria-label="Refresh data"
+              >
+                <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+              </button>
+
+              <ThemeToggle />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="flex-1 overflow-y-auto min-h-0 main-content">
+        <div className="max-w-7xl mx-auto px-4 py-6 space-y-6">
+        {error && (
+          <div className="p-4 rounded-md bg-red-50 dark:bg-[#2A2D31] border border-red-200 dark:border-red-800">
+            <div className="text-sm text-red-800 dark:text-red-200">
+              <p>{error}</p>
+            </div>
+          </div>
+        )}
+
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          {report ? (
+            <div className="flex flex-wrap items-center gap-2">
+              <h2 className="text-lg font-medium">{report.organisation.name}</h2>
+              <span className="text-sm text-gray-500 dark:text-gray-400">
+                As of {report.asOf}
+                {report.basis ? ` · ${report.basis} basis` : ''}
+              </span>
+              {report.syncedAt && (
+                <span className="text-xs text-gray-400 dark:text-gray-500">
+                  · Last synced {new Date(report.syncedAt).toLocaleString()}
+                </span>
+              )}
+            </div>
+          ) : <div />}
+
+          <label className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
+            As of
+            <input
+              type="date"
+              value={asOf}
+              onChange={(e) => setAsOf(e.target.value)}
+              disabled={loading}
+              className="h-7 px-2 text-xs rounded-md bg-white dark:bg-[#2A2D31] text-black dark:text-white border border-gray-200 dark:border-gray-700 focus:outline-none disabled:opacity-50"
+            />
+          </label>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="text-sm text-gray-600 dark:text-gray-400">Loading balance sheet…</div>
+          </div>
+        ) : report ? (
+          <>
+            {/* Assets = Liabilities + Equity */}
+            {unbalanced.length === 0 ? (
+              <div className="flex items-center gap-2 p-4 rounded-md bg-green-50 dark:bg-[#2A2D31] border border-green-200 dark:border-green-800 text-sm text-green-800 dark:text-green-200">
+                <CheckCircle2 className="w-4 h-4" />
+                <span>Assets equal liabilities plus equity on every date shown.</span>
+              </div>
+            ) : (
+              <div className="p-4 rounded-md bg-red-50 dark:bg-[#2A2D31] border border-red-200 dark:border-red-800 text-sm text-red-800 dark:text-red-200">
+                <div className="flex items-center gap-2 font-medium">
+                  <AlertTriangle className="w-4 h-4" />
+                  <span>The balance sheet does not balance</span>
+                </div>
+                <ul className="mt-2 space-y-1">
+                  {unbalanced.map((check) => (
+                    <li key={check.key}>
+                      {check.label} ({check.date}): assets {formatCurrency(check.totalAssets)} vs liabilities and equity {formatCurrency(check.totalLiabilitiesAndEquity)}, a difference of {formatCurrency(check.difference)}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <StatementTable columns={report.statement.columns} lines={report.statement.lines} />
+          </>
+        ) : null}
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,233 @@
+'use client'
+
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import { useState, useEffect } from 'react'
+import { RefreshCw } from 'lucide-react'
+import ThemeToggle from '../../components/ThemeToggle'
+import StatementTable, { StatementLine, StatementColumn } from '../../components/StatementTable'
+import DateRangePicker, { DateRangeValue, dateRangeQuery } from '../../components/DateRangePicker'
+import TransactionDrillDown, { DrillDownAccount } from '../../components/TransactionDrillDown'
+
+const REALM_STORAGE_KEY = 'qbo-realm'
+
+interface ProfitLossReport {
+  organisation: {
+    name: string
+    realmId: string
+  }
+  statement: {
+    columns: StatementColumn[]
+    lines: StatementLine[]
+  }
+  summary: {
+    revenue: number
+    grossProfit: number
+    netOperatingIncome: number
+    netProfit: number
+  }
+  basis: string | null
+  timeframe: {
+    from: string
+    to: string
+    type: string
+  }
+  syncedAt: string | null
+}
+
+// The dashboard links here with its current date range in the query string
+const initialPeriod = (): DateRangeValue => {
+  if (typeof window === 'undefined') return { timeframe: 'YEAR' }
+  const params = new URLSearchParams(window.location.search)
+  return {
+    timeframe: params.get('timeframe') || 'YEAR',
+    fromDate: params.get('fromDate') || undefined,
+    toDate: params.get('toDate') || undefined,
+  }
+}
+
+export default function ProfitAndLossReport() {
+  const { data: session, status } = useSession()
+  const router = useRouter()
+  const [period, setPeriod] = useState<DateRangeValue>(initialPeriod)
+  const [report, setReport] = useState<ProfitLossReport | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [drillDown, setDrillDown] = useState<DrillDownAccount | null>(null)
+
+  useEffect(() => {
+    if (status === 'authenticated') {
+      fetchReport()
+    }
+  }, [status, period])
+
+  const fetchReport = async (refresh = false) => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const realmId = window.localStorage.getItem(REALM_STORAGE_KEY)
+      const realmQuery = realmId ? `&realmId=${encodeURIComponent(realmId)}` : ''
+      const response = await fetch(`/api/reports/profit-and-loss?${dateRangeQuery(period)}${realmQuery}${refresh ? '&refresh=1' : ''}`)
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to fetch profit and loss report')
+      }
+
+      setReport(await response.json())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: 'USD',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(amount)
+  }
+
+  if (status === 'loading') {
+    return (
+      <div className="mobile-viewport-height overflow-hidden bg-white text-black dark:bg-black dark:text-white flex items-center justify-center zoom-container">
+        <div className="text-sm text-gray-600 dark:text-gray-400">Loading…</div>
+      </div>
+    )
+  }
+
+  if (!session) {
+    return (
+      <div className="mobile-viewport-height overflow-hidden bg-white text-black dark:bg-black dark:text-white flex items-center justify-center zoom-container">
+        <div className="text-center space-y-4">
+          <div className="text-sm text-gray-600 dark:text-gray-400">You are not signed in.</div>
+          <button
+            onClick={() => router.push('/login')}
+            className="inline-block h-9 px-4 rounded-md bg-black text-white dark:bg-white dark:text-black hover:opacity-90 transition-opacity"
+          >
+            Go to login
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="mobile-viewport-height overflow-hidden bg-white text-black dark:bg-black dark:text-white flex flex-col zoom-container">
+      {/* Header */}
+      <header className="sticky top-0 z-10 border-b border-gray-200 dark:border-gray-800 bg-white/70 dark:bg-black/60 backdrop-blur">
+        <div className="max-w-7xl mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-3">
+              <button
+                onClick={() => router.push('/')}
+                className="text-sm text-black dark:text-white opacity-70 hover:opacity-100 transition-opacity"
+              >
+                ← Back
+              </button>
+              <h1 className="text-[20px] leading-none font-semibold tracking-tight">| Profit &amp; Loss</h1>
+            </div>
+
+            <div className="flex items-center gap-3">
+              <button
+                onClick={() => router.push('/reports/balance-sheet')}
+                className="text-sm text-black dark:text-white opacity-70 hover:opacity-100 transition-opacity"
+              >
+                Balance Sheet
+              </button>
+
+              <button
+                onClick={() => fetchReport(true)}
+                disabled={loading}
+                className="p-2 rounded-md hover:bg-gray-100 dark:hover:bg-white/10 transition-colors disabled:opacity-50"
+                aria-label="Refresh data"
+              >
+                <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+              </button>
+
+              <ThemeToggle />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="flex-1 overflow-y-auto min-h-0 main-content">
+        <div className="max-w-7xl mx-auto px-4 py-6 space-y-6">
+        {error && (
+          <div className="p-4 rounded-md bg-red-50 dark:bg-[#2A2D31] border border-red-200 dark:border-red-800">
+            <div className="text-sm text-red-800 dark:text-red-200">
+              <p>{error}</p>
+            </div>
+          </div>
+        )}
+
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          {report ? (
+            <div className="flex flex-wrap items-center gap-2">
+              <h2 className="text-lg font-medium">{report.organisation.name}</h2>
+              <span className="text-sm text-gray-500 dark:text-gray-400">
+                {report.timeframe.from} to {report.timeframe.to}
+                {report.basis ? ` · ${report.basis} basis` : ''}
+              </span>
+              {report.syncedAt && (
+                <span className="text-xs text-gray-400 dark:text-gray-500">
+                  · Last synced {new Date(report.syncedAt).toLocaleString()}
+                </span>
+              )}
+            </div>
+          ) : <div />}
+
+          <DateRangePicker value={period} onChange={setPeriod} disabled={loading} />
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="text-sm text-gray-600 dark:text-gray-400">Loading profit and loss…</div>
+          </div>
+        ) : report ? (
+          <>
+            {/* Headline figures */}
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+              {[
+                { label: 'Income', value: report.summary.revenue },
+                { label: 'Gross Profit', value: report.summary.grossProfit },
+                { label: 'Net Operating Income', value: report.summary.netOperatingIncome },
+                { label: 'Net Income', value: report.summary.netProfit },
+              ].map((item) => (
+                <div
+                  key={item.label}
+                  className="bg-white dark:bg-[#2A2D31] border border-gray-200 dark:border-gray-800 rounded-lg p-4"
+                >
+                  <p className="text-sm text-gray-600 dark:text-gray-400">{item.label}</p>
+                  <p className={`text-2xl font-semibold ${item.value < 0 ? 'text-red-600' : ''}`}>
+                    {formatCurrency(item.value)}
+                  </p>
+                </div>
+              ))}
+            </div>
+
+            <StatementTable
+              columns={report.statement.columns}
+              lines={report.statement.lines}
+              onAccountClick={(line) => setDrillDown({ id: line.accountId as string, name: line.label })}
+            />
+          </>
+        ) : null}
+        </div>
+      </main>
+
+      {drillDown && report && (
+        <TransactionDrillDown
+          account={drillDown}
+          periodQuery={dateRangeQuery(period)}
+          realmId={report.organisation.realmId}
+          onClose={() => setDrillDown(null)}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,206 @@
+/* Admin console: system prompt, assistant tools and user permissions */
+// Only users with isAdmin reach these functions (checked by getAdmin in every
+// /api/admin route); editing the system prompt also needs canModifySystemPrompt.
+// Each change is written to the AuditLog in the same transaction as the change
+// itself, with the changed fields before and after.
+import { Prisma } from '@prisma/client';
+import { prisma } from './db';
+import { getSystemSettings } from './assistant/chat';
+import { syncTools } from './assistant/tools';
+
+export const PERMISSIONS = ['isAdmin', 'canModifySystemPrompt', 'canCreateUsers'] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+export type AdminUser = {
+  id: string;
+  email: string;
+  name: string | null;
+  createdAt: string;
+} & Record<Permission, boolean>;
+
+export type AuditEntry = {
+  id: string;
+  actorEmail: string;
+  action: string;
+  targetType: string;
+  targetId: string;
+  before: Prisma.JsonValue | null;
+  after: Prisma.JsonValue | null;
+  createdAt: string;
+};
+
+// Who makes a change, as recorded in updatedBy columns and the audit log
+export type Actor = {
+  id: string;
+  email: string;
+};
+
+// A change the console refuses, e.g. demoting the last admin; routes answer 400
+export class AdminError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AdminError';
+  }
+}
+
+const MAX_PROMPT_LENGTH = 20000;
+const AUDIT_LOG_LIMIT = 200;
+
+const USER_FIELDS = {
+  id: true,
+  email: true,
+  name: true,
+  createdAt: true,
+  isAdmin: true,
+  canModifySystemPrompt: true,
+  canCreateUsers: true,
+} as const;
+
+const toAdminUser = (user: Prisma.UserGetPayload<{ select: typeof USER_FIELDS }>): AdminUser => ({
+  ...user,
+  createdAt: user.createdAt.toISOString(),
+});
+
+// The signed-in user when they are an admin, read from the database rather than
+// the session token so that revoking isAdmin takes effect at once
+export async function getAdmin(userId: string): Promise<AdminUser | null> {
+  const user = await prisma.user.findFirst({ where: { id: userId, isAdmin: true }, select: USER_FIELDS });
+  return user ? toAdminUser(user) : null;
+}
+
+function audit(
+  tx: Prisma.TransactionClient,
+  actor: Actor,
+  entry: { action: string; targetType: string; targetId: string; before: Prisma.InputJsonObject; after: Prisma.InputJsonObject }
+) {
+  return tx.auditLog.create({ data: { actorId: actor.id, actorEmail: actor.email, ...entry } });
+}
+
+export function parseSystemPrompt(body: unknown): { systemPrompt: string } | { error: string } {
+  const input = (body || {}) as { systemPrompt?: unknown };
+  const systemPrompt = typeof input.systemPrompt === 'string' ? input.systemPrompt.trim() : '';
+
+  if (!systemPrompt) return { error: 'The system prompt cannot be empty' };
+  if (systemPrompt.length > MAX_PROMPT_LENGTH) return { error: `The system prompt is limited to ${MAX_PROMPT_LENGTH} characters` };
+  return { systemPrompt };
+}
+
+export function parseToolUpdate(body: unknown): { enabled: boolean } | { error: string } {
+  const input = (body || {}) as { enabled?: unknown };
+  return typeof input.enabled === 'boolean' ? { enabled: input.enabled } : { error: 'enabled must be true or false' };
+}
+
+// Any of the permission flags; flags left out are not changed
+export function parsePermissionUpdate(body: unknown): { permissions: Partial<Record<Permission, boolean>> } | { error: string } {
+  const input = (body || {}) as Record<string, unknown>;
+  const permissions: Partial<Record<Permission, boolean>> = {};
+
+  for (const permission of PERMISSIONS) {
+    if (input[permission] === undefined) continue;
+    if (typeof input[permission] !== 'boolean') return { error: `${permission} must be true or false` };
+    permissions[permission] = input[permission] as boolean;
+  }
+
+  if (Object.keys(permissions).length === 0) {
+    return { error: `Give at least one of ${PERMISSIONS.join(', ')}` };
+  }
+  return { permissions };
+}
+
+export async function updateSystemPrompt(actor: Actor, systemPrompt: string) {
+  const current = await getSystemSettings();
+  if (current.systemPrompt === systemPrompt) return current;
+
+  return prisma.$transaction(async tx => {
+    const settings = await tx.systemSettings.update({
+      where: { id: current.id },
+      data: { systemPrompt, updatedBy: actor.email },
+    });
+    await audit(tx, actor, {
+      action: 'systemPrompt.update',
+      targetType: 'SystemSettings',
+      targetId: current.id,
+      before: { systemPrompt: current.systemPrompt },
+      after: { systemPrompt },
+    });
+    return settings;
+  });
+}
+
+// Every assistant tool, including ones without a row yet
+export const listTools = () => syncTools();
+
+// Null when there is no such tool
+export async function setToolEnabled(actor: Actor, id: string, enabled: boolean) {
+  const current = await prisma.tool.findUnique({ where: { id } });
+  if (!current) return null;
+  if (current.enabled === enabled) return current;
+
+  return prisma.$transaction(async tx => {
+    const tool = await tx.tool.update({ where: { id }, data: { enabled, updatedBy: actor.email } });
+    await audit(tx, actor, {
+      action: 'tool.update',
+      targetType: 'Tool',
+      targetId: id,
+      before: { name: current.name, enabled: current.enabled },
+      after: { name: current.name, enabled },
+    });
+    return tool;
+  });
+}
+
+export async function listUsers(): Promise<AdminUser[]> {
+  const users = await prisma.user.findMany({ orderBy: { email: 'asc' }, select: USER_FIELDS });
+  return users.map(toAdminUser);
+}
+
+// Null when there is no such user; only the flags that change are audited.
+// Demoting runs serializably with the admin count, so two admins demoting each
+// other at once cannot leave the console without an admin.
+export async function updateUserPermissions(
+  actor: Actor,
+  id: string,
+  permissions: Partial<Record<Permission, boolean>>
+): Promise<AdminUser | null> {
+  const current = await prisma.user.findUnique({ where: { id }, select: USER_FIELDS });
+  if (!current) return null;
+
+  const changed = PERMISSIONS.filter(permission => permissions[permission] !== undefined && permissions[permission] !== current[permission]);
+  if (changed.length === 0) return toAdminUser(current);
+
+  const before = Object.fromEntries(changed.map(permission => [permission, current[permission]]));
+  const after = Object.fromEntries(changed.map(permission => [permission, permissions[permission] as boolean]));
+
+  const user = await prisma.$transaction(async tx => {
+    const updated = await tx.user.update({ where: { id }, data: after, select: USER_FIELDS });
+    if (after.isAdmin === false && (await tx.user.count({ where: { isAdmin: true } })) === 0) {
+      throw new AdminError('At least one admin must remain');
+    }
+    await audit(tx, actor, {
+      action: 'user.permissions',
+      targetType: 'User',
+      targetId: id,
+      before: { email: current.email, ...before },
+      after: { email: current.email, ...after },
+    });
+    return updated;
+  }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable });
+
+  return toAdminUser(user);
+}
+
+export async function listAuditLog(): Promise<AuditEntry[]> {
+  const entries = await prisma.auditLog.findMany({ orderBy: { createdAt: 'desc' }, take: AUDIT_LOG_LIMIT });
+
+  return entries.map(entry => ({
+    id: entry.id,
+    actorEmail: entry.actorEmail,
+    action: entry.action,
+    targetType: entry.targetType,
+    targetId: entry.targetId,
+    before: entry.before,
+    after: entry.after,
+    createdAt: entry.createdAt.toISOString(),
+  }));
+}
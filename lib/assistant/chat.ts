@@ -0,0 +1,319 @@
+/* Assistant conversations: the tool-calling loop and its Message rows */
+// A turn stores the question, then every model response and tool result in
+// order, so the conversation can be replayed to the model on the next turn:
+//   user       content = the question
+//   assistant  parts = text and tool_call parts (one row per model response)
+//   tool       parts = tool_result parts, answering the previous row's calls
+// The final assistant row also carries the charts the tools produced, which is
+// what the chat panel shows and what can be pinned to the dashboard.
+import { Prisma } from '@prisma/client';
+import { prisma } from '../db';
+import { QboClient } from '../qbo';
+import { DateRange } from '../qbo/periods';
+import { appendWidget, DashboardWidget } from '../widgets';
+import { ModelMessage, ModelProvider, ToolCall, ToolResult } from './providers';
+import { AssistantTool, ChartSpec } from './tools';
+
+export type MessagePart =
+  | { type: 'text'; text: string }
+  | { type: 'tool_call'; id: string; name: string; input: Record<string, unknown> }
+  | { type: 'tool_result'; toolCallId: string; name: string; content: string; isError?: boolean }
+  | { type: 'chart'; chart: ChartSpec };
+
+type NewMessage = {
+  role: 'user' | 'assistant' | 'tool';
+  content: string | null;
+  parts: MessagePart[];
+};
+
+// What the chat panel shows of a message; tool rows are left out
+export type ChatMessage = {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  toolCalls: string[]; // names of the tools the model called
+  charts: ChartSpec[];
+  createdAt: string;
+};
+
+export type ConversationSummary = {
+  id: string;
+  title: string;
+  updatedAt: string;
+};
+
+const MAX_TOOL_ROUNDS = 5;
+const MAX_CHARTS = 3;
+const MAX_HISTORY_MESSAGES = 40;
+const MAX_RESULT_LENGTH = 20000;
+const MAX_TITLE_LENGTH = 80;
+const MAX_QUESTION_LENGTH = 4000;
+
+export function parseQuestion(body: unknown): { question: string } | { error: string } {
+  const input = (body || {}) as { question?: unknown };
+  const question = typeof input.question === 'string' ? input.question.trim() : '';
+
+  if (!question) return { error: 'A question is required' };
+  if (question.length > MAX_QUESTION_LENGTH) return { error: `Questions are limited to ${MAX_QUESTION_LENGTH} characters` };
+  return { question };
+}
+
+// The admin-editable settings; the row is created with the schema's default prompt
+export function getSystemSettings() {
+  return prisma.systemSettings.upsert({
+    where: { id: 'global' },
+    create: { updatedBy: 'system' },
+    update: {},
+  });
+}
+
+export async function getSystemPrompt(): Promise<string> {
+  return (await getSystemSettings()).systemPrompt;
+}
+
+function withContext(systemPrompt: string, context: { companyName?: string; range: DateRange; today: string }): string {
+  return [
+    systemPrompt,
+    '',
+    `You are answering questions about the books of ${context.companyName || 'the user\'s company'} in QuickBooks Online.`,
+    `Today is ${context.today}. The dashboard shows ${context.range.from} to ${context.range.to}; use that period when the user does not name one.`,
+    'Look figures up with the tools rather than estimating them, say which period an amount is for, and keep answers short.',
+  ].join('\n');
+}
+
+const partsOf = (value: Prisma.JsonValue | null): MessagePart[] => (Array.isArray(value) ? (value as MessagePart[]) : []);
+
+// Stored rows back into model messages. The history is cut to start at a
+// question, so it never opens with tool results whose calls were cut off.
+function toModelMessages(rows: Array<{ role: string; content: string | null; parts: Prisma.JsonValue | null }>): ModelMessage[] {
+  const recent = rows.slice(-MAX_HISTORY_MESSAGES);
+  const start = recent.findIndex(row => row.role === 'user');
+
+  return (start === -1 ? [] : recent.slice(start)).flatMap((row): ModelMessage[] => {
+    const parts = partsOf(row.parts);
+    switch (row.role) {
+      case 'user':
+        return [{ role: 'user', content: row.content || '' }];
+      case 'assistant':
+        return [{
+          role: 'assistant',
+          content: row.content || '',
+          toolCalls: parts.flatMap(part => (part.type === 'tool_call' ? [{ id: part.id, name: part.name, input: part.input }] : [])),
+        }];
+      case 'tool':
+        return [{
+          role: 'tool',
+          results: parts.flatMap(part => (part.type === 'tool_result' ? [{ toolCallId: part.toolCallId, content: part.content, isError: part.isError }] : [])),
+        }];
+      default:
+        return [];
+    }
+  });
+}
+
+async function runTool(
+  tools: AssistantTool[],
+  call: ToolCall,
+  context: { client: QboClient; range: DateRange }
+): Promise<{ result: ToolResult; chart?: ChartSpec }> {
+  const tool = tools.find(candidate => candidate.name === call.name);
+
+  try {
+    if (!tool) throw new Error(`Unknown or disabled tool ${call.name}`);
+    const output = await tool.run(context, call.input || {});
+    return {
+      result: { toolCallId: call.id, content: JSON.stringify(output.result).slice(0, MAX_RESULT_LENGTH) },
+      chart: output.chart,
+    };
+  } catch (error) {
+    // The model gets the error to explain or correct, e.g. a misspelt account
+    console.error(`Assistant tool ${call.name} error:`, error);
+    return {
+      result: {
+        toolCallId: call.id,
+        content: JSON.stringify({ summary: error instanceof Error ? error.message : 'The tool failed' }),
+        isError: true,
+      },
+    };
+  }
+}
+
+// Runs one question through the model, calling tools until it answers (at most
+// MAX_TOOL_ROUNDS rounds of tool calls); returns the rows to store after the question
+export async function runAssistant(options: {
+  provider: ModelProvider;
+  tools: AssistantTool[];
+  system: string;
+  history: ModelMessage[];
+  question: string;
+  context: { client: QboClient; range: DateRange };
+}): Promise<NewMessage[]> {
+  const { provider, tools, system, context } = options;
+  const specs = tools.map(({ name, description, inputSchema }) => ({ name, description, inputSchema }));
+  const messages: ModelMessage[] = [...options.history, { role: 'user', content: options.question }];
+  const produced: NewMessage[] = [];
+  const charts: ChartSpec[] = [];
+
+  for (let round = 0; ; round++) {
+    const response = await provider.complete({ system, messages, tools: specs });
+
+    if (response.toolCalls.length === 0 || round === MAX_TOOL_ROUNDS) {
+      const content = response.content || 'I could not find an answer to that.';
+      produced.push({
+        role: 'assistant',
+        content,
+        parts: [{ type: 'text', text: content }, ...charts.slice(-MAX_CHARTS).map(chart => ({ type: 'chart' as const, chart }))],
+      });
+      return produced;
+    }
+
+    const results: Array<{ call: ToolCall; result: ToolResult }> = [];
+    for (const call of response.toolCalls) {
+      const { result, chart } = await runTool(tools, call, context);
+      results.push({ call, result });
+      if (chart) charts.push(chart);
+    }
+
+    messages.push({ role: 'assistant', content: response.content, toolCalls: response.toolCalls });
+    messages.push({ role: 'tool', results: results.map(item => item.result) });
+    produced.push({
+      role: 'assistant',
+      content: response.content || null,
+      parts: [
+        ...(response.content ? [{ type: 'text' as const, text: response.content }] : []),
+        ...response.toolCalls.map(call => ({ type: 'tool_call' as const, id: call.id, name: call.name, input: call.input })),
+      ],
+    });
+    produced.push({
+      role: 'tool',
+      content: null,
+      parts: results.map(({ call, result }) => ({ type: 'tool_result' as const, name: call.name, ...result })),
+    });
+  }
+}
+
+function toChatMessage(row: { id: string; role: string; content: string | null; parts: Prisma.JsonValue | null; createdAt: Date }): ChatMessage | null {
+  if (row.role !== 'user' && row.role !== 'assistant') return null;
+  const parts = partsOf(row.parts);
+  return {
+    id: row.id,
+    role: row.role,
+    content: row.content || '',
+    toolCalls: parts.flatMap(part => (part.type === 'tool_call' ? [part.name] : [])),
+    charts: parts.flatMap(part => (part.type === 'chart' ? [part.chart] : [])),
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+export async function listConversations(userId: string): Promise<ConversationSummary[]> {
+  const conversations = await prisma.conversation.findMany({
+    where: { userId },
+    orderBy: { updatedAt: 'desc' },
+    select: { id: true, title: true, updatedAt: true },
+  });
+
+  return conversations.map(conversation => ({ ...conversation, updatedAt: conversation.updatedAt.toISOString() }));
+}
+
+// Null when the conversation does not exist or belongs to someone else
+export async function getConversation(userId: string, id: string) {
+  const conversation = await prisma.conversation.findFirst({
+    where: { id, userId },
+    include: { messages: { orderBy: { createdAt: 'asc' } } },
+  });
+
+  if (!conversation) return null;
+
+  return {
+    id: conversation.id,
+    title: conversation.title,
+    updatedAt: conversation.updatedAt.toISOString(),
+    messages: conversation.messages.flatMap(message => toChatMessage(message) || []),
+  };
+}
+
+// Asks a question in a new (conversationId null) or existing conversation and
+// stores the turn; null when the conversation is not the user's
+export async function askAssistant(options: {
+  userId: string;
+  conversationId: string | null;
+  question: string;
+  client: QboClient;
+  range: DateRange;
+  provider: ModelProvider;
+  tools: AssistantTool[];
+}): Promise<{ conversation: ConversationSummary; messages: ChatMessage[] } | null> {
+  const { userId, question, client, range, provider, tools } = options;
+
+  const existing = options.conversationId
+    ? await prisma.conversation.findFirst({
+        where: { id: options.conversationId, userId },
+        include: { messages: { orderBy: { createdAt: 'asc' } } },
+      })
+    : null;
+
+  if (options.conversationId && !existing) return null;
+
+  const companyInfo = await client.getCompanyInfo().catch(() => null);
+  const today = new Date();
+  const system = withContext(await getSystemPrompt(), {
+    companyName: companyInfo?.CompanyName,
+    range,
+    today: today.toISOString().slice(0, 10),
+  });
+
+  const produced = await runAssistant({
+    provider,
+    tools,
+    system,
+    history: existing ? toModelMessages(existing.messages) : [],
+    question,
+    context: { client, range },
+  });
+
+  const conversationId = existing?.id || (await prisma.conversation.create({
+    data: { userId, title: question.replace(/\s+/g, ' ').slice(0, MAX_TITLE_LENGTH) },
+  })).id;
+
+  // Rows are written one millisecond apart so they sort in the order they happened
+  const turn: NewMessage[] = [{ role: 'user', content: question, parts: [{ type: 'text', text: question }] }, ...produced];
+  const start = today.getTime();
+  const rows = await prisma.$transaction(turn.map((message, index) => prisma.message.create({
+    data: {
+      conversationId,
+      role: message.role,
+      content: message.content,
+      parts: message.parts as Prisma.InputJsonArray,
+      json: message.role === 'assistant' ? { provider: provider.name, model: provider.model, realmId: client.realmId } : Prisma.DbNull,
+      createdAt: new Date(start + index),
+    },
+  })));
+
+  const conversation = await prisma.conversation.update({
+    where: { id: conversationId },
+    data: { updatedAt: new Date() },
+    select: { id: true, title: true, updatedAt: true },
+  });
+
+  return {
+    conversation: { ...conversation, updatedAt: conversation.updatedAt.toISOString() },
+    messages: rows.flatMap(row => toChatMessage(row) || []),
+  };
+}
+
+// Puts a chart from an answer on the user's dashboard. The chart is copied from
+// the stored message rather than taken from the request.
+export async function pinChart(userId: string, messageId: string, index: number): Promise<DashboardWidget | null> {
+  const message = await prisma.message.findFirst({
+    where: { id: messageId, role: 'assistant', conversation: { userId } },
+  });
+  const chart = message ? partsOf(message.parts).flatMap(part => (part.type === 'chart' ? [part.chart] : []))[index] : undefined;
+
+  if (!message || !chart) return null;
+
+  return appendWidget(
+    userId,
+    { type: 'chart', title: chart.title, data: { chart }, w: 6, h: 8 },
+    message.conversationId
+  );
+}
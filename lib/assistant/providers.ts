@@ -0,0 +1,220 @@
+/* Model providers for the financial assistant */
+// The chat loop talks to a model only through ModelProvider, so the hosted
+// model can be swapped for the local stub (ASSISTANT_PROVIDER=stub), which picks
+// tools by keyword and needs no API key or network. The stub only runs when asked
+// for: a missing ANTHROPIC_API_KEY is a configuration error, not a fallback.
+
+export type ToolCall = {
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+};
+
+export type ToolResult = {
+  toolCallId: string;
+  content: string; // JSON the model reads
+  isError?: boolean;
+};
+
+export type ModelMessage =
+  | { role: 'user'; content: string }
+  | { role: 'assistant'; content: string; toolCalls: ToolCall[] }
+  | { role: 'tool'; results: ToolResult[] };
+
+export type ToolSpec = {
+  name: string;
+  description: string;
+  inputSchema: Record<string, unknown>; // JSON Schema of the tool's input
+};
+
+export type ModelRequest = {
+  system: string;
+  messages: ModelMessage[];
+  tools: ToolSpec[];
+};
+
+export type ModelResponse = {
+  content: string;
+  toolCalls: ToolCall[];
+};
+
+export type ModelProvider = {
+  name: string;
+  model: string;
+  complete(request: ModelRequest): Promise<ModelResponse>;
+};
+
+export class ModelProviderError extends Error {
+  status: number | null; // null when the provider is not configured
+
+  constructor(message: string, options: { status: number | null }) {
+    super(message);
+    this.name = 'ModelProviderError';
+    this.status = options.status;
+  }
+}
+
+const DEFAULT_ANTHROPIC_MODEL = 'claude-sonnet-4-5';
+const ANTHROPIC_VERSION = '2023-06-01';
+const MAX_OUTPUT_TOKENS = 1024;
+
+type AnthropicContent =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: Record<string, unknown> }
+  | { type: 'tool_result'; tool_use_id: string; content: string; is_error?: boolean };
+
+function toAnthropicMessage(message: ModelMessage): { role: 'user' | 'assistant'; content: string | AnthropicContent[] } {
+  switch (message.role) {
+    case 'user':
+      return { role: 'user', content: message.content };
+    case 'assistant':
+      return {
+        role: 'assistant',
+        content: [
+          ...(message.content ? [{ type: 'text' as const, text: message.content }] : []),
+          ...message.toolCalls.map(call => ({ type: 'tool_use' as const, id: call.id, name: call.name, input: call.input })),
+        ],
+      };
+    case 'tool':
+      // Tool results go back to the model as a user turn
+      return {
+        role: 'user',
+        content: message.results.map(result => ({
+          type: 'tool_result' as const,
+          tool_use_id: result.toolCallId,
+          content: result.content,
+          ...(result.isError ? { is_error: true } : {}),
+        })),
+      };
+  }
+}
+
+// The Anthropic Messages API over fetch. ASSISTANT_API_BASE_URL points it at
+// another host, like QBO_API_BASE_URL does for the accounting API.
+export function createAnthropicProvider(options: { apiKey: string; model?: string; baseUrl?: string }): ModelProvider {
+  const model = options.model || DEFAULT_ANTHROPIC_MODEL;
+  const baseUrl = (options.baseUrl || 'https://api.anthropic.com').replace(/\/$/, '');
+
+  return {
+    name: 'anthropic',
+    model,
+    async complete({ system, messages, tools }) {
+      const response = await fetch(`${baseUrl}/v1/messages`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': options.apiKey,
+          'anthropic-version': ANTHROPIC_VERSION,
+        },
+        body: JSON.stringify({
+          model,
+          max_tokens: MAX_OUTPUT_TOKENS,
+          system,
+          messages: messages.map(toAnthropicMessage),
+          tools: tools.map(tool => ({ name: tool.name, description: tool.description, input_schema: tool.inputSchema })),
+        }),
+      });
+
+      const json = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new ModelProviderError(json?.error?.message || `Model request failed (${response.status})`, { status: response.status });
+      }
+
+      const content: AnthropicContent[] = Array.isArray(json?.content) ? json.content : [];
+      return {
+        content: content.flatMap(block => (block.type === 'text' ? [block.text] : [])).join('\n').trim(),
+        toolCalls: content.flatMap(block => (block.type === 'tool_use' ? [{ id: block.id, name: block.name, input: block.input || {} }] : [])),
+      };
+    },
+  };
+}
+
+/* Local stub */
+
+// Keywords that send a question to a tool, most specific first
+const STUB_ROUTES: Array<{ pattern: RegExp; tool: string; input: (question: string) => Record<string, unknown> }> = [
+  {
+    pattern: /transactions?|\bspen(d|t|ding) on|payments? (to|for)/i,
+    tool: 'get_account_transactions',
+    input: question => ({ account: (question.match(/["“]([^"”]+)["”]/) || question.match(/\bon ([A-Za-z][\w &-]*?)(\?|$| this| last| in )/i) || [])[1]?.trim() || '' }),
+  },
+  {
+    pattern: /balance sheet|cash|assets?|liabilit|equity|receivable|payable/i,
+    tool: 'get_balance_sheet',
+    input: () => ({}),
+  },
+  {
+    pattern: /trend|month|quarter|over time|chart|graph/i,
+    tool: 'get_profit_and_loss',
+    input: question => ({ summarize_by: /quarter/i.test(question) ? 'Quarter' : 'Month' }),
+  },
+  {
+    pattern: /profit|loss|revenue|income|sales|expenses?|margin|p&l/i,
+    tool: 'get_profit_and_loss',
+    input: () => ({}),
+  },
+];
+
+function describeResult(content: string): string {
+  try {
+    const result = JSON.parse(content);
+    return typeof result?.summary === 'string' ? result.summary : content.slice(0, 500);
+  } catch {
+    return content.slice(0, 500);
+  }
+}
+
+// Answers without a model: one tool call chosen by keyword, then the tool's own
+// summary as the answer. Deterministic, so tests can assert on it.
+export function createStubProvider(): ModelProvider {
+  let calls = 0;
+
+  return {
+    name: 'stub',
+    model: 'stub',
+    async complete({ messages, tools }) {
+      const last = messages[messages.length - 1];
+
+      if (last?.role === 'tool') {
+        const failed = last.results.filter(result => result.isError);
+        if (failed.length > 0) {
+          return { content: `I could not get that: ${failed.map(result => describeResult(result.content)).join(' ')}`, toolCalls: [] };
+        }
+        return { content: last.results.map(result => describeResult(result.content)).join('\n'), toolCalls: [] };
+      }
+
+      const question = last?.role === 'user' ? last.content : '';
+      const available = new Set(tools.map(tool => tool.name));
+      const route = STUB_ROUTES.find(candidate => available.has(candidate.tool) && candidate.pattern.test(question));
+
+      if (!route) {
+        return {
+          content: tools.length > 0
+            ? `I can answer questions using these tools: ${tools.map(tool => tool.name).join(', ')}.`
+            : 'No tools are enabled, so I cannot look anything up in your books.',
+          toolCalls: [],
+        };
+      }
+
+      calls += 1;
+      return { content: '', toolCalls: [{ id: `stub_${calls}`, name: route.tool, input: route.input(question) }] };
+    },
+  };
+}
+
+export function getModelProvider(): ModelProvider {
+  if (process.env.ASSISTANT_PROVIDER === 'stub') {
+    return createStubProvider();
+  }
+
+  const apiKey = process.env.ANTHROPIC_API_KEY;
+  if (!apiKey) {
+    throw new ModelProviderError('ANTHROPIC_API_KEY is not configured', { status: null });
+  }
+
+  return createAnthropicProvider({
+    apiKey,
+    model: process.env.ASSISTANT_MODEL,
+    baseUrl: process.env.ASSISTANT_API_BASE_URL,
+  });
+}
@@ -0,0 +1,251 @@
+/* Assistant tools: the QBO report fetchers, callable by the model */
+// Each tool validates the model's input, fetches through the QboClient (so
+// answers share the dashboard's report cache) and returns a JSON result with a
+// one-line `summary`, plus a chart when the answer is best shown as one. Tools
+// are listed in the Tool table so admins can switch them off; rows are created
+// the first time the assistant runs.
+import { prisma } from '../db';
+import { QboClient } from '../qbo';
+import {
+  parseReport,
+  extractProfitLossSummary,
+  extractBalanceSheetSummary,
+  extractExpenseBreakdown,
+  checkBalanceSheet,
+  findAccount,
+  findAccountById,
+} from '../qbo/reports';
+import { DateRange, formatDate, parseDate } from '../qbo/periods';
+import { agingDate } from '../qbo/aging';
+import { fetchTrendReport, trendPeriods } from '../qbo/trends';
+import { fetchAccountTransactions } from '../qbo/transactions';
+import { ToolSpec } from './providers';
+
+// A chart in an answer; stored with the message and, when pinned, as Widget data
+export type ChartSpec = {
+  kind: 'line' | 'bar';
+  title: string;
+  subtitle?: string;
+  series: Array<{ key: string; name: string }>;
+  data: Array<Record<string, string | number>>; // `label` plus one value per series key
+};
+
+export type ToolContext = {
+  client: QboClient;
+  range: DateRange; // the period selected on the dashboard, used when the model gives no dates
+};
+
+export type ToolOutput = {
+  result: Record<string, unknown> & { summary: string };
+  chart?: ChartSpec;
+};
+
+export type AssistantTool = ToolSpec & {
+  run(context: ToolContext, input: Record<string, unknown>): Promise<ToolOutput>;
+};
+
+const MAX_TRANSACTIONS = 50;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(value);
+
+const DATE_PROPERTIES = {
+  start_date: { type: 'string', description: 'First day of the period, YYYY-MM-DD. Defaults to the period selected on the dashboard.' },
+  end_date: { type: 'string', description: 'Last day of the period, YYYY-MM-DD. Defaults to the period selected on the dashboard.' },
+};
+
+// The period asked for, falling back to the dashboard's; errors are for the model to correct
+function inputRange(input: Record<string, unknown>, range: DateRange): { from: string; to: string } {
+  const value = (key: string, fallback: string) => {
+    if (input[key] === undefined || input[key] === null || input[key] === '') return fallback;
+    const date = typeof input[key] === 'string' ? parseDate(input[key] as string) : null;
+    if (!date) throw new Error(`${key} must be a date in YYYY-MM-DD format`);
+    return formatDate(date);
+  };
+
+  const from = value('start_date', range.from);
+  const to = value('end_date', range.to);
+  if (from > to) throw new Error('start_date must not be after end_date');
+  return { from, to };
+}
+
+const profitAndLoss: AssistantTool = {
+  name: 'get_profit_and_loss',
+  description: 'Profit and loss for a period: revenue, cost of goods sold, operating and other expenses, net profit and the largest expense categories. With summarize_by Month or Quarter it returns the figures per period instead, for trends.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      ...DATE_PROPERTIES,
+      summarize_by: { type: 'string', enum: ['Total', 'Month', 'Quarter'], description: 'Total for the whole period (default), or one column per month or quarter' },
+    },
+  },
+  async run({ client, range }, input) {
+    const period = inputRange(input, range);
+    const summarizeBy = input.summarize_by ?? 'Total';
+
+    if (summarizeBy === 'Month' || summarizeBy === 'Quarter') {
+      const report = await fetchTrendReport(client, period, summarizeBy);
+      const periods = trendPeriods(report, summarizeBy).map(column => {
+        const summary = extractProfitLossSummary(report, column.column);
+        return {
+          label: column.label,
+          revenue: round(summary.revenue),
+          expenses: round(summary.expenses),
+          netProfit: round(summary.netProfit),
+        };
+      });
+      const total = extractProfitLossSummary(report);
+
+      return {
+        result: {
+          summary: `Revenue ${formatCurrency(total.revenue)} and net profit ${formatCurrency(total.netProfit)} from ${period.from} to ${period.to}, over ${periods.length} ${summarizeBy === 'Month' ? 'months' : 'quarters'}.`,
+          period,
+          periods,
+        },
+        chart: {
+          kind: 'line',
+          title: `Revenue, expenses and net profit by ${summarizeBy.toLowerCase()}`,
+          subtitle: `${period.from} to ${period.to}`,
+          series: [
+            { key: 'revenue', name: 'Revenue' },
+            { key: 'expenses', name: 'Expenses' },
+            { key: 'netProfit', name: 'Net Profit' },
+          ],
+          data: periods,
+        },
+      };
+    }
+
+    if (summarizeBy !== 'Total') throw new Error('summarize_by must be Total, Month or Quarter');
+
+    const report = parseReport(await client.getReport('ProfitAndLoss', { start_date: period.from, end_date: period.to }));
+    const summary = extractProfitLossSummary(report);
+    const topExpenses = extractExpenseBreakdown(report, { limit: 10 });
+
+    return {
+      result: {
+        summary: `Revenue ${formatCurrency(summary.revenue)}, expenses ${formatCurrency(summary.expenses)} and net profit ${formatCurrency(summary.netProfit)} from ${period.from} to ${period.to}.`,
+        period,
+        totals: Object.fromEntries(Object.entries(summary).map(([key, value]) => [key, round(value)])),
+        topExpenses: topExpenses.map(item => ({ name: item.name, accountId: item.id, amount: round(item.value), percentage: round(item.percentage) })),
+      },
+      chart: topExpenses.length > 0 ? {
+        kind: 'bar',
+        title: 'Largest expense categories',
+        subtitle: `${period.from} to ${period.to}`,
+        series: [{ key: 'amount', name: 'Amount' }],
+        data: topExpenses.map(item => ({ label: item.name, amount: round(item.value) })),
+      } : undefined,
+    };
+  },
+};
+
+const balanceSheet: AssistantTool = {
+  name: 'get_balance_sheet',
+  description: 'Balance sheet as of a date: cash, accounts receivable, current and total assets, accounts payable, current and total liabilities and equity.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      as_of: { type: 'string', description: 'Date of the balance sheet, YYYY-MM-DD. Defaults to the end of the dashboard period, or today while that period is still running.' },
+    },
+  },
+  async run({ client, range }, input) {
+    let asOf = agingDate(range);
+    if (input.as_of !== undefined && input.as_of !== null && input.as_of !== '') {
+      const date = typeof input.as_of === 'string' ? parseDate(input.as_of) : null;
+      if (!date) throw new Error('as_of must be a date in YYYY-MM-DD format');
+      asOf = formatDate(date);
+    }
+
+    const report = parseReport(await client.getReport('BalanceSheet', { start_date: asOf, end_date: asOf }));
+    const summary = extractBalanceSheetSummary(report);
+    const check = checkBalanceSheet(report);
+
+    return {
+      result: {
+        summary: `As of ${asOf}: cash ${formatCurrency(summary.cashBalance)}, total assets ${formatCurrency(summary.totalAssets)}, total liabilities ${formatCurrency(summary.totalLiabilities)} and equity ${formatCurrency(summary.totalEquity)}.`,
+        asOf,
+        totals: Object.fromEntries(Object.entries(summary).map(([key, value]) => [key, round(value)])),
+        balanced: check.balanced,
+      },
+      chart: {
+        kind: 'bar',
+        title: 'Balance sheet',
+        subtitle: `As of ${asOf}`,
+        series: [{ key: 'amount', name: 'Amount' }],
+        data: [
+          { label: 'Cash', amount: round(summary.cashBalance) },
+          { label: 'Receivables', amount: round(summary.accountsReceivable) },
+          { label: 'Total assets', amount: round(summary.totalAssets) },
+          { label: 'Payables', amount: round(summary.accountsPayable) },
+          { label: 'Total liabilities', amount: round(summary.totalLiabilities) },
+          { label: 'Equity', amount: round(summary.totalEquity) },
+        ],
+      },
+    };
+  },
+};
+
+const accountTransactions: AssistantTool = {
+  name: 'get_account_transactions',
+  description: `Transactions posted to an income or expense account (and its sub-accounts) in a period, oldest first, at most ${MAX_TRANSACTIONS}. Use it to explain what is behind an amount.`,
+  inputSchema: {
+    type: 'object',
+    properties: {
+      account: { type: 'string', description: 'Account name as shown on the profit and loss (case-insensitive), or its QBO account id' },
+      ...DATE_PROPERTIES,
+    },
+    required: ['account'],
+  },
+  async run({ client, range }, input) {
+    const account = typeof input.account === 'string' ? input.account.trim() : '';
+    if (!account) throw new Error('account is required');
+
+    const period = inputRange(input, range);
+    const report = parseReport(await client.getReport('ProfitAndLoss', { start_date: period.from, end_date: period.to }));
+    const node = findAccountById(report, account) || findAccount(report, account)?.node;
+
+    if (!node?.id) {
+      throw new Error(`No income or expense account "${account}" has activity from ${period.from} to ${period.to}`);
+    }
+
+    const name = node.kind === 'account' ? node.name : node.title;
+    const transactions = await fetchAccountTransactions(client, node.id, period, report);
+    const total = round(transactions.reduce((sum, transaction) => sum + transaction.amount, 0));
+
+    return {
+      result: {
+        summary: `${transactions.length} transactions totalling ${formatCurrency(total)} in ${name} from ${period.from} to ${period.to}.`,
+        account: { id: node.id, name },
+        period,
+        total,
+        count: transactions.length,
+        transactions: transactions.slice(0, MAX_TRANSACTIONS),
+      },
+    };
+  },
+};
+
+export const ASSISTANT_TOOLS: AssistantTool[] = [profitAndLoss, balanceSheet, accountTransactions];
+
+// The Tool rows, one per assistant tool; missing rows are created enabled
+export async function syncTools() {
+  const rows = await prisma.tool.findMany({ orderBy: { name: 'asc' } });
+  const missing = ASSISTANT_TOOLS.filter(tool => !rows.some(row => row.name === tool.name));
+
+  if (missing.length === 0) return rows;
+
+  await prisma.tool.createMany({
+    data: missing.map(tool => ({ name: tool.name, description: tool.description, updatedBy: 'system' })),
+    skipDuplicates: true,
+  });
+  return prisma.tool.findMany({ orderBy: { name: 'asc' } });
+}
+
+export async function getEnabledTools(): Promise<AssistantTool[]> {
+  const rows = await syncTools();
+  const disabled = new Set(rows.filter(row => !row.enabled).map(row => row.name));
+  return ASSISTANT_TOOLS.filter(tool => !disabled.has(tool.name));
+}
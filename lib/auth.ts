@@ -40,6 +40,7 @@ export const authOptions: NextAuthOptions = {
           email: user.email,
           name: user.name,
           image: user.image,
+          isAdmin: user.isAdmin,
         }
       },
     }),
@@ -54,12 +55,22 @@ export const authOptions: NextAuthOptions = {
     async jwt({ token, user }) {
       if (user) {
         token.id = user.id
+        token.isAdmin = user.isAdmin
+      } else if (token.id) {
+        // Re-read on every session check, so granting or revoking admin reaches
+        // the token (and middleware.ts, which reads it) without signing in again
+        const current = await prisma.user.findUnique({
+          where: { id: token.id },
+          select: { isAdmin: true },
+        })
+        token.isAdmin = !!current?.isAdmin
       }
       return token
     },
     async session({ session, token }) {
       if (session.user) {
         session.user.id = token.id as string
+        session.user.isAdmin = !!token.isAdmin
       }
       return session
     },
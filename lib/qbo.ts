@@ -4,6 +4,8 @@
 const OAuthClient = require('intuit-oauth');
 
 import { prisma } from './db';
+import type { QboReportResponse } from './qbo/reports';
+import { getCachedReport, clearReportCache } from './qbo/cache';
 
 type IntuitEnvironment = 'sandbox' | 'production';
 
@@ -40,6 +42,19 @@ export function getIntuitEnv(): {
   return { clientId, clientSecret, environment, redirectUri };
 }
 
+// QBO_API_BASE_URL lets tests point the accounting API at a local fake server
+export function getApiBaseUrl(): string {
+  const override = process.env.QBO_API_BASE_URL;
+  if (override) {
+    return override.replace(/\/+$/, '');
+  }
+
+  const { environment } = getIntuitEnv();
+  return environment === 'sandbox'
+    ? 'https://sandbox-quickbooks.api.intuit.com'
+    : 'https://quickbooks.api.intuit.com';
+}
+
 export function createOAuthClient() {
   const { clientId, clientSecret, environment, redirectUri } = getIntuitEnv();
   const oauthClient = new OAuthClient({
@@ -49,6 +64,18 @@ export function createOAuthClient() {
     redirectUri,
     logging: false,
   });
+
+  // QBO_OAUTH_BASE_URL swaps Intuit's authorize/token/revoke hosts for a local fake server
+  const oauthBase = process.env.QBO_OAUTH_BASE_URL?.replace(/\/+$/, '');
+  if (oauthBase) {
+    oauthClient.setAuthorizeURLs({
+      authorizeEndpoint: `${oauthBase}/connect/oauth2`,
+      tokenEndpoint: `${oauthBase}/oauth2/v1/tokens/bearer`,
+      revokeEndpoint: `${oauthBase}/oauth2/v1/tokens/revoke`,
+      userInfoEndpoint: `${oauthBase}/v1/openid_connect/userinfo`,
+    });
+  }
+
   return oauthClient as any;
 }
 
@@ -175,6 +202,27 @@ export async function getTokenFromDatabase(userId: string, realmId?: string): Pr
   };
 }
 
+export type ConnectedRealm = {
+  realmId: string;
+  connectedAt: Date;
+  updatedAt: Date;
+};
+
+// All companies the user has connected, oldest connection first
+export async function listConnectedRealms(userId: string): Promise<ConnectedRealm[]> {
+  const tokens = await prisma.qboToken.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'asc' },
+    select: { realmId: true, createdAt: true, updatedAt: true },
+  });
+
+  return tokens.map(token => ({
+    realmId: token.realmId,
+    connectedAt: token.createdAt,
+    updatedAt: token.updatedAt,
+  }));
+}
+
 export async function isTokenExpired(userId: string, realmId?: string): Promise<boolean> {
   let qboToken;
   
@@ -213,6 +261,10 @@ export async function refreshTokenIfNeeded(userId: string, realmId?: string): Pr
   }
 
   const currentToken = await getTokenFromDatabase(userId, realmId);
+  return await refreshAccessToken(userId, currentToken);
+}
+
+export async function refreshAccessToken(userId: string, currentToken: QboToken | null): Promise<QboToken> {
   if (!currentToken?.refresh_token) {
     throw new Error('No refresh token available');
   }
@@ -273,8 +325,194 @@ export async function revokeToken(userId: string, realmId?: string): Promise<voi
         },
       });
     }
+
+    // Cached reports are shared per company; drop them once nobody is connected to it
+    const revokedRealmId = realmId || token.realmId;
+    if (revokedRealmId && (await prisma.qboToken.count({ where: { realmId: revokedRealmId } })) === 0) {
+      await clearReportCache(revokedRealmId);
+    }
   } catch (error) {
     throw new Error(`Token revocation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
+// Typed QBO accounting API client
+export type QboRequestParams = Record<string, string | number | undefined | null>;
+
+export type QboCompanyInfo = {
+  Id?: string;
+  CompanyName?: string;
+  LegalName?: string;
+  Country?: string;
+  FiscalYearStartMonth?: string;
+  CompanyStartDate?: string;
+  [key: string]: unknown;
+};
+
+export class QboApiError extends Error {
+  status: number | null;
+  intuitTid?: string;
+  retryAfter?: number; // seconds, from the Retry-After header on 429s
+  body?: unknown;
+
+  constructor(message: string, options: { status: number | null; intuitTid?: string; retryAfter?: number; body?: unknown }) {
+    super(message);
+    this.name = 'QboApiError';
+    this.status = options.status;
+    this.intuitTid = options.intuitTid;
+    this.retryAfter = options.retryAfter;
+    this.body = options.body;
+  }
+}
+
+// What intuit-oauth throws: an axios error, or its own wrapping the axios response
+type QboErrorResponse = {
+  status?: number;
+  headers?: Record<string, string | undefined>;
+  data?: { Fault?: { Error?: Array<{ Message?: string; Detail?: string }> } };
+};
+
+type QboRequestError = {
+  message?: string;
+  intuit_tid?: string;
+  response?: QboErrorResponse;
+  authResponse?: { response?: QboErrorResponse };
+};
+
+function toApiError(error: unknown, path: string): QboApiError {
+  const cause = (error && typeof error === 'object' ? error : {}) as QboRequestError;
+  const response = cause.response || cause.authResponse?.response;
+  const status = typeof response?.status === 'number' ? response.status : null;
+  const headers = response?.headers || {};
+  const retryAfter = headers['retry-after'] ? parseInt(headers['retry-after']) : undefined;
+  const fault = response?.data?.Fault?.Error?.[0];
+  const detail = fault ? `${fault.Message}${fault.Detail ? `: ${fault.Detail}` : ''}` : cause.message || 'Unknown error';
+
+  return new QboApiError(`QBO request ${path} failed${status ? ` (${status})` : ''}: ${detail}`, {
+    status,
+    intuitTid: headers.intuit_tid || cause.intuit_tid || undefined,
+    retryAfter: retryAfter !== undefined && !isNaN(retryAfter) ? retryAfter : undefined,
+    body: response?.data,
+  });
+}
+
+// QBO throttles at 500 requests a minute and 10 concurrent requests per company;
+// throttled requests are retried after Retry-After, or with exponential backoff
+// when QBO does not send one
+const MAX_THROTTLE_RETRIES = 3;
+const THROTTLE_BACKOFF_MS = 1000;
+const MAX_RETRY_AFTER_MS = 30000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export type QboClientOptions = {
+  refreshCache?: boolean; // bypass cached reports and fetch from QBO again
+};
+
+export class QboClient {
+  readonly userId: string;
+  readonly realmId: string;
+  private token: QboToken;
+  private baseUrl: string;
+  private refreshCache: boolean;
+  private oldestFetchedAt: Date | null = null;
+
+  constructor(userId: string, token: QboToken, options: QboClientOptions = {}) {
+    if (!token.realmId) {
+      throw new Error('RealmId is required to create a QBO client');
+    }
+    this.userId = userId;
+    this.realmId = token.realmId;
+    this.token = token;
+    this.baseUrl = getApiBaseUrl();
+    this.refreshCache = options.refreshCache ?? false;
+  }
+
+  // Returns null when the user has no usable connection for the realm
+  static async forUser(userId: string, realmId?: string, options: QboClientOptions = {}): Promise<QboClient | null> {
+    const token = await getValidToken(userId, realmId);
+    if (!token?.access_token || !token?.realmId) {
+      return null;
+    }
+    return new QboClient(userId, token, options);
+  }
+
+  // When the oldest report this client returned was fetched from QBO
+  get syncedAt(): Date | null {
+    return this.oldestFetchedAt;
+  }
+
+  async getReport(name: string, params: QboRequestParams = {}): Promise<QboReportResponse> {
+    const report = await getCachedReport(
+      { realmId: this.realmId, reportName: name, params },
+      () => this.get<QboReportResponse>(`reports/${encodeURIComponent(name)}`, params),
+      { refresh: this.refreshCache }
+    );
+
+    if (!this.oldestFetchedAt || report.fetchedAt < this.oldestFetchedAt) {
+      this.oldestFetchedAt = report.fetchedAt;
+    }
+
+    return report.data;
+  }
+
+  async query<T = Record<string, unknown>>(sql: string): Promise<T[]> {
+    const json = await this.get<{ QueryResponse?: Record<string, unknown> }>('query', { query: sql });
+    const entities = Object.values(json.QueryResponse || {}).find(Array.isArray);
+    return (entities as T[] | undefined) || [];
+  }
+
+  async getCompanyInfo(): Promise<QboCompanyInfo> {
+    const json = await this.get<{ CompanyInfo?: QboCompanyInfo }>(`companyinfo/${encodeURIComponent(this.realmId)}`);
+    return json.CompanyInfo || {};
+  }
+
+  async getEntity<T = Record<string, unknown>>(type: string, id: string): Promise<T | null> {
+    const entityName = type.charAt(0).toUpperCase() + type.slice(1);
+    const json = await this.get<Record<string, unknown>>(`${type.toLowerCase()}/${encodeURIComponent(id)}`);
+    return (json[entityName] as T | undefined) || null;
+  }
+
+  private buildUrl(path: string, params: QboRequestParams): string {
+    const search = new URLSearchParams();
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined && value !== null && value !== '') {
+        search.set(key, String(value));
+      }
+    }
+    const query = search.toString();
+    return `${this.baseUrl}/v3/company/${encodeURIComponent(this.realmId)}/${path}${query ? `?${query}` : ''}`;
+  }
+
+  private async get<T>(path: string, params: QboRequestParams = {}, attempt = { refreshed: false, throttled: 0 }): Promise<T> {
+    const oauthClient = createOAuthClient();
+    oauthClient.setToken(this.token);
+
+    try {
+      const response = await oauthClient.makeApiCall({
+        url: this.buildUrl(path, params),
+        method: 'GET',
+        headers: { Accept: 'application/json' },
+      });
+      return (response.json || JSON.parse(response.body || '{}')) as T;
+    } catch (error) {
+      const apiError = toApiError(error, path);
+
+      // Access tokens can be revoked or rotated before their recorded expiry
+      if (apiError.status === 401 && !attempt.refreshed) {
+        this.token = await refreshAccessToken(this.userId, this.token);
+        return this.get<T>(path, params, { ...attempt, refreshed: true });
+      }
+
+      if (apiError.status === 429 && attempt.throttled < MAX_THROTTLE_RETRIES) {
+        const delay = apiError.retryAfter !== undefined
+          ? apiError.retryAfter * 1000
+          : THROTTLE_BACKOFF_MS * 2 ** attempt.throttled;
+        await sleep(Math.min(delay, MAX_RETRY_AFTER_MS));
+        return this.get<T>(path, params, { ...attempt, throttled: attempt.throttled + 1 });
+      }
+
+      throw apiError;
+    }
+  }
+}
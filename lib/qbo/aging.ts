@@ -0,0 +1,313 @@
+/* Receivables and payables aging, read from the QBO aging reports */
+// The summary reports give one row per customer or vendor with an amount per
+// aging column; the detail reports list the open invoices or bills behind them.
+import { QboClient } from '../qbo';
+import {
+  QboReportResponse,
+  QboReportRow,
+  parseAmount,
+  parseReport,
+  flattenAccounts,
+  toRowArray,
+} from './reports';
+import { DateRange, formatDate, parseDate } from './periods';
+
+export const AGING_BUCKETS = ['0-30', '31-60', '61-90', '90+'] as const;
+
+export type AgingBucket = typeof AGING_BUCKETS[number];
+
+export type AgingBuckets = Record<AgingBucket, number>;
+
+export type AgingParty = {
+  id?: string;
+  name: string;
+  buckets: AgingBuckets;
+  current: number; // not yet due; counted in the 0-30 bucket
+  overdue: number;
+  total: number;
+};
+
+export type AgingSummary = {
+  asOf: string;
+  buckets: AgingBuckets;
+  current: number;
+  overdue: number;
+  total: number;
+  parties: AgingParty[];
+};
+
+export type UpcomingBill = {
+  id: string;
+  vendorId?: string;
+  vendor: string;
+  docNumber: string;
+  dueDate: string;
+  balance: number;
+  overdue: boolean;
+};
+
+export type UpcomingBills = {
+  from: string; // today
+  to: string;
+  bills: UpcomingBill[]; // due from today up to and including `to`
+  total: number;
+  overdue: { count: number; total: number }; // unpaid bills already past due
+};
+
+export type OpenItem = {
+  id?: string; // id of the QBO transaction, carried on the type cell
+  date: string;
+  type: string;
+  docNumber: string;
+  dueDate: string;
+  amount: number;
+  openBalance: number;
+  daysOverdue: number; // 0 when not yet due
+  bucket: AgingBucket;
+};
+
+// Column keys by title, for responses whose columns carry no ColKey metadata
+const DETAIL_COLUMN_TITLES: Record<string, string> = {
+  'date': 'tx_date',
+  'transaction type': 'txn_type',
+  'num': 'doc_num',
+  'due date': 'due_date',
+  'amount': 'subt_amount',
+  'open balance': 'subt_open_bal',
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const UPCOMING_BILL_DAYS = 30;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const emptyBuckets = (): AgingBuckets => ({ '0-30': 0, '31-60': 0, '61-90': 0, '90+': 0 });
+
+export function bucketForDays(daysOverdue: number): AgingBucket {
+  if (daysOverdue <= 30) return '0-30';
+  if (daysOverdue <= 60) return '31-60';
+  if (daysOverdue <= 90) return '61-90';
+  return '90+';
+}
+
+// QBO titles its aging columns "Current", "1 - 30", ... "91 and over"; the
+// first number in the title is enough to place a column in a bucket.
+function bucketForColumn(title: string): AgingBucket | null {
+  const normalized = title.trim().toLowerCase();
+  if (normalized === 'current') return '0-30';
+  const start = normalized.match(/\d+/);
+  return start ? bucketForDays(parseInt(start[0])) : null;
+}
+
+// Aging is reported as of the end of the selected period, or today while the
+// period is still running
+export function agingDate(range: DateRange, today = new Date()): string {
+  const todayString = formatDate(today);
+  return range.to < todayString ? range.to : todayString;
+}
+
+export function daysBetween(from: string, to: string): number {
+  const start = parseDate(from);
+  const end = parseDate(to);
+  if (!start || !end) return 0;
+  return Math.round((end.getTime() - start.getTime()) / DAY_MS);
+}
+
+export function parseAgingSummary(raw: QboReportResponse, asOf: string): AgingSummary {
+  const report = parseReport(raw);
+  const columns = report.columns.map(column => ({
+    bucket: bucketForColumn(column.title),
+    current: column.key === 'current' || column.title.trim().toLowerCase() === 'current',
+  }));
+
+  const parties = flattenAccounts(report.rows).map(row => {
+    const buckets = emptyBuckets();
+    let current = 0;
+    columns.forEach((column, i) => {
+      if (!column.bucket) return;
+      buckets[column.bucket] += row.values[i] || 0;
+      if (column.current) current += row.values[i] || 0;
+    });
+    const total = AGING_BUCKETS.reduce((sum, bucket) => sum + buckets[bucket], 0);
+    return {
+      id: row.id,
+      name: row.name,
+      buckets,
+      current: round(current),
+      overdue: round(total - current),
+      total: round(total),
+    };
+  });
+
+  const buckets = emptyBuckets();
+  for (const party of parties) {
+    for (const bucket of AGING_BUCKETS) buckets[bucket] = round(buckets[bucket] + party.buckets[bucket]);
+  }
+  const current = round(parties.reduce((sum, party) => sum + party.current, 0));
+  const total = round(parties.reduce((sum, party) => sum + party.total, 0));
+
+  return { asOf, buckets, current, overdue: round(total - current), total, parties };
+}
+
+export function parseOpenItems(raw: QboReportResponse, asOf: string): OpenItem[] {
+  const columnIndex = new Map<string, number>();
+  (raw.Columns?.Column || []).forEach((column, i) => {
+    const key = column.MetaData?.find(meta => meta.Name === 'ColKey')?.Value
+      || DETAIL_COLUMN_TITLES[(column.ColTitle || '').toLowerCase()];
+    if (key && !columnIndex.has(key)) columnIndex.set(key, i);
+  });
+
+  const items: OpenItem[] = [];
+
+  function visit(rows: QboReportRow[]) {
+    for (const row of rows) {
+      if (row.ColData) {
+        const cell = (key: string) => {
+          const index = columnIndex.get(key);
+          return index === undefined ? undefined : row.ColData?.[index];
+        };
+        const date = cell('tx_date')?.value || '';
+
+        if (DATE_PATTERN.test(date)) {
+          const dueDate = cell('due_date')?.value || date;
+          const daysOverdue = Math.max(0, daysBetween(dueDate, asOf));
+          items.push({
+            id: cell('txn_type')?.id || undefined,
+            date,
+            type: cell('txn_type')?.value || '',
+            docNumber: cell('doc_num')?.value || '',
+            dueDate,
+            amount: parseAmount(cell('subt_amount')?.value),
+            openBalance: parseAmount(cell('subt_open_bal')?.value),
+            daysOverdue,
+            bucket: bucketForDays(daysOverdue),
+          });
+        }
+      }
+      visit(toRowArray(row.Rows));
+    }
+  }
+
+  visit(toRowArray(raw.Rows));
+  // Most overdue first
+  return items.sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+}
+
+export async function fetchReceivablesAging(client: QboClient, asOf: string): Promise<AgingSummary> {
+  const raw = await client.getReport('AgedReceivables', { report_date: asOf, aging_method: 'Report_Date' });
+  return parseAgingSummary(raw, asOf);
+}
+
+export async function fetchCustomerInvoices(client: QboClient, customerId: string, asOf: string): Promise<OpenItem[]> {
+  const raw = await client.getReport('AgedReceivableDetail', {
+    report_date: asOf,
+    aging_method: 'Report_Date',
+    customer: customerId,
+  });
+  return parseOpenItems(raw, asOf);
+}
+
+export async function fetchPayablesAging(client: QboClient, asOf: string): Promise<AgingSummary> {
+  const raw = await client.getReport('AgedPayables', { report_date: asOf, aging_method: 'Report_Date' });
+  return parseAgingSummary(raw, asOf);
+}
+
+export async function fetchVendorBills(client: QboClient, vendorId: string, asOf: string): Promise<OpenItem[]> {
+  const raw = await client.getReport('AgedPayableDetail', {
+    report_date: asOf,
+    aging_method: 'Report_Date',
+    vendor: vendorId,
+  });
+  return parseOpenItems(raw, asOf);
+}
+
+type QboOpenDocument = {
+  Id: string;
+  DocNumber?: string;
+  DueDate?: string;
+  TxnDate?: string;
+  Balance?: number | string;
+  CustomerRef?: { value?: string; name?: string };
+  VendorRef?: { value?: string; name?: string };
+};
+
+export type OpenDocument = {
+  id: string;
+  partyId?: string;
+  party: string; // customer of an invoice, vendor of a bill
+  docNumber: string;
+  dueDate: string;
+  balance: number;
+};
+
+// Unpaid invoices or bills due on or before `dueBy`, earliest first. Reads the
+// entities rather than a report so the balances are always current.
+export async function fetchOpenDocuments(client: QboClient, entity: 'Invoice' | 'Bill', dueBy: string): Promise<OpenDocument[]> {
+  const documents = await client.query<QboOpenDocument>(
+    `select * from ${entity} where Balance > '0' and DueDate <= '${dueBy}' orderby DueDate maxresults 1000`
+  );
+
+  return documents
+    .map(document => {
+      const ref = entity === 'Invoice' ? document.CustomerRef : document.VendorRef;
+      return {
+        id: document.Id,
+        partyId: ref?.value,
+        party: ref?.name || '',
+        docNumber: document.DocNumber || '',
+        dueDate: document.DueDate || document.TxnDate || '',
+        balance: parseAmount(document.Balance),
+      };
+    })
+    .filter(document => document.balance > 0)
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+}
+
+// Unpaid bills due within the next `days` days, plus those already past due
+export async function fetchUpcomingBills(client: QboClient, today = new Date(), days = UPCOMING_BILL_DAYS): Promise<UpcomingBills> {
+  const from = formatDate(today);
+  const to = formatDate(new Date(today.getFullYear(), today.getMonth(), today.getDate() + days));
+
+  const bills = (await fetchOpenDocuments(client, 'Bill', to)).map(bill => ({
+    id: bill.id,
+    vendorId: bill.partyId,
+    vendor: bill.party,
+    docNumber: bill.docNumber,
+    dueDate: bill.dueDate || from,
+    balance: bill.balance,
+    overdue: (bill.dueDate || from) < from,
+  }));
+
+  const upcoming = bills.filter(bill => !bill.overdue);
+  const overdue = bills.filter(bill => bill.overdue);
+
+  return {
+    from,
+    to,
+    bills: upcoming,
+    total: round(upcoming.reduce((sum, bill) => sum + bill.balance, 0)),
+    overdue: {
+      count: overdue.length,
+      total: round(overdue.reduce((sum, bill) => sum + bill.balance, 0)),
+    },
+  };
+}
+
+function daysOutstanding(balance: number, flow: number, days: number): number | null {
+  if (flow <= 0 || days <= 0) return null;
+  return Math.round((balance / flow) * days * 10) / 10;
+}
+
+// Days sales outstanding: receivables at the end of the period over the revenue
+// earned in it, scaled to the period's length. Null without revenue.
+export function daysSalesOutstanding(receivables: number, revenue: number, days: number): number | null {
+  return daysOutstanding(receivables, revenue, days);
+}
+
+// Days payable outstanding: payables over the period's expenses (COGS included),
+// which stand in for purchases since the P&L does not report them.
+export function daysPayableOutstanding(payables: number, expenses: number, days: number): number | null {
+  return daysOutstanding(payables, expenses, days);
+}
@@ -0,0 +1,621 @@
+/* Budget vs actual, read from QBO budgets or budgets kept in the app */
+// The Budget entity holds the company's profit and loss budgets as one amount per
+// account per month; the BudgetVsActuals report, summarized by month, supplies the
+// actuals and the account layout. Budget amounts always come from the selected
+// Budget entity so the variance is against the budget the user picked.
+// Companies that do not budget in QuickBooks can keep an in-app budget instead
+// (BudgetEntry rows); it is compared against the monthly ProfitAndLoss.
+import { prisma } from '../db';
+import { QboClient } from '../qbo';
+import {
+  QboReportColumn,
+  QboReportResponse,
+  ParsedReport,
+  ReportAccount,
+  PROFIT_AND_LOSS_GROUPS,
+  EXPENSE_GROUPS,
+  findSection,
+  flattenAccounts,
+  parseReport,
+} from './reports';
+import { DateRange, fiscalYearStart, formatDate, getFiscalYearStartMonth, monthsInRange, parseDate } from './periods';
+
+export type QboBudget = {
+  Id: string;
+  Name?: string;
+  StartDate?: string;
+  EndDate?: string;
+  BudgetType?: string; // 'ProfitAndLoss' or 'BalanceSheet'
+  BudgetEntryType?: string; // 'Monthly', 'Quarterly' or 'Yearly'
+  Active?: boolean;
+  BudgetDetail?: Array<{
+    BudgetDate?: string;
+    Amount?: number | string;
+    AccountRef?: { value?: string; name?: string };
+    CustomerRef?: { value?: string };
+    ClassRef?: { value?: string };
+    DepartmentRef?: { value?: string };
+  }>;
+};
+
+export type BudgetInfo = {
+  id: string;
+  name: string;
+  startDate: string;
+  endDate: string;
+};
+
+export type BudgetAmounts = {
+  actual: number;
+  budget: number;
+  variance: number; // actual minus budget
+  variancePercent: number | null; // null without a budget
+  favorable: boolean | null; // null when on budget
+};
+
+export type BudgetMonth = {
+  label: string;
+  startDate: string;
+  endDate: string;
+};
+
+export type BudgetLine = {
+  accountId?: string;
+  account: string;
+  kind: 'income' | 'expense';
+  months: BudgetAmounts[]; // lines up with `months` on the result
+  total: BudgetAmounts;
+};
+
+export type BudgetVsActual = {
+  budget: BudgetInfo | null;
+  budgets: BudgetInfo[]; // profit and loss budgets to choose from
+  months: BudgetMonth[];
+  income: BudgetLine[];
+  expenses: BudgetLine[];
+  totals: {
+    income: BudgetAmounts;
+    expenses: BudgetAmounts;
+    netProfit: BudgetAmounts;
+  };
+};
+
+const INCOME_GROUPS: string[] = [PROFIT_AND_LOSS_GROUPS.income, PROFIT_AND_LOSS_GROUPS.otherIncome];
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Year and month of a YYYY-MM-DD date, which is how budget entries are keyed
+const monthKey = (date: string) => date.slice(0, 7);
+
+export function budgetAmounts(actual: number, budget: number, kind: BudgetLine['kind']): BudgetAmounts {
+  const variance = round(actual - budget);
+  return {
+    actual: round(actual),
+    budget: round(budget),
+    variance,
+    variancePercent: budget !== 0 ? round((variance / Math.abs(budget)) * 100) : null,
+    // Income over budget is good; expenses over budget are not
+    favorable: variance === 0 ? null : kind === 'income' ? variance > 0 : variance < 0,
+  };
+}
+
+function toBudgetInfo(budget: QboBudget): BudgetInfo {
+  return {
+    id: String(budget.Id),
+    name: budget.Name || `Budget ${budget.Id}`,
+    startDate: budget.StartDate || '',
+    endDate: budget.EndDate || '',
+  };
+}
+
+export async function fetchBudgets(client: QboClient): Promise<QboBudget[]> {
+  const budgets = await client.query<QboBudget>('select * from Budget maxresults 1000');
+  return budgets.filter(budget => budget.Active !== false && (!budget.BudgetType || budget.BudgetType === 'ProfitAndLoss'));
+}
+
+// The requested budget, or else the one covering most of the range (the latest
+// starting one on a tie)
+export function selectBudget(budgets: QboBudget[], range: DateRange, budgetId?: string | null): QboBudget | null {
+  if (budgetId) return budgets.find(budget => String(budget.Id) === budgetId) || null;
+
+  const overlap = (budget: QboBudget) => {
+    const from = budget.StartDate && budget.StartDate > range.from ? budget.StartDate : range.from;
+    const to = budget.EndDate && budget.EndDate < range.to ? budget.EndDate : range.to;
+    return from <= to ? monthsInRange({ from, to }).length : 0;
+  };
+
+  return budgets
+    .map(budget => ({ budget, months: overlap(budget) }))
+    .filter(candidate => candidate.months > 0)
+    .sort((a, b) => b.months - a.months || (b.budget.StartDate || '').localeCompare(a.budget.StartDate || ''))[0]?.budget || null;
+}
+
+type AccountBudgets = {
+  byId: Map<string, Map<string, number>>;
+  byName: Map<string, Map<string, number>>; // lower-cased names, for entries without an id
+};
+
+// Budget amounts by account, then by YYYY-MM. Entries split by customer, class or
+// department are added together.
+export function budgetByAccount(budget: QboBudget | null): AccountBudgets {
+  const budgets: AccountBudgets = { byId: new Map(), byName: new Map() };
+  const add = (map: Map<string, Map<string, number>>, key: string, month: string, amount: number) => {
+    const months = map.get(key) || new Map<string, number>();
+    months.set(month, (months.get(month) || 0) + amount);
+    map.set(key, months);
+  };
+
+  for (const detail of budget?.BudgetDetail || []) {
+    const accountId = detail.AccountRef?.value;
+    const accountName = detail.AccountRef?.name?.trim().toLowerCase();
+    if (!detail.BudgetDate || (!accountId && !accountName)) continue;
+    const amount = typeof detail.Amount === 'number' ? detail.Amount : parseFloat(detail.Amount || '0') || 0;
+    if (accountId) add(budgets.byId, accountId, monthKey(detail.BudgetDate), amount);
+    else if (accountName) add(budgets.byName, accountName, monthKey(detail.BudgetDate), amount);
+  }
+  return budgets;
+}
+
+// Value columns of the report with the month they belong to and whether they hold
+// actuals. Monthly BudgetVsActuals reports nest Actual, Budget, $ Over Budget and
+// % of Budget under each month's column; a flat column counts as actuals.
+function actualColumns(raw: QboReportResponse): Array<{ index: number; title: string; startDate?: string; endDate?: string }> {
+  const meta = (column: QboReportColumn, name: string) => column.MetaData?.find(m => m.Name === name)?.Value;
+  const leaves: Array<{ index: number; title: string; startDate?: string; endDate?: string; actual: boolean }> = [];
+
+  for (const column of (raw.Columns?.Column || []).slice(1)) {
+    const children = column.Columns?.Column;
+    const period = { title: column.ColTitle || '', startDate: meta(column, 'StartDate'), endDate: meta(column, 'EndDate') };
+    if (children && children.length > 0) {
+      for (const child of children) {
+        leaves.push({ ...period, index: leaves.length, actual: /actual/i.test(child.ColTitle || '') });
+      }
+    } else {
+      leaves.push({ ...period, index: leaves.length, actual: !/budget/i.test(column.ColTitle || '') });
+    }
+  }
+
+  return leaves
+    .filter(leaf => leaf.actual && leaf.title.toLowerCase() !== 'total')
+    .map(({ index, title, startDate, endDate }) => ({ index, title, startDate, endDate }));
+}
+
+function accountsByKind(report: ParsedReport): Array<{ account: ReportAccount; kind: BudgetLine['kind'] }> {
+  const accounts: Array<{ account: ReportAccount; kind: BudgetLine['kind'] }> = [];
+  for (const group of [...INCOME_GROUPS, ...EXPENSE_GROUPS]) {
+    const section = findSection(report, group);
+    if (!section) continue;
+    const kind: BudgetLine['kind'] = INCOME_GROUPS.includes(group) ? 'income' : 'expense';
+    accounts.push(...flattenAccounts(section.rows).map(account => ({ account, kind })));
+  }
+  return accounts;
+}
+
+// Builds the per-account, per-month comparison from a BudgetVsActuals report and
+// the selected budget. Accounts with neither actuals nor a budget are left out.
+export function compareToBudget(raw: unknown, budget: QboBudget | null, range: DateRange): Pick<BudgetVsActual, 'months' | 'income' | 'expenses' | 'totals'> {
+  const report = parseReport(raw);
+  const columns = actualColumns((raw || {}) as QboReportResponse);
+
+  // Fall back to the calendar months of the range when the columns carry no dates
+  const rangeMonths = monthsInRange(range);
+  const months: BudgetMonth[] = columns.length > 0
+    ? columns.map((column, i) => ({
+        label: column.title,
+        startDate: column.startDate || rangeMonths[i]?.start || range.from,
+        endDate: column.endDate || rangeMonths[i]?.end || range.to,
+      }))
+    : rangeMonths.map(month => ({
+        label: month.date.toLocaleDateString('en-US', { month: 'short', year: 'numeric' }),
+        startDate: month.start,
+        endDate: month.end,
+      }));
+
+  const budgets = budgetByAccount(budget);
+  const income: BudgetLine[] = [];
+  const expenses: BudgetLine[] = [];
+
+  for (const { account, kind } of accountsByKind(report)) {
+    const planned = (account.id && budgets.byId.get(account.id)) || budgets.byName.get(account.name.trim().toLowerCase());
+    const monthly = months.map((month, i) => {
+      const actual = columns[i] ? account.values[columns[i].index] || 0 : 0;
+      return budgetAmounts(actual, planned?.get(monthKey(month.startDate)) || 0, kind);
+    });
+    if (monthly.every(amounts => amounts.actual === 0 && amounts.budget === 0)) continue;
+
+    const line: BudgetLine = {
+      accountId: account.id,
+      account: account.name,
+      kind,
+      months: monthly,
+      total: budgetAmounts(
+        monthly.reduce((sum, amounts) => sum + amounts.actual, 0),
+        monthly.reduce((sum, amounts) => sum + amounts.budget, 0),
+        kind
+      ),
+    };
+    (kind === 'income' ? income : expenses).push(line);
+  }
+
+  const sum = (lines: BudgetLine[], key: 'actual' | 'budget') => lines.reduce((total, line) => total + line.total[key], 0);
+  const totalIncome = budgetAmounts(sum(income, 'actual'), sum(income, 'budget'), 'income');
+  const totalExpenses = budgetAmounts(sum(expenses, 'actual'), sum(expenses, 'budget'), 'expense');
+
+  return {
+    months,
+    income,
+    expenses,
+    totals: {
+      income: totalIncome,
+      expenses: totalExpenses,
+      netProfit: budgetAmounts(totalIncome.actual - totalExpenses.actual, totalIncome.budget - totalExpenses.budget, 'income'),
+    },
+  };
+}
+
+// QBO budgets come first; the in-app budget is used when none covers the period
+export async function fetchBudgetVsActual(client: QboClient, range: DateRange, budgetId?: string | null): Promise<BudgetVsActual> {
+  const [qboBudgets, appBudget] = await Promise.all([fetchBudgets(client), getAppBudget(client.realmId, range)]);
+  const budgets = appBudget ? [...qboBudgets, appBudget] : qboBudgets;
+  const budget = budgetId ? selectBudget(budgets, range, budgetId) : selectBudget(qboBudgets, range) || appBudget;
+
+  // Without a QBO budget the actuals come from the P&L, which needs no QBO budgeting
+  const params = { start_date: range.from, end_date: range.to, summarize_column_by: 'Month' };
+  const raw = budget && budget.Id !== APP_BUDGET_ID
+    ? await client.getReport('BudgetVsActuals', params)
+    : await client.getReport('ProfitAndLoss', params);
+
+  return {
+    budget: budget ? toBudgetInfo(budget) : null,
+    budgets: budgets.map(toBudgetInfo),
+    ...compareToBudget(raw, budget, range),
+  };
+}
+
+/* In-app budgets */
+// Edited a fiscal year at a time as a grid of P&L accounts by month. Lines are
+// keyed by QBO account id, so a renamed account keeps its budget; names are only
+// used to match CSV rows that carry no account id.
+
+export const APP_BUDGET_ID = 'app';
+
+export type BudgetGridAccount = {
+  id: string;
+  name: string;
+  kind: BudgetLine['kind'];
+};
+
+export type BudgetGridLine = {
+  accountId: string;
+  accountName: string;
+  amounts: number[]; // one per month of the fiscal year
+};
+
+export type BudgetGrid = {
+  fiscalYear: { startYear: number; from: string; to: string };
+  months: BudgetMonth[];
+  accounts: BudgetGridAccount[]; // this and last fiscal year's P&L accounts
+  lines: BudgetGridLine[];
+  // Starting points for "copy from last year", month for month
+  lastYear: { actuals: BudgetGridLine[]; budget: BudgetGridLine[] };
+};
+
+export type BudgetCsvImport = {
+  lines: BudgetGridLine[];
+  unmatched: string[]; // account names not found in the P&L
+  errors: string[];
+};
+
+// The fiscal year that starts in the given calendar year
+export function budgetFiscalYear(startYear: number, fiscalYearStartMonth: number): DateRange {
+  return {
+    from: formatDate(new Date(startYear, fiscalYearStartMonth - 1, 1)),
+    to: formatDate(new Date(startYear + 1, fiscalYearStartMonth - 1, 0)),
+    type: 'YEAR',
+  };
+}
+
+// The fiscal year a `year` parameter names (its starting calendar year), or the
+// current one; null when the parameter is not a year
+export async function resolveBudgetYear(client: QboClient, value: unknown): Promise<BudgetGrid['fiscalYear'] | null> {
+  const fiscalYearStartMonth = getFiscalYearStartMonth(await client.getCompanyInfo());
+  const startYear = value === null || value === undefined || value === ''
+    ? fiscalYearStart(new Date(), fiscalYearStartMonth).getFullYear()
+    : Number(value);
+  if (!Number.isInteger(startYear) || startYear < 1900 || startYear > 2999) return null;
+
+  const range = budgetFiscalYear(startYear, fiscalYearStartMonth);
+  return { startYear, from: range.from, to: range.to };
+}
+
+const budgetMonths = (range: { from: string; to: string }): BudgetMonth[] =>
+  monthsInRange(range).map(month => ({
+    label: month.date.toLocaleDateString('en-US', { month: 'short', year: 'numeric' }),
+    startDate: month.start,
+    endDate: month.end,
+  }));
+
+async function getBudgetEntries(realmId: string, range: { from: string; to: string }) {
+  return prisma.budgetEntry.findMany({
+    where: { realmId, month: { gte: monthKey(range.from), lte: monthKey(range.to) } },
+    orderBy: [{ accountName: 'asc' }, { month: 'asc' }],
+  });
+}
+
+// The company's in-app budget for the months of the range, shaped like a QBO
+// Budget so the comparison treats both alike; null when nothing is budgeted
+export async function getAppBudget(realmId: string, range: DateRange): Promise<QboBudget | null> {
+  const entries = await getBudgetEntries(realmId, range);
+  if (entries.length === 0) return null;
+
+  const first = parseDate(`${entries.reduce((min, entry) => (entry.month < min ? entry.month : min), entries[0].month)}-01`);
+  const last = parseDate(`${entries.reduce((max, entry) => (entry.month > max ? entry.month : max), entries[0].month)}-01`);
+
+  return {
+    Id: APP_BUDGET_ID,
+    Name: 'In-app budget',
+    StartDate: first ? formatDate(first) : range.from,
+    EndDate: last ? formatDate(new Date(last.getFullYear(), last.getMonth() + 1, 0)) : range.to,
+    BudgetType: 'ProfitAndLoss',
+    BudgetEntryType: 'Monthly',
+    Active: true,
+    BudgetDetail: entries.map(entry => ({
+      BudgetDate: `${entry.month}-01`,
+      Amount: entry.amount,
+      AccountRef: { value: entry.accountId, name: entry.accountName },
+    })),
+  };
+}
+
+function linesFromEntries(
+  entries: Array<{ accountId: string; accountName: string; month: string; amount: number }>,
+  months: BudgetMonth[]
+): BudgetGridLine[] {
+  const index = new Map(months.map((month, i) => [monthKey(month.startDate), i]));
+  const lines = new Map<string, BudgetGridLine>();
+  for (const entry of entries) {
+    const i = index.get(entry.month);
+    if (i === undefined) continue;
+    const line = lines.get(entry.accountId) || { accountId: entry.accountId, accountName: entry.accountName, amounts: months.map(() => 0) };
+    line.amounts[i] += entry.amount;
+    lines.set(entry.accountId, line);
+  }
+  return Array.from(lines.values());
+}
+
+// P&L accounts of one or more reports, de-duplicated by id. Rows without an
+// account id cannot be budgeted and are left out.
+function gridAccounts(reports: ParsedReport[]): BudgetGridAccount[] {
+  const accounts = new Map<string, BudgetGridAccount>();
+  for (const report of reports) {
+    for (const { account, kind } of accountsByKind(report)) {
+      if (account.id && !accounts.has(account.id)) accounts.set(account.id, { id: account.id, name: account.name, kind });
+    }
+  }
+  const all = Array.from(accounts.values());
+  return [...all.filter(account => account.kind === 'income'), ...all.filter(account => account.kind === 'expense')];
+}
+
+// By id when one is given; by name only when there is none, so a wrong id is not
+// silently matched to another account of the same name
+export function matchAccount(accounts: BudgetGridAccount[], id: string | undefined, name: string): BudgetGridAccount | null {
+  if (id) return accounts.find(account => account.id === id) || null;
+  const target = name.trim().toLowerCase();
+  return accounts.find(account => account.name.toLowerCase() === target) || null;
+}
+
+export async function fetchBudgetGrid(client: QboClient, year: BudgetGrid['fiscalYear']): Promise<BudgetGrid> {
+  const fiscalYear = year;
+  const lastFiscalYear = budgetFiscalYear(year.startYear - 1, Number(year.from.slice(5, 7)));
+  const months = budgetMonths(fiscalYear);
+  const lastYearMonths = budgetMonths(lastFiscalYear);
+
+  const [currentRaw, lastYearRaw, entries, lastYearEntries] = await Promise.all([
+    client.getReport('ProfitAndLoss', { start_date: fiscalYear.from, end_date: fiscalYear.to }),
+    client.getReport('ProfitAndLoss', { start_date: lastFiscalYear.from, end_date: lastFiscalYear.to, summarize_column_by: 'Month' }),
+    getBudgetEntries(client.realmId, fiscalYear),
+    getBudgetEntries(client.realmId, lastFiscalYear),
+  ]);
+
+  const lastYearReport = parseReport(lastYearRaw);
+  const accounts = gridAccounts([parseReport(currentRaw), lastYearReport]);
+
+  // Last year's monthly actuals, read the same way as for budget vs actual
+  const { income, expenses } = compareToBudget(lastYearRaw, null, lastFiscalYear);
+  const lastYearActuals = [...income, ...expenses].flatMap(line => line.accountId ? [{
+    accountId: line.accountId,
+    accountName: line.account,
+    amounts: months.map((_, i) => line.months[i]?.actual || 0),
+  }] : []);
+
+  return {
+    fiscalYear: year,
+    months,
+    accounts,
+    lines: linesFromEntries(entries, months),
+    lastYear: {
+      actuals: lastYearActuals,
+      budget: linesFromEntries(lastYearEntries, lastYearMonths),
+    },
+  };
+}
+
+const toAmount = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === '') return 0;
+  const amount = typeof value === 'number' ? value : parseFloat(String(value));
+  return Number.isFinite(amount) ? round(amount) : null;
+};
+
+// Validates grid lines sent by the editor; lines for the same account id are
+// added together. Returns null when the payload is malformed.
+export function parseBudgetGridLines(body: unknown, monthCount: number): BudgetGridLine[] | null {
+  const input = (body || {}) as { lines?: unknown };
+  if (!Array.isArray(input.lines)) return null;
+
+  const lines = new Map<string, BudgetGridLine>();
+  for (const raw of input.lines) {
+    const line = (raw || {}) as { accountId?: unknown; accountName?: unknown; amounts?: unknown };
+    const accountId = typeof line.accountId === 'string' ? line.accountId.trim() : '';
+    const accountName = typeof line.accountName === 'string' ? line.accountName.trim() : '';
+    if (!accountId || !accountName || !Array.isArray(line.amounts) || line.amounts.length !== monthCount) return null;
+
+    const amounts = line.amounts.map(toAmount);
+    if (amounts.some(amount => amount === null)) return null;
+
+    const existing = lines.get(accountId);
+    lines.set(accountId, {
+      accountId,
+      accountName,
+      amounts: (amounts as number[]).map((amount, i) => round(amount + (existing?.amounts[i] || 0))),
+    });
+  }
+  return Array.from(lines.values());
+}
+
+// Replaces the company's budget for the fiscal year; zero amounts are not stored
+export async function saveBudgetGrid(realmId: string, fiscalYear: BudgetGrid['fiscalYear'], lines: BudgetGridLine[]): Promise<void> {
+  const months = monthsInRange(fiscalYear).map(month => monthKey(month.start));
+
+  await prisma.$transaction([
+    prisma.budgetEntry.deleteMany({ where: { realmId, month: { in: months } } }),
+    prisma.budgetEntry.createMany({
+      data: lines.flatMap(line =>
+        line.amounts
+          .map((amount, i) => ({ realmId, accountId: line.accountId, accountName: line.accountName, month: months[i], amount }))
+          .filter(entry => entry.month && entry.amount !== 0)
+      ),
+    }),
+  ]);
+}
+
+// Splits CSV text into rows of cells, honouring quoted cells with commas, quotes
+// and line breaks
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(value => value.trim()));
+}
+
+// Amounts as typed in spreadsheets: currency symbols, thousands separators and
+// accounting-style negatives in parentheses
+function parseCsvAmount(value: string): number | null {
+  const trimmed = value.trim();
+  if (!trimmed) return 0;
+  const negative = /^\(.*\)$/.test(trimmed) || trimmed.startsWith('-');
+  const amount = parseFloat(trimmed.replace(/[()$,\s-]/g, ''));
+  if (!Number.isFinite(amount)) return null;
+  return round(negative ? -amount : amount);
+}
+
+// Index of the fiscal-year month a header or cell names: YYYY-MM, "Jan 2026",
+// "January 2026" or just "Jan"
+function monthIndex(value: string, months: BudgetMonth[]): number {
+  const text = value.trim().toLowerCase();
+  const iso = text.match(/^(\d{4})-(\d{1,2})(?:-\d{1,2})?$/);
+  if (iso) {
+    const key = `${iso[1]}-${iso[2].padStart(2, '0')}`;
+    return months.findIndex(month => monthKey(month.startDate) === key);
+  }
+
+  const named = text.match(/^([a-z]+)\.?\s*(?:'?(\d{2}|\d{4}))?$/);
+  if (!named) return -1;
+  return months.findIndex(month => {
+    const date = parseDate(month.startDate);
+    if (!date) return false;
+    const name = date.toLocaleDateString('en-US', { month: 'long' }).toLowerCase();
+    if (named[1].length < 3 || !name.startsWith(named[1])) return false;
+    if (!named[2]) return true;
+    const year = named[2].length === 2 ? 2000 + parseInt(named[2]) : parseInt(named[2]);
+    return date.getFullYear() === year;
+  });
+}
+
+// Reads a budget from CSV in either layout:
+//   wide: Account[,Account ID],Jan 2026,Feb 2026,...   (one row per account)
+//   long: Account[,Account ID],Month,Amount            (one row per account and month)
+export function parseBudgetCsv(csv: string, months: BudgetMonth[], accounts: BudgetGridAccount[]): BudgetCsvImport {
+  const rows = parseCsv(csv);
+  const errors: string[] = [];
+  if (rows.length < 2) return { lines: [], unmatched: [], errors: ['The file needs a header row and at least one account'] };
+
+  const header = rows[0].map(cell => cell.trim().toLowerCase());
+  const nameColumn = header.findIndex(cell => cell === 'account' || cell === 'account name' || cell === 'name');
+  const idColumn = header.findIndex(cell => cell === 'account id' || cell === 'id');
+  const monthColumn = header.indexOf('month');
+  const amountColumn = header.findIndex(cell => cell === 'amount' || cell === 'budget');
+  const monthColumns = header
+    .map((cell, column) => ({ column, month: monthIndex(cell, months) }))
+    .filter(entry => entry.month >= 0);
+
+  if (nameColumn < 0) return { lines: [], unmatched: [], errors: ['No "Account" column found'] };
+  const long = monthColumn >= 0 && amountColumn >= 0;
+  if (!long && monthColumns.length === 0) {
+    return { lines: [], unmatched: [], errors: ['No month columns for this fiscal year found'] };
+  }
+
+  const lines = new Map<string, BudgetGridLine>();
+  const unmatched = new Set<string>();
+
+  rows.slice(1).forEach((row, i) => {
+    const name = (row[nameColumn] || '').trim();
+    if (!name) return;
+    const account = matchAccount(accounts, idColumn >= 0 ? row[idColumn]?.trim() : undefined, name);
+    if (!account) {
+      unmatched.add(name);
+      return;
+    }
+
+    const line = lines.get(account.id) || { accountId: account.id, accountName: account.name, amounts: months.map(() => 0) };
+    const cells = long
+      ? [{ month: monthIndex(row[monthColumn] || '', months), value: row[amountColumn] || '' }]
+      : monthColumns.map(entry => ({ month: entry.month, value: row[entry.column] || '' }));
+
+    for (const { month, value } of cells) {
+      const amount = parseCsvAmount(value);
+      if (month < 0) {
+        errors.push(`Row ${i + 2}: "${row[monthColumn]}" is not a month of this fiscal year`);
+      } else if (amount === null) {
+        errors.push(`Row ${i + 2}: "${value}" is not an amount`);
+      } else {
+        line.amounts[month] = round(line.amounts[month] + amount);
+      }
+    }
+    lines.set(account.id, line);
+  });
+
+  return { lines: Array.from(lines.values()), unmatched: Array.from(unmatched), errors };
+}
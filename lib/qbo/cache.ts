@@ -0,0 +1,155 @@
+/* Postgres-backed QBO report cache with stale-while-revalidate */
+import { Prisma } from '@prisma/client';
+import { prisma } from '../db';
+import { parseDate } from './periods';
+
+type CacheParams = Record<string, string | number | undefined | null>;
+
+export type CacheKey = {
+  realmId: string;
+  reportName: string;
+  params: CacheParams;
+};
+
+export type CachedReport<T> = {
+  data: T;
+  fetchedAt: Date;
+  stale: boolean; // served from cache while a background refresh runs
+};
+
+// Reports covering the current month (or later) can still change at any time;
+// closed months change less often, but QBO allows backdated entries and edits to
+// closed periods, so an explicit refresh re-fetches them as well.
+const OPEN_PERIOD_TTL_MS = 15 * 60 * 1000;
+const CLOSED_PERIOD_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Requests already on their way to QBO, so concurrent misses share one call
+const inFlight = new Map<string, Promise<CachedReport<unknown>>>();
+
+// Canonical form of the parameters: sorted, without empty values
+export function cacheParams(params: CacheParams): string {
+  const search = new URLSearchParams();
+  for (const key of Object.keys(params).sort()) {
+    const value = params[key];
+    if (value !== undefined && value !== null && value !== '') {
+      search.set(key, String(value));
+    }
+  }
+  return search.toString();
+}
+
+export function isClosedPeriod(params: CacheParams, now = new Date()): boolean {
+  const endDate = params.end_date ?? params.report_date;
+  if (typeof endDate !== 'string') return false;
+
+  const end = parseDate(endDate);
+  if (!end) return false;
+
+  const currentMonthStart = new Date(now.getFullYear(), now.getMonth(), 1);
+  return end < currentMonthStart;
+}
+
+export function reportTtl(params: CacheParams, now = new Date()): number {
+  return isClosedPeriod(params, now) ? CLOSED_PERIOD_TTL_MS : OPEN_PERIOD_TTL_MS;
+}
+
+async function readEntry(key: CacheKey, params: string) {
+  try {
+    return await prisma.qboReportCache.findUnique({
+      where: {
+        realmId_reportName_params: {
+          realmId: key.realmId,
+          reportName: key.reportName,
+          params,
+        },
+      },
+    });
+  } catch (error) {
+    // The dashboard keeps working against QBO directly if the cache is unavailable
+    console.error('Report cache read error:', error);
+    return null;
+  }
+}
+
+function fetchAndStore<T>(key: CacheKey, params: string, fetcher: () => Promise<T>): Promise<CachedReport<T>> {
+  const id = `${key.realmId}:${key.reportName}?${params}`;
+  const pending = inFlight.get(id);
+  if (pending) return pending as Promise<CachedReport<T>>;
+
+  const request = (async () => {
+    const data = await fetcher();
+    const fetchedAt = new Date();
+    const expiresAt = new Date(fetchedAt.getTime() + reportTtl(key.params, fetchedAt));
+
+    try {
+      await prisma.qboReportCache.upsert({
+        where: {
+          realmId_reportName_params: {
+            realmId: key.realmId,
+            reportName: key.reportName,
+            params,
+          },
+        },
+        create: {
+          realmId: key.realmId,
+          reportName: key.reportName,
+          params,
+          data: data as Prisma.InputJsonValue,
+          fetchedAt,
+          expiresAt,
+        },
+        update: {
+          data: data as Prisma.InputJsonValue,
+          fetchedAt,
+          expiresAt,
+        },
+      });
+    } catch (error) {
+      console.error('Report cache write error:', error);
+    }
+
+    return { data, fetchedAt, stale: false };
+  })();
+
+  inFlight.set(id, request);
+  request.then(
+    () => inFlight.delete(id),
+    () => inFlight.delete(id)
+  );
+
+  return request;
+}
+
+// Serves a cached report when there is one, refreshing expired entries in the
+// background. `refresh` (the user's Refresh button) skips the cache whatever
+// the period; the long TTL of closed periods only applies to passive reads.
+export async function getCachedReport<T>(
+  key: CacheKey,
+  fetcher: () => Promise<T>,
+  options: { refresh?: boolean } = {}
+): Promise<CachedReport<T>> {
+  const params = cacheParams(key.params);
+
+  if (options.refresh) {
+    return fetchAndStore(key, params, fetcher);
+  }
+
+  const entry = await readEntry(key, params);
+  if (!entry) {
+    return fetchAndStore(key, params, fetcher);
+  }
+
+  const stale = entry.expiresAt.getTime() <= Date.now();
+  if (stale) {
+    // Not awaited: the caller gets the cached copy now and the next request the new one
+    fetchAndStore(key, params, fetcher).catch(error => {
+      console.error(`Background refresh of ${key.reportName} failed:`, error);
+    });
+  }
+
+  return { data: entry.data as T, fetchedAt: entry.fetchedAt, stale };
+}
+
+export async function clearReportCache(realmId: string): Promise<void> {
+  await prisma.qboReportCache.deleteMany({ where: { realmId } });
+}
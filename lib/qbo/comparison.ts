@@ -0,0 +1,46 @@
+/* Previous-period figures the dashboard compares the selected range against */
+import { QboClient } from '../qbo';
+import { parseReport, extractExpenseBreakdown, ExpenseBreakdownItem } from './reports';
+import { ComparisonBasis, DateRange, comparisonRange } from './periods';
+import { computeKpis, kpiInputs } from './kpis';
+import { CustomMetric, metricValues } from './metrics';
+import { daysBetween } from './aging';
+
+export type PreviousPeriodData = {
+  range: DateRange | null;
+  expenseBreakdown: ExpenseBreakdownItem[];
+  kpis: Record<string, number | null> | null; // built-in KPIs and custom metrics by key
+};
+
+export async function getPreviousPeriodData(
+  client: QboClient,
+  range: DateRange,
+  basis: ComparisonBasis = 'PREVIOUS_PERIOD',
+  metrics: CustomMetric[] = []
+): Promise<PreviousPeriodData> {
+  const previous = comparisonRange(range, basis);
+  if (!previous) {
+    return { range: null, expenseBreakdown: [], kpis: null };
+  }
+
+  try {
+    const [profitLossRaw, balanceSheetRaw] = await Promise.all([
+      client.getReport('ProfitAndLoss', { start_date: previous.from, end_date: previous.to }),
+      client.getReport('BalanceSheet', { start_date: previous.from, end_date: previous.to }),
+    ]);
+    const previousProfitLoss = parseReport(profitLossRaw);
+
+    return {
+      range: previous,
+      expenseBreakdown: extractExpenseBreakdown(previousProfitLoss),
+      // The previous period has ended, so all of its days count towards DSO and DPO
+      kpis: {
+        ...computeKpis(kpiInputs(previousProfitLoss, parseReport(balanceSheetRaw), daysBetween(previous.from, previous.to) + 1)),
+        ...metricValues(metrics, previousProfitLoss),
+      },
+    };
+  } catch (error) {
+    console.error('Previous period data fetch error:', error);
+    return { range: previous, expenseBreakdown: [], kpis: null };
+  }
+}
@@ -0,0 +1,328 @@
+/* Consolidation of P&L data across several connected QBO companies */
+import { prisma } from '../db';
+import { QboClient, QboClientOptions, listConnectedRealms } from '../qbo';
+import {
+  AccountMatch,
+  ParsedReport,
+  ProfitLossSummary,
+  ExpenseBreakdownItem,
+  PROFIT_AND_LOSS_GROUPS,
+  EXPENSE_GROUPS,
+  extractProfitLossSummary,
+  extractExpenseBreakdown,
+  findAccount,
+  nodeValue,
+  ReportNode,
+} from './reports';
+import { TrendInterval, TrendPoint, trendPeriods } from './trends';
+
+export type EliminationAccount = {
+  realmId?: string; // omitted to match the account name in every company
+  accountName: string;
+};
+
+export type EliminationRule = {
+  id?: string;
+  name: string;
+  accounts: EliminationAccount[];
+};
+
+export type EliminationEntry = {
+  rule: string;
+  realmId: string;
+  accountName: string;
+  group: string;
+  amount: number;
+};
+
+export type EntityProfitLoss = {
+  realmId: string;
+  name: string;
+  profitLoss: ParsedReport;
+};
+
+export type ConsolidatedExpenseItem = ExpenseBreakdownItem & {
+  entities: Record<string, number>; // amount per realmId before eliminations
+  eliminated: number;
+};
+
+export type ConsolidatedProfitLoss = {
+  entities: Array<{ realmId: string; name: string; summary: ProfitLossSummary }>;
+  eliminations: { summary: ProfitLossSummary; entries: EliminationEntry[] };
+  consolidated: { summary: ProfitLossSummary; expenseBreakdown: ConsolidatedExpenseItem[] };
+};
+
+const SUMMARY_KEYS: Array<keyof ProfitLossSummary> = [
+  'revenue',
+  'costOfGoodsSold',
+  'grossProfit',
+  'operatingExpenses',
+  'netOperatingIncome',
+  'otherIncome',
+  'otherExpenses',
+  'expenses',
+  'netProfit',
+];
+
+function emptySummary(): ProfitLossSummary {
+  return {
+    revenue: 0,
+    costOfGoodsSold: 0,
+    grossProfit: 0,
+    operatingExpenses: 0,
+    netOperatingIncome: 0,
+    otherIncome: 0,
+    otherExpenses: 0,
+    expenses: 0,
+    netProfit: 0,
+  };
+}
+
+function addSummaries(a: ProfitLossSummary, b: ProfitLossSummary): ProfitLossSummary {
+  const result = emptySummary();
+  for (const key of SUMMARY_KEYS) {
+    result[key] = a[key] + b[key];
+  }
+  return result;
+}
+
+// Builds a summary from per-group amounts, deriving the subtotals the same way
+// extractProfitLossSummary falls back to when a report has no subtotal rows.
+function summaryFromGroups(amounts: Record<string, number>): ProfitLossSummary {
+  const g = PROFIT_AND_LOSS_GROUPS;
+  const revenue = amounts[g.income] || 0;
+  const costOfGoodsSold = amounts[g.costOfGoodsSold] || 0;
+  const operatingExpenses = amounts[g.expenses] || 0;
+  const otherIncome = amounts[g.otherIncome] || 0;
+  const otherExpenses = amounts[g.otherExpenses] || 0;
+  const grossProfit = revenue - costOfGoodsSold;
+  const netOperatingIncome = grossProfit - operatingExpenses;
+
+  return {
+    revenue,
+    costOfGoodsSold,
+    grossProfit,
+    operatingExpenses,
+    netOperatingIncome,
+    otherIncome,
+    otherExpenses,
+    expenses: costOfGoodsSold + operatingExpenses + otherExpenses,
+    netProfit: netOperatingIncome + otherIncome - otherExpenses,
+  };
+}
+
+type EliminationMatch = EliminationEntry & { topLevelName: string };
+
+// Whether `node` is `ancestor` itself or one of its sub-accounts
+function containsNode(ancestor: ReportNode, node: ReportNode): boolean {
+  if (ancestor === node) return true;
+  return ancestor.kind === 'section' && ancestor.rows.some(child => containsNode(child, node));
+}
+
+function findEliminations(entities: EntityProfitLoss[], rules: EliminationRule[], column?: number): EliminationMatch[] {
+  const candidates: Array<{ rule: string; realmId: string; match: AccountMatch }> = [];
+
+  for (const rule of rules) {
+    for (const account of rule.accounts) {
+      if (!account.accountName?.trim()) continue;
+
+      for (const entity of entities) {
+        if (account.realmId && account.realmId !== entity.realmId) continue;
+
+        const match = findAccount(entity.profitLoss, account.accountName);
+        if (match) candidates.push({ rule: rule.name, realmId: entity.realmId, match });
+      }
+    }
+  }
+
+  // An account mapped by more than one rule is only eliminated once, and a
+  // sub-account is not eliminated again when its parent account is, since the
+  // parent's amount already includes it
+  const kept = candidates.filter((candidate, i) =>
+    !candidates.some((other, j) =>
+      other.realmId === candidate.realmId &&
+      containsNode(other.match.node, candidate.match.node) &&
+      (other.match.node !== candidate.match.node || j < i)
+    )
+  );
+
+  return kept.flatMap(({ rule, realmId, match }) => {
+    const amount = nodeValue(match.node, column);
+    if (amount === 0) return [];
+    return [{
+      rule,
+      realmId,
+      accountName: match.node.kind === 'account' ? match.node.name : match.node.title,
+      group: match.group,
+      amount,
+      topLevelName: match.topLevel.kind === 'account' ? match.topLevel.name : match.topLevel.title,
+    }];
+  });
+}
+
+function consolidateExpenseBreakdown(
+  entities: EntityProfitLoss[],
+  eliminations: EliminationMatch[],
+  options: { limit?: number; column?: number }
+): ConsolidatedExpenseItem[] {
+  const { limit = 10, column } = options;
+  const items = new Map<string, ConsolidatedExpenseItem>();
+
+  // Categories are matched by name, since account IDs are specific to each company
+  for (const entity of entities) {
+    const breakdown = extractExpenseBreakdown(entity.profitLoss, { limit: Number.POSITIVE_INFINITY, column });
+    for (const expense of breakdown) {
+      const key = expense.name.toLowerCase();
+      const item = items.get(key) || { name: expense.name, value: 0, percentage: 0, entities: {}, eliminated: 0 };
+      item.value += expense.value;
+      item.entities[entity.realmId] = (item.entities[entity.realmId] || 0) + expense.value;
+      items.set(key, item);
+    }
+  }
+
+  for (const elimination of eliminations) {
+    if (!EXPENSE_GROUPS.includes(elimination.group)) continue;
+    const item = items.get(elimination.topLevelName.toLowerCase());
+    if (!item) continue;
+    item.value -= elimination.amount;
+    item.eliminated += elimination.amount;
+  }
+
+  const expenses = Array.from(items.values()).filter(item => item.value > 0);
+  const totalExpenses = expenses.reduce((sum, expense) => sum + expense.value, 0);
+
+  return expenses
+    .map(expense => ({
+      ...expense,
+      percentage: totalExpenses > 0 ? (expense.value / totalExpenses) * 100 : 0,
+    }))
+    .sort((a, b) => b.value - a.value)
+    .slice(0, limit);
+}
+
+export function consolidateProfitLoss(
+  entities: EntityProfitLoss[],
+  rules: EliminationRule[] = [],
+  options: { limit?: number; column?: number } = {}
+): ConsolidatedProfitLoss {
+  const entitySummaries = entities.map(entity => ({
+    realmId: entity.realmId,
+    name: entity.name,
+    summary: extractProfitLossSummary(entity.profitLoss, options.column),
+  }));
+
+  const matches = findEliminations(entities, rules, options.column);
+
+  // Eliminations are booked against the group each account was found in
+  const eliminatedByGroup: Record<string, number> = {};
+  for (const match of matches) {
+    eliminatedByGroup[match.group] = (eliminatedByGroup[match.group] || 0) - match.amount;
+  }
+  const eliminationSummary = summaryFromGroups(eliminatedByGroup);
+
+  const consolidatedSummary = entitySummaries.reduce(
+    (total, entity) => addSummaries(total, entity.summary),
+    eliminationSummary
+  );
+
+  return {
+    entities: entitySummaries,
+    eliminations: {
+      summary: eliminationSummary,
+      entries: matches.map(match => ({
+        rule: match.rule,
+        realmId: match.realmId,
+        accountName: match.accountName,
+        group: match.group,
+        amount: match.amount,
+      })),
+    },
+    consolidated: {
+      summary: consolidatedSummary,
+      expenseBreakdown: consolidateExpenseBreakdown(entities, matches, options),
+    },
+  };
+}
+
+// Combines each company's summarized P&L into one consolidated trend, applying
+// the elimination rules period by period.
+export function consolidateTrend(
+  entities: Array<{ realmId: string; name: string; report: ParsedReport }>,
+  rules: EliminationRule[] = [],
+  interval: TrendInterval = 'Month'
+): TrendPoint[] {
+  if (entities.length === 0) return [];
+
+  // Every company was asked for the same range and interval, so the period
+  // columns line up; the first company's columns provide the labels.
+  const profitLosses = entities.map(entity => ({ realmId: entity.realmId, name: entity.name, profitLoss: entity.report }));
+
+  return trendPeriods(entities[0].report, interval).map(period => {
+    const { summary } = consolidateProfitLoss(profitLosses, rules, { column: period.column }).consolidated;
+    return {
+      month: period.label,
+      startDate: period.startDate,
+      endDate: period.endDate,
+      revenue: Math.abs(summary.revenue),
+      expenses: Math.abs(summary.expenses),
+    };
+  });
+}
+
+function toEliminationAccounts(value: unknown): EliminationAccount[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter(account => account && typeof account.accountName === 'string' && account.accountName.trim())
+    .map(account => ({
+      realmId: typeof account.realmId === 'string' && account.realmId ? account.realmId : undefined,
+      accountName: account.accountName.trim(),
+    }));
+}
+
+export function parseEliminationRule(body: unknown): EliminationRule | null {
+  const input = (body || {}) as { name?: unknown; accounts?: unknown };
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  const accounts = toEliminationAccounts(input.accounts);
+  if (!name || accounts.length === 0) return null;
+  return { name, accounts };
+}
+
+export async function getEliminationRules(userId: string): Promise<EliminationRule[]> {
+  const rules = await prisma.eliminationRule.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return rules.map(rule => ({
+    id: rule.id,
+    name: rule.name,
+    accounts: toEliminationAccounts(rule.accounts),
+  }));
+}
+
+// Clients for the requested realms (all connected companies when none are given);
+// returns null if any requested realm is not connected for this user.
+export async function getConsolidationClients(
+  userId: string,
+  realmIds: string[],
+  options: QboClientOptions = {}
+): Promise<QboClient[] | null> {
+  const requested = realmIds.length > 0
+    ? Array.from(new Set(realmIds))
+    : (await listConnectedRealms(userId)).map(realm => realm.realmId);
+
+  if (requested.length === 0) return null;
+
+  const clients = await Promise.all(requested.map(realmId => QboClient.forUser(userId, realmId, options)));
+  if (clients.some(client => !client)) return null;
+
+  return clients as QboClient[];
+}
+
+// The oldest sync across the group, i.e. how current the consolidated figures are
+export function groupSyncedAt(clients: QboClient[]): Date | null {
+  return clients.reduce<Date | null>((oldest, client) => {
+    const syncedAt = client.syncedAt;
+    return syncedAt && (!oldest || syncedAt < oldest) ? syncedAt : oldest;
+  }, null);
+}
@@ -0,0 +1,227 @@
+/* Revenue and expense forecasts for the rest of the fiscal year */
+// Projects the monthly P&L trend forward with one of three simple methods. The
+// band around each projection is an approximate 80% interval from the method's
+// own one-step errors on the history, widening with the square root of the
+// number of months ahead.
+import { TrendPoint } from './trends';
+import { DateRange, formatDate, monthsInRange, parseDate } from './periods';
+
+export const FORECAST_METHODS = ['linear', 'average', 'seasonal'] as const;
+
+export type ForecastMethod = typeof FORECAST_METHODS[number];
+
+// Complete months of history the forecasts are fitted on; seasonal naive needs
+// at least a year of it
+export const FORECAST_HISTORY_MONTHS = 24;
+export const TRAILING_AVERAGE_MONTHS = 3;
+const SEASON_LENGTH = 12;
+
+const BAND_Z = 1.28; // two-sided 80%
+
+export type SeriesForecast = {
+  values: number[];
+  sigma: number; // typical one-step error
+};
+
+export type ForecastPoint = {
+  month: string;
+  startDate: string;
+  endDate: string;
+  revenue: number;
+  expenses: number;
+  revenueBand: [number, number];
+  expensesBand: [number, number];
+};
+
+export type YearEndProjection = {
+  fiscalYear: { from: string; to: string };
+  actualThrough: string | null; // end of the last complete month in the fiscal year
+  revenue: number;
+  expenses: number;
+  netProfit: number;
+  netProfitBand: [number, number];
+};
+
+export type FiscalYearForecast = {
+  method: ForecastMethod; // the method actually used (seasonal falls back without a year of history)
+  points: ForecastPoint[];
+  yearEnd: YearEndProjection;
+};
+
+export function isForecastMethod(value: string | null | undefined): value is ForecastMethod {
+  return !!value && (FORECAST_METHODS as readonly string[]).includes(value);
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const rms = (errors: number[]) =>
+  errors.length > 0 ? Math.sqrt(errors.reduce((sum, error) => sum + error * error, 0) / errors.length) : 0;
+
+const mean = (values: number[]) => (values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0);
+
+function linearForecast(history: number[], horizon: number): SeriesForecast {
+  const n = history.length;
+  if (n < 2) return { values: Array(horizon).fill(history[0] || 0), sigma: 0 };
+
+  // Least squares on the month index
+  const xMean = (n - 1) / 2;
+  const yMean = mean(history);
+  let covariance = 0;
+  let variance = 0;
+  history.forEach((y, x) => {
+    covariance += (x - xMean) * (y - yMean);
+    variance += (x - xMean) ** 2;
+  });
+  const slope = variance === 0 ? 0 : covariance / variance;
+  const intercept = yMean - slope * xMean;
+
+  const residuals = history.map((y, x) => y - (intercept + slope * x));
+  const sigma = n > 2 ? Math.sqrt(residuals.reduce((sum, r) => sum + r * r, 0) / (n - 2)) : 0;
+
+  return {
+    values: Array.from({ length: horizon }, (_, h) => intercept + slope * (n + h)),
+    sigma,
+  };
+}
+
+function averageForecast(history: number[], horizon: number): SeriesForecast {
+  const window = Math.min(TRAILING_AVERAGE_MONTHS, history.length);
+  const level = mean(history.slice(history.length - window));
+
+  const errors: number[] = [];
+  for (let t = window; t < history.length; t++) {
+    errors.push(history[t] - mean(history.slice(t - window, t)));
+  }
+
+  return { values: Array(horizon).fill(level), sigma: rms(errors) };
+}
+
+// Each month repeats the same month a year earlier (or the projection of it,
+// for horizons beyond a year)
+function seasonalForecast(history: number[], horizon: number): SeriesForecast {
+  const series = [...history];
+  for (let h = 0; h < horizon; h++) {
+    series.push(series[series.length - SEASON_LENGTH]);
+  }
+
+  const errors: number[] = [];
+  for (let t = SEASON_LENGTH; t < history.length; t++) {
+    errors.push(history[t] - history[t - SEASON_LENGTH]);
+  }
+
+  return { values: series.slice(history.length), sigma: rms(errors) };
+}
+
+export function forecastSeries(history: number[], horizon: number, method: ForecastMethod): SeriesForecast {
+  const forecast = method === 'linear'
+    ? linearForecast(history, horizon)
+    : method === 'seasonal'
+      ? seasonalForecast(history, horizon)
+      : averageForecast(history, horizon);
+
+  // Revenue and expenses do not go negative
+  return { values: forecast.values.map(value => Math.max(0, value)), sigma: forecast.sigma };
+}
+
+const band = (value: number, sigma: number, monthsAhead: number): [number, number] => {
+  const width = BAND_Z * sigma * Math.sqrt(monthsAhead);
+  return [round(Math.max(0, value - width)), round(value + width)];
+};
+
+// `history` is the monthly trend of complete months, oldest first; the months
+// from `today`'s month to the end of the fiscal year are projected.
+export function forecastFiscalYear(
+  history: TrendPoint[],
+  fiscalYear: { from: string; to: string },
+  method: ForecastMethod,
+  today = new Date()
+): FiscalYearForecast {
+  const currentMonth = formatDate(new Date(today.getFullYear(), today.getMonth(), 1));
+  const remaining = monthsInRange({ from: currentMonth > fiscalYear.from ? currentMonth : fiscalYear.from, to: fiscalYear.to });
+  const used: ForecastMethod = method === 'seasonal' && history.length < SEASON_LENGTH ? 'average' : method;
+
+  const revenue = forecastSeries(history.map(point => point.revenue), remaining.length, used);
+  const expenses = forecastSeries(history.map(point => point.expenses), remaining.length, used);
+
+  const points: ForecastPoint[] = remaining.map((month, h) => ({
+    month: month.date.toLocaleDateString('en-US', { month: 'short', year: '2-digit' }),
+    startDate: month.start,
+    endDate: month.end,
+    revenue: round(revenue.values[h]),
+    expenses: round(expenses.values[h]),
+    revenueBand: band(revenue.values[h], revenue.sigma, h + 1),
+    expensesBand: band(expenses.values[h], expenses.sigma, h + 1),
+  }));
+
+  // Actuals for the complete months of the fiscal year plus the projection
+  const actuals = history.filter(point => point.startDate && point.startDate >= fiscalYear.from && point.startDate < currentMonth);
+  const totalRevenue = actuals.reduce((sum, point) => sum + point.revenue, 0) + points.reduce((sum, point) => sum + point.revenue, 0);
+  const totalExpenses = actuals.reduce((sum, point) => sum + point.expenses, 0) + points.reduce((sum, point) => sum + point.expenses, 0);
+  const netProfit = totalRevenue - totalExpenses;
+
+  // The range uses the method's error on net profit itself, since revenue and
+  // expenses tend to move together; month h ahead contributes h times its variance
+  const netSigma = forecastSeries(history.map(point => point.revenue - point.expenses), 0, used).sigma;
+  const netWidth = BAND_Z * netSigma * Math.sqrt(points.reduce((sum, _, h) => sum + h + 1, 0));
+
+  return {
+    method: used,
+    points,
+    yearEnd: {
+      fiscalYear: { from: fiscalYear.from, to: fiscalYear.to },
+      actualThrough: actuals.length > 0 ? actuals[actuals.length - 1].endDate || null : null,
+      revenue: round(totalRevenue),
+      expenses: round(totalExpenses),
+      netProfit: round(netProfit),
+      netProfitBand: [round(netProfit - netWidth), round(netProfit + netWidth)],
+    },
+  };
+}
+
+// Adds the projection to a monthly trend: months already on the chart get the
+// forecast alongside their (partial or empty) actuals and are flagged as
+// projected; later months of the fiscal year are appended when the trend reaches
+// into it. Labels are redone so they stay consistent when a new year appears.
+export function withForecast(trend: TrendPoint[], forecast: FiscalYearForecast, range: DateRange): TrendPoint[] {
+  const byStart = new Map(forecast.points.map(point => [point.startDate, point]));
+  const lastStart = trend[trend.length - 1]?.startDate;
+  const reachesFiscalYear = !!lastStart && range.to >= forecast.yearEnd.fiscalYear.from;
+
+  const points: TrendPoint[] = trend.map(point => {
+    const projection = point.startDate ? byStart.get(point.startDate) : undefined;
+    return projection ? { ...point, ...projectedFields(projection) } : point;
+  });
+
+  if (reachesFiscalYear) {
+    for (const projection of forecast.points) {
+      if (projection.startDate > (lastStart as string)) {
+        points.push({
+          month: projection.month,
+          startDate: projection.startDate,
+          endDate: projection.endDate,
+          revenue: 0,
+          expenses: 0,
+          ...projectedFields(projection),
+        });
+      }
+    }
+  }
+
+  const starts = points.map(point => (point.startDate ? parseDate(point.startDate) : null));
+  const years = new Set(starts.filter((date): date is Date => !!date).map(date => date.getFullYear()));
+  const labelFormat: Intl.DateTimeFormatOptions = years.size > 1 ? { month: 'short', year: '2-digit' } : { month: 'short' };
+  return points.map((point, i) => {
+    const start = starts[i];
+    return start ? { ...point, month: start.toLocaleDateString('en-US', labelFormat) } : point;
+  });
+}
+
+function projectedFields(projection: ForecastPoint): Partial<TrendPoint> {
+  return {
+    projected: true,
+    forecastRevenue: projection.revenue,
+    forecastExpenses: projection.expenses,
+    revenueBand: projection.revenueBand,
+    expensesBand: projection.expensesBand,
+  };
+}
@@ -0,0 +1,147 @@
+/* Financial ratios and KPIs derived from the P&L and Balance Sheet */
+// Every KPI is defined once here, with the plain-language definition shown on its
+// dashboard card. Values come from the same section totals as the headline KPIs;
+// the Balance Sheet is read as of the end of the period. A ratio without a
+// denominator (no revenue, no current liabilities, ...) is null rather than 0.
+import {
+  ParsedReport,
+  ProfitLossSummary,
+  BalanceSheetSummary,
+  ReportNode,
+  PROFIT_AND_LOSS_GROUPS,
+  extractProfitLossSummary,
+  extractBalanceSheetSummary,
+  findSection,
+  nodeValue,
+} from './reports';
+import { daysPayableOutstanding, daysSalesOutstanding } from './aging';
+
+export type KpiFormat = 'currency' | 'percent' | 'ratio' | 'days' | 'number';
+
+export type KpiDefinition = {
+  key: string;
+  label: string;
+  format: KpiFormat;
+  definition: string;
+  increaseIsGood: boolean | null; // null when neither direction is better in itself
+};
+
+export type KpiValue = KpiDefinition & {
+  value: number | null;
+};
+
+export type KpiInputs = {
+  profitLoss: ProfitLossSummary;
+  balanceSheet: BalanceSheetSummary;
+  depreciationAndAmortization: number;
+  days: number; // length of the period, for DSO and DPO
+};
+
+export const KPI_DEFINITIONS = [
+  { key: 'revenue', label: 'Revenue', format: 'currency', increaseIsGood: true,
+    definition: 'Total income for the period' },
+  { key: 'expenses', label: 'Expenses', format: 'currency', increaseIsGood: false,
+    definition: 'Cost of goods sold, operating expenses and other expenses' },
+  { key: 'netProfit', label: 'Net Profit', format: 'currency', increaseIsGood: true,
+    definition: 'Net income from the profit and loss' },
+  { key: 'netMargin', label: 'Net Margin', format: 'percent', increaseIsGood: true,
+    definition: 'Net profit as a percentage of revenue' },
+  { key: 'cashBalance', label: 'Cash Balance', format: 'currency', increaseIsGood: true,
+    definition: 'Bank account balances at the end of the period' },
+  { key: 'grossMargin', label: 'Gross Margin', format: 'percent', increaseIsGood: true,
+    definition: 'Gross profit (revenue less cost of goods sold) as a percentage of revenue' },
+  { key: 'operatingMargin', label: 'Operating Margin', format: 'percent', increaseIsGood: true,
+    definition: 'Net operating income (gross profit less operating expenses) as a percentage of revenue' },
+  { key: 'ebitda', label: 'EBITDA', format: 'currency', increaseIsGood: true,
+    definition: 'Net operating income with depreciation and amortization added back; interest and taxes are other expenses, below operating income' },
+  { key: 'otherExpenses', label: 'Other Expenses', format: 'currency', increaseIsGood: false,
+    definition: 'Expenses outside operations, such as interest, taxes and losses' },
+  { key: 'costOfSalesRatio', label: 'COGS to Revenue', format: 'percent', increaseIsGood: false,
+    definition: 'Cost of goods sold as a percentage of revenue' },
+  { key: 'operatingExpenseRatio', label: 'Operating Expenses to Revenue', format: 'percent', increaseIsGood: false,
+    definition: 'Operating expenses as a percentage of revenue' },
+  { key: 'expenseRatio', label: 'Expenses to Revenue', format: 'percent', increaseIsGood: false,
+    definition: 'All expenses (COGS, operating and other) as a percentage of revenue' },
+  { key: 'currentRatio', label: 'Current Ratio', format: 'ratio', increaseIsGood: true,
+    definition: 'Current assets divided by current liabilities' },
+  { key: 'quickRatio', label: 'Quick Ratio', format: 'ratio', increaseIsGood: true,
+    definition: 'Cash plus accounts receivable, divided by current liabilities' },
+  { key: 'debtToEquity', label: 'Debt to Equity', format: 'ratio', increaseIsGood: false,
+    definition: 'Total liabilities divided by total equity' },
+  { key: 'workingCapital', label: 'Working Capital', format: 'currency', increaseIsGood: true,
+    definition: 'Current assets less current liabilities' },
+  { key: 'dso', label: 'DSO', format: 'days', increaseIsGood: false,
+    definition: 'Days sales outstanding: accounts receivable over revenue, scaled to the days in the period' },
+  { key: 'dpo', label: 'DPO', format: 'days', increaseIsGood: null,
+    definition: 'Days payable outstanding: accounts payable over expenses, scaled to the days in the period' },
+] as const satisfies readonly KpiDefinition[];
+
+export type KpiKey = typeof KPI_DEFINITIONS[number]['key'];
+
+const DEPRECIATION_PATTERN = /depreciation|amortization|amortisation/i;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const ratio = (numerator: number, denominator: number) => (denominator !== 0 ? numerator / denominator : null);
+
+const percentOf = (value: number, revenue: number) => (revenue > 0 ? (value / revenue) * 100 : null);
+
+// Depreciation and amortization within operating income: accounts (or parent
+// accounts) in COGS and operating expenses whose name says so, counted once at
+// the highest match. Depreciation booked as an other expense is already below
+// operating income and is not added back.
+export function depreciationAndAmortization(report: ParsedReport, column?: number): number {
+  function search(nodes: ReportNode[]): number {
+    return nodes.reduce((sum, node) => {
+      const name = node.kind === 'account' ? node.name : node.title;
+      if (DEPRECIATION_PATTERN.test(name)) return sum + nodeValue(node, column);
+      return node.kind === 'section' ? sum + search(node.rows) : sum;
+    }, 0);
+  }
+
+  return [PROFIT_AND_LOSS_GROUPS.costOfGoodsSold, PROFIT_AND_LOSS_GROUPS.expenses].reduce((sum, group) => {
+    const section = findSection(report, group);
+    return section ? sum + search(section.rows) : sum;
+  }, 0);
+}
+
+export function kpiInputs(profitLoss: ParsedReport, balanceSheet: ParsedReport, days: number): KpiInputs {
+  return {
+    profitLoss: extractProfitLossSummary(profitLoss),
+    balanceSheet: extractBalanceSheetSummary(balanceSheet),
+    depreciationAndAmortization: depreciationAndAmortization(profitLoss),
+    days,
+  };
+}
+
+export function computeKpis({ profitLoss: pl, balanceSheet: bs, depreciationAndAmortization: da, days }: KpiInputs): Record<KpiKey, number | null> {
+  const values: Record<KpiKey, number | null> = {
+    revenue: pl.revenue,
+    expenses: pl.expenses,
+    netProfit: pl.netProfit,
+    netMargin: percentOf(pl.netProfit, pl.revenue),
+    cashBalance: bs.cashBalance,
+    grossMargin: percentOf(pl.grossProfit, pl.revenue),
+    operatingMargin: percentOf(pl.netOperatingIncome, pl.revenue),
+    ebitda: pl.netOperatingIncome + da,
+    otherExpenses: pl.otherExpenses,
+    costOfSalesRatio: percentOf(pl.costOfGoodsSold, pl.revenue),
+    operatingExpenseRatio: percentOf(pl.operatingExpenses, pl.revenue),
+    expenseRatio: percentOf(pl.expenses, pl.revenue),
+    currentRatio: ratio(bs.currentAssets, bs.currentLiabilities),
+    quickRatio: ratio(bs.cashBalance + bs.accountsReceivable, bs.currentLiabilities),
+    debtToEquity: ratio(bs.totalLiabilities, bs.totalEquity),
+    workingCapital: bs.currentAssets - bs.currentLiabilities,
+    dso: daysSalesOutstanding(bs.accountsReceivable, pl.revenue, days),
+    dpo: daysPayableOutstanding(bs.accountsPayable, pl.expenses, days),
+  };
+
+  return Object.fromEntries(
+    Object.entries(values).map(([key, value]) => [key, value === null ? null : round(value)])
+  ) as Record<KpiKey, number | null>;
+}
+
+// The KPI values with their definitions, in display order
+export function kpiValues(values: Record<KpiKey, number | null>): KpiValue[] {
+  return KPI_DEFINITIONS.map(definition => ({ ...definition, value: values[definition.key] }));
+}
@@ -0,0 +1,350 @@
+/* User-defined metrics: named formulas over the P&L */
+// A formula combines numbers, account references and section totals with
+// + - * /, parentheses and unary minus, with the usual precedence:
+//   [Advertising]      an account or parent account, by name (case-insensitive)
+//   [id:81]            an account by its QBO id
+//   TotalIncome, ...   a P&L section total (see SECTION_TOTALS)
+// e.g. `([Advertising] + [Marketing]) / TotalIncome`. Accounts without activity in
+// the period are not in the report and count as 0; a division by zero makes the
+// metric null for that period.
+import { prisma } from '../db';
+import { QboClient } from '../qbo';
+import {
+  ParsedReport,
+  ProfitLossSummary,
+  extractProfitLossSummary,
+  findAccount,
+  findAccountById,
+  nodeValue,
+} from './reports';
+import { KpiValue } from './kpis';
+import { TrendInterval, TrendPoint, trendPeriods } from './trends';
+
+export const METRIC_FORMATS = ['currency', 'percent', 'ratio', 'number'] as const;
+
+export type MetricFormat = typeof METRIC_FORMATS[number];
+
+export type CustomMetric = {
+  id?: string;
+  name: string;
+  formula: string;
+  format: MetricFormat; // percent metrics are fractions, shown multiplied by 100
+  chart: boolean;
+};
+
+export type FormulaNode =
+  | { type: 'number'; value: number }
+  | { type: 'account'; name: string }
+  | { type: 'accountId'; id: string }
+  | { type: 'total'; name: SectionTotal }
+  | { type: 'negate'; operand: FormulaNode }
+  | { type: 'binary'; op: '+' | '-' | '*' | '/'; left: FormulaNode; right: FormulaNode };
+
+export type FormulaParseResult = { expression: FormulaNode; error?: undefined } | { expression?: undefined; error: string };
+
+// Section totals by the name used in formulas, read from the P&L summary so
+// reports without a subtotal row (e.g. no COGS) still work
+const SECTION_TOTALS = {
+  TotalIncome: summary => summary.revenue,
+  TotalCOGS: summary => summary.costOfGoodsSold,
+  GrossProfit: summary => summary.grossProfit,
+  TotalExpenses: summary => summary.operatingExpenses,
+  NetOperatingIncome: summary => summary.netOperatingIncome,
+  TotalOtherIncome: summary => summary.otherIncome,
+  TotalOtherExpenses: summary => summary.otherExpenses,
+  NetOtherIncome: summary => summary.otherIncome - summary.otherExpenses,
+  NetIncome: summary => summary.netProfit,
+} satisfies Record<string, (summary: ProfitLossSummary) => number>;
+
+type SectionTotal = keyof typeof SECTION_TOTALS;
+
+export const SECTION_TOTAL_NAMES = Object.keys(SECTION_TOTALS) as SectionTotal[];
+
+const MAX_FORMULA_LENGTH = 500;
+
+export const metricKey = (id: string) => `custom:${id}`;
+
+export function isMetricFormat(value: unknown): value is MetricFormat {
+  return typeof value === 'string' && (METRIC_FORMATS as readonly string[]).includes(value);
+}
+
+/* Parsing */
+
+type Token =
+  | { type: 'number'; value: number; position: number }
+  | { type: 'ref'; value: string; position: number }
+  | { type: 'name'; value: string; position: number }
+  | { type: 'op'; value: '+' | '-' | '*' | '/' | '(' | ')'; position: number };
+
+class FormulaError extends Error {}
+
+function tokenize(formula: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < formula.length) {
+    const char = formula[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if ('+-*/()'.includes(char)) {
+      tokens.push({ type: 'op', value: char as '+' | '-' | '*' | '/' | '(' | ')', position: i });
+      i++;
+    } else if (char === '[') {
+      const end = formula.indexOf(']', i + 1);
+      if (end < 0) throw new FormulaError(`Unclosed [ at position ${i + 1}`);
+      const value = formula.slice(i + 1, end).trim();
+      if (!value) throw new FormulaError(`Empty account reference at position ${i + 1}`);
+      tokens.push({ type: 'ref', value, position: i });
+      i = end + 1;
+    } else if (/[0-9.]/.test(char)) {
+      const match = formula.slice(i).match(/^(\d+(\.\d*)?|\.\d+)/);
+      if (!match) throw new FormulaError(`Invalid number at position ${i + 1}`);
+      tokens.push({ type: 'number', value: parseFloat(match[0]), position: i });
+      i += match[0].length;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const match = formula.slice(i).match(/^[A-Za-z_][A-Za-z0-9_]*/) as RegExpMatchArray;
+      tokens.push({ type: 'name', value: match[0], position: i });
+      i += match[0].length;
+    } else {
+      throw new FormulaError(`Unexpected "${char}" at position ${i + 1}`);
+    }
+  }
+
+  return tokens;
+}
+
+// Recursive descent: expression = term (+|- term)*, term = factor (*|/ factor)*
+function parseTokens(tokens: Token[]): FormulaNode {
+  let index = 0;
+  const peek = () => tokens[index];
+  const isOp = (token: Token | undefined, ...ops: string[]) => token?.type === 'op' && ops.includes(token.value);
+
+  function expression(): FormulaNode {
+    let node = term();
+    while (isOp(peek(), '+', '-')) {
+      const op = (tokens[index++] as { value: '+' | '-' }).value;
+      node = { type: 'binary', op, left: node, right: term() };
+    }
+    return node;
+  }
+
+  function term(): FormulaNode {
+    let node = factor();
+    while (isOp(peek(), '*', '/')) {
+      const op = (tokens[index++] as { value: '*' | '/' }).value;
+      node = { type: 'binary', op, left: node, right: factor() };
+    }
+    return node;
+  }
+
+  function factor(): FormulaNode {
+    const token = tokens[index++];
+    if (!token) throw new FormulaError('The formula ends unexpectedly');
+
+    switch (token.type) {
+      case 'number':
+        return { type: 'number', value: token.value };
+      case 'ref': {
+        const id = token.value.match(/^id:\s*(\S+)$/i);
+        return id ? { type: 'accountId', id: id[1] } : { type: 'account', name: token.value };
+      }
+      case 'name': {
+        const name = SECTION_TOTAL_NAMES.find(total => total.toLowerCase() === token.value.toLowerCase());
+        if (!name) {
+          throw new FormulaError(
+            `Unknown total "${token.value}" at position ${token.position + 1}; use ${SECTION_TOTAL_NAMES.join(', ')} or put account names in [brackets]`
+          );
+        }
+        return { type: 'total', name };
+      }
+      case 'op':
+        if (token.value === '-' || token.value === '+') {
+          const operand = factor();
+          return token.value === '-' ? { type: 'negate', operand } : operand;
+        }
+        if (token.value === '(') {
+          const node = expression();
+          if (!isOp(tokens[index++], ')')) throw new FormulaError(`Missing ) for the ( at position ${token.position + 1}`);
+          return node;
+        }
+        throw new FormulaError(`Unexpected "${token.value}" at position ${token.position + 1}`);
+    }
+  }
+
+  const node = expression();
+  const extra = peek();
+  if (extra) throw new FormulaError(`Unexpected "${extra.type === 'ref' ? `[${extra.value}]` : extra.value}" at position ${extra.position + 1}`);
+  return node;
+}
+
+export function parseFormula(formula: string): FormulaParseResult {
+  if (!formula.trim()) return { error: 'The formula is empty' };
+  if (formula.length > MAX_FORMULA_LENGTH) return { error: `Formulas are limited to ${MAX_FORMULA_LENGTH} characters` };
+
+  try {
+    return { expression: parseTokens(tokenize(formula)) };
+  } catch (error) {
+    if (error instanceof FormulaError) return { error: error.message };
+    throw error;
+  }
+}
+
+// Account references of a formula, for checking them against the chart of accounts
+export function formulaAccounts(node: FormulaNode): { names: string[]; ids: string[] } {
+  switch (node.type) {
+    case 'account':
+      return { names: [node.name], ids: [] };
+    case 'accountId':
+      return { names: [], ids: [node.id] };
+    case 'negate':
+      return formulaAccounts(node.operand);
+    case 'binary': {
+      const left = formulaAccounts(node.left);
+      const right = formulaAccounts(node.right);
+      return { names: [...left.names, ...right.names], ids: [...left.ids, ...right.ids] };
+    }
+    default:
+      return { names: [], ids: [] };
+  }
+}
+
+// Account references that are not income or expense accounts of the company
+export async function findUnknownAccounts(client: QboClient, node: FormulaNode): Promise<string[]> {
+  const { names, ids } = formulaAccounts(node);
+  if (names.length === 0 && ids.length === 0) return [];
+
+  // The P&L lists sub-accounts under their own name, not the fully qualified one
+  const accounts = await client.query<{ Id: string; Name?: string; Classification?: string }>(
+    'select * from Account maxresults 1000'
+  );
+  const profitAndLoss = accounts.filter(account => !account.Classification || ['Revenue', 'Expense'].includes(account.Classification));
+  const knownNames = new Set(profitAndLoss.map(account => (account.Name || '').toLowerCase()));
+  const knownIds = new Set(profitAndLoss.map(account => account.Id));
+
+  return [
+    ...names.filter(name => !knownNames.has(name.toLowerCase())).map(name => `[${name}]`),
+    ...ids.filter(id => !knownIds.has(id)).map(id => `[id:${id}]`),
+  ];
+}
+
+/* Evaluation */
+
+export function evaluateFormula(node: FormulaNode, report: ParsedReport, column?: number): number | null {
+  const summary = extractProfitLossSummary(report, column);
+
+  function evaluate(current: FormulaNode): number | null {
+    switch (current.type) {
+      case 'number':
+        return current.value;
+      case 'account': {
+        const match = findAccount(report, current.name);
+        return match ? nodeValue(match.node, column) : 0;
+      }
+      case 'accountId': {
+        const match = findAccountById(report, current.id);
+        return match ? nodeValue(match, column) : 0;
+      }
+      case 'total':
+        return SECTION_TOTALS[current.name](summary);
+      case 'negate': {
+        const value = evaluate(current.operand);
+        return value === null ? null : -value;
+      }
+      case 'binary': {
+        const left = evaluate(current.left);
+        const right = evaluate(current.right);
+        if (left === null || right === null) return null;
+        switch (current.op) {
+          case '+': return left + right;
+          case '-': return left - right;
+          case '*': return left * right;
+          case '/': return right === 0 ? null : left / right;
+        }
+      }
+    }
+  }
+
+  const value = evaluate(node);
+  return value === null || !Number.isFinite(value) ? null : value;
+}
+
+// The metric's value as displayed: percentages are scaled to 0–100
+export function metricValue(metric: CustomMetric, report: ParsedReport, column?: number): number | null {
+  const parsed = parseFormula(metric.formula);
+  if (!parsed.expression) return null;
+  const value = evaluateFormula(parsed.expression, report, column);
+  if (value === null) return null;
+  return Math.round((metric.format === 'percent' ? value * 100 : value) * 100) / 100;
+}
+
+// Metrics as KPI cards, next to the built-in ones
+export function metricKpis(metrics: CustomMetric[], report: ParsedReport): KpiValue[] {
+  return metrics
+    .filter((metric): metric is CustomMetric & { id: string } => !!metric.id)
+    .map(metric => ({
+      key: metricKey(metric.id),
+      label: metric.name,
+      format: metric.format,
+      definition: metric.formula,
+      increaseIsGood: null,
+      value: metricValue(metric, report),
+    }));
+}
+
+export function metricValues(metrics: CustomMetric[], report: ParsedReport): Record<string, number | null> {
+  return Object.fromEntries(metricKpis(metrics, report).map(kpi => [kpi.key, kpi.value]));
+}
+
+// Adds the charted metrics to a trend read from the same summarized report
+export function withMetrics(trend: TrendPoint[], report: ParsedReport, interval: TrendInterval, metrics: CustomMetric[]): TrendPoint[] {
+  const charted = metrics.filter((metric): metric is CustomMetric & { id: string } => metric.chart && !!metric.id);
+  if (charted.length === 0) return trend;
+
+  const periods = trendPeriods(report, interval);
+  return trend.map((point, i) => {
+    const period = periods[i];
+    if (!period) return point;
+    return {
+      ...point,
+      metrics: Object.fromEntries(charted.map(metric => [metricKey(metric.id), metricValue(metric, report, period.column)])),
+    };
+  });
+}
+
+/* Storage */
+
+// Validates the name, format and formula syntax of a metric sent by the editor;
+// returns the problem as a message so it can be shown next to the formula
+export function parseCustomMetric(body: unknown): { metric: CustomMetric; expression: FormulaNode } | { error: string } {
+  const input = (body || {}) as { name?: unknown; formula?: unknown; format?: unknown; chart?: unknown };
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  const formula = typeof input.formula === 'string' ? input.formula.trim() : '';
+
+  if (!name) return { error: 'A name is required' };
+  if (input.format !== undefined && !isMetricFormat(input.format)) {
+    return { error: `The format must be one of ${METRIC_FORMATS.join(', ')}` };
+  }
+
+  const parsed = parseFormula(formula);
+  if (!parsed.expression) return { error: parsed.error };
+
+  return {
+    metric: { name, formula, format: isMetricFormat(input.format) ? input.format : 'currency', chart: input.chart === true },
+    expression: parsed.expression,
+  };
+}
+
+export async function getCustomMetrics(userId: string): Promise<CustomMetric[]> {
+  const metrics = await prisma.customMetric.findMany({
+    where: { userId },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  return metrics.map(metric => ({
+    id: metric.id,
+    name: metric.name,
+    formula: metric.formula,
+    format: isMetricFormat(metric.format) ? metric.format : 'currency',
+    chart: metric.chart,
+  }));
+}
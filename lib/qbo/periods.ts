@@ -0,0 +1,284 @@
+/* Report periods: date-range presets resolved against the company's fiscal year */
+import type { QboClient, QboCompanyInfo } from '../qbo';
+
+export const TIMEFRAMES = [
+  'MONTH',
+  'QUARTER',
+  'YEAR',
+  'LAST_MONTH',
+  'LAST_QUARTER',
+  'TRAILING_12_MONTHS',
+  'PRIOR_FISCAL_YEAR',
+  'CUSTOM',
+] as const;
+
+export type Timeframe = typeof TIMEFRAMES[number];
+
+export const COMPARISON_BASES = ['PREVIOUS_PERIOD', 'SAME_PERIOD_LAST_YEAR'] as const;
+
+export type ComparisonBasis = typeof COMPARISON_BASES[number];
+
+export type DateRange = {
+  from: string; // YYYY-MM-DD
+  to: string;
+  type: Timeframe;
+};
+
+const MONTH_NAMES = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Formats in local time; toISOString() would shift the date across midnight UTC
+export function formatDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function parseDate(value: string): Date | null {
+  if (!DATE_PATTERN.test(value)) return null;
+  const [year, month, day] = value.split('-').map(Number);
+  const date = new Date(year, month - 1, day);
+  // Reject dates that rolled over, e.g. 2024-02-31
+  return date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+}
+
+function addMonths(date: Date, months: number): Date {
+  return new Date(date.getFullYear(), date.getMonth() + months, 1);
+}
+
+function dayBefore(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() - 1);
+}
+
+export function isTimeframe(value: string | null | undefined): value is Timeframe {
+  return !!value && (TIMEFRAMES as readonly string[]).includes(value);
+}
+
+// CompanyInfo reports the fiscal year start as a month name ("July"); returns 1-12
+export function parseFiscalYearStartMonth(value: unknown): number {
+  if (typeof value === 'number' && value >= 1 && value <= 12) return value;
+  if (typeof value !== 'string') return 1;
+  const index = MONTH_NAMES.indexOf(value.trim().toLowerCase());
+  return index >= 0 ? index + 1 : 1;
+}
+
+export function getFiscalYearStartMonth(companyInfo: QboCompanyInfo | null | undefined): number {
+  return parseFiscalYearStartMonth(companyInfo?.FiscalYearStartMonth);
+}
+
+// First day of the fiscal year that contains the given date
+export function fiscalYearStart(date: Date, fiscalYearStartMonth: number): Date {
+  const startMonthIndex = fiscalYearStartMonth - 1;
+  const year = date.getMonth() >= startMonthIndex ? date.getFullYear() : date.getFullYear() - 1;
+  return new Date(year, startMonthIndex, 1);
+}
+
+// Presets whose boundaries move with the fiscal year
+export function needsFiscalYear(timeframe: string | null | undefined): boolean {
+  return timeframe === 'YEAR' || timeframe === 'QUARTER' || timeframe === 'LAST_QUARTER' || timeframe === 'PRIOR_FISCAL_YEAR';
+}
+
+export function resolveDateRange(options: {
+  timeframe?: string | null;
+  fromDate?: string | null;
+  toDate?: string | null;
+  fiscalYearStartMonth?: number;
+  today?: Date;
+}): DateRange | null {
+  const { fromDate, toDate, fiscalYearStartMonth = 1, today = new Date() } = options;
+  const requested = isTimeframe(options.timeframe) ? options.timeframe : 'YEAR';
+
+  // Explicit dates always win over the preset
+  if (fromDate || toDate) {
+    const from = fromDate ? parseDate(fromDate) : null;
+    const to = toDate ? parseDate(toDate) : null;
+    if (!from || !to || from > to) return null;
+    return { from: formatDate(from), to: formatDate(to), type: 'CUSTOM' };
+  }
+
+  const monthStart = new Date(today.getFullYear(), today.getMonth(), 1);
+  const yearStart = fiscalYearStart(today, fiscalYearStartMonth);
+  let from: Date;
+  let to: Date;
+
+  switch (requested) {
+    case 'MONTH':
+      from = monthStart;
+      to = dayBefore(addMonths(monthStart, 1));
+      break;
+    case 'LAST_MONTH':
+      from = addMonths(monthStart, -1);
+      to = dayBefore(monthStart);
+      break;
+    case 'QUARTER':
+    case 'LAST_QUARTER': {
+      // Fiscal quarters are counted from the fiscal year start
+      const monthsIntoYear = (today.getFullYear() - yearStart.getFullYear()) * 12 + today.getMonth() - yearStart.getMonth();
+      const quarterStart = addMonths(yearStart, Math.floor(monthsIntoYear / 3) * 3);
+      from = requested === 'QUARTER' ? quarterStart : addMonths(quarterStart, -3);
+      to = dayBefore(addMonths(from, 3));
+      break;
+    }
+    case 'TRAILING_12_MONTHS':
+      // The last twelve complete months
+      from = addMonths(monthStart, -12);
+      to = dayBefore(monthStart);
+      break;
+    case 'PRIOR_FISCAL_YEAR':
+      from = addMonths(yearStart, -12);
+      to = dayBefore(yearStart);
+      break;
+    case 'CUSTOM':
+      // A custom range without dates has nothing to resolve to
+      return null;
+    case 'YEAR':
+    default:
+      from = yearStart;
+      to = dayBefore(addMonths(yearStart, 12));
+      break;
+  }
+
+  return { from: formatDate(from), to: formatDate(to), type: requested };
+}
+
+// Resolves the range in a request's query string, looking up the company's fiscal
+// year only when the preset depends on it.
+export async function resolveRequestDateRange(
+  client: QboClient,
+  searchParams: URLSearchParams,
+  companyInfo?: QboCompanyInfo
+): Promise<DateRange | null> {
+  const timeframe = searchParams.get('timeframe');
+  const fromDate = searchParams.get('fromDate');
+  const toDate = searchParams.get('toDate');
+
+  let fiscalYearStartMonth = 1;
+  if (!fromDate && !toDate && needsFiscalYear(timeframe || 'YEAR')) {
+    fiscalYearStartMonth = getFiscalYearStartMonth(companyInfo || await client.getCompanyInfo());
+  }
+
+  return resolveDateRange({ timeframe, fromDate, toDate, fiscalYearStartMonth });
+}
+
+// Month boundaries covered by a range, e.g. for month-by-month trend reports
+export function monthsInRange(range: { from: string; to: string }): Array<{ start: string; end: string; date: Date }> {
+  const from = parseDate(range.from);
+  const to = parseDate(range.to);
+  if (!from || !to) return [];
+
+  const months = [];
+  for (let month = new Date(from.getFullYear(), from.getMonth(), 1); month <= to; month = addMonths(month, 1)) {
+    const monthEnd = dayBefore(addMonths(month, 1));
+    months.push({
+      start: formatDate(month < from ? from : month),
+      end: formatDate(monthEnd > to ? to : monthEnd),
+      date: month,
+    });
+  }
+  return months;
+}
+
+// Calendar-year range, as used by the `year` query parameter
+export function yearRange(year: number): DateRange {
+  return { from: `${year}-01-01`, to: `${year}-12-31`, type: 'CUSTOM' };
+}
+
+// Lengths offered by the trend charts' trailing-months mode
+export const TRAILING_MONTH_OPTIONS = [12, 24, 36] as const;
+
+// The given number of complete months ending with last month
+export function trailingMonthsRange(months: number, today = new Date()): DateRange {
+  const monthStart = new Date(today.getFullYear(), today.getMonth(), 1);
+  return {
+    from: formatDate(addMonths(monthStart, -months)),
+    to: formatDate(dayBefore(monthStart)),
+    type: months === 12 ? 'TRAILING_12_MONTHS' : 'CUSTOM',
+  };
+}
+
+// Trend charts need more than a single point, so ranges within one month are
+// widened to the fiscal year that contains them.
+export function trendRange(range: DateRange, fiscalYearStartMonth: number): DateRange {
+  if (monthsInRange(range).length > 1) return range;
+
+  const end = parseDate(range.to) || new Date();
+  const start = fiscalYearStart(end, fiscalYearStartMonth);
+  return { from: formatDate(start), to: formatDate(dayBefore(addMonths(start, 12))), type: 'YEAR' };
+}
+
+// Balance sheet comparison dates for an as-of date: the end of the previous month
+// and the end of the previous fiscal year
+export function balanceSheetComparisonDates(asOf: Date, fiscalYearStartMonth: number): { priorMonthEnd: string; priorYearEnd: string } {
+  return {
+    priorMonthEnd: formatDate(dayBefore(new Date(asOf.getFullYear(), asOf.getMonth(), 1))),
+    priorYearEnd: formatDate(dayBefore(fiscalYearStart(asOf, fiscalYearStartMonth))),
+  };
+}
+
+export function isComparisonBasis(value: string | null | undefined): value is ComparisonBasis {
+  return !!value && (COMPARISON_BASES as readonly string[]).includes(value);
+}
+
+function isMonthEnd(date: Date): boolean {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1).getDate() === 1;
+}
+
+function monthEnd(year: number, monthIndex: number): Date {
+  return new Date(year, monthIndex + 1, 0);
+}
+
+// The period a range is compared against. PREVIOUS_PERIOD is the range of equal
+// length that ends the day before this one starts; ranges made of whole months
+// step back by whole months so a quarter compares with the previous quarter.
+// SAME_PERIOD_LAST_YEAR is the same dates one year earlier.
+export function comparisonRange(range: DateRange, basis: ComparisonBasis = 'PREVIOUS_PERIOD'): DateRange | null {
+  const from = parseDate(range.from);
+  const to = parseDate(range.to);
+  if (!from || !to) return null;
+
+  const wholeMonths = from.getDate() === 1 && isMonthEnd(to);
+  let previousFrom: Date;
+  let previousTo: Date;
+
+  if (basis === 'SAME_PERIOD_LAST_YEAR') {
+    previousFrom = new Date(from.getFullYear() - 1, from.getMonth(), Math.min(from.getDate(), monthEnd(from.getFullYear() - 1, from.getMonth()).getDate()));
+    // Keep month-end alignment across leap years (Feb 29 -> Feb 28 and back)
+    previousTo = isMonthEnd(to)
+      ? monthEnd(to.getFullYear() - 1, to.getMonth())
+      : new Date(to.getFullYear() - 1, to.getMonth(), Math.min(to.getDate(), monthEnd(to.getFullYear() - 1, to.getMonth()).getDate()));
+  } else if (wholeMonths) {
+    const monthCount = (to.getFullYear() - from.getFullYear()) * 12 + to.getMonth() - from.getMonth() + 1;
+    previousFrom = addMonths(from, -monthCount);
+    previousTo = dayBefore(from);
+  } else {
+    const dayCount = Math.round((to.getTime() - from.getTime()) / 86400000) + 1;
+    previousTo = dayBefore(from);
+    previousFrom = new Date(previousTo.getFullYear(), previousTo.getMonth(), previousTo.getDate() - dayCount + 1);
+  }
+
+  return { from: formatDate(previousFrom), to: formatDate(previousTo), type: 'CUSTOM' };
+}
+
+// Range plotted by the trend charts. An explicit calendar `year` or a `trailing`
+// month count wins; otherwise the dashboard's date range is followed, widened by
+// trendRange() when it covers a single month.
+export async function resolveTrendRange(client: QboClient, searchParams: URLSearchParams): Promise<DateRange | null> {
+  const year = searchParams.get('year');
+  if (year) {
+    return /^\d{4}$/.test(year) ? yearRange(parseInt(year)) : null;
+  }
+
+  const trailing = searchParams.get('trailing');
+  if (trailing) {
+    const months = parseInt(trailing);
+    return (TRAILING_MONTH_OPTIONS as readonly number[]).includes(months) ? trailingMonthsRange(months) : null;
+  }
+
+  const companyInfo = await client.getCompanyInfo();
+  const selected = await resolveRequestDateRange(client, searchParams, companyInfo);
+  return selected ? trendRange(selected, getFiscalYearStartMonth(companyInfo)) : null;
+}
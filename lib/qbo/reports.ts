@@ -0,0 +1,548 @@
+/* QBO report parsing */
+// Turns the raw Rows/Header/Summary/ColData JSON returned by the QBO Reports API
+// into a typed tree of sections, accounts and totals. Every dashboard route reads
+// its KPIs through the helpers below so a figure means the same thing everywhere.
+
+export type QboColData = {
+  value?: string;
+  id?: string;
+  href?: string;
+};
+
+export type QboReportRow = {
+  type?: string;
+  group?: string;
+  Header?: { ColData?: QboColData[] };
+  Rows?: { Row?: QboReportRow[] | QboReportRow } | QboReportRow[];
+  Summary?: { ColData?: QboColData[] };
+  ColData?: QboColData[];
+};
+
+export type QboReportColumn = {
+  ColTitle?: string;
+  ColType?: string;
+  MetaData?: Array<{ Name: string; Value: string }>;
+  Columns?: { Column?: QboReportColumn[] }; // sub-columns, e.g. Actual and Budget per month
+};
+
+export type QboReportResponse = {
+  Header?: {
+    ReportName?: string;
+    ReportBasis?: string;
+    StartPeriod?: string;
+    EndPeriod?: string;
+    SummarizeColumnsBy?: string;
+    Currency?: string;
+    Time?: string;
+  };
+  Columns?: { Column?: QboReportColumn[] };
+  Rows?: { Row?: QboReportRow[] | QboReportRow };
+};
+
+// Value columns only: the leading label column is dropped, so `values[i]` on a
+// node lines up with `columns[i]` on the report.
+export type ReportColumn = {
+  title: string;
+  type: string;
+  key?: string;
+  startDate?: string;
+  endDate?: string;
+};
+
+export type ReportTotal = {
+  label: string;
+  values: number[];
+};
+
+export type ReportAccount = {
+  kind: 'account';
+  name: string;
+  id?: string;
+  values: number[];
+};
+
+export type ReportSection = {
+  kind: 'section';
+  title: string;
+  group?: string;
+  id?: string; // set when the section is a parent account with sub-accounts
+  rows: ReportNode[];
+  total?: ReportTotal;
+};
+
+export type ReportNode = ReportAccount | ReportSection;
+
+export type ParsedReport = {
+  name: string;
+  basis?: string;
+  startPeriod?: string;
+  endPeriod?: string;
+  currency?: string;
+  columns: ReportColumn[];
+  rows: ReportNode[];
+};
+
+export type ProfitLossSummary = {
+  revenue: number;
+  costOfGoodsSold: number;
+  grossProfit: number;
+  operatingExpenses: number;
+  netOperatingIncome: number;
+  otherIncome: number;
+  otherExpenses: number;
+  expenses: number; // COGS + operating expenses + other expenses
+  netProfit: number;
+};
+
+export type BalanceSheetSummary = {
+  cashBalance: number;
+  accountsReceivable: number;
+  currentAssets: number;
+  totalAssets: number;
+  accountsPayable: number;
+  currentLiabilities: number;
+  totalLiabilities: number;
+  totalEquity: number;
+};
+
+export type BalanceSheetCheck = {
+  totalAssets: number;
+  totalLiabilitiesAndEquity: number;
+  difference: number; // assets minus liabilities and equity
+  balanced: boolean;
+};
+
+export type CashFlowSummary = {
+  operating: number;
+  investing: number;
+  financing: number;
+  netChange: number;
+  beginningCash: number;
+  endingCash: number;
+};
+
+export type ExpenseBreakdownItem = {
+  name: string;
+  id?: string;
+  value: number;
+  percentage: number;
+};
+
+// QBO tags top-level sections with a `group` attribute that does not depend on the
+// company's locale or terminology, so it is the primary way to find a section.
+export const PROFIT_AND_LOSS_GROUPS = {
+  income: 'Income',
+  costOfGoodsSold: 'COGS',
+  grossProfit: 'GrossProfit',
+  expenses: 'Expenses',
+  netOperatingIncome: 'NetOperatingIncome',
+  otherIncome: 'OtherIncome',
+  otherExpenses: 'OtherExpenses',
+  netOtherIncome: 'NetOtherIncome',
+  netIncome: 'NetIncome',
+} as const;
+
+export const BALANCE_SHEET_GROUPS = {
+  totalAssets: 'TotalAssets',
+  currentAssets: 'CurrentAssets',
+  bankAccounts: 'BankAccounts',
+  accountsReceivable: 'AR',
+  liabilities: 'Liabilities',
+  currentLiabilities: 'CurrentLiabilities',
+  accountsPayable: 'AP',
+  equity: 'Equity',
+  totalLiabilitiesAndEquity: 'TotalLiabilitiesAndEquity',
+} as const;
+
+export const CASH_FLOW_GROUPS = {
+  operating: 'OperatingActivities',
+  investing: 'InvestingActivities',
+  financing: 'FinancingActivities',
+  netChange: 'CashIncrease',
+  beginningCash: 'BeginningCash',
+  endingCash: 'EndingCash',
+} as const;
+
+export const EXPENSE_GROUPS: string[] = [
+  PROFIT_AND_LOSS_GROUPS.costOfGoodsSold,
+  PROFIT_AND_LOSS_GROUPS.expenses,
+  PROFIT_AND_LOSS_GROUPS.otherExpenses,
+];
+
+// Fallback labels (header or summary, lower-cased) for reports without `group`
+const SECTION_ALIASES: Record<string, string[]> = {
+  Income: ['income', 'total income', 'revenue', 'total revenue', 'trading income', 'total trading income'],
+  COGS: ['cost of goods sold', 'total cost of goods sold', 'cost of sales', 'total cost of sales', 'cogs', 'total cogs'],
+  GrossProfit: ['gross profit'],
+  Expenses: ['expenses', 'total expenses', 'operating expenses', 'total operating expenses'],
+  NetOperatingIncome: ['net operating income'],
+  OtherIncome: ['other income', 'total other income'],
+  OtherExpenses: ['other expenses', 'total other expenses', 'other expense', 'total other expense'],
+  NetOtherIncome: ['net other income'],
+  NetIncome: ['net income', 'profit', 'net profit'],
+  TotalAssets: ['assets', 'total assets'],
+  CurrentAssets: ['current assets', 'total current assets'],
+  AR: ['accounts receivable', 'total accounts receivable'],
+  Liabilities: ['liabilities', 'total liabilities'],
+  CurrentLiabilities: ['current liabilities', 'total current liabilities'],
+  AP: ['accounts payable', 'total accounts payable'],
+  Equity: ['equity', 'total equity'],
+  TotalLiabilitiesAndEquity: ['liabilities and equity', 'total liabilities and equity'],
+  OperatingActivities: ['operating activities', 'net cash provided by operating activities'],
+  InvestingActivities: ['investing activities', 'net cash provided by investing activities'],
+  FinancingActivities: ['financing activities', 'net cash provided by financing activities'],
+  CashIncrease: ['net cash increase for period', 'net cash decrease for period', 'net change in cash for period'],
+  BeginningCash: ['cash at beginning of period'],
+  EndingCash: ['cash at end of period'],
+  BankAccounts: ['bank accounts', 'total bank accounts', 'cash and cash equivalent', 'total cash and cash equivalent', 'cash and cash equivalents', 'total cash and cash equivalents'],
+};
+
+export function parseAmount(value: string | number | undefined | null): number {
+  if (typeof value === 'number') return isNaN(value) ? 0 : value;
+  if (!value) return 0;
+  const numericValue = parseFloat(value.replace(/,/g, ''));
+  return isNaN(numericValue) ? 0 : numericValue;
+}
+
+export function toRowArray(rows: QboReportRow['Rows'] | QboReportResponse['Rows']): QboReportRow[] {
+  if (!rows) return [];
+  if (Array.isArray(rows)) return rows;
+  if (!rows.Row) return [];
+  return Array.isArray(rows.Row) ? rows.Row : [rows.Row];
+}
+
+function parseValues(colData: QboColData[] | undefined, columnCount: number): number[] {
+  const cells = (colData || []).slice(1);
+  const count = Math.max(columnCount, cells.length);
+  const values: number[] = [];
+  for (let i = 0; i < count; i++) {
+    values.push(parseAmount(cells[i]?.value));
+  }
+  return values;
+}
+
+function parseColumns(raw: QboReportResponse): ReportColumn[] {
+  const columns = raw.Columns?.Column || [];
+  return columns.slice(1).map(column => {
+    const meta = (name: string) => column.MetaData?.find(m => m.Name === name)?.Value;
+    return {
+      title: column.ColTitle || '',
+      type: column.ColType || '',
+      key: meta('ColKey'),
+      startDate: meta('StartDate'),
+      endDate: meta('EndDate'),
+    };
+  });
+}
+
+function parseRows(rows: QboReportRow[], columnCount: number): ReportNode[] {
+  const nodes: ReportNode[] = [];
+
+  for (const row of rows) {
+    const isSection = row.type === 'Section' || !!row.Header || !!row.Summary || (!!row.Rows && !row.ColData);
+
+    if (!isSection) {
+      const cell = row.ColData?.[0];
+      if (!cell?.value) continue;
+      nodes.push({
+        kind: 'account',
+        name: cell.value,
+        id: cell.id || undefined,
+        values: parseValues(row.ColData, columnCount),
+      });
+      continue;
+    }
+
+    const header = row.Header?.ColData?.[0];
+    const children = parseRows(toRowArray(row.Rows), columnCount);
+
+    // A parent account can carry postings of its own on the header line; keep them
+    // as a leaf so the children still add up to the section total.
+    if (header?.id) {
+      const headerValues = parseValues(row.Header?.ColData, columnCount);
+      if (headerValues.some(v => v !== 0)) {
+        children.unshift({ kind: 'account', name: header.value || '', id: header.id, values: headerValues });
+      }
+    }
+
+    nodes.push({
+      kind: 'section',
+      title: header?.value || row.Summary?.ColData?.[0]?.value || '',
+      group: row.group || undefined,
+      id: header?.id || undefined,
+      rows: children,
+      total: row.Summary?.ColData
+        ? { label: row.Summary.ColData[0]?.value || '', values: parseValues(row.Summary.ColData, columnCount) }
+        : undefined,
+    });
+  }
+
+  return nodes;
+}
+
+export function parseReport(raw: unknown): ParsedReport {
+  const report = (raw || {}) as QboReportResponse;
+  const columns = parseColumns(report);
+
+  return {
+    name: report.Header?.ReportName || '',
+    basis: report.Header?.ReportBasis,
+    startPeriod: report.Header?.StartPeriod,
+    endPeriod: report.Header?.EndPeriod,
+    currency: report.Header?.Currency,
+    columns,
+    rows: parseRows(toRowArray(report.Rows), columns.length),
+  };
+}
+
+// Reads one column of a node's values; defaults to the last column, which is the
+// total in both single-column and summarize_column_by reports.
+export function valueAt(values: number[], column?: number): number {
+  if (values.length === 0) return 0;
+  const index = column === undefined ? values.length - 1 : column;
+  return values[index] ?? 0;
+}
+
+// Period columns of a summarize_column_by report, i.e. everything but the total
+export function periodColumns(report: ParsedReport): Array<ReportColumn & { index: number }> {
+  return report.columns
+    .map((column, index) => ({ ...column, index }))
+    .filter(column => column.key !== 'total' && column.title.toLowerCase() !== 'total');
+}
+
+export function nodeValue(node: ReportNode, column?: number): number {
+  if (node.kind === 'account') return valueAt(node.values, column);
+  if (node.total) return valueAt(node.total.values, column);
+  return node.rows.reduce((sum, child) => sum + nodeValue(child, column), 0);
+}
+
+export function findSection(report: ParsedReport, group: string): ReportSection | null {
+  function searchByGroup(nodes: ReportNode[]): ReportSection | null {
+    for (const node of nodes) {
+      if (node.kind !== 'section') continue;
+      if (node.group === group) return node;
+      const nested = searchByGroup(node.rows);
+      if (nested) return nested;
+    }
+    return null;
+  }
+
+  const byGroup = searchByGroup(report.rows);
+  if (byGroup) return byGroup;
+
+  const aliases = SECTION_ALIASES[group] || [];
+  for (const node of report.rows) {
+    if (node.kind !== 'section' || node.group) continue;
+    const title = node.title.toLowerCase();
+    const label = node.total?.label.toLowerCase() || '';
+    if (aliases.includes(title) || aliases.includes(label)) return node;
+  }
+
+  // Nested sections without a group (e.g. cash within current assets on some locales)
+  function searchByLabel(nodes: ReportNode[]): ReportSection | null {
+    for (const node of nodes) {
+      if (node.kind !== 'section') continue;
+      if (!node.group && node.total && aliases.includes(node.total.label.toLowerCase())) return node;
+      const nested = searchByLabel(node.rows);
+      if (nested) return nested;
+    }
+    return null;
+  }
+
+  return searchByLabel(report.rows);
+}
+
+export function sectionTotal(report: ParsedReport, group: string, column?: number): number {
+  const section = findSection(report, group);
+  return section ? nodeValue(section, column) : 0;
+}
+
+// Leaf accounts under a set of nodes, depth-first
+export function flattenAccounts(nodes: ReportNode[]): ReportAccount[] {
+  const accounts: ReportAccount[] = [];
+  for (const node of nodes) {
+    if (node.kind === 'account') accounts.push(node);
+    else accounts.push(...flattenAccounts(node.rows));
+  }
+  return accounts;
+}
+
+export function extractProfitLossSummary(report: ParsedReport, column?: number): ProfitLossSummary {
+  const total = (group: string) => sectionTotal(report, group, column);
+  const g = PROFIT_AND_LOSS_GROUPS;
+
+  const revenue = total(g.income);
+  const costOfGoodsSold = total(g.costOfGoodsSold);
+  const operatingExpenses = total(g.expenses);
+  const otherIncome = total(g.otherIncome);
+  const otherExpenses = total(g.otherExpenses);
+
+  const grossProfitSection = findSection(report, g.grossProfit);
+  const grossProfit = grossProfitSection ? nodeValue(grossProfitSection, column) : revenue - costOfGoodsSold;
+
+  const netOperatingIncomeSection = findSection(report, g.netOperatingIncome);
+  const netOperatingIncome = netOperatingIncomeSection
+    ? nodeValue(netOperatingIncomeSection, column)
+    : grossProfit - operatingExpenses;
+
+  const netIncomeSection = findSection(report, g.netIncome);
+  const netProfit = netIncomeSection
+    ? nodeValue(netIncomeSection, column)
+    : netOperatingIncome + otherIncome - otherExpenses;
+
+  return {
+    revenue,
+    costOfGoodsSold,
+    grossProfit,
+    operatingExpenses,
+    netOperatingIncome,
+    otherIncome,
+    otherExpenses,
+    expenses: costOfGoodsSold + operatingExpenses + otherExpenses,
+    netProfit,
+  };
+}
+
+export function extractBalanceSheetSummary(report: ParsedReport, column?: number): BalanceSheetSummary {
+  const g = BALANCE_SHEET_GROUPS;
+  return {
+    cashBalance: sectionTotal(report, g.bankAccounts, column),
+    accountsReceivable: sectionTotal(report, g.accountsReceivable, column),
+    currentAssets: sectionTotal(report, g.currentAssets, column),
+    totalAssets: sectionTotal(report, g.totalAssets, column),
+    accountsPayable: sectionTotal(report, g.accountsPayable, column),
+    currentLiabilities: sectionTotal(report, g.currentLiabilities, column),
+    totalLiabilities: sectionTotal(report, g.liabilities, column),
+    totalEquity: sectionTotal(report, g.equity, column),
+  };
+}
+
+// Assets should equal liabilities plus equity. The sum of the two sections is used
+// rather than QBO's own grand total, so a report that does not add up is caught.
+export function checkBalanceSheet(report: ParsedReport, column?: number): BalanceSheetCheck {
+  const { totalAssets, totalLiabilities, totalEquity } = extractBalanceSheetSummary(report, column);
+  const totalLiabilitiesAndEquity = totalLiabilities + totalEquity;
+  const difference = Math.round((totalAssets - totalLiabilitiesAndEquity) * 100) / 100;
+
+  return {
+    totalAssets,
+    totalLiabilitiesAndEquity,
+    difference,
+    balanced: difference === 0,
+  };
+}
+
+// Reads the CashFlow report. Amounts keep their sign: a negative net change or
+// ending cash (an overdraft) is reported as such.
+export function extractCashFlowSummary(report: ParsedReport, column?: number): CashFlowSummary {
+  const total = (group: string) => sectionTotal(report, group, column);
+  const g = CASH_FLOW_GROUPS;
+
+  const operating = total(g.operating);
+  const investing = total(g.investing);
+  const financing = total(g.financing);
+
+  const netChangeSection = findSection(report, g.netChange);
+  const netChange = netChangeSection ? nodeValue(netChangeSection, column) : operating + investing + financing;
+
+  const beginningCash = total(g.beginningCash);
+  const endingCashSection = findSection(report, g.endingCash);
+
+  return {
+    operating,
+    investing,
+    financing,
+    netChange,
+    beginningCash,
+    endingCash: endingCashSection ? nodeValue(endingCashSection, column) : beginningCash + netChange,
+  };
+}
+
+// Top-level accounts of the COGS, Expenses and Other Expenses sections; parent
+// accounts are reported at their rolled-up total.
+export function extractExpenseBreakdown(
+  report: ParsedReport,
+  options: { limit?: number; column?: number } = {}
+): ExpenseBreakdownItem[] {
+  const { limit = 10, column } = options;
+  const expenses: Array<{ name: string; id?: string; value: number }> = [];
+
+  for (const group of EXPENSE_GROUPS) {
+    const section = findSection(report, group);
+    if (!section) continue;
+
+    for (const node of section.rows) {
+      const name = node.kind === 'account' ? node.name : node.title;
+      const value = nodeValue(node, column);
+      if (name && value > 0) {
+        expenses.push({ name, id: node.id, value });
+      }
+    }
+  }
+
+  const totalExpenses = expenses.reduce((sum, expense) => sum + expense.value, 0);
+
+  return expenses
+    .map(expense => ({
+      ...expense,
+      percentage: totalExpenses > 0 ? (expense.value / totalExpenses) * 100 : 0,
+    }))
+    .sort((a, b) => b.value - a.value)
+    .slice(0, limit);
+}
+
+export type AccountMatch = {
+  node: ReportNode;
+  group: string;
+  topLevel: ReportNode; // the item of the section the match rolls up into
+};
+
+// Finds an account (or parent account) by name within the given P&L groups; names
+// are compared case-insensitively because they are typed in by users.
+export function findAccount(
+  report: ParsedReport,
+  name: string,
+  groups: string[] = [PROFIT_AND_LOSS_GROUPS.income, PROFIT_AND_LOSS_GROUPS.otherIncome, ...EXPENSE_GROUPS]
+): AccountMatch | null {
+  const target = name.trim().toLowerCase();
+
+  function search(nodes: ReportNode[]): ReportNode | null {
+    for (const node of nodes) {
+      const nodeName = node.kind === 'account' ? node.name : node.id ? node.title : '';
+      if (nodeName.toLowerCase() === target) return node;
+      if (node.kind === 'section') {
+        const nested = search(node.rows);
+        if (nested) return nested;
+      }
+    }
+    return null;
+  }
+
+  for (const group of groups) {
+    const section = findSection(report, group);
+    if (!section) continue;
+
+    for (const topLevel of section.rows) {
+      const node = search([topLevel]);
+      if (node) return { node, group, topLevel };
+    }
+  }
+
+  return null;
+}
+
+// Finds an account or parent account by its QBO id anywhere in the report
+export function findAccountById(report: ParsedReport, id: string): ReportNode | null {
+  function search(nodes: ReportNode[]): ReportNode | null {
+    for (const node of nodes) {
+      if (node.id === id) return node;
+      if (node.kind === 'section') {
+        const nested = search(node.rows);
+        if (nested) return nested;
+      }
+    }
+    return null;
+  }
+
+  return search(report.rows);
+}
@@ -0,0 +1,105 @@
+/* Inputs for the 13-week cash forecast and runway */
+// The forecast starts from today's bank balance and schedules open invoices and
+// bills by due date, plus recurring expenses at the recent monthly average. The
+// average leaves out non-cash expenses (depreciation and amortization, as added
+// back in the cash flow report's operating activities), and the client offsets
+// open bills against it, since paying them is part of that run-rate. The weekly
+// roll-forward and the runway at its burn rate are left to the client, so
+// collection-delay scenarios can be explored without refetching.
+import { QboClient } from '../qbo';
+import { ParsedReport, CASH_FLOW_GROUPS, parseReport, extractBalanceSheetSummary, findSection, flattenAccounts } from './reports';
+import { TrendPoint, generateTrendData } from './trends';
+import { DateRange, formatDate, trailingMonthsRange } from './periods';
+import { fetchOpenDocuments } from './aging';
+
+export const FORECAST_WEEKS = 13;
+
+// Complete months recurring expenses are averaged over
+export const RECURRING_EXPENSE_MONTHS = 3;
+
+export type ForecastItem = {
+  id: string;
+  party: string;
+  docNumber: string;
+  dueDate: string;
+  amount: number;
+  overdue: boolean; // due before the forecast starts
+};
+
+export type RecurringExpenses = {
+  monthly: number; // cash expenses only
+  weekly: number;
+  nonCash: number; // monthly non-cash expenses left out
+  period: DateRange; // the months averaged
+};
+
+export type CashForecastInputs = {
+  startDate: string; // today
+  endDate: string; // last day of the final week
+  weeks: number;
+  openingBalance: number;
+  receipts: ForecastItem[]; // open invoices
+  disbursements: ForecastItem[]; // open bills
+  recurringExpenses: RecurringExpenses;
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const WEEKS_PER_MONTH = 52 / 12;
+
+const NON_CASH_ACCOUNT = /depreciation|amortization|amortisation/i;
+
+// Depreciation and amortization added back to net income in the operating
+// activities of a cash flow report
+export function nonCashExpenses(cashFlow: ParsedReport): number {
+  const operating = findSection(cashFlow, CASH_FLOW_GROUPS.operating);
+  if (!operating) return 0;
+  return flattenAccounts(operating.rows)
+    .filter(account => NON_CASH_ACCOUNT.test(account.name))
+    .reduce((sum, account) => sum + (account.values[0] || 0), 0);
+}
+
+// The monthly average of the trend's expenses, less the period's non-cash
+// expenses spread over the same months
+export function recurringExpenses(trend: TrendPoint[], period: DateRange, nonCashTotal = 0): RecurringExpenses {
+  const months = trend.length;
+  const expenses = months > 0 ? trend.reduce((sum, point) => sum + point.expenses, 0) / months : 0;
+  const nonCash = months > 0 ? Math.min(Math.max(nonCashTotal, 0) / months, expenses) : 0;
+  const monthly = expenses - nonCash;
+  return { monthly: round(monthly), weekly: round(monthly / WEEKS_PER_MONTH), nonCash: round(nonCash), period };
+}
+
+export async function fetchCashForecastInputs(client: QboClient, today = new Date()): Promise<CashForecastInputs> {
+  const startDate = formatDate(today);
+  const endDate = formatDate(new Date(today.getFullYear(), today.getMonth(), today.getDate() + FORECAST_WEEKS * 7 - 1));
+  const expensePeriod = trailingMonthsRange(RECURRING_EXPENSE_MONTHS, today);
+
+  const [balanceSheetRaw, cashFlowRaw, invoices, bills, trend] = await Promise.all([
+    client.getReport('BalanceSheet', { start_date: startDate, end_date: startDate }),
+    client.getReport('CashFlow', { start_date: expensePeriod.from, end_date: expensePeriod.to }),
+    fetchOpenDocuments(client, 'Invoice', endDate),
+    fetchOpenDocuments(client, 'Bill', endDate),
+    generateTrendData(client, expensePeriod, 'Month'),
+  ]);
+
+  const { cashBalance } = extractBalanceSheetSummary(parseReport(balanceSheetRaw));
+
+  const toItem = (document: { id: string; party: string; docNumber: string; dueDate: string; balance: number }): ForecastItem => ({
+    id: document.id,
+    party: document.party,
+    docNumber: document.docNumber,
+    dueDate: document.dueDate || startDate,
+    amount: document.balance,
+    overdue: (document.dueDate || startDate) < startDate,
+  });
+
+  return {
+    startDate,
+    endDate,
+    weeks: FORECAST_WEEKS,
+    openingBalance: cashBalance,
+    receipts: invoices.map(toItem),
+    disbursements: bills.map(toItem),
+    recurringExpenses: recurringExpenses(trend, expensePeriod, nonCashExpenses(parseReport(cashFlowRaw))),
+  };
+}
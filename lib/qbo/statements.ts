@@ -0,0 +1,114 @@
+/* Full financial statements built from parsed QBO reports */
+// The dashboard KPIs only read a handful of section totals; the statement pages
+// render every section, parent account and account in the report instead.
+import { ParsedReport, ReportColumn, ReportNode, nodeValue, valueAt } from './reports';
+
+export type StatementLine = {
+  key: string; // unique within the statement, stable across requests
+  label: string;
+  kind: 'section' | 'account' | 'subtotal';
+  accountId?: string;
+  group?: string;
+  values: number[]; // one per statement column; sections carry their total
+  totalLabel?: string;
+  children: StatementLine[];
+};
+
+export type Statement = {
+  columns: ReportColumn[];
+  lines: StatementLine[];
+};
+
+function lineValues(node: ReportNode, columnCount: number): number[] {
+  // A report without column metadata still has its single total column
+  if (columnCount === 0) return [nodeValue(node)];
+  return Array.from({ length: columnCount }, (_, i) => nodeValue(node, i));
+}
+
+function toLines(nodes: ReportNode[], columnCount: number, parentKey: string): StatementLine[] {
+  return nodes.map((node, index) => {
+    if (node.kind === 'account') {
+      return {
+        key: `${parentKey}/${node.id || node.name || index}`,
+        label: node.name,
+        kind: 'account',
+        accountId: node.id,
+        values: lineValues(node, columnCount),
+        children: [],
+      };
+    }
+
+    const key = `${parentKey}/${node.group || node.id || node.title || index}`;
+
+    // Computed rows such as Gross Profit or Net Income have a total but no rows
+    if (node.rows.length === 0) {
+      return {
+        key,
+        label: node.total?.label || node.title,
+        kind: 'subtotal',
+        group: node.group,
+        values: lineValues(node, columnCount),
+        children: [],
+      };
+    }
+
+    return {
+      key,
+      label: node.title,
+      kind: 'section',
+      accountId: node.id,
+      group: node.group,
+      values: lineValues(node, columnCount),
+      totalLabel: node.total?.label || `Total ${node.title}`,
+      children: toLines(node.rows, columnCount, key),
+    };
+  });
+}
+
+export function buildStatement(report: ParsedReport): Statement {
+  const columns = report.columns.length > 0 ? report.columns : [{ title: 'Total', type: 'Money', key: 'total' }];
+  return {
+    columns,
+    lines: toLines(report.rows, report.columns.length, ''),
+  };
+}
+
+// Keys of all lists in order of first appearance; a key missing from the first
+// list is placed after the key that precedes it in its own list.
+function mergedKeys(lists: StatementLine[][]): string[] {
+  const keys: string[] = [];
+  for (const lines of lists) {
+    let previous = -1;
+    for (const line of lines) {
+      const index = keys.indexOf(line.key);
+      if (index >= 0) {
+        previous = index;
+      } else {
+        keys.splice(previous + 1, 0, line.key);
+        previous += 1;
+      }
+    }
+  }
+  return keys;
+}
+
+function mergeLines(lists: StatementLine[][]): StatementLine[] {
+  return mergedKeys(lists).map(key => {
+    const matches = lists.map(lines => lines.find(line => line.key === key));
+    const base = matches.find((line): line is StatementLine => !!line) as StatementLine;
+    return {
+      ...base,
+      values: matches.map(line => (line ? valueAt(line.values) : 0)),
+      children: mergeLines(matches.map(line => line?.children || [])),
+    };
+  });
+}
+
+// Puts the totals of several single-column statements (e.g. balance sheets at
+// different dates) side by side. Accounts missing from a statement show zero.
+export function combineStatements(statements: Statement[], columns: ReportColumn[]): Statement {
+  return {
+    columns,
+    lines: mergeLines(statements.map(statement => statement.lines)),
+  };
+}
@@ -0,0 +1,109 @@
+/* Account transactions for drill-down, read from the QBO GeneralLedger report */
+import { QboClient } from '../qbo';
+import {
+  QboReportResponse,
+  QboReportRow,
+  ParsedReport,
+  ReportNode,
+  parseAmount,
+  toRowArray,
+  findAccountById,
+} from './reports';
+
+export type AccountTransaction = {
+  id?: string; // id of the QBO transaction, carried on the type cell
+  date: string;
+  type: string;
+  docNumber: string;
+  payee: string;
+  memo: string;
+  amount: number;
+};
+
+const LEDGER_COLUMNS = ['tx_date', 'txn_type', 'doc_num', 'name', 'memo', 'subt_nat_amount'];
+
+// Column keys by title, for responses whose columns carry no ColKey metadata
+const COLUMN_TITLES: Record<string, string> = {
+  'date': 'tx_date',
+  'transaction type': 'txn_type',
+  'num': 'doc_num',
+  'name': 'name',
+  'memo/description': 'memo',
+  'memo': 'memo',
+  'amount': 'subt_nat_amount',
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// The account and every sub-account below it, since the ledger lists postings
+// against the account they were made to
+function accountIds(node: ReportNode): string[] {
+  const ids = node.id ? [node.id] : [];
+  if (node.kind === 'section') {
+    for (const child of node.rows) ids.push(...accountIds(child));
+  }
+  return Array.from(new Set(ids));
+}
+
+export function parseTransactions(raw: QboReportResponse): AccountTransaction[] {
+  const columnIndex = new Map<string, number>();
+  (raw.Columns?.Column || []).forEach((column, i) => {
+    const key = column.MetaData?.find(meta => meta.Name === 'ColKey')?.Value
+      || COLUMN_TITLES[(column.ColTitle || '').toLowerCase()];
+    if (key && !columnIndex.has(key)) columnIndex.set(key, i);
+  });
+
+  const transactions: AccountTransaction[] = [];
+
+  function visit(rows: QboReportRow[]) {
+    for (const row of rows) {
+      if (row.ColData) {
+        const cell = (key: string) => {
+          const index = columnIndex.get(key);
+          return index === undefined ? undefined : row.ColData?.[index];
+        };
+        const date = cell('tx_date')?.value || '';
+
+        // Beginning balance and similar rows carry no transaction date
+        if (DATE_PATTERN.test(date)) {
+          transactions.push({
+            id: cell('txn_type')?.id || undefined,
+            date,
+            type: cell('txn_type')?.value || '',
+            docNumber: cell('doc_num')?.value || '',
+            payee: cell('name')?.value || '',
+            memo: cell('memo')?.value || '',
+            amount: parseAmount(cell('subt_nat_amount')?.value),
+          });
+        }
+      }
+      visit(toRowArray(row.Rows));
+    }
+  }
+
+  visit(toRowArray(raw.Rows));
+  return transactions.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// Transactions posted to an account (and its sub-accounts) in the given range.
+// The P&L for the same range supplies the account tree; without it only the
+// account itself is queried.
+export async function fetchAccountTransactions(
+  client: QboClient,
+  accountId: string,
+  range: { from: string; to: string },
+  profitLoss?: ParsedReport
+): Promise<AccountTransaction[]> {
+  const node = profitLoss ? findAccountById(profitLoss, accountId) : null;
+  const ids = node ? accountIds(node) : [accountId];
+
+  const raw = await client.getReport('GeneralLedger', {
+    start_date: range.from,
+    end_date: range.to,
+    account: ids.join(','),
+    columns: LEDGER_COLUMNS.join(','),
+    sort_by: 'tx_date',
+  });
+
+  return parseTransactions(raw);
+}
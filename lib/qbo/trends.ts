@@ -0,0 +1,145 @@
+/* P&L trend helpers shared by the dashboard routes */
+// A trend is a single ProfitAndLoss request with summarize_column_by, read one
+// column at a time, so a range of any length costs one QBO call.
+import { QboClient } from '../qbo';
+import { parseReport, extractProfitLossSummary, extractCashFlowSummary, periodColumns, ParsedReport } from './reports';
+import { parseDate } from './periods';
+
+export const TREND_INTERVALS = ['Month', 'Quarter', 'Week'] as const;
+
+export type TrendInterval = typeof TREND_INTERVALS[number];
+
+export type TrendPoint = {
+  month: string; // period label; named for the charts' x-axis key
+  startDate?: string;
+  endDate?: string;
+  revenue: number;
+  expenses: number;
+  // Same period one year earlier, when the prior-year overlay is requested
+  priorLabel?: string;
+  priorRevenue?: number;
+  priorExpenses?: number;
+  // Projection for the current and remaining months of the fiscal year, when a
+  // forecast is requested; the bands are [low, high]
+  projected?: boolean;
+  forecastRevenue?: number;
+  forecastExpenses?: number;
+  revenueBand?: [number, number];
+  expensesBand?: [number, number];
+  // Custom metrics drawn as series, by metric key
+  metrics?: Record<string, number | null>;
+};
+
+export type CashFlowPoint = {
+  month: string;
+  startDate?: string;
+  endDate?: string;
+  operating: number;
+  investing: number;
+  financing: number;
+  netChange: number;
+};
+
+export type TrendPeriod = {
+  column: number;
+  label: string;
+  startDate?: string;
+  endDate?: string;
+};
+
+export function isTrendInterval(value: string | null | undefined): value is TrendInterval {
+  return !!value && (TREND_INTERVALS as readonly string[]).includes(value);
+}
+
+export async function fetchTrendReport(
+  client: QboClient,
+  range: { from: string; to: string },
+  interval: TrendInterval = 'Month'
+): Promise<ParsedReport> {
+  return parseReport(await client.getReport('ProfitAndLoss', {
+    start_date: range.from,
+    end_date: range.to,
+    summarize_column_by: interval,
+  }));
+}
+
+// Labels for the report's period columns. Months are labelled from their start
+// date ("Jan", or "Jan 25" when the report spans calendar years); quarters and
+// weeks keep the column titles QBO gives them.
+export function trendPeriods(report: ParsedReport, interval: TrendInterval = 'Month'): TrendPeriod[] {
+  const columns = periodColumns(report);
+  const starts = columns.map(column => (column.startDate ? parseDate(column.startDate) : null));
+  const years = new Set(starts.filter((date): date is Date => !!date).map(date => date.getFullYear()));
+  const labelFormat: Intl.DateTimeFormatOptions = years.size > 1 ? { month: 'short', year: '2-digit' } : { month: 'short' };
+
+  return columns.map((column, i) => {
+    const start = starts[i];
+    return {
+      column: column.index,
+      label: interval === 'Month' && start ? start.toLocaleDateString('en-US', labelFormat) : column.title,
+      startDate: column.startDate,
+      endDate: column.endDate,
+    };
+  });
+}
+
+export function trendFromReport(report: ParsedReport, interval: TrendInterval = 'Month'): TrendPoint[] {
+  return trendPeriods(report, interval).map(period => {
+    const { revenue, expenses } = extractProfitLossSummary(report, period.column);
+    return {
+      month: period.label,
+      startDate: period.startDate,
+      endDate: period.endDate,
+      revenue: Math.abs(revenue),
+      expenses: Math.abs(expenses),
+    };
+  });
+}
+
+export async function generateTrendData(
+  client: QboClient,
+  range: { from: string; to: string },
+  interval: TrendInterval = 'Month'
+): Promise<TrendPoint[]> {
+  return trendFromReport(await fetchTrendReport(client, range, interval), interval);
+}
+
+export async function generateCashFlowTrend(
+  client: QboClient,
+  range: { from: string; to: string },
+  interval: TrendInterval = 'Month'
+): Promise<CashFlowPoint[]> {
+  const report = parseReport(await client.getReport('CashFlow', {
+    start_date: range.from,
+    end_date: range.to,
+    summarize_column_by: interval,
+  }));
+
+  return trendPeriods(report, interval).map(period => {
+    const { operating, investing, financing, netChange } = extractCashFlowSummary(report, period.column);
+    return {
+      month: period.label,
+      startDate: period.startDate,
+      endDate: period.endDate,
+      operating,
+      investing,
+      financing,
+      netChange,
+    };
+  });
+}
+
+// Pairs each period with the same period of the prior year. Both trends come from
+// ranges one year apart with the same interval, so periods line up by position.
+export function withPriorYear(current: TrendPoint[], prior: TrendPoint[]): TrendPoint[] {
+  return current.map((point, i) => {
+    const previous = prior[i];
+    if (!previous) return point;
+    return {
+      ...point,
+      priorLabel: previous.month,
+      priorRevenue: previous.revenue,
+      priorExpenses: previous.expenses,
+    };
+  });
+}
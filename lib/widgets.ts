@@ -0,0 +1,188 @@
+/* Dashboard layout: the widgets a user placed on the grid, stored as Widget rows */
+// Positions are in grid units: x and w in columns of a 12-column grid, y and h in
+// rows. A user without saved widgets sees DEFAULT_WIDGETS, which is the layout
+// the dashboard had before it became customizable; the first change saves it.
+// `chart` widgets are assistant answers pinned to the dashboard, with the chart
+// in their data.
+import { Prisma } from '@prisma/client';
+import { prisma } from './db';
+
+export const WIDGET_TYPES = ['kpis', 'revenueExpenses', 'netProfitTrend', 'expenseBreakdown', 'expenseTable', 'chart'] as const;
+
+export type WidgetType = typeof WIDGET_TYPES[number];
+
+export type DashboardWidget = {
+  id?: string;
+  type: WidgetType;
+  title: string;
+  data: Record<string, unknown> | null;
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+};
+
+export const GRID_COLUMNS = 12;
+
+const MAX_ROWS = 200;
+const MAX_HEIGHT = 24;
+const MAX_WIDGETS = 50;
+const MAX_TITLE_LENGTH = 100;
+
+export const WIDGET_TITLES: Record<WidgetType, string> = {
+  kpis: 'KPI Cards',
+  revenueExpenses: 'Revenue vs Expenses',
+  netProfitTrend: 'Net Profit Trend',
+  expenseBreakdown: 'Expense Breakdown',
+  expenseTable: 'Category Highlights',
+  chart: 'Chart',
+};
+
+export const DEFAULT_WIDGETS: DashboardWidget[] = [
+  { type: 'kpis', title: WIDGET_TITLES.kpis, data: null, x: 0, y: 0, w: 12, h: 6 },
+  { type: 'revenueExpenses', title: WIDGET_TITLES.revenueExpenses, data: null, x: 0, y: 6, w: 6, h: 8 },
+  { type: 'netProfitTrend', title: WIDGET_TITLES.netProfitTrend, data: null, x: 6, y: 6, w: 6, h: 8 },
+  { type: 'expenseBreakdown', title: WIDGET_TITLES.expenseBreakdown, data: null, x: 0, y: 14, w: 5, h: 9 },
+  { type: 'expenseTable', title: WIDGET_TITLES.expenseTable, data: null, x: 5, y: 14, w: 7, h: 9 },
+];
+
+export function isWidgetType(value: unknown): value is WidgetType {
+  return typeof value === 'string' && (WIDGET_TYPES as readonly string[]).includes(value);
+}
+
+const isGridInteger = (value: unknown, min: number, max: number): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+
+// Validates one widget sent by the dashboard; returns the problem as a message
+export function parseWidget(body: unknown): { widget: DashboardWidget } | { error: string } {
+  const input = (body || {}) as Record<string, unknown>;
+
+  if (!isWidgetType(input.type)) {
+    return { error: `The widget type must be one of ${WIDGET_TYPES.join(', ')}` };
+  }
+  if (input.id !== undefined && typeof input.id !== 'string') {
+    return { error: 'Invalid widget id' };
+  }
+  if (!isGridInteger(input.w, 1, GRID_COLUMNS) || !isGridInteger(input.h, 1, MAX_HEIGHT)) {
+    return { error: `Widgets are 1 to ${GRID_COLUMNS} columns wide and 1 to ${MAX_HEIGHT} rows high` };
+  }
+  if (!isGridInteger(input.x, 0, GRID_COLUMNS - input.w) || !isGridInteger(input.y, 0, MAX_ROWS)) {
+    return { error: 'The widget does not fit on the grid' };
+  }
+  if (input.data !== undefined && input.data !== null && (typeof input.data !== 'object' || Array.isArray(input.data))) {
+    return { error: 'Widget data must be an object' };
+  }
+
+  const title = typeof input.title === 'string' && input.title.trim()
+    ? input.title.trim().slice(0, MAX_TITLE_LENGTH)
+    : WIDGET_TITLES[input.type];
+
+  return {
+    widget: {
+      ...(input.id ? { id: input.id } : {}),
+      type: input.type,
+      title,
+      data: (input.data as Record<string, unknown> | undefined) || null,
+      x: input.x,
+      y: input.y,
+      w: input.w,
+      h: input.h,
+    },
+  };
+}
+
+export function parseWidgetLayout(body: unknown): { widgets: DashboardWidget[] } | { error: string } {
+  const input = (body || {}) as { widgets?: unknown };
+
+  if (!Array.isArray(input.widgets)) {
+    return { error: 'widgets must be an array' };
+  }
+  if (input.widgets.length > MAX_WIDGETS) {
+    return { error: `A dashboard holds at most ${MAX_WIDGETS} widgets` };
+  }
+
+  const widgets: DashboardWidget[] = [];
+  for (const item of input.widgets) {
+    const parsed = parseWidget(item);
+    if ('error' in parsed) return parsed;
+    widgets.push(parsed.widget);
+  }
+
+  return { widgets };
+}
+
+// The columns of a Widget row, without the id
+const widgetFields = (widget: DashboardWidget) => ({
+  type: widget.type,
+  title: widget.title,
+  data: widget.data === null ? Prisma.DbNull : (widget.data as Prisma.InputJsonObject),
+  x: widget.x,
+  y: widget.y,
+  w: widget.w,
+  h: widget.h,
+});
+
+export async function getWidgets(userId: string): Promise<DashboardWidget[]> {
+  const rows = await prisma.widget.findMany({
+    where: { userId },
+    orderBy: [{ y: 'asc' }, { x: 'asc' }],
+  });
+
+  // Rows of types this version does not know are skipped rather than shown broken
+  return rows.flatMap(row => isWidgetType(row.type) ? [{
+    id: row.id,
+    type: row.type,
+    title: row.title,
+    data: row.data && typeof row.data === 'object' && !Array.isArray(row.data) ? row.data as Record<string, unknown> : null,
+    x: row.x,
+    y: row.y,
+    w: row.w,
+    h: row.h,
+  }] : []);
+}
+
+// Replaces the user's layout: widgets with an id are moved, resized or renamed,
+// widgets without one are created and saved widgets missing from the list are
+// removed. Ids of other users' widgets match nothing and are ignored.
+export async function saveWidgetLayout(userId: string, widgets: DashboardWidget[]): Promise<DashboardWidget[]> {
+  const keep = widgets.flatMap(widget => widget.id ? [widget.id] : []);
+
+  await prisma.$transaction([
+    prisma.widget.deleteMany({ where: { userId, id: { notIn: keep } } }),
+    ...widgets.map(widget => widget.id
+      ? prisma.widget.updateMany({ where: { id: widget.id, userId }, data: widgetFields(widget) })
+      : prisma.widget.create({ data: { ...widgetFields(widget), userId } })
+    ),
+  ]);
+
+  return getWidgets(userId);
+}
+
+// The saved layout, saving the default one first if there is none, so that a
+// widget added on its own does not replace the whole default dashboard
+async function ensureLayout(userId: string): Promise<DashboardWidget[]> {
+  const widgets = await getWidgets(userId);
+  return widgets.length > 0 ? widgets : saveWidgetLayout(userId, DEFAULT_WIDGETS);
+}
+
+export async function createWidget(userId: string, widget: DashboardWidget, conversationId?: string): Promise<DashboardWidget> {
+  await ensureLayout(userId);
+  const row = await prisma.widget.create({ data: { ...widgetFields(widget), userId, conversationId } });
+  return { ...widget, id: row.id };
+}
+
+// Adds a widget below everything else on the dashboard
+export async function appendWidget(
+  userId: string,
+  widget: Omit<DashboardWidget, 'x' | 'y'>,
+  conversationId?: string
+): Promise<DashboardWidget> {
+  const layout = await ensureLayout(userId);
+  const y = layout.reduce((bottom, item) => Math.max(bottom, item.y + item.h), 0);
+  return createWidget(userId, { ...widget, x: 0, y: Math.min(y, MAX_ROWS) }, conversationId);
+}
+
+export async function updateWidget(userId: string, id: string, widget: DashboardWidget): Promise<boolean> {
+  const { count } = await prisma.widget.updateMany({ where: { id, userId }, data: widgetFields(widget) });
+  return count > 0;
+}
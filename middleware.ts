@@ -1,8 +1,13 @@
+import { NextResponse } from 'next/server'
 import { withAuth } from 'next-auth/middleware'
 
 export default withAuth(
   function middleware(req) {
-    // Add any additional middleware logic here
+    // The admin console is for admins only. The token's flag is refreshed on each
+    // session check; the admin layout and API routes still check the database
+    if (req.nextUrl.pathname.startsWith('/admin') && !req.nextauth.token?.isAdmin) {
+      return NextResponse.redirect(new URL('/', req.url))
+    }
   },
   {
     callbacks: {
@@ -0,0 +1,718 @@
+/* Local stand-in for the QuickBooks Online OAuth and accounting APIs */
+// Serves fixture JSON for the endpoints the dashboard uses so the app can run
+// without an Intuit sandbox. Point the app at it with:
+//
+//   QBO_API_BASE_URL=http://localhost:4010
+//   QBO_OAUTH_BASE_URL=http://localhost:4010
+//
+// Failures are scripted through the control API under /__fake (see README.md).
+
+const http = require('http');
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+
+const PORT = parseInt(process.env.FAKE_QBO_PORT || '4010');
+const FIXTURES_DIR = process.env.FAKE_QBO_FIXTURES || path.join(__dirname, 'fixtures');
+
+const state = {
+  /** @type {Array<{ path?: string, method?: string, status?: number, times?: number, retryAfter?: number, body?: unknown, delayMs?: number }>} */
+  scripts: [],
+  /** @type {Array<{ method: string, path: string, query: string, at: string }>} */
+  requests: [],
+  revokedTokens: new Set(),
+  authorizeCount: 0,
+};
+
+function listRealms() {
+  return fs
+    .readdirSync(FIXTURES_DIR, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => entry.name)
+    .sort();
+}
+
+function defaultRealm() {
+  return process.env.FAKE_QBO_REALM || listRealms()[0];
+}
+
+// Each authorize hands out the next fixture realm so "connect another company" works
+function nextRealm() {
+  if (process.env.FAKE_QBO_REALM) return process.env.FAKE_QBO_REALM;
+  const realms = listRealms();
+  return realms[state.authorizeCount++ % realms.length];
+}
+
+// Only fixture realms are read, so a realmId such as `..` cannot leave FIXTURES_DIR
+function readFixture(realmId, ...segments) {
+  if (!listRealms().includes(realmId)) return null;
+
+  const realmDir = path.join(FIXTURES_DIR, realmId);
+  const file = path.join(realmDir, ...segments);
+  if (!file.startsWith(realmDir + path.sep) || !fs.existsSync(file)) {
+    return null;
+  }
+  return JSON.parse(fs.readFileSync(file, 'utf8'));
+}
+
+function loadScripts(file) {
+  const scripts = JSON.parse(fs.readFileSync(file, 'utf8'));
+  return Array.isArray(scripts) ? scripts : [scripts];
+}
+
+function send(res, status, body, headers = {}) {
+  const payload = body === undefined ? '' : JSON.stringify(body);
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    intuit_tid: crypto.randomUUID(),
+    ...headers,
+  });
+  res.end(payload);
+}
+
+function fault(status, message, detail) {
+  return {
+    Fault: {
+      Error: [{ Message: message, Detail: detail || message, code: String(status) }],
+      type: status === 401 ? 'AUTHENTICATION' : 'SERVICE',
+    },
+    time: new Date().toISOString(),
+  };
+}
+
+function readBody(req) {
+  return new Promise((resolve) => {
+    const chunks = [];
+    req.on('data', (chunk) => chunks.push(chunk));
+    req.on('end', () => {
+      const raw = Buffer.concat(chunks).toString('utf8');
+      if (!raw) return resolve({});
+      try {
+        resolve(JSON.parse(raw));
+      } catch {
+        resolve(Object.fromEntries(new URLSearchParams(raw)));
+      }
+    });
+  });
+}
+
+// A script is { path, method?, status, times?, retryAfter?, body?, delayMs? }. `path` is
+// a substring of the request path (or a /regex/), `times` defaults to 1 and -1 means forever.
+function takeScript(method, pathname) {
+  const index = state.scripts.findIndex((script) => {
+    if (script.method && script.method.toUpperCase() !== method) return false;
+    const pattern = script.path || '';
+    if (pattern.startsWith('/') && pattern.endsWith('/') && pattern.length > 2) {
+      return new RegExp(pattern.slice(1, -1)).test(pathname);
+    }
+    return pathname.includes(pattern);
+  });
+  if (index === -1) return null;
+
+  const script = state.scripts[index];
+  const times = script.times === undefined ? 1 : script.times;
+  if (times > 0) {
+    if (times === 1) state.scripts.splice(index, 1);
+    else state.scripts[index] = { ...script, times: times - 1 };
+  }
+  return script;
+}
+
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+function toDateString(date) {
+  return date.toISOString().slice(0, 10);
+}
+
+// Period columns for summarize_column_by, clipped to the requested range
+function reportPeriods(by, startDate, endDate) {
+  const start = new Date(`${startDate}T00:00:00Z`);
+  const end = new Date(`${endDate}T00:00:00Z`);
+  if (isNaN(start) || isNaN(end) || start > end) return null;
+
+  const periods = [];
+  let cursor = new Date(start);
+  while (cursor <= end) {
+    let next;
+    let title;
+    if (by === 'Month') {
+      next = new Date(Date.UTC(cursor.getUTCFullYear(), cursor.getUTCMonth() + 1, 1));
+      title = `${MONTH_LABELS[cursor.getUTCMonth()]} ${cursor.getUTCFullYear()}`;
+    } else if (by === 'Quarter') {
+      const quarter = Math.floor(cursor.getUTCMonth() / 3);
+      next = new Date(Date.UTC(cursor.getUTCFullYear(), quarter * 3 + 3, 1));
+      title = `Q${quarter + 1} ${cursor.getUTCFullYear()}`;
+    } else if (by === 'Week') {
+      next = new Date(cursor);
+      next.setUTCDate(cursor.getUTCDate() + 7 - cursor.getUTCDay());
+      title = `${MONTH_LABELS[cursor.getUTCMonth()]} ${cursor.getUTCDate()}, ${cursor.getUTCFullYear()}`;
+    } else if (by === 'Year') {
+      next = new Date(Date.UTC(cursor.getUTCFullYear() + 1, 0, 1));
+      title = String(cursor.getUTCFullYear());
+    } else {
+      return null;
+    }
+
+    const periodEnd = new Date(next.getTime() - 86400000);
+    periods.push({ title, start: toDateString(cursor), end: toDateString(periodEnd < end ? periodEnd : end) });
+    cursor = next;
+  }
+  return periods;
+}
+
+// Spreads each fixture amount over the periods (with a little seasonality) so the
+// columns add up to the fixture total; balance sheet amounts repeat per period.
+function summarizeReport(report, by, startDate, endDate) {
+  const periods = reportPeriods(by, startDate, endDate);
+  if (!periods) return report;
+
+  const isBalanceSheet = report.Header?.ReportName === 'BalanceSheet';
+  const weights = periods.map((period, i) => 1 + 0.2 * Math.sin(i * 1.3));
+  const weightTotal = weights.reduce((sum, weight) => sum + weight, 0);
+
+  const splitCells = (colData) => {
+    if (!Array.isArray(colData) || colData.length < 2) return colData;
+    const [label, totalCell] = colData;
+    const raw = totalCell?.value;
+    const total = parseFloat(String(raw || '').replace(/,/g, ''));
+    if (raw === '' || raw === undefined || isNaN(total)) {
+      return [label, ...periods.map(() => ({ value: '' })), { value: raw || '' }];
+    }
+
+    let allocated = 0;
+    const cells = periods.map((period, i) => {
+      if (isBalanceSheet) return { value: total.toFixed(2) };
+      const amount = i === periods.length - 1
+        ? total - allocated
+        : Math.round((total * weights[i] / weightTotal) * 100) / 100;
+      allocated += amount;
+      return { value: amount.toFixed(2) };
+    });
+    return [label, ...cells, { value: total.toFixed(2) }];
+  };
+
+  const visit = (rows) => {
+    const list = rows?.Row ? (Array.isArray(rows.Row) ? rows.Row : [rows.Row]) : [];
+    for (const row of list) {
+      if (row.Header) row.Header.ColData = splitCells(row.Header.ColData);
+      if (row.ColData) row.ColData = splitCells(row.ColData);
+      if (row.Summary) row.Summary.ColData = splitCells(row.Summary.ColData);
+      visit(row.Rows);
+    }
+  };
+  visit(report.Rows);
+
+  const [accountColumn, totalColumn] = report.Columns.Column;
+  report.Columns.Column = [
+    accountColumn,
+    ...periods.map((period) => ({
+      ColTitle: period.title,
+      ColType: 'Money',
+      MetaData: [
+        { Name: 'StartDate', Value: period.start },
+        { Name: 'EndDate', Value: period.end },
+        { Name: 'ColKey', Value: period.title },
+      ],
+    })),
+    totalColumn,
+  ];
+  report.Header.SummarizeColumnsBy = by;
+  return report;
+}
+
+// The aging reports are built from the Invoice and Bill fixtures so the buckets
+// follow the requested report_date. Only open items (Balance > 0) are listed.
+const AGING_REPORTS = {
+  AgedReceivables: { entity: 'Invoice', ref: 'CustomerRef', party: 'Customer', partyKey: 'cust_name', filter: 'customer' },
+  AgedReceivableDetail: { entity: 'Invoice', ref: 'CustomerRef', party: 'Customer', partyKey: 'cust_name', filter: 'customer', detail: true },
+  AgedPayables: { entity: 'Bill', ref: 'VendorRef', party: 'Vendor', partyKey: 'vend_name', filter: 'vendor' },
+  AgedPayableDetail: { entity: 'Bill', ref: 'VendorRef', party: 'Vendor', partyKey: 'vend_name', filter: 'vendor', detail: true },
+};
+
+const AGING_COLUMNS = [
+  { title: 'Current', key: 'current', section: 'Current' },
+  { title: '1 - 30', key: '0', section: '1 - 30 days past due' },
+  { title: '31 - 60', key: '1', section: '31 - 60 days past due' },
+  { title: '61 - 90', key: '2', section: '61 - 90 days past due' },
+  { title: '91 and over', key: '3', section: '91 or more days past due' },
+];
+
+function agingColumn(daysPastDue) {
+  if (daysPastDue <= 0) return 0;
+  return Math.min(AGING_COLUMNS.length - 1, Math.ceil(daysPastDue / 30));
+}
+
+function agingReport(realmId, name, searchParams) {
+  const config = AGING_REPORTS[name];
+  const reportDate = searchParams.get('report_date') || toDateString(new Date());
+  const asOf = new Date(`${reportDate}T00:00:00Z`);
+  const ids = searchParams.get(config.filter)?.split(',');
+
+  const items = (readFixture(realmId, 'entities', `${config.entity}.json`) || [])
+    .filter((item) => item.Balance > 0 && item.TxnDate <= reportDate)
+    .filter((item) => !ids || ids.includes(String(item[config.ref]?.value)))
+    .map((item) => {
+      const daysPastDue = Math.round((asOf - new Date(`${item.DueDate || item.TxnDate}T00:00:00Z`)) / 86400000);
+      return { item, column: agingColumn(daysPastDue) };
+    });
+
+  const money = (amount) => ({ value: amount.toFixed(2) });
+  const header = {
+    Time: new Date().toISOString(),
+    ReportName: name,
+    Currency: 'USD',
+    Option: [
+      { Name: 'report_date', Value: reportDate },
+      { Name: 'NoReportData', Value: String(items.length === 0) },
+    ],
+  };
+
+  if (!config.detail) {
+    const parties = new Map();
+    for (const { item, column } of items) {
+      const ref = item[config.ref] || {};
+      if (!parties.has(ref.value)) parties.set(ref.value, { ref, amounts: AGING_COLUMNS.map(() => 0) });
+      parties.get(ref.value).amounts[column] += item.Balance;
+    }
+    const totals = AGING_COLUMNS.map((_, i) => items.reduce((sum, { item, column }) => sum + (column === i ? item.Balance : 0), 0));
+    const sum = (amounts) => amounts.reduce((total, amount) => total + amount, 0);
+
+    return {
+      Header: header,
+      Columns: {
+        Column: [
+          { ColTitle: '', ColType: config.party },
+          ...AGING_COLUMNS.map((column) => ({ ColTitle: column.title, ColType: 'Money', MetaData: [{ Name: 'ColKey', Value: column.key }] })),
+          { ColTitle: 'Total', ColType: 'Money', MetaData: [{ Name: 'ColKey', Value: 'total' }] },
+        ],
+      },
+      Rows: {
+        Row: [
+          ...Array.from(parties.values()).map(({ ref, amounts }) => ({
+            ColData: [{ value: ref.name, id: String(ref.value) }, ...amounts.map(money), money(sum(amounts))],
+            type: 'Data',
+          })),
+          {
+            Summary: { ColData: [{ value: 'TOTAL' }, ...totals.map(money), money(sum(totals))] },
+            type: 'Section',
+            group: 'GrandTotal',
+          },
+        ],
+      },
+    };
+  }
+
+  const blank = () => ({ value: '' });
+  const sections = AGING_COLUMNS.map((column, i) => {
+    const rows = items.filter((entry) => entry.column === i).map(({ item }) => item);
+    if (rows.length === 0) return null;
+    const amount = rows.reduce((sum, item) => sum + item.TotalAmt, 0);
+    const open = rows.reduce((sum, item) => sum + item.Balance, 0);
+    return {
+      Header: { ColData: [{ value: column.section }, blank(), blank(), blank(), blank(), blank(), blank()] },
+      Rows: {
+        Row: rows.map((item) => ({
+          ColData: [
+            { value: item.TxnDate },
+            { value: config.entity, id: String(item.Id) },
+            { value: item.DocNumber || '' },
+            { value: item[config.ref]?.name || '', id: String(item[config.ref]?.value || '') },
+            { value: item.DueDate || '' },
+            money(item.TotalAmt),
+            money(item.Balance),
+          ],
+          type: 'Data',
+        })),
+      },
+      Summary: { ColData: [{ value: `Total for ${column.section}` }, blank(), blank(), blank(), blank(), money(amount), money(open)] },
+      type: 'Section',
+    };
+  }).filter(Boolean);
+
+  const column = (title, type, key) => ({ ColTitle: title, ColType: type, MetaData: [{ Name: 'ColKey', Value: key }] });
+  return {
+    Header: header,
+    Columns: {
+      Column: [
+        column('Date', 'Date', 'tx_date'),
+        column('Transaction Type', 'String', 'txn_type'),
+        column('Num', 'String', 'doc_num'),
+        column(config.party, 'String', config.partyKey),
+        column('Due Date', 'Date', 'due_date'),
+        column('Amount', 'Money', 'subt_amount'),
+        column('Open Balance', 'Money', 'subt_open_bal'),
+      ],
+    },
+    Rows: {
+      Row: [
+        ...sections,
+        {
+          Summary: {
+            ColData: [
+              { value: 'TOTAL' }, blank(), blank(), blank(), blank(),
+              money(items.reduce((sum, { item }) => sum + item.TotalAmt, 0)),
+              money(items.reduce((sum, { item }) => sum + item.Balance, 0)),
+            ],
+          },
+          type: 'Section',
+          group: 'GrandTotal',
+        },
+      ],
+    },
+  };
+}
+
+// BudgetVsActuals combines the ProfitAndLoss fixture, spread over the months like
+// summarize_column_by, with the first Budget fixture that overlaps the period.
+// Each month (and the total) nests Actual, Budget, $ Over Budget and % of Budget.
+const BUDGET_COLUMNS = [
+  { title: 'Actual', key: 'actual' },
+  { title: 'Budget', key: 'budget' },
+  { title: '$ Over Budget', key: 'over_budget' },
+  { title: '% of Budget', key: 'pct_of_budget' },
+];
+
+function budgetVsActualsReport(realmId, searchParams) {
+  const report = readFixture(realmId, 'reports', 'ProfitAndLoss.json');
+  if (!report) return null;
+
+  const startDate = searchParams.get('start_date') || report.Header.StartPeriod;
+  const endDate = searchParams.get('end_date') || report.Header.EndPeriod;
+  const periods = reportPeriods('Month', startDate, endDate);
+  if (!periods) return null;
+  summarizeReport(report, 'Month', startDate, endDate);
+
+  const budget = (readFixture(realmId, 'entities', 'Budget.json') || [])
+    .find((item) => item.StartDate <= endDate && item.EndDate >= startDate);
+  const planned = new Map();
+  for (const detail of budget?.BudgetDetail || []) {
+    const key = `${detail.AccountRef?.value}|${detail.BudgetDate.slice(0, 7)}`;
+    planned.set(key, (planned.get(key) || 0) + detail.Amount);
+  }
+
+  // Budget per month plus the total, for one account
+  const accountBudget = (id) => {
+    const months = periods.map((period) => (id ? planned.get(`${id}|${period.start.slice(0, 7)}`) || 0 : 0));
+    return [...months, months.reduce((sum, amount) => sum + amount, 0)];
+  };
+
+  const expandCells = (colData, budgets) => {
+    if (!Array.isArray(colData)) return colData;
+    const [label, ...cells] = colData;
+    return [label, ...cells.flatMap((cell, i) => {
+      const actual = parseFloat(String(cell?.value || '').replace(/,/g, ''));
+      if (!budgets || isNaN(actual)) return BUDGET_COLUMNS.map(() => ({ value: '' }));
+      const planned = budgets[i] || 0;
+      return [
+        { value: actual.toFixed(2) },
+        { value: planned.toFixed(2) },
+        { value: (actual - planned).toFixed(2) },
+        { value: planned ? ((actual / planned) * 100).toFixed(2) : '' },
+      ];
+    })];
+  };
+
+  // Returns the budgets of the rows visited so sections can total them
+  const visit = (rows) => {
+    const list = rows?.Row ? (Array.isArray(rows.Row) ? rows.Row : [rows.Row]) : [];
+    const totals = periods.map(() => 0).concat(0);
+    for (const row of list) {
+      let budgets = null;
+      if (row.ColData) {
+        budgets = accountBudget(row.ColData[0]?.id);
+        row.ColData = expandCells(row.ColData, budgets);
+      } else if (row.Rows) {
+        budgets = visit(row.Rows);
+        const headerId = row.Header?.ColData?.[0]?.id;
+        if (headerId) budgets = budgets.map((amount, i) => amount + accountBudget(headerId)[i]);
+        if (row.Header) row.Header.ColData = expandCells(row.Header.ColData, headerId ? accountBudget(headerId) : null);
+        if (row.Summary) row.Summary.ColData = expandCells(row.Summary.ColData, budgets);
+      } else if (row.Summary) {
+        row.Summary.ColData = expandCells(row.Summary.ColData, null);
+      }
+      if (budgets) budgets.forEach((amount, i) => { totals[i] += amount; });
+    }
+    return totals;
+  };
+  visit(report.Rows);
+
+  const [accountColumn, ...valueColumns] = report.Columns.Column;
+  report.Columns.Column = [
+    accountColumn,
+    ...valueColumns.map((column) => ({
+      ...column,
+      Columns: {
+        Column: BUDGET_COLUMNS.map((child) => ({
+          ColTitle: child.title,
+          ColType: 'Money',
+          MetaData: [{ Name: 'ColKey', Value: `${child.key}_${column.MetaData?.find((m) => m.Name === 'ColKey')?.Value || ''}` }],
+        })),
+      },
+    })),
+  ];
+  report.Header = {
+    ...report.Header,
+    ReportName: 'BudgetVsActuals',
+    Time: new Date().toISOString(),
+    StartPeriod: startDate,
+    EndPeriod: endDate,
+    Option: [...(report.Header.Option || []), { Name: 'Budget', Value: budget?.Name || '' }],
+  };
+  return report;
+}
+
+function issueToken(realmId) {
+  return {
+    token_type: 'bearer',
+    access_token: `fake-access-${crypto.randomBytes(12).toString('hex')}`,
+    refresh_token: `fake-refresh-${crypto.randomBytes(12).toString('hex')}`,
+    expires_in: 3600,
+    x_refresh_token_expires_in: 8726400,
+    realmId,
+  };
+}
+
+function handleAuthorize(url, res) {
+  const redirectUri = url.searchParams.get('redirect_uri');
+  if (!redirectUri) {
+    return send(res, 400, { error: 'invalid_request', error_description: 'redirect_uri is required' });
+  }
+
+  const realmId = url.searchParams.get('realmId') || nextRealm();
+  const target = new URL(redirectUri);
+  target.searchParams.set('code', `fake-code-${realmId}`);
+  target.searchParams.set('realmId', realmId);
+  if (url.searchParams.get('state')) {
+    target.searchParams.set('state', url.searchParams.get('state'));
+  }
+
+  res.writeHead(302, { Location: target.toString() });
+  res.end();
+}
+
+async function handleToken(req, res) {
+  const body = await readBody(req);
+
+  if (body.grant_type === 'authorization_code') {
+    const realmId = String(body.code || '').replace(/^fake-code-/, '') || defaultRealm();
+    return send(res, 200, issueToken(realmId));
+  }
+
+  if (body.grant_type === 'refresh_token') {
+    if (!body.refresh_token || state.revokedTokens.has(body.refresh_token)) {
+      return send(res, 400, { error: 'invalid_grant', error_description: 'Refresh token is invalid' });
+    }
+    return send(res, 200, issueToken(undefined));
+  }
+
+  return send(res, 400, { error: 'unsupported_grant_type' });
+}
+
+async function handleRevoke(req, res) {
+  const body = await readBody(req);
+  if (body.token) state.revokedTokens.add(body.token);
+  return send(res, 200, {});
+}
+
+function handleCompanyApi(url, req, res) {
+  const match = url.pathname.match(/^\/v3\/company\/([^/]+)\/(.+)$/);
+  if (!match) return send(res, 404, fault(404, 'Not found'));
+
+  const realmId = decodeURIComponent(match[1]);
+  const resource = match[2];
+
+  if (!listRealms().includes(realmId)) {
+    return send(res, 403, fault(403, 'ApplicationAuthorizationFailed', `Unknown realm ${realmId}`));
+  }
+
+  const authorization = req.headers.authorization || '';
+  const accessToken = authorization.replace(/^Bearer\s+/i, '');
+  if (!accessToken || state.revokedTokens.has(accessToken)) {
+    return send(res, 401, fault(401, 'AuthenticationFailed', 'Token revoked or missing'));
+  }
+
+  const reportMatch = resource.match(/^reports\/([A-Za-z]+)$/);
+  if (reportMatch) {
+    if (AGING_REPORTS[reportMatch[1]]) {
+      return send(res, 200, agingReport(realmId, reportMatch[1], url.searchParams));
+    }
+
+    if (reportMatch[1] === 'BudgetVsActuals') {
+      const budgetReport = budgetVsActualsReport(realmId, url.searchParams);
+      if (!budgetReport) return send(res, 400, fault(400, 'Report not available', reportMatch[1]));
+      return send(res, 200, budgetReport);
+    }
+
+    const report = readFixture(realmId, 'reports', `${reportMatch[1]}.json`);
+    if (!report) return send(res, 400, fault(400, 'Report not available', reportMatch[1]));
+
+    // Echo the requested period back like QBO does
+    report.Header = {
+      ...report.Header,
+      Time: new Date().toISOString(),
+      StartPeriod: url.searchParams.get('start_date') || report.Header?.StartPeriod,
+      EndPeriod: url.searchParams.get('end_date') || report.Header?.EndPeriod,
+    };
+
+    // GeneralLedger `account` filter: keep only the listed accounts' sections
+    const accounts = url.searchParams.get('account');
+    if (accounts && Array.isArray(report.Rows?.Row)) {
+      const ids = accounts.split(',');
+      report.Rows.Row = report.Rows.Row.filter((row) => ids.includes(row.Header?.ColData?.[0]?.id));
+    }
+
+    const summarizeBy = url.searchParams.get('summarize_column_by');
+    if (summarizeBy && summarizeBy !== 'Total') {
+      return send(res, 200, summarizeReport(report, summarizeBy, report.Header.StartPeriod, report.Header.EndPeriod));
+    }
+    return send(res, 200, report);
+  }
+
+  if (resource.startsWith('companyinfo/')) {
+    return send(res, 200, { CompanyInfo: readFixture(realmId, 'companyinfo.json'), time: new Date().toISOString() });
+  }
+
+  if (resource === 'query') {
+    return handleQuery(realmId, url.searchParams.get('query') || '', res);
+  }
+
+  const entityMatch = resource.match(/^([a-z]+)\/([^/]+)$/i);
+  if (entityMatch) {
+    const entityName = entityMatch[1].charAt(0).toUpperCase() + entityMatch[1].slice(1).toLowerCase();
+    const entities = readFixture(realmId, 'entities', `${entityName}.json`) || [];
+    const entity = entities.find((item) => String(item.Id) === decodeURIComponent(entityMatch[2]));
+    if (!entity) return send(res, 400, fault(400, 'Object Not Found', `${entityName} ${entityMatch[2]}`));
+    return send(res, 200, { [entityName]: entity, time: new Date().toISOString() });
+  }
+
+  return send(res, 404, fault(404, 'Unsupported resource', resource));
+}
+
+// Understands `select * from <Entity> [where <Field> = '<value>' [and ...]]` plus
+// STARTPOSITION/MAXRESULTS, which covers what the dashboard sends.
+function handleQuery(realmId, query, res) {
+  const fromMatch = query.match(/from\s+([A-Za-z]+)/i);
+  if (!fromMatch) return send(res, 400, fault(400, 'QueryParserError', query));
+
+  const entityName = fromMatch[1].charAt(0).toUpperCase() + fromMatch[1].slice(1);
+  let entities = readFixture(realmId, 'entities', `${entityName}.json`) || [];
+
+  const whereMatch = query.match(/where\s+(.+?)(?:\s+orderby|\s+startposition|\s+maxresults|$)/i);
+  if (whereMatch) {
+    const conditions = whereMatch[1].split(/\s+and\s+/i);
+    for (const condition of conditions) {
+      const parts = condition.match(/^\s*([\w.]+)\s*(=|>|<|>=|<=)\s*'?([^']*)'?\s*$/);
+      if (!parts) continue;
+      const [, field, operator, value] = parts;
+      entities = entities.filter((entity) => {
+        let actual = field.split('.').reduce((current, key) => (current == null ? current : current[key]), entity);
+        // Reference fields such as CustomerRef compare on their `value`
+        if (actual && typeof actual === 'object' && 'value' in actual) actual = actual.value;
+        const numeric = typeof actual === 'number' && value !== '' && !isNaN(Number(value));
+        const left = numeric ? actual : String(actual ?? '');
+        const right = numeric ? Number(value) : value;
+        switch (operator) {
+          case '=': return left === right;
+          case '>': return left > right;
+          case '<': return left < right;
+          case '>=': return left >= right;
+          case '<=': return left <= right;
+          default: return true;
+        }
+      });
+    }
+  }
+
+  const startPosition = parseInt(query.match(/startposition\s+(\d+)/i)?.[1] || '1');
+  const maxResults = parseInt(query.match(/maxresults\s+(\d+)/i)?.[1] || '1000');
+  const page = entities.slice(startPosition - 1, startPosition - 1 + maxResults);
+
+  return send(res, 200, {
+    QueryResponse: page.length > 0
+      ? { [entityName]: page, startPosition, maxResults: page.length }
+      : {},
+    time: new Date().toISOString(),
+  });
+}
+
+async function handleControl(url, req, res) {
+  const route = url.pathname.replace(/^\/__fake\/?/, '');
+
+  if (route === 'scripts' && req.method === 'POST') {
+    const body = await readBody(req);
+    state.scripts.push(...(Array.isArray(body) ? body : [body]));
+    return send(res, 200, { scripts: state.scripts });
+  }
+  if (route === 'scripts' && req.method === 'GET') {
+    return send(res, 200, { scripts: state.scripts });
+  }
+  if (route === 'scripts' && req.method === 'DELETE') {
+    state.scripts = [];
+    return send(res, 200, { scripts: state.scripts });
+  }
+  if (route === 'requests' && req.method === 'GET') {
+    return send(res, 200, { requests: state.requests });
+  }
+  if (route === 'reset' && req.method === 'POST') {
+    state.scripts = [];
+    state.requests = [];
+    state.revokedTokens.clear();
+    state.authorizeCount = 0;
+    return send(res, 200, { ok: true });
+  }
+  if (route === 'realms' && req.method === 'GET') {
+    return send(res, 200, { realms: listRealms() });
+  }
+
+  return send(res, 404, { error: `Unknown control route ${route}` });
+}
+
+async function handle(req, res) {
+  const url = new URL(req.url, `http://${req.headers.host || 'localhost'}`);
+  const method = req.method || 'GET';
+
+  if (url.pathname.startsWith('/__fake')) {
+    return handleControl(url, req, res);
+  }
+
+  state.requests.push({ method, path: url.pathname, query: url.search, at: new Date().toISOString() });
+
+  const script = takeScript(method, url.pathname);
+  if (script) {
+    if (script.delayMs) await new Promise((resolve) => setTimeout(resolve, script.delayMs));
+    const headers = script.retryAfter !== undefined ? { 'Retry-After': String(script.retryAfter) } : {};
+    const status = script.status || 500;
+    const body = script.body !== undefined
+      ? script.body
+      : fault(status, status === 429 ? 'ThrottleExceeded' : status === 401 ? 'AuthenticationFailed' : 'Internal Server Error');
+    return send(res, status, body, headers);
+  }
+
+  if (url.pathname === '/connect/oauth2' && method === 'GET') return handleAuthorize(url, res);
+  if (url.pathname === '/oauth2/v1/tokens/bearer' && method === 'POST') return handleToken(req, res);
+  if (url.pathname === '/oauth2/v1/tokens/revoke' && method === 'POST') return handleRevoke(req, res);
+  if (url.pathname.startsWith('/v3/company/')) return handleCompanyApi(url, req, res);
+
+  return send(res, 404, fault(404, 'Not found', url.pathname));
+}
+
+function createServer() {
+  return http.createServer((req, res) => {
+    handle(req, res).catch((error) => {
+      console.error('fake-qbo error:', error);
+      send(res, 500, fault(500, 'Fake server error', error.message));
+    });
+  });
+}
+
+module.exports = { createServer, state };
+
+if (require.main === module) {
+  if (process.env.FAKE_QBO_SCRIPTS) {
+    state.scripts.push(...loadScripts(process.env.FAKE_QBO_SCRIPTS));
+  }
+
+  createServer().listen(PORT, () => {
+    console.log(`Fake QBO server listening on http://localhost:${PORT} (realms: ${listRealms().join(', ')})`);
+  });
+}
@@ -0,0 +1,121 @@
+/* In-app budget CSV import */
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/lib/db', () => ({ prisma: {} }));
+
+import { BudgetCsvImport, BudgetGridAccount, BudgetMonth, parseBudgetCsv } from '@/lib/qbo/budgets';
+
+const months: BudgetMonth[] = [
+  { label: 'Jan 2026', startDate: '2026-01-01', endDate: '2026-01-31' },
+  { label: 'Feb 2026', startDate: '2026-02-01', endDate: '2026-02-28' },
+  { label: 'Mar 2026', startDate: '2026-03-01', endDate: '2026-03-31' },
+];
+
+const accounts: BudgetGridAccount[] = [
+  { id: '79', name: 'Sales', kind: 'income' },
+  { id: '17', name: 'Rent or Lease', kind: 'expense' },
+  { id: '90', name: 'Meals, Entertainment', kind: 'expense' },
+];
+
+describe('parseBudgetCsv', () => {
+  it.each<{ name: string; csv: string; expected: BudgetCsvImport }>([
+    {
+      name: 'a wide layout with one column per month',
+      csv: 'Account,Jan 2026,Feb 2026,Mar 2026\nSales,1000,1100,1200\nRent or Lease,500,500,500\n',
+      expected: {
+        lines: [
+          { accountId: '79', accountName: 'Sales', amounts: [1000, 1100, 1200] },
+          { accountId: '17', accountName: 'Rent or Lease', amounts: [500, 500, 500] },
+        ],
+        unmatched: [],
+        errors: [],
+      },
+    },
+    {
+      name: 'a long layout with one row per account and month',
+      csv: 'Account,Month,Amount\nSales,2026-01,1000\nSales,2026-03,1200\nRent or Lease,February 2026,500\n',
+      expected: {
+        lines: [
+          { accountId: '79', accountName: 'Sales', amounts: [1000, 0, 1200] },
+          { accountId: '17', accountName: 'Rent or Lease', amounts: [0, 500, 0] },
+        ],
+        unmatched: [],
+        errors: [],
+      },
+    },
+    {
+      name: 'quoted cells with embedded commas and quotes',
+      csv: 'Account,Jan,Feb,Mar\n"Meals, Entertainment","1,200","2,400",""\n"Sales ""retail""",1,1,1\n',
+      expected: {
+        lines: [{ accountId: '90', accountName: 'Meals, Entertainment', amounts: [1200, 2400, 0] }],
+        unmatched: ['Sales "retail"'],
+        errors: [],
+      },
+    },
+    {
+      name: 'currency symbols and parenthesised negatives',
+      csv: 'Account,Jan 2026,Feb 2026,Mar 2026\nSales,"$1,234.50",(500),-$25\n',
+      expected: {
+        lines: [{ accountId: '79', accountName: 'Sales', amounts: [1234.5, -500, -25] }],
+        unmatched: [],
+        errors: [],
+      },
+    },
+    {
+      name: 'an account id column, with names used only for rows without an id',
+      csv: 'Account ID,Account,Jan 2026\n17,Office Rent,300\n,sales,100\n99,Sales,5\n',
+      expected: {
+        lines: [
+          { accountId: '17', accountName: 'Rent or Lease', amounts: [300, 0, 0] },
+          { accountId: '79', accountName: 'Sales', amounts: [100, 0, 0] },
+        ],
+        unmatched: ['Sales'],
+        errors: [],
+      },
+    },
+    {
+      name: 'accounts that are not in the P&L',
+      csv: 'Account,Jan 2026\nSales,100\nTravel,50\n',
+      expected: {
+        lines: [{ accountId: '79', accountName: 'Sales', amounts: [100, 0, 0] }],
+        unmatched: ['Travel'],
+        errors: [],
+      },
+    },
+    {
+      name: 'empty rows and rows without an account',
+      csv: 'Account,Jan 2026\r\n\r\nSales,100\r\n,,\r\n,200\r\n',
+      expected: {
+        lines: [{ accountId: '79', accountName: 'Sales', amounts: [100, 0, 0] }],
+        unmatched: [],
+        errors: [],
+      },
+    },
+    {
+      name: 'malformed amounts and months',
+      csv: 'Account,Month,Amount\nSales,2026-01,abc\nSales,2025-12,100\nSales,2026-02,50\n',
+      expected: {
+        lines: [{ accountId: '79', accountName: 'Sales', amounts: [0, 50, 0] }],
+        unmatched: [],
+        errors: ['Row 2: "abc" is not an amount', 'Row 3: "2025-12" is not a month of this fiscal year'],
+      },
+    },
+    {
+      name: 'no account column',
+      csv: 'Category,Jan 2026\nSales,100\n',
+      expected: { lines: [], unmatched: [], errors: ['No "Account" column found'] },
+    },
+    {
+      name: 'no month columns of the fiscal year',
+      csv: 'Account,Jan 2025,Total\nSales,100,100\n',
+      expected: { lines: [], unmatched: [], errors: ['No month columns for this fiscal year found'] },
+    },
+    {
+      name: 'a header without accounts',
+      csv: 'Account,Jan 2026\n',
+      expected: { lines: [], unmatched: [], errors: ['The file needs a header row and at least one account'] },
+    },
+  ])('reads $name', ({ csv, expected }) => {
+    expect(parseBudgetCsv(csv, months, accounts)).toEqual(expected);
+  });
+});
@@ -0,0 +1,52 @@
+/* Intercompany eliminations over the fake QBO server's fixture P&Ls */
+// Both fixture companies have a Utilities parent account with Gas and Electric
+// and Telephone under it.
+import { readFileSync } from 'fs';
+import path from 'path';
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/lib/db', () => ({ prisma: {} }));
+
+import { EntityProfitLoss, consolidateProfitLoss } from '@/lib/qbo/consolidation';
+import { parseReport } from '@/lib/qbo/reports';
+
+const fixtureProfitLoss = (realmId: string) =>
+  parseReport(JSON.parse(readFileSync(path.join(__dirname, '../scripts/fake-qbo/fixtures', realmId, 'reports/ProfitAndLoss.json'), 'utf8')));
+
+const entities: EntityProfitLoss[] = [
+  { realmId: '9130357000000001', name: 'Larkspur Bakery Co', profitLoss: fixtureProfitLoss('9130357000000001') },
+  { realmId: '9130357000000002', name: 'Harbor Light Coffee Roasters', profitLoss: fixtureProfitLoss('9130357000000002') },
+];
+
+describe('consolidateProfitLoss', () => {
+  it.each([
+    ['parent first', ['Utilities', 'Telephone']],
+    ['sub-account first', ['Telephone', 'Utilities']],
+  ])('eliminates a sub-account once when its parent account is matched too (%s)', (_, names) => {
+    const rules = [{ name: 'Shared utilities', accounts: names.map(accountName => ({ accountName })) }];
+
+    const { eliminations, consolidated } = consolidateProfitLoss(entities, rules);
+
+    expect(eliminations.entries).toEqual([
+      { rule: 'Shared utilities', realmId: '9130357000000001', accountName: 'Utilities', group: 'Expenses', amount: 3000 },
+      { rule: 'Shared utilities', realmId: '9130357000000002', accountName: 'Utilities', group: 'Expenses', amount: 1500 },
+    ]);
+    expect(eliminations.summary.operatingExpenses).toBe(-4500);
+    expect(eliminations.summary.netProfit).toBe(4500);
+    expect(consolidated.summary.operatingExpenses).toBe(59350 + 29675 - 4500);
+    expect(consolidated.expenseBreakdown.find(item => item.name === 'Utilities')).toBeUndefined();
+  });
+
+  it('eliminates an account mapped by two rules once', () => {
+    const rules = [
+      { name: 'Phones', accounts: [{ realmId: '9130357000000001', accountName: 'Telephone' }] },
+      { name: 'Telephone again', accounts: [{ realmId: '9130357000000001', accountName: 'telephone' }] },
+    ];
+
+    const { eliminations } = consolidateProfitLoss(entities, rules);
+
+    expect(eliminations.entries).toHaveLength(1);
+    expect(eliminations.entries[0]).toMatchObject({ rule: 'Phones', accountName: 'Telephone', amount: 900 });
+    expect(eliminations.summary.operatingExpenses).toBe(-900);
+  });
+});
@@ -0,0 +1,163 @@
+/* QboClient and the dashboard routes against the fake QBO server */
+// The server from scripts/fake-qbo runs in-process on a free port; Prisma is
+// replaced by an in-memory store holding one QBO connection, and the session by
+// a fixed user.
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { createServer, state } from '../scripts/fake-qbo/server.js';
+
+const REALM_ID = '9130357000000001';
+const USER_ID = 'user-1';
+
+const db = vi.hoisted(() => {
+  type TokenRow = { userId: string; realmId: string; accessToken: string } & Record<string, unknown>;
+  type TokenWhere = { userId_realmId: { userId: string; realmId: string } };
+  type CacheWhere = { realmId_reportName_params: { realmId: string; reportName: string; params: unknown } };
+
+  const tokens: TokenRow[] = [];
+  const reports = new Map<string, Record<string, unknown>>();
+  const cacheKey = (where: CacheWhere) => JSON.stringify(where.realmId_reportName_params);
+  const findToken = (where: TokenWhere) =>
+    tokens.find(token => token.userId === where.userId_realmId.userId && token.realmId === where.userId_realmId.realmId) || null;
+
+  return {
+    tokens,
+    reports,
+    prisma: {
+      qboToken: {
+        findUnique: async ({ where }: { where: TokenWhere }) => findToken(where),
+        findFirst: async ({ where }: { where: { userId: string } }) => tokens.find(token => token.userId === where.userId) || null,
+        upsert: async ({ where, update, create }: { where: TokenWhere; update: Partial<TokenRow>; create: TokenRow }) => {
+          const token = findToken(where);
+          if (token) return Object.assign(token, update);
+          tokens.push({ ...create, createdAt: new Date(), updatedAt: new Date() });
+          return create;
+        },
+      },
+      qboReportCache: {
+        findUnique: async ({ where }: { where: CacheWhere }) => reports.get(cacheKey(where)) || null,
+        upsert: async ({ where, create }: { where: CacheWhere; create: Record<string, unknown> }) => {
+          reports.set(cacheKey(where), create);
+          return create;
+        },
+      },
+      customMetric: {
+        findMany: async () => [],
+      },
+    },
+  };
+});
+
+vi.mock('@/lib/db', () => ({ prisma: db.prisma }));
+vi.mock('next-auth', () => ({ getServerSession: async () => ({ user: { id: USER_ID } }) }));
+
+import { QboClient } from '@/lib/qbo';
+import { GET as getGeneral } from '@/app/api/dashboard/general/route';
+
+const server = createServer();
+
+beforeAll(async () => {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  process.env.QBO_API_BASE_URL = base;
+  process.env.QBO_OAUTH_BASE_URL = base;
+  process.env.INTUIT_CLIENT_ID = 'test-client';
+  process.env.INTUIT_CLIENT_SECRET = 'test-secret';
+  process.env.INTUIT_REDIRECT_URI = 'http://localhost:3002/api/qbo/callback';
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  state.scripts = [];
+  state.requests = [];
+  db.reports.clear();
+  db.tokens.splice(0, db.tokens.length, {
+    userId: USER_ID,
+    realmId: REALM_ID,
+    tokenType: 'bearer',
+    accessToken: 'fake-access-initial',
+    refreshToken: 'fake-refresh-initial',
+    expiresIn: 3600,
+    refreshTokenExpiresIn: 8726400,
+    idToken: null,
+    accessTokenExpiresAt: new Date(Date.now() + 3600 * 1000),
+    refreshTokenExpiresAt: new Date(Date.now() + 8726400 * 1000),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+});
+
+const companyRequests = () => state.requests.filter(request => request.path.startsWith('/v3/company/'));
+
+describe('QboClient', () => {
+  it('refreshes the access token after a 401 and retries the request', async () => {
+    state.scripts.push({ path: '/v3/company/', status: 401 });
+    const client = await QboClient.forUser(USER_ID, REALM_ID);
+
+    const info = await client!.getCompanyInfo();
+
+    expect(info.CompanyName).toBeTruthy();
+    expect(companyRequests()).toHaveLength(2);
+    expect(state.requests.some(request => request.path === '/oauth2/v1/tokens/bearer')).toBe(true);
+    expect(db.tokens[0].accessToken).not.toBe('fake-access-initial');
+  });
+
+  it('gives up when the refreshed token is rejected too', async () => {
+    state.scripts.push({ path: '/v3/company/', status: 401, times: 2 });
+    const client = await QboClient.forUser(USER_ID, REALM_ID);
+
+    await expect(client!.getCompanyInfo()).rejects.toMatchObject({ name: 'QboApiError', status: 401 });
+    expect(companyRequests()).toHaveLength(2);
+  });
+
+  it('retries a throttled request after Retry-After', async () => {
+    state.scripts.push({ path: '/reports/ProfitAndLoss', status: 429, retryAfter: 0, times: 2 });
+    const client = await QboClient.forUser(USER_ID, REALM_ID);
+
+    const report = await client!.getReport('ProfitAndLoss', { start_date: '2025-01-01', end_date: '2025-12-31' });
+
+    expect(report.Header?.ReportName).toBe('ProfitAndLoss');
+    expect(companyRequests()).toHaveLength(3);
+  });
+
+  it('stops retrying a request that stays throttled', async () => {
+    state.scripts.push({ path: '/reports/ProfitAndLoss', status: 429, retryAfter: 0, times: -1 });
+    const client = await QboClient.forUser(USER_ID, REALM_ID);
+
+    await expect(
+      client!.getReport('ProfitAndLoss', { start_date: '2025-01-01', end_date: '2025-12-31' })
+    ).rejects.toMatchObject({ name: 'QboApiError', status: 429, retryAfter: 0 });
+    expect(companyRequests()).toHaveLength(4);
+  });
+});
+
+describe('GET /api/dashboard/general', () => {
+  it('returns KPIs and the expense breakdown for the fixture company', async () => {
+    const response = await getGeneral(
+      new NextRequest(`http://localhost/api/dashboard/general?timeframe=YEAR&realmId=${REALM_ID}`)
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.organisation).toMatchObject({ name: 'Larkspur Bakery Co', realmId: REALM_ID });
+    expect(data.kpis).toMatchObject({ revenue: 120500, netProfit: 21500 });
+    expect(data.expenseBreakdown.length).toBeGreaterThan(0);
+    expect(data.kpiLibrary.length).toBeGreaterThan(0);
+  });
+
+  it('reports a QBO failure as a 500', async () => {
+    state.scripts.push({ path: '/reports/BalanceSheet', status: 500, times: -1 });
+
+    const response = await getGeneral(
+      new NextRequest(`http://localhost/api/dashboard/general?timeframe=YEAR&realmId=${REALM_ID}`)
+    );
+
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual({ error: 'Failed to fetch general data' });
+  });
+});
@@ -0,0 +1,97 @@
+/* Custom metric formulas: parsing and evaluation against a fixture P&L */
+import { readFileSync } from 'fs';
+import path from 'path';
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/lib/db', () => ({ prisma: {} }));
+
+import { evaluateFormula, parseFormula } from '@/lib/qbo/metrics';
+import { parseReport } from '@/lib/qbo/reports';
+
+// Larkspur Bakery Co: income 120,500, Advertising 4,200, Payroll Expenses 33,600
+// (Wages 30,000 and Payroll Taxes 3,600), net income 21,500; no Marketing account
+const profitLoss = parseReport(
+  JSON.parse(readFileSync(path.join(__dirname, '../scripts/fake-qbo/fixtures/9130357000000001/reports/ProfitAndLoss.json'), 'utf8'))
+);
+
+const evaluate = (formula: string) => {
+  const parsed = parseFormula(formula);
+  if (!parsed.expression) throw new Error(parsed.error);
+  return evaluateFormula(parsed.expression, profitLoss);
+};
+
+describe('parseFormula', () => {
+  it('binds * and / tighter than + and -', () => {
+    expect(parseFormula('1 + 2 * 3').expression).toEqual({
+      type: 'binary',
+      op: '+',
+      left: { type: 'number', value: 1 },
+      right: { type: 'binary', op: '*', left: { type: 'number', value: 2 }, right: { type: 'number', value: 3 } },
+    });
+  });
+
+  it('reads references and totals', () => {
+    expect(parseFormula('[ Advertising ] - [id:61] * netincome').expression).toEqual({
+      type: 'binary',
+      op: '-',
+      left: { type: 'account', name: 'Advertising' },
+      right: { type: 'binary', op: '*', left: { type: 'accountId', id: '61' }, right: { type: 'total', name: 'NetIncome' } },
+    });
+  });
+
+  it('reports an unknown total name with its position', () => {
+    const { error } = parseFormula('[Advertising] / Revenue');
+
+    expect(error).toMatch(/^Unknown total "Revenue" at position 17; use TotalIncome, /);
+  });
+
+  it.each([
+    ['', 'The formula is empty'],
+    ['(1 + 2', 'Missing ) for the ( at position 1'],
+    ['1 +', 'The formula ends unexpectedly'],
+    ['[Advertising', 'Unclosed [ at position 1'],
+    ['[ ] + 1', 'Empty account reference at position 1'],
+    ['1 2', 'Unexpected "2" at position 3'],
+    ['2 * )', 'Unexpected ")" at position 5'],
+    ['10 % 3', 'Unexpected "%" at position 4'],
+    ['1'.repeat(501), 'Formulas are limited to 500 characters'],
+  ])('rejects %j', (formula, error) => {
+    expect(parseFormula(formula)).toEqual({ error });
+  });
+});
+
+describe('evaluateFormula', () => {
+  it.each([
+    ['1 + 2 * 3', 7],
+    ['(1 + 2) * 3', 9],
+    ['10 - 4 - 3', 3],
+    ['8 / 4 / 2', 1],
+    ['2 * (3 + (4 - 1)) / 4', 3],
+    ['-2 * 3', -6],
+    ['2 * -3', -6],
+    ['-(1 + 2)', -3],
+    ['--4', 4],
+    ['+.5 + 1.5', 2],
+  ])('evaluates %s to %d', (formula, value) => {
+    expect(evaluate(formula)).toBe(value);
+  });
+
+  it('evaluates the request example with the usual precedence', () => {
+    // [Marketing] is not in the report and counts as 0, so only [Advertising] is left
+    expect(evaluate('[Advertising] + [Marketing] / TotalIncome')).toBe(4200);
+    expect(evaluate('([Advertising] + [Marketing]) / TotalIncome')).toBeCloseTo(4200 / 120500, 10);
+  });
+
+  it('reads accounts by name or id, parent accounts at their total, and section totals', () => {
+    expect(evaluate('[payroll expenses]')).toBe(33600);
+    expect(evaluate('[id:61] + [Payroll Taxes]')).toBe(33600);
+    expect(evaluate('GrossProfit - TotalExpenses')).toBe(23150);
+    expect(evaluate('NetIncome / TotalIncome * 100')).toBeCloseTo(17.84, 2);
+  });
+
+  it('makes a division by zero null', () => {
+    expect(evaluate('1 / 0')).toBeNull();
+    expect(evaluate('TotalIncome / [Marketing]')).toBeNull();
+    expect(evaluate('1 + -(2 / ([Advertising] - [Advertising]))')).toBeNull();
+  });
+});
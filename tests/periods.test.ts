@@ -0,0 +1,89 @@
+/* Report periods: date-range presets and the periods they are compared with */
+import { describe, expect, it } from 'vitest';
+import { DateRange, balanceSheetComparisonDates, comparisonRange, resolveDateRange } from '@/lib/qbo/periods';
+
+// Local dates, as the presets are resolved in local time
+const day = (value: string) => {
+  const [year, month, date] = value.split('-').map(Number);
+  return new Date(year, month - 1, date);
+};
+
+describe('resolveDateRange', () => {
+  describe('with a fiscal year starting in July', () => {
+    it.each([
+      // today, timeframe, from, to
+      ['2026-02-15', 'QUARTER', '2026-01-01', '2026-03-31'], // Q3
+      ['2026-02-15', 'LAST_QUARTER', '2025-10-01', '2025-12-31'],
+      ['2026-02-15', 'YEAR', '2025-07-01', '2026-06-30'],
+      ['2026-02-15', 'PRIOR_FISCAL_YEAR', '2024-07-01', '2025-06-30'],
+      ['2026-05-20', 'QUARTER', '2026-04-01', '2026-06-30'], // Q4
+      ['2026-05-20', 'LAST_QUARTER', '2026-01-01', '2026-03-31'],
+      ['2026-06-30', 'YEAR', '2025-07-01', '2026-06-30'], // last day of the fiscal year
+      ['2026-07-01', 'YEAR', '2026-07-01', '2027-06-30'], // first day of the next one
+      ['2026-07-01', 'QUARTER', '2026-07-01', '2026-09-30'],
+      ['2026-07-01', 'LAST_QUARTER', '2026-04-01', '2026-06-30'],
+    ])('on %s resolves %s to %s – %s', (today, timeframe, from, to) => {
+      expect(resolveDateRange({ timeframe, fiscalYearStartMonth: 7, today: day(today) })).toEqual({ from, to, type: timeframe });
+    });
+  });
+
+  it('uses calendar quarters when the fiscal year starts in January', () => {
+    expect(resolveDateRange({ timeframe: 'QUARTER', today: day('2026-02-15') })).toEqual({
+      from: '2026-01-01',
+      to: '2026-03-31',
+      type: 'QUARTER',
+    });
+  });
+
+  it('prefers explicit dates over the preset', () => {
+    expect(resolveDateRange({ timeframe: 'QUARTER', fromDate: '2026-01-10', toDate: '2026-02-20', fiscalYearStartMonth: 7 })).toEqual({
+      from: '2026-01-10',
+      to: '2026-02-20',
+      type: 'CUSTOM',
+    });
+  });
+});
+
+describe('comparisonRange', () => {
+  const range = (from: string, to: string): DateRange => ({ from, to, type: 'CUSTOM' });
+
+  it.each([
+    // from, to, basis, previous from, previous to
+    ['2026-03-01', '2026-03-31', 'PREVIOUS_PERIOD', '2026-02-01', '2026-02-28'],
+    ['2026-04-01', '2026-06-30', 'PREVIOUS_PERIOD', '2026-01-01', '2026-03-31'],
+    ['2026-03-01', '2026-03-31', 'SAME_PERIOD_LAST_YEAR', '2025-03-01', '2025-03-31'],
+    ['2026-04-01', '2026-06-30', 'SAME_PERIOD_LAST_YEAR', '2025-04-01', '2025-06-30'],
+    // Fiscal year starting in July
+    ['2025-07-01', '2026-06-30', 'PREVIOUS_PERIOD', '2024-07-01', '2025-06-30'],
+    ['2025-07-01', '2026-06-30', 'SAME_PERIOD_LAST_YEAR', '2024-07-01', '2025-06-30'],
+    // Leap years keep month-end alignment
+    ['2024-02-01', '2024-02-29', 'SAME_PERIOD_LAST_YEAR', '2023-02-01', '2023-02-28'],
+    ['2025-02-01', '2025-02-28', 'SAME_PERIOD_LAST_YEAR', '2024-02-01', '2024-02-29'],
+    ['2024-02-29', '2024-02-29', 'SAME_PERIOD_LAST_YEAR', '2023-02-28', '2023-02-28'],
+    ['2024-03-01', '2024-03-31', 'PREVIOUS_PERIOD', '2024-02-01', '2024-02-29'],
+    // Ranges that do not align to months step back by days
+    ['2026-01-10', '2026-02-20', 'PREVIOUS_PERIOD', '2025-11-29', '2026-01-09'],
+    ['2026-01-10', '2026-02-20', 'SAME_PERIOD_LAST_YEAR', '2025-01-10', '2025-02-20'],
+    ['2026-03-15', '2026-03-31', 'PREVIOUS_PERIOD', '2026-02-26', '2026-03-14'],
+  ] as const)('compares %s – %s (%s) with %s – %s', (from, to, basis, previousFrom, previousTo) => {
+    expect(comparisonRange(range(from, to), basis)).toEqual({ from: previousFrom, to: previousTo, type: 'CUSTOM' });
+  });
+
+  it('returns null for an invalid range', () => {
+    expect(comparisonRange(range('2026-02-30', '2026-03-31'))).toBeNull();
+  });
+});
+
+describe('balanceSheetComparisonDates', () => {
+  it.each([
+    // as of, fiscal year start month, prior month end, prior fiscal year end
+    ['2026-03-31', 1, '2026-02-28', '2025-12-31'],
+    ['2026-01-15', 1, '2025-12-31', '2025-12-31'],
+    ['2024-03-10', 1, '2024-02-29', '2023-12-31'],
+    ['2026-02-15', 7, '2026-01-31', '2025-06-30'],
+    ['2026-07-15', 7, '2026-06-30', '2026-06-30'],
+    ['2026-06-30', 7, '2026-05-31', '2025-06-30'],
+  ])('as of %s with the fiscal year starting in month %i', (asOf, fiscalYearStartMonth, priorMonthEnd, priorYearEnd) => {
+    expect(balanceSheetComparisonDates(day(asOf), fiscalYearStartMonth)).toEqual({ priorMonthEnd, priorYearEnd });
+  });
+});
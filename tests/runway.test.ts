@@ -0,0 +1,102 @@
+/* 13-week cash forecast: recurring cash expenses and the weekly roll-forward */
+import { readFileSync } from 'fs';
+import path from 'path';
+import { describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/lib/db', () => ({ prisma: {} }));
+
+import { nonCashExpenses, recurringExpenses } from '@/lib/qbo/runway';
+import { parseReport } from '@/lib/qbo/reports';
+import { CashForecastData, projectCashForecast } from '@/app/components/CashForecastChart';
+
+const PERIOD = { from: '2025-10-01', to: '2025-12-31', type: 'CUSTOM' as const };
+
+const point = (month: string, expenses: number) => ({ month, revenue: 0, expenses });
+
+const forecast = (options: { weekly: number; weeks?: number; bills?: Array<[string, number]>; receipts?: Array<[string, number]> }): CashForecastData => {
+  const startDate = '2026-01-05';
+  const item = ([dueDate, amount]: [string, number], i: number) => ({
+    id: String(i + 1),
+    party: 'Vendor',
+    docNumber: String(1000 + i),
+    dueDate,
+    amount,
+    overdue: dueDate < startDate,
+  });
+
+  return {
+    startDate,
+    endDate: '2026-04-05',
+    weeks: options.weeks ?? 13,
+    openingBalance: 10000,
+    receipts: (options.receipts || []).map(item),
+    disbursements: (options.bills || []).map(item),
+    recurringExpenses: { monthly: 0, weekly: options.weekly, nonCash: 0, period: PERIOD },
+  };
+};
+
+const noDelay = { invoiceDelayDays: 0, overdueDelayDays: 0 };
+
+describe('recurringExpenses', () => {
+  it('averages monthly expenses less the non-cash expenses of the period', () => {
+    const trend = [point('Oct 2025', 10000), point('Nov 2025', 12000), point('Dec 2025', 14000)];
+
+    expect(recurringExpenses(trend, PERIOD, 1800)).toEqual({
+      monthly: 11400,
+      weekly: 2630.77,
+      nonCash: 600,
+      period: PERIOD,
+    });
+  });
+
+  it('never leaves negative cash expenses', () => {
+    expect(recurringExpenses([point('Oct 2025', 100)], PERIOD, 500)).toMatchObject({ monthly: 0, weekly: 0, nonCash: 100 });
+    expect(recurringExpenses([], PERIOD, 500)).toMatchObject({ monthly: 0, weekly: 0, nonCash: 0 });
+  });
+
+  it('reads depreciation from the fixture cash flow report', () => {
+    const cashFlow = parseReport(
+      JSON.parse(readFileSync(path.join(__dirname, '../scripts/fake-qbo/fixtures/9130357000000001/reports/CashFlow.json'), 'utf8'))
+    );
+
+    expect(nonCashExpenses(cashFlow)).toBe(1800);
+  });
+});
+
+describe('projectCashForecast', () => {
+  it('pays open bills out of the run-rate instead of on top of it', () => {
+    const { points } = projectCashForecast(forecast({ weekly: 1000, weeks: 4, bills: [['2026-01-05', 1500]] }), noDelay);
+
+    expect(points.map(point => point.disbursements)).toEqual([1500, 500, 1000, 1000]);
+    expect(points[points.length - 1].balance).toBe(10000 - 4000);
+  });
+
+  it('pays bills beyond the run-rate when they fall due', () => {
+    const { points } = projectCashForecast(forecast({ weekly: 1000, weeks: 4, bills: [['2026-01-12', 6000]] }), noDelay);
+
+    expect(points.map(point => point.disbursements)).toEqual([1000, 5000, 0, 0]);
+  });
+
+  it('pays overdue bills in the first week', () => {
+    const { points } = projectCashForecast(forecast({ weekly: 0, weeks: 2, bills: [['2025-12-01', 800]] }), noDelay);
+
+    expect(points.map(point => point.disbursements)).toEqual([800, 0]);
+  });
+
+  it('derives the burn and runway from the net outflow', () => {
+    const result = projectCashForecast(forecast({ weekly: 1000 }), noDelay);
+
+    expect(result.monthlyBurn).toBe(4333.33);
+    expect(result.runwayMonths).toBe(2.3);
+    expect(result.firstShortfall?.startDate).toBe('2026-03-16');
+  });
+
+  it('delays receipts by the scenario and leaves out those past the last week', () => {
+    const data = forecast({ weekly: 0, weeks: 4, receipts: [['2026-01-05', 300], ['2026-01-20', 700]] });
+
+    const result = projectCashForecast(data, { invoiceDelayDays: 14, overdueDelayDays: 0 });
+
+    expect(result.points.map(point => point.receipts)).toEqual([0, 0, 300, 0]);
+    expect(result.deferredReceipts).toBe(700);
+  });
+});
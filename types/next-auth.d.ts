@@ -7,6 +7,7 @@ declare module 'next-auth' {
       email: string
       name?: string | null
       image?: string | null
+      isAdmin: boolean
     }
   }
 
@@ -15,6 +16,14 @@ declare module 'next-auth' {
     email: string
     name?: string | null
     image?: string | null
+    isAdmin?: boolean
+  }
+}
+
+declare module 'next-auth/jwt' {
+  interface JWT {
+    id?: string
+    isAdmin?: boolean
   }
 }
 